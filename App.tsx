@@ -1,15 +1,56 @@
 import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
-import { UserData, GeneratedPlan, Exercise, WorkoutLog, User } from './types';
-import { generateWorkoutPlan } from './services/geminiService';
-import * as db from './services/dbService';
+import { UserData, GeneratedPlan, GeneratedDietPlan, WorkoutLog, User, ExerciseLog, PlanVersion, ScheduledSession, BodyMeasurement } from './types';
+import { generatePlanWithFallback } from './services/planGenerationService';
+import { getActiveProvider } from './services/providers';
+import { suggestExerciseSwaps } from './services/exerciseSwapService';
+import * as db from './services/dataStore';
+import * as sync from './services/syncService';
+import { useSyncStatus } from './hooks/useSyncStatus';
+import { usePlanEditor } from './hooks/usePlanEditor';
+import * as planHistory from './services/planHistoryService';
+import * as bodyMetrics from './services/bodyMetricsService';
+import * as coach from './services/coachService';
+import { CoachClient } from './services/coachService';
 import WorkoutForm from './components/WorkoutForm';
 import WorkoutPlanDisplay from './components/WorkoutPlanDisplay';
 import { UserIcon, WeightIcon, HeightIcon, UsersIcon, BarChartIcon, TargetIcon, DumbbellIcon, XCircleIcon } from './components/Icons';
 import { calculateBMI } from './utils/calculateBmi';
+import { progressPlan, applyExerciseSwaps } from './utils/progression';
+import { PlanValidationError } from './utils/validation';
+import { toPlanExercise } from './utils/exerciseMatcher';
+import { commandFromPath } from './utils/planEditCommands';
+import { syncSchedule, isScheduleInSync, nextWeekStart, getNextSession } from './utils/schedule';
+import { latestValue, measurementFromProfile, sortMeasurements } from './utils/bodyMetrics';
+import { formatHeight, formatWeight, metricBodyStats, parseHeight, parseWeight, weightIn } from './utils/units';
+import { applyLimitations } from './utils/limitations';
+import { equipmentFromText } from './utils/templatePlanGenerator';
 import Splitter from './components/Splitter';
 import ProfileDropdown from './components/ProfileDropdown';
 import LoginDetailsView from './components/LoginDetailsView';
 import ThemeSwitcher from './components/ThemeSwitcher';
+import SetLogger from './components/SetLogger';
+import WorkoutPlayer from './components/WorkoutPlayer';
+import LimitationsPanel from './components/LimitationsPanel';
+import SessionPrepCard from './components/SessionPrepCard';
+import ExerciseHistoryView from './components/ExerciseHistoryView';
+import BodyMetricsView from './components/BodyMetricsView';
+import AnalyticsDashboard from './components/AnalyticsDashboard';
+import DietPanel from './components/DietPanel';
+import ExercisePicker from './components/ExercisePicker';
+import SyncConflictModal from './components/SyncConflictModal';
+import PlanHistoryView from './components/PlanHistoryView';
+import PlanEditorToolbar from './components/PlanEditorToolbar';
+import TodaySessionCard from './components/TodaySessionCard';
+import CalendarExportModal from './components/CalendarExportModal';
+import DataTransferPanel from './components/DataTransferPanel';
+import CoachDashboard from './components/CoachDashboard';
+import CoachModePanel from './components/CoachModePanel';
+import { AccountData } from './utils/accountTransfer';
+import PrintPlanModal from './components/PrintPlanModal';
+import PrintablePlan, { PrintOptions } from './components/PrintablePlan';
+import { usePrintJob } from './hooks/usePrintJob';
+import { createPortal } from 'react-dom';
+import { LibraryExercise } from './data/exerciseLibrary';
 
 type AppState = 'FORM' | 'PLAN_VIEW';
 export type ActiveView = 'PLAN' | 'DIET' | 'PROGRESS' | 'PROFILE' | 'EDIT_PLAN';
@@ -18,16 +59,20 @@ interface AppProps {
   currentUser: User;
   onLogout: () => void;
   onChangePassword: (username: string, oldPass: string, newPass: string) => Promise<void>;
+  onEnableCoachMode: (username: string) => Promise<void>;
 }
 
-const App: React.FC<AppProps> = ({ currentUser, onLogout, onChangePassword }) => {
+const App: React.FC<AppProps> = ({ currentUser, onLogout, onChangePassword, onEnableCoachMode }) => {
   const [appState, setAppState] = useState<AppState>('FORM');
   const [userData, setUserData] = useState<UserData | null>(null);
   const [workoutPlan, setWorkoutPlan] = useState<GeneratedPlan | null>(null);
-  const [editingPlan, setEditingPlan] = useState<GeneratedPlan | null>(null);
+  const planEditor = usePlanEditor();
+  const editingPlan = planEditor.plan;
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
   const [workoutHistory, setWorkoutHistory] = useState<WorkoutLog[]>([]);
+  const [bodyMeasurements, setBodyMeasurements] = useState<BodyMeasurement[]>([]);
   const [showNewWeekMessage, setShowNewWeekMessage] = useState(false);
   const [isDataLoaded, setIsDataLoaded] = useState(false);
   
@@ -39,6 +84,20 @@ const App: React.FC<AppProps> = ({ currentUser, onLogout, onChangePassword }) =>
   const isResizing = useRef(false);
   const mainContainerRef = useRef<HTMLElement>(null);
   const [isAccountModalOpen, setIsAccountModalOpen] = useState(false);
+  const [setLoggingDayIndex, setSetLoggingDayIndex] = useState<number | null>(null);
+  const [playerDayIndex, setPlayerDayIndex] = useState<number | null>(null);
+  const [refreshStaleExercises, setRefreshStaleExercises] = useState(false);
+  const [pickerTarget, setPickerTarget] = useState<{ dayIndex: number; groupIndex: number } | null>(null);
+  const syncStatus = useSyncStatus();
+  const [planVersions, setPlanVersions] = useState<PlanVersion[] | null>(null);
+  const [forkedFromVersionId, setForkedFromVersionId] = useState<string | null>(null);
+  const [isCoachDashboardOpen, setIsCoachDashboardOpen] = useState(false);
+  // Set while the editor holds one of the coach's clients' plans instead of the coach's own.
+  const [editingClient, setEditingClient] = useState<CoachClient | null>(null);
+  const [isCalendarExportOpen, setIsCalendarExportOpen] = useState(false);
+  const [isPrintModalOpen, setIsPrintModalOpen] = useState(false);
+  const [printDietPlan, setPrintDietPlan] = useState<GeneratedDietPlan | null | undefined>(undefined);
+  const printJob = usePrintJob<PrintOptions>();
 
   useEffect(() => {
     const loadData = async () => {
@@ -46,11 +105,13 @@ const App: React.FC<AppProps> = ({ currentUser, onLogout, onChangePassword }) =>
       try {
         const profile = await db.getProfile(currentUser.username);
         const history = await db.getWorkoutLogs(currentUser.username);
+        const measurements = await bodyMetrics.getMeasurements(currentUser.username);
 
         if (profile) {
           setUserData(profile.userData);
           if (profile.workoutPlan) {
             setWorkoutPlan(profile.workoutPlan);
+            setSelectedDayIndex(getNextSession(profile.workoutPlan)?.dayIndex ?? 0);
             setAppState('PLAN_VIEW');
           } else {
             setAppState('FORM');
@@ -63,6 +124,7 @@ const App: React.FC<AppProps> = ({ currentUser, onLogout, onChangePassword }) =>
           });
         }
         setWorkoutHistory(history);
+        setBodyMeasurements(measurements);
       } catch (e) {
         console.error("Failed to load data from database", e);
         setError("Could not load your data. Please try refreshing the page.");
@@ -84,6 +146,22 @@ const App: React.FC<AppProps> = ({ currentUser, onLogout, onChangePassword }) =>
     db.saveProfile(profileToSave).catch(e => console.error("Failed to save profile", e));
   }, [userData, workoutPlan, currentUser, isDataLoaded]);
 
+  // Changes merged in from another device replace what is on screen.
+  useEffect(() => {
+    if (!db.isServerMode) return;
+    return sync.onProfileChanged(profile => {
+      setUserData(profile.userData);
+      setWorkoutPlan(profile.workoutPlan);
+    });
+  }, []);
+
+  // Every plan day gets a date: new plans, plans saved before scheduling existed, and edits.
+  useEffect(() => {
+    if (workoutPlan && !isScheduleInSync(workoutPlan)) {
+      setWorkoutPlan(prev => prev && { ...prev, schedule: syncSchedule(prev) });
+    }
+  }, [workoutPlan]);
+
   useEffect(() => {
     if (workoutPlan?.plan && workoutPlan?.completedDays) {
         const isCompleted = workoutPlan.plan.length > 0 && workoutPlan.plan.length === workoutPlan.completedDays.length;
@@ -134,6 +212,11 @@ const App: React.FC<AppProps> = ({ currentUser, onLogout, onChangePassword }) =>
   }, [handleResizeMouseMove, handleResizeMouseUp]);
 
 
+  const recordPlanVersion = useCallback((version: planHistory.NewPlanVersion) => {
+    planHistory.recordPlanVersion(currentUser.username, version)
+      .catch(e => console.error("Failed to record plan version", e));
+  }, [currentUser]);
+
   const handleGeneratePlan = useCallback(async (data: UserData) => {
     if (data.freeDays.length === 0) {
       setError('Please select at least one free day for your workout.');
@@ -143,29 +226,61 @@ const App: React.FC<AppProps> = ({ currentUser, onLogout, onChangePassword }) =>
     setShowNewWeekMessage(false);
     setIsLoading(true);
     setError(null);
+    setNotice(null);
     setWorkoutPlan(null);
-    setEditingPlan(null);
+    planEditor.close();
     setActiveView('PLAN');
     setSelectedDayIndex(0);
 
+    // A new weight typed into the form is a weigh-in; record it so the history keeps it.
+    const weighIn = measurementFromProfile(data, bodyMeasurements);
+    if (weighIn) {
+      bodyMetrics.saveMeasurement(currentUser.username, weighIn)
+        .then(() => setBodyMeasurements(prev => sortMeasurements([...prev, weighIn])))
+        .catch(e => console.error("Failed to record weigh-in", e));
+    }
+
     try {
-      const bmi = calculateBMI(data.weight, data.height);
-      const plan = await generateWorkoutPlan(data, bmi);
+      const stats = metricBodyStats(data);
+      const bmi = calculateBMI(stats.weight, stats.height);
+      const { plan, provider, usedFallback } = await generatePlanWithFallback(data, bmi);
       setWorkoutPlan(plan);
+      recordPlanVersion({ source: 'ai', plan, userData: data, provider: provider.label });
+      if (usedFallback) {
+        setNotice('The AI coach could not be reached, so this plan was built by the offline planner. You can generate a new plan later.');
+      }
       setAppState('PLAN_VIEW');
     } catch (err) {
       console.error(err);
-      setError('Failed to generate workout plan. Please check your inputs or try again later.');
+      setError(err instanceof PlanValidationError
+        ? `${err.message} Please try again or adjust your session time.`
+        : 'Failed to generate workout plan. Please check your inputs or try again later.');
       setAppState('FORM');
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [recordPlanVersion, bodyMeasurements, currentUser]);
   
   const handleUpdateUserData = (newUserData: UserData) => {
     setUserData(newUserData);
   };
 
+  const handleSaveMeasurement = async (measurement: BodyMeasurement) => {
+    await bodyMetrics.saveMeasurement(currentUser.username, measurement);
+    const isNewestWeight = measurement.weight !== undefined
+      && !bodyMeasurements.some(m => m.weight !== undefined && m.date > measurement.date);
+    setBodyMeasurements(prev => sortMeasurements([...prev.filter(m => m.id !== measurement.id), measurement]));
+    // The profile's weight follows the latest weigh-in, so the next plan is built for it.
+    if (isNewestWeight) {
+      setUserData(prev => prev && { ...prev, weight: String(weightIn(measurement.weight!, prev.units)) });
+    }
+  };
+
+  const handleDeleteMeasurement = async (id: string) => {
+    await bodyMetrics.deleteMeasurement(currentUser.username, id);
+    setBodyMeasurements(prev => prev.filter(m => m.id !== id));
+  };
+
   const handleRegenerateWithNewData = useCallback(async (newUserData: UserData) => {
     setUserData(newUserData);
     await handleGeneratePlan(newUserData);
@@ -173,80 +288,196 @@ const App: React.FC<AppProps> = ({ currentUser, onLogout, onChangePassword }) =>
 
   const handleStartEdit = () => {
     if (workoutPlan) {
-      setEditingPlan(JSON.parse(JSON.stringify(workoutPlan)));
+      planEditor.open(workoutPlan);
+      setEditingClient(null);
     }
   };
   
   const handleSaveChanges = () => {
-    setWorkoutPlan(editingPlan);
-    setEditingPlan(null);
+    if (editingClient) {
+      if (editingPlan) handleSaveClientPlan(editingClient, editingPlan);
+    } else {
+      setWorkoutPlan(editingPlan);
+      if (editingPlan && userData) {
+        recordPlanVersion({ source: 'manual-edit', plan: editingPlan, userData, parentId: forkedFromVersionId ?? undefined });
+      }
+    }
+    planEditor.close();
+    setForkedFromVersionId(null);
+    setEditingClient(null);
+  };
+
+  const handleEditClientPlan = (client: CoachClient) => {
+    if (!client.profile?.workoutPlan) return;
+    planEditor.open(client.profile.workoutPlan);
+    setEditingClient(client);
+    setForkedFromVersionId(null);
+    setSelectedDayIndex(0);
+    setActiveView('EDIT_PLAN');
+    setIsCoachDashboardOpen(false);
+  };
+
+  const handleSaveClientPlan = async (client: CoachClient, plan: GeneratedPlan) => {
+    const name = client.profile?.userData?.name || client.username;
+    try {
+      await coach.saveClientPlan(currentUser.username, client.username, plan);
+      setNotice(`Saved ${name}'s plan. They will see it the next time they open FitPlan.`);
+    } catch (e) {
+      // Reopen the edits so they are not lost.
+      console.error(e);
+      setNotice(`Could not save ${name}'s plan: ${e instanceof Error ? e.message : 'please try again'}.`);
+      planEditor.open(plan);
+      setEditingClient(client);
+      setActiveView('EDIT_PLAN');
+    }
   };
   
+  // Re-checks the current plan after the user changed their limitations, without regenerating it.
+  const handleApplyLimitations = () => {
+    if (!workoutPlan || !userData) return;
+    const plan = applyLimitations(workoutPlan, userData, equipmentFromText(userData.equipment));
+    setWorkoutPlan(plan);
+    recordPlanVersion({ source: 'manual-edit', plan, userData });
+  };
+
   const handleDiscardChanges = () => {
-    setEditingPlan(null);
+    planEditor.close();
+    setForkedFromVersionId(null);
+    setEditingClient(null);
   };
 
   const handleReset = useCallback(() => {
+    const latestWeight = latestValue(bodyMeasurements, 'weight');
     setAppState('FORM');
     setWorkoutPlan(null);
-    setEditingPlan(null);
+    planEditor.close();
     setError(null);
     setShowNewWeekMessage(true);
       if (userData) {
         setUserData(prev => ({
             ...prev!,
-            weight: '', height: '', freeDays: [], gender: '',
+            // Body stats carry over to the next plan; the weight is the latest weigh-in.
+            weight: latestWeight !== null ? String(weightIn(latestWeight, prev!.units)) : prev!.weight,
+            freeDays: [], gender: '',
             fitnessLevel: '', goal: '', equipment: '', maxSessionTime: '',
         }));
       }
-  }, [userData]);
+  }, [userData, bodyMeasurements]);
   
-  const handlePlanUpdate = (path: (string | number)[], value: any) => {
-    setEditingPlan(prev => {
-      if (!prev) return null;
-      const newPlan = JSON.parse(JSON.stringify(prev));
-      let current: any = newPlan;
-      for (let i = 0; i < path.length - 1; i++) {
-        current = current[path[i]];
-      }
-      current[path[path.length - 1]] = value;
-      return newPlan;
-    });
+  const handleContinueToNextWeek = useCallback(async () => {
+    if (!workoutPlan || !userData) return;
+    const { plan: nextPlan, staleExercises } = progressPlan(workoutPlan, workoutHistory, { units: userData.units });
+
+    setError(null);
+    planEditor.close();
+    setSelectedDayIndex(0);
+    setActiveView('PLAN');
+
+    const startDate = nextWeekStart(workoutPlan);
+    const commit = (progressed: GeneratedPlan) => {
+      const plan = { ...progressed, schedule: syncSchedule(progressed, startDate) };
+      setWorkoutPlan(plan);
+      recordPlanVersion({ source: 'progression', plan, userData });
+    };
+
+    if (!refreshStaleExercises || staleExercises.length === 0) {
+      commit(nextPlan);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const substitutes = await suggestExerciseSwaps(staleExercises, userData);
+      // A substitute can reintroduce a movement the user has to avoid, so re-check the plan.
+      commit(applyLimitations(applyExerciseSwaps(nextPlan, staleExercises, substitutes), userData, equipmentFromText(userData.equipment)));
+    } catch (err) {
+      // The progressed plan is still valid without the swaps, so keep it.
+      console.error(err);
+      commit(nextPlan);
+      setError('Could not refresh stalled exercises. Your plan was progressed without changes to exercise selection.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workoutPlan, workoutHistory, userData, refreshStaleExercises, recordPlanVersion]);
+
+  const handleOpenPlanHistory = async () => {
+    setPlanVersions(await planHistory.getPlanVersions(currentUser.username));
+  };
+
+  // Week progress belongs to the current week, not to the version, so it carries over.
+  const withCurrentProgress = (plan: GeneratedPlan): GeneratedPlan => ({
+    ...plan,
+    completedDays: (workoutPlan?.completedDays || []).filter(day => plan.plan.some(d => d.day === day)),
+    schedule: workoutPlan?.schedule,
+  });
+
+  const handleRestoreVersion = (version: PlanVersion) => {
+    const restored = withCurrentProgress(version.plan);
+    setWorkoutPlan(restored);
+    if (userData) recordPlanVersion({ source: 'restore', plan: restored, userData, parentId: version.id });
+    planEditor.close();
+    setSelectedDayIndex(0);
+    setActiveView('PLAN');
+    setPlanVersions(null);
+  };
+
+  const handleForkVersion = (version: PlanVersion) => {
+    planEditor.open(withCurrentProgress(version.plan));
+    setForkedFromVersionId(version.id);
+    setEditingClient(null);
+    setSelectedDayIndex(0);
+    setActiveView('EDIT_PLAN');
+    setPlanVersions(null);
+  };
+  
+  const handlePlanUpdate = (path: (string | number)[], value: unknown) => {
+    const command = commandFromPath(path, value);
+    if (command) {
+      planEditor.apply(command);
+    } else {
+      console.warn('Ignoring edit to a field that is not editable', path);
+    }
   };
 
   const handleDeleteExercise = (dayIndex: number, groupIndex: number, exerciseIndex: number) => {
-    setEditingPlan(prev => {
-      if (!prev) return null;
-      const newPlan = JSON.parse(JSON.stringify(prev));
-      newPlan.plan[dayIndex].muscleGroups[groupIndex].exercises.splice(exerciseIndex, 1);
-      return newPlan;
-    });
+    planEditor.apply({ type: 'removeExercise', at: { dayIndex, groupIndex, exerciseIndex } });
   };
 
   const handleAddExercise = (dayIndex: number, groupIndex: number) => {
-    setEditingPlan(prev => {
-      if (!prev) return null;
-      const newPlan = JSON.parse(JSON.stringify(prev));
-      const newExercise: Exercise = {
-        name: 'New Exercise',
-        sets: '3',
-        reps: '10',
-        description: 'Enter a short description of the exercise.',
-        targetMuscles: ['Primary Muscle', 'Secondary Muscle'],
-      };
-      newPlan.plan[dayIndex].muscleGroups[groupIndex].exercises.push(newExercise);
-      return newPlan;
-    });
+    setPickerTarget({ dayIndex, groupIndex });
+  };
+
+  const handlePickExercise = (entry: LibraryExercise, replaceIndex: number | null) => {
+    if (!pickerTarget || !editingPlan) return;
+    const { dayIndex, groupIndex } = pickerTarget;
+    const existing = replaceIndex !== null ? editingPlan.plan[dayIndex]?.muscleGroups[groupIndex]?.exercises[replaceIndex] : undefined;
+    if (existing) {
+      // Keep the prescription of the exercise being replaced.
+      planEditor.apply({
+        type: 'replaceExercise',
+        at: { dayIndex, groupIndex, exerciseIndex: replaceIndex! },
+        exercise: toPlanExercise(entry, existing.sets, existing.reps),
+      });
+    } else {
+      planEditor.apply({ type: 'addExercise', to: { dayIndex, groupIndex }, exercise: toPlanExercise(entry) });
+    }
+    setPickerTarget(null);
   };
 
-  const handleLogWorkout = async (dayIndex: number): Promise<boolean> => {
+  /**
+   * Saves a session and marks its day done. Resolves to whether that completed the week and
+   * rejects when the log could not be saved, so callers holding entered sets can keep them.
+   */
+  const recordWorkout = async (dayIndex: number, exerciseLogs?: ExerciseLog[]): Promise<boolean> => {
     if (!workoutPlan) return false;
     const planDay = workoutPlan.plan[dayIndex];
     const newLog: WorkoutLog = {
+      id: crypto.randomUUID(),
       date: new Date().toISOString(),
       dayName: planDay.day,
       focus: planDay.focus,
       caloriesBurned: planDay.caloriesBurned,
+      ...(exerciseLogs && exerciseLogs.length > 0 ? { exerciseLogs } : {}),
     };
 
     // Determine if the week will be complete after this workout
@@ -254,31 +485,92 @@ const App: React.FC<AppProps> = ({ currentUser, onLogout, onChangePassword }) =>
     const isAlreadyCompleted = currentCompleted.has(planDay.day);
     const isNowComplete = !isAlreadyCompleted && (currentCompleted.size + 1 === workoutPlan.plan.length);
 
+    await db.addWorkoutLog({ ...newLog, username: currentUser.username });
+    setWorkoutHistory(prev => [newLog, ...prev]);
+    setWorkoutPlan(prevPlan => {
+        if (!prevPlan) return null;
+        const completed = new Set(prevPlan.completedDays || []);
+        completed.add(planDay.day);
+        return { ...prevPlan, completedDays: Array.from(completed) };
+    });
+    // Move on to the next scheduled session that is still to do
+    const next = getNextSession({ ...workoutPlan, completedDays: [...currentCompleted, planDay.day] });
+    if (next) {
+      setSelectedDayIndex(next.dayIndex);
+    }
+    return isNowComplete;
+  };
+
+  const handleLogWorkout = async (dayIndex: number, exerciseLogs?: ExerciseLog[]): Promise<boolean> => {
     try {
-        await db.addWorkoutLog({ ...newLog, username: currentUser.username });
-        setWorkoutHistory(prev => [newLog, ...prev]);
-        setWorkoutPlan(prevPlan => {
-            if (!prevPlan) return null;
-            const completed = new Set(prevPlan.completedDays || []);
-            completed.add(planDay.day);
-            return { ...prevPlan, completedDays: Array.from(completed) };
-        });
-        // Move to the next day automatically if not the last day
-        if (dayIndex < workoutPlan.plan.length - 1) {
-          setSelectedDayIndex(dayIndex + 1);
-        }
-        return isNowComplete;
+      return await recordWorkout(dayIndex, exerciseLogs);
+    } catch (e) {
+      console.error("Failed to log workout", e);
+      setError("Could not save your workout log.");
+      return false;
+    }
+  };
 
+  // A failed save is rethrown so the logger stays open with the sets and shows the error.
+  const handleSaveSetLogs = async (exerciseLogs: ExerciseLog[]) => {
+    if (setLoggingDayIndex === null) return;
+    try {
+      await recordWorkout(setLoggingDayIndex, exerciseLogs);
     } catch (e) {
-        console.error("Failed to log workout", e);
-        setError("Could not save your workout log.");
-        return false;
+      console.error("Failed to log workout", e);
+      throw e;
     }
+    setSetLoggingDayIndex(null);
   };
-  
+
+  // As with the set logger, the player only closes once the session is saved.
+  const handleFinishWorkout = async (exerciseLogs: ExerciseLog[]) => {
+    if (playerDayIndex === null) return;
+    try {
+      await recordWorkout(playerDayIndex, exerciseLogs);
+    } catch (e) {
+      console.error("Failed to log workout", e);
+      throw e;
+    }
+    setPlayerDayIndex(null);
+  };
+
+  const handleReschedule = (schedule: ScheduledSession[]) => {
+    setWorkoutPlan(prev => prev && { ...prev, schedule });
+  };
+
   const handleOpenAccountModal = () => setIsAccountModalOpen(true);
   const handleCloseAccountModal = () => setIsAccountModalOpen(false);
 
+  const handleOpenPrint = async () => {
+    setIsPrintModalOpen(true);
+    setPrintDietPlan(undefined);
+    try {
+      setPrintDietPlan(await db.getDietPlan(currentUser.username));
+    } catch (e) {
+      console.error("Failed to load diet plan for printing", e);
+      setPrintDietPlan(null);
+    }
+  };
+
+  const handlePrint = (options: PrintOptions) => {
+    setIsPrintModalOpen(false);
+    printJob.print(options);
+  };
+
+  const handleAccountImported = async (data: AccountData) => {
+    if (data.userData) {
+      setUserData(data.userData);
+      setWorkoutPlan(data.workoutPlan);
+      planEditor.close();
+      setSelectedDayIndex(data.workoutPlan ? getNextSession(data.workoutPlan)?.dayIndex ?? 0 : 0);
+      setAppState(data.workoutPlan ? 'PLAN_VIEW' : 'FORM');
+      setActiveView('PLAN');
+    }
+    setWorkoutHistory(await db.getWorkoutLogs(currentUser.username));
+    setBodyMeasurements(await bodyMetrics.getMeasurements(currentUser.username));
+  };
+
 
   if (!isDataLoaded || !userData) {
     return (
@@ -301,6 +593,8 @@ const App: React.FC<AppProps> = ({ currentUser, onLogout, onChangePassword }) =>
   };
   
   const PlanSummarySidebar: React.FC = () => {
+    const weightKg = parseWeight(userData.weight, userData.units);
+    const heightCm = parseHeight(userData.height, userData.units);
     const InfoItem = ({ icon, label, value }: { icon: React.ReactNode, label: string, value: string }) => (
         <div className="flex items-start text-sm">
             <div className="flex-shrink-0 w-5 h-5 text-indigo-500 dark:text-indigo-400 mr-3 mt-0.5">{icon}</div>
@@ -317,14 +611,75 @@ const App: React.FC<AppProps> = ({ currentUser, onLogout, onChangePassword }) =>
           
           <div className="flex-grow overflow-y-auto pr-1 -mr-1 space-y-4 p-2">
             <InfoItem icon={<UserIcon />} label="Name" value={userData.name} />
-            <InfoItem icon={<WeightIcon />} label="Weight" value={userData.weight} />
-            <InfoItem icon={<HeightIcon />} label="Height" value={userData.height} />
+            <InfoItem icon={<WeightIcon />} label="Weight" value={weightKg !== null ? formatWeight(weightKg, userData.units) : userData.weight} />
+            <InfoItem icon={<HeightIcon />} label="Height" value={heightCm !== null ? formatHeight(heightCm, userData.units) : userData.height} />
             <InfoItem icon={<UsersIcon />} label="Gender" value={userData.gender} />
             <InfoItem icon={<BarChartIcon />} label="Experience Level" value={userData.fitnessLevel} />
             <InfoItem icon={<TargetIcon />} label="Primary Goal" value={userData.goal} />
             <InfoItem icon={<DumbbellIcon />} label="Available Equipment" value={userData.equipment} />
           </div>
 
+          {workoutPlan && workoutPlan.plan[selectedDayIndex] && !isWeekCompleted && (
+            <>
+              <button
+                onClick={() => setPlayerDayIndex(selectedDayIndex)}
+                className="w-full mt-4 bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-4 rounded-lg transition-colors"
+              >
+                Start {workoutPlan.plan[selectedDayIndex].day} Workout
+              </button>
+              <button
+                onClick={() => setSetLoggingDayIndex(selectedDayIndex)}
+                className="w-full mt-2 bg-white dark:bg-slate-900 border border-indigo-500 text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-slate-800 font-bold py-3 px-4 rounded-lg transition-colors"
+              >
+                Log Sets for {workoutPlan.plan[selectedDayIndex].day}
+              </button>
+            </>
+          )}
+
+          {workoutPlan && (
+            <div className="flex mt-2">
+              <button
+                onClick={handleOpenPlanHistory}
+                className="flex-1 text-sm font-semibold text-indigo-600 dark:text-indigo-400 hover:underline py-2"
+              >
+                Plan History
+              </button>
+              <button
+                onClick={() => setIsCalendarExportOpen(true)}
+                className="flex-1 text-sm font-semibold text-indigo-600 dark:text-indigo-400 hover:underline py-2"
+              >
+                Add to Calendar
+              </button>
+              <button
+                onClick={handleOpenPrint}
+                className="flex-1 text-sm font-semibold text-indigo-600 dark:text-indigo-400 hover:underline py-2"
+              >
+                Print / PDF
+              </button>
+            </div>
+          )}
+
+          {isWeekCompleted && workoutPlan && (
+            <div className="mt-4 space-y-2">
+              <button
+                onClick={handleContinueToNextWeek}
+                disabled={isLoading}
+                className="w-full bg-emerald-600 hover:bg-emerald-700 text-white font-bold py-3 px-4 rounded-lg transition-all duration-300 transform hover:scale-105 shadow-lg disabled:opacity-50 disabled:hover:scale-100"
+              >
+                Continue to Week {(workoutPlan.week ?? 1) + 1}
+              </button>
+              <label className="flex items-center gap-2 px-1 text-sm text-slate-600 dark:text-slate-400">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 accent-indigo-600"
+                  checked={refreshStaleExercises}
+                  onChange={e => setRefreshStaleExercises(e.target.checked)}
+                />
+                Swap stalled exercises using AI
+              </label>
+            </div>
+          )}
+
           <button
             onClick={() => handleReset()}
             className="w-full mt-4 bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-4 rounded-lg transition-all duration-300 transform hover:scale-105 shadow-lg"
@@ -349,6 +704,14 @@ const App: React.FC<AppProps> = ({ currentUser, onLogout, onChangePassword }) =>
             Forge your ideal physique. Your personal AI coach crafts the perfect workout and diet plan based on your unique goals and stats.
           </p>
           <div className="absolute top-0 right-0 flex items-center gap-2">
+            {currentUser.role === 'coach' && (
+              <button
+                onClick={() => setIsCoachDashboardOpen(true)}
+                className="px-3 py-2 rounded-lg text-sm font-semibold text-indigo-600 dark:text-indigo-400 border border-indigo-500/50 hover:bg-indigo-50 dark:hover:bg-slate-700 transition-colors"
+              >
+                Clients
+              </button>
+            )}
             <ThemeSwitcher />
             <ProfileDropdown 
                 username={currentUser.username}
@@ -358,6 +721,36 @@ const App: React.FC<AppProps> = ({ currentUser, onLogout, onChangePassword }) =>
           </div>
         </header>
 
+        {notice && (
+          <div className="mb-6 flex items-start justify-between gap-4 rounded-xl border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/30 px-4 py-3 text-sm text-amber-800 dark:text-amber-200 fade-in">
+            <p>{notice}</p>
+            <button onClick={() => setNotice(null)} className="flex-shrink-0 hover:opacity-70" aria-label="Dismiss">
+              <XCircleIcon className="w-5 h-5" />
+            </button>
+          </div>
+        )}
+
+        {!syncStatus.online && (
+          <div className="mb-4 flex items-center justify-center gap-2 rounded-xl border border-slate-300 dark:border-slate-600 bg-slate-100 dark:bg-slate-800 px-4 py-2 text-center text-xs text-slate-600 dark:text-slate-300">
+            <span className="h-2 w-2 flex-shrink-0 rounded-full bg-amber-500" aria-hidden="true" />
+            <p>
+              You're offline. Your plan is available and workouts you log are kept on this device.
+              {db.isServerMode && ` ${syncStatus.pendingChanges > 0 ? `${syncStatus.pendingChanges} change(s) will sync when you reconnect.` : 'Changes will sync when you reconnect.'}`}
+              {getActiveProvider().isRemote && ' New plans are built by the offline planner until the AI coach can be reached.'}
+            </p>
+          </div>
+        )}
+        {db.isServerMode && syncStatus.online && syncStatus.pendingChanges > 0 && (
+          <p className="mb-4 text-center text-xs text-slate-500 dark:text-slate-400">
+            {syncStatus.syncing ? 'Syncing changes...' : `${syncStatus.pendingChanges} change(s) waiting to sync.`}
+          </p>
+        )}
+        {db.isServerMode && syncStatus.online && syncStatus.error && (
+          <p className="mb-4 text-center text-xs text-red-600 dark:text-red-400">
+            Could not sync with the server: {syncStatus.error}
+          </p>
+        )}
+
         <main ref={mainContainerRef} className="flex flex-col lg:flex-row">
           <div 
             style={{ '--left-panel-width': `${leftPanelWidth}%` } as React.CSSProperties} 
@@ -377,6 +770,34 @@ const App: React.FC<AppProps> = ({ currentUser, onLogout, onChangePassword }) =>
           </div>
           <Splitter onMouseDown={handleResizeMouseDown} />
           <div className={`flex-grow min-w-0 ${appState === 'FORM' ? 'hidden lg:block' : ''}`}>
+            {activeView === 'PLAN' && appState === 'PLAN_VIEW' && workoutPlan && !isWeekCompleted && (
+              <TodaySessionCard
+                plan={workoutPlan}
+                freeDays={userData?.freeDays || []}
+                selectedDayIndex={selectedDayIndex}
+                onSelectDay={setSelectedDayIndex}
+                onLogSets={setSetLoggingDayIndex}
+                onStartWorkout={setPlayerDayIndex}
+                onReschedule={handleReschedule}
+              />
+            )}
+            {activeView === 'EDIT_PLAN' && editingPlan && editingClient && (
+              <div className="mb-4 rounded-xl border border-indigo-300 dark:border-indigo-700 bg-indigo-50 dark:bg-indigo-900/30 px-4 py-3 text-sm text-indigo-800 dark:text-indigo-200">
+                Editing <span className="font-semibold">{editingClient.profile?.userData?.name || editingClient.username}</span>'s plan.
+                Saving sends the changes to them; your own plan is not affected.
+              </div>
+            )}
+            {activeView === 'EDIT_PLAN' && editingPlan && (
+              <PlanEditorToolbar
+                plan={editingPlan}
+                dayIndex={selectedDayIndex}
+                onCommand={planEditor.apply}
+                onUndo={planEditor.undo}
+                onRedo={planEditor.redo}
+                undoLabel={planEditor.undoLabel}
+                redoLabel={planEditor.redoLabel}
+              />
+            )}
             <WorkoutPlanDisplay
               activeView={activeView}
               onViewChange={handleViewChange}
@@ -399,12 +820,158 @@ const App: React.FC<AppProps> = ({ currentUser, onLogout, onChangePassword }) =>
               onRegeneratePlan={handleRegenerateWithNewData}
               onReset={handleReset}
             />
+            {activeView === 'PLAN' && appState === 'PLAN_VIEW' && workoutPlan?.plan[selectedDayIndex] && !isWeekCompleted && (
+              <SessionPrepCard day={workoutPlan.plan[selectedDayIndex]} />
+            )}
+            {activeView === 'PROFILE' && userData && (
+              <LimitationsPanel
+                userData={userData}
+                hasPlan={!!workoutPlan}
+                onUpdateUserData={handleUpdateUserData}
+                onApplyToPlan={handleApplyLimitations}
+              />
+            )}
+            {activeView === 'PROGRESS' && (
+              <AnalyticsDashboard workoutHistory={workoutHistory} workoutPlan={workoutPlan} userData={userData} />
+            )}
+            {activeView === 'PROGRESS' && (
+              <BodyMetricsView
+                measurements={bodyMeasurements}
+                userData={userData}
+                onSave={handleSaveMeasurement}
+                onDelete={handleDeleteMeasurement}
+                onUpdateUserData={handleUpdateUserData}
+              />
+            )}
+            {activeView === 'PROGRESS' && <ExerciseHistoryView workoutHistory={workoutHistory} units={userData?.units} />}
+            {activeView === 'DIET' && userData && (
+              <DietPanel
+                username={currentUser.username}
+                userData={userData}
+                workoutPlan={workoutPlan}
+                onUpdateUserData={handleUpdateUserData}
+              />
+            )}
           </div>
         </main>
       </div>
-      {isAccountModalOpen && (
+      {setLoggingDayIndex !== null && workoutPlan?.plan[setLoggingDayIndex] && (
+        <div className="fixed inset-0 bg-slate-300/60 dark:bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 fade-in">
+            <div className="relative bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl w-full max-w-3xl shadow-2xl">
+                 <SetLogger
+                    day={workoutPlan.plan[setLoggingDayIndex]}
+                    units={userData?.units}
+                    onSave={handleSaveSetLogs}
+                    onCancel={() => setSetLoggingDayIndex(null)}
+                 />
+            </div>
+        </div>
+      )}
+      {playerDayIndex !== null && workoutPlan?.plan[playerDayIndex] && userData && (
+        <div className="fixed inset-0 bg-slate-300/60 dark:bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 fade-in">
+            <div className="relative bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl w-full max-w-2xl shadow-2xl">
+                 <WorkoutPlayer
+                    day={workoutPlan.plan[playerDayIndex]}
+                    userData={userData}
+                    onFinish={handleFinishWorkout}
+                    onClose={() => setPlayerDayIndex(null)}
+                    onUpdateUserData={handleUpdateUserData}
+                 />
+            </div>
+        </div>
+      )}
+      {pickerTarget && editingPlan?.plan[pickerTarget.dayIndex]?.muscleGroups[pickerTarget.groupIndex] && (
+        <div className="fixed inset-0 bg-slate-300/60 dark:bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 fade-in">
+            <div className="relative bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl w-full max-w-2xl shadow-2xl">
+                 <ExercisePicker
+                    groupName={`${editingPlan.plan[pickerTarget.dayIndex].day} · ${editingPlan.plan[pickerTarget.dayIndex].muscleGroups[pickerTarget.groupIndex].name}`}
+                    existingExercises={editingPlan.plan[pickerTarget.dayIndex].muscleGroups[pickerTarget.groupIndex].exercises}
+                    onPick={handlePickExercise}
+                    onCancel={() => setPickerTarget(null)}
+                 />
+            </div>
+        </div>
+      )}
+      {syncStatus.conflicts.length > 0 && (
+        <div className="fixed inset-0 bg-slate-300/60 dark:bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 fade-in">
+            <div className="relative bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl w-full max-w-3xl shadow-2xl">
+                 <SyncConflictModal conflicts={syncStatus.conflicts} onResolve={sync.resolveConflict} />
+            </div>
+        </div>
+      )}
+      {planVersions && (
+        <div className="fixed inset-0 bg-slate-300/60 dark:bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 fade-in">
+            <div className="relative bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl w-full max-w-4xl shadow-2xl">
+                 <button 
+                    onClick={() => setPlanVersions(null)}
+                    className="absolute top-4 right-4 text-slate-500 dark:text-slate-400 hover:text-slate-800 dark:hover:text-slate-200 transition-colors z-10"
+                    aria-label="Close"
+                 >
+                    <XCircleIcon className="w-6 h-6"/>
+                 </button>
+                 <PlanHistoryView
+                    versions={planVersions}
+                    units={userData?.units}
+                    currentPlan={workoutPlan}
+                    onRestore={handleRestoreVersion}
+                    onFork={handleForkVersion}
+                 />
+            </div>
+        </div>
+      )}
+      {isPrintModalOpen && (
+        <div className="fixed inset-0 bg-slate-300/60 dark:bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 fade-in">
+            <div className="relative bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl w-full max-w-lg shadow-2xl">
+                 <button 
+                    onClick={() => setIsPrintModalOpen(false)}
+                    className="absolute top-4 right-4 text-slate-500 dark:text-slate-400 hover:text-slate-800 dark:hover:text-slate-200 transition-colors z-10"
+                    aria-label="Close"
+                 >
+                    <XCircleIcon className="w-6 h-6"/>
+                 </button>
+                 <PrintPlanModal workoutPlan={workoutPlan} dietPlan={printDietPlan} onPrint={handlePrint} />
+            </div>
+        </div>
+      )}
+      {printJob.job && createPortal(
+        <PrintablePlan name={userData.name} units={userData.units} workoutPlan={workoutPlan} dietPlan={printDietPlan ?? null} options={printJob.job} />,
+        document.body,
+      )}
+      {isCalendarExportOpen && workoutPlan && (
         <div className="fixed inset-0 bg-slate-300/60 dark:bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 fade-in">
             <div className="relative bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl w-full max-w-lg shadow-2xl">
+                 <button 
+                    onClick={() => setIsCalendarExportOpen(false)}
+                    className="absolute top-4 right-4 text-slate-500 dark:text-slate-400 hover:text-slate-800 dark:hover:text-slate-200 transition-colors z-10"
+                    aria-label="Close"
+                 >
+                    <XCircleIcon className="w-6 h-6"/>
+                 </button>
+                 <CalendarExportModal plan={workoutPlan} username={currentUser.username} units={userData?.units} canSubscribe={db.isServerMode} />
+            </div>
+        </div>
+      )}
+      {isCoachDashboardOpen && currentUser.role === 'coach' && (
+        <div className="fixed inset-0 bg-slate-300/60 dark:bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 fade-in">
+            <div className="relative bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl w-full max-w-4xl shadow-2xl">
+                 <button 
+                    onClick={() => setIsCoachDashboardOpen(false)}
+                    className="absolute top-4 right-4 text-slate-500 dark:text-slate-400 hover:text-slate-800 dark:hover:text-slate-200 transition-colors z-10"
+                    aria-label="Close"
+                 >
+                    <XCircleIcon className="w-6 h-6"/>
+                 </button>
+                 <CoachDashboard
+                    coachUsername={currentUser.username}
+                    ownPlan={workoutPlan}
+                    onEditClientPlan={handleEditClientPlan}
+                 />
+            </div>
+        </div>
+      )}
+      {isAccountModalOpen && (
+        <div className="fixed inset-0 bg-slate-300/60 dark:bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 fade-in">
+            <div className="relative bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto shadow-2xl">
                  <button 
                     onClick={handleCloseAccountModal}
                     className="absolute top-4 right-4 text-slate-500 dark:text-slate-400 hover:text-slate-800 dark:hover:text-slate-200 transition-colors z-10"
@@ -416,6 +983,19 @@ const App: React.FC<AppProps> = ({ currentUser, onLogout, onChangePassword }) =>
                     currentUser={currentUser}
                     onChangePassword={onChangePassword}
                  />
+                 <DataTransferPanel
+                    username={currentUser.username}
+                    workoutHistory={workoutHistory}
+                    onImported={handleAccountImported}
+                 />
+                 <CoachModePanel
+                    isCoach={currentUser.role === 'coach'}
+                    onEnable={() => onEnableCoachMode(currentUser.username)}
+                    onOpenClients={() => {
+                      setIsAccountModalOpen(false);
+                      setIsCoachDashboardOpen(true);
+                    }}
+                 />
             </div>
         </div>
       )}
@@ -4,7 +4,7 @@ import AuthPage from './components/AuthPage';
 import App from './App';
 
 const AuthWrapper: React.FC = () => {
-    const { currentUser, login, signup, logout, loading, changePassword } = useAuth();
+    const { currentUser, login, signup, logout, loading, changePassword, enableCoachMode } = useAuth();
 
     if (loading) {
         // Simple loading screen to prevent flicker while checking session
@@ -15,7 +15,7 @@ const AuthWrapper: React.FC = () => {
         return <AuthPage onLogin={login} onSignup={signup} />;
     }
 
-    return <App currentUser={currentUser} onLogout={logout} onChangePassword={changePassword} />;
+    return <App currentUser={currentUser} onLogout={logout} onChangePassword={changePassword} onEnableCoachMode={enableCoachMode} />;
 };
 
 export default AuthWrapper;
\ No newline at end of file
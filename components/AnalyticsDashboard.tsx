@@ -0,0 +1,140 @@
+import React, { useMemo, useState } from 'react';
+import { GeneratedPlan, UserData, WorkoutLog } from '../types';
+import {
+  computeAdherence, findUndertrainedGroups, MIN_WEEKLY_SETS, strengthTrends, TRAINING_GROUPS, weeklyGroupStats,
+} from '../utils/analytics';
+import { formatSessionDate } from '../utils/schedule';
+import { formatWeight, weightIn, weightUnit } from '../utils/units';
+import TrendChart from './TrendChart';
+
+interface AnalyticsDashboardProps {
+  workoutHistory: WorkoutLog[];
+  workoutPlan: GeneratedPlan | null;
+  userData: UserData;
+}
+
+const WEEKS_SHOWN = 6;
+const TRENDS_SHOWN = 5;
+
+// Shade cells by how close the week came to the suggested minimum.
+const cellShade = (sets: number) =>
+  sets === 0 ? 'bg-slate-100 dark:bg-slate-900/60 text-slate-400 dark:text-slate-500'
+    : sets < MIN_WEEKLY_SETS / 2 ? 'bg-indigo-100 dark:bg-indigo-900/30 text-slate-700 dark:text-slate-300'
+    : sets < MIN_WEEKLY_SETS ? 'bg-indigo-200 dark:bg-indigo-800/50 text-slate-800 dark:text-slate-200'
+    : 'bg-indigo-500 dark:bg-indigo-600 text-white';
+
+const percent = (fraction: number) => `${fraction > 0 ? '+' : ''}${Math.round(fraction * 100)}%`;
+
+const StatCard: React.FC<{ label: string; value: string; detail?: string }> = ({ label, value, detail }) => (
+  <div className="p-3 rounded-xl bg-slate-100 dark:bg-slate-900/60">
+    <p className="text-xs text-slate-500 dark:text-slate-400">{label}</p>
+    <p className="text-lg font-bold text-slate-800 dark:text-slate-200">{value}</p>
+    {detail && <p className="text-xs text-slate-500 dark:text-slate-400">{detail}</p>}
+  </div>
+);
+
+const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ workoutHistory, workoutPlan, userData }) => {
+  const weekly = useMemo(() => weeklyGroupStats(workoutHistory, workoutPlan, WEEKS_SHOWN), [workoutHistory, workoutPlan]);
+  const adherence = useMemo(() => computeAdherence(workoutHistory, userData), [workoutHistory, userData]);
+  const undertrained = useMemo(() => findUndertrainedGroups(weekly), [weekly]);
+  const trends = useMemo(() => strengthTrends(workoutHistory).slice(0, TRENDS_SHOWN), [workoutHistory]);
+  const [trendKey, setTrendKey] = useState<string | null>(null);
+
+  const selectedTrend = trends.find(t => t.key === trendKey) ?? trends[0];
+  const units = userData.units;
+  const thisWeek = adherence.weeks[adherence.weeks.length - 1];
+
+  return (
+    <div className="mt-6 bg-white/50 dark:bg-slate-800/50 backdrop-blur-sm p-6 rounded-2xl shadow-lg border border-slate-200 dark:border-slate-700 text-sm">
+      <h3 className="text-xl font-bold text-slate-900 dark:text-slate-100 mb-4">Training Analytics</h3>
+      {workoutHistory.length === 0 ? (
+        <p className="text-slate-600 dark:text-slate-400">Log a few workouts to see your weekly volume, adherence and strength trends.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-6">
+            <StatCard
+              label="Adherence (8 weeks)"
+              value={adherence.rate !== null ? `${Math.round(adherence.rate * 100)}%` : '—'}
+              detail={userData.freeDays.length === 0 ? 'No training days set' : undefined}
+            />
+            <StatCard label="This week" value={thisWeek ? `${thisWeek.completed} / ${thisWeek.scheduled}` : '—'} detail="scheduled sessions done" />
+            <StatCard label="Current streak" value={`${adherence.currentStreak} wk`} detail="weeks with every session done" />
+            <StatCard label="Longest streak" value={`${adherence.longestStreak} wk`} />
+          </div>
+
+          <p className="font-semibold text-slate-800 dark:text-slate-200 mb-2">Weekly sets per muscle group</p>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs border-separate border-spacing-1">
+              <thead>
+                <tr className="text-slate-500 dark:text-slate-400">
+                  <th className="text-left font-semibold">Group</th>
+                  {weekly.map(w => <th key={w.weekStart} className="font-normal">{formatSessionDate(w.weekStart)}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {TRAINING_GROUPS.map(group => (
+                  <tr key={group}>
+                    <td className="font-semibold text-slate-700 dark:text-slate-300 pr-2">{group}</td>
+                    {weekly.map(w => (
+                      <td
+                        key={w.weekStart}
+                        title={`${Math.round(weightIn(w.volume[group], units))} ${weightUnit(units)} volume`}
+                        className={`text-center rounded-md py-1 ${cellShade(w.sets[group])}`}
+                      >
+                        {Math.round(w.sets[group] * 10) / 10}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+            Completed sets, with sets that only assist a group counted as half. Hover a cell for its volume.
+          </p>
+
+          {undertrained.length > 0 && (
+            <div className="mt-4 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-300">
+              <p className="font-semibold mb-1">Under-trained lately</p>
+              <ul className="list-disc pl-5">
+                {undertrained.map(g => (
+                  <li key={g.group}>
+                    {g.group}: {Math.round(g.averageSets * 10) / 10} sets a week on average; aim for at least {MIN_WEEKLY_SETS}.
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {selectedTrend && (
+            <div className="mt-6">
+              <p className="font-semibold text-slate-800 dark:text-slate-200 mb-2">Estimated 1RM</p>
+              <div className="flex flex-wrap gap-2 mb-3">
+                {trends.map(t => (
+                  <button
+                    key={t.key}
+                    onClick={() => setTrendKey(t.key)}
+                    className={`px-3 py-1 rounded-full text-xs font-semibold border transition-colors ${
+                      t.key === selectedTrend.key
+                        ? 'bg-indigo-600 border-indigo-600 text-white'
+                        : 'border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'
+                    }`}
+                  >
+                    {t.name}
+                  </button>
+                ))}
+              </div>
+              <p className="text-slate-700 dark:text-slate-300 mb-2">
+                Best {formatWeight(selectedTrend.best, units)}
+                {selectedTrend.recentChange !== null && <span> · {percent(selectedTrend.recentChange)} over the last 4 weeks</span>}
+              </p>
+              <TrendChart points={selectedTrend.points.map(p => ({ ...p, value: weightIn(p.value, units) }))} unit={weightUnit(units)} />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AnalyticsDashboard;
@@ -0,0 +1,256 @@
+import React, { useState } from 'react';
+import { BodyMeasurement, BodyMetric, UnitSystem, UserData } from '../types';
+import {
+  BODY_METRIC_LABELS, BODY_METRICS, bmiCategory, bmiSeries, GoalProjection, latestValue, metricSeries, MetricPoint,
+  projectGoal, sortMeasurements, weeklyTrend,
+} from '../utils/bodyMetrics';
+import { formatLength, formatWeight, lengthIn, lengthUnit, parseLength, parseWeight, weightIn, weightUnit } from '../utils/units';
+import { formatSessionDate, toISODate } from '../utils/schedule';
+import TrendChart from './TrendChart';
+
+interface BodyMetricsViewProps {
+  measurements: BodyMeasurement[];
+  userData: UserData;
+  onSave: (measurement: BodyMeasurement) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  onUpdateUserData: (userData: UserData) => void;
+}
+
+type ChartMetric = BodyMetric | 'bmi';
+
+const LENGTH_METRICS: BodyMetric[] = ['waist', 'hips', 'chest'];
+const RECENT_ENTRIES = 10;
+
+const emptyForm = () => ({ date: toISODate(new Date()), weight: '', bodyFat: '', waist: '', hips: '', chest: '' });
+
+const inputClass = "w-full px-3 py-2 rounded-lg bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600 text-slate-800 dark:text-slate-200";
+const chipClass = (active: boolean) =>
+  `px-3 py-1 rounded-full text-xs font-semibold border transition-colors ${
+    active
+      ? 'bg-indigo-600 border-indigo-600 text-white'
+      : 'border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'
+  }`;
+
+const unitOf = (metric: ChartMetric, units: UnitSystem) =>
+  metric === 'weight' ? weightUnit(units) : metric === 'bodyFat' ? '%' : metric === 'bmi' ? 'BMI' : lengthUnit(units);
+
+// Stored values are metric; charts and summaries show them in the user's units.
+const toDisplay = (metric: ChartMetric, value: number, units: UnitSystem) =>
+  metric === 'weight' ? weightIn(value, units) : LENGTH_METRICS.includes(metric as BodyMetric) ? lengthIn(value, units) : value;
+
+const signed = (value: number, unit: string) => `${value > 0 ? '+' : ''}${Math.round(value * 10) / 10} ${unit}`;
+
+const describeProjection = (projection: GoalProjection, units: UnitSystem) => {
+  const target = formatWeight(projection.target, units);
+  const rate = projection.perWeek !== null ? signed(weightIn(projection.perWeek, units), `${weightUnit(units)}/week`) : '';
+  switch (projection.status) {
+    case 'reached': return `You have reached your target weight of ${target}.`;
+    case 'on-track': return `At ${rate} you will reach ${target} around ${formatSessionDate(projection.date!)} (${Math.ceil(projection.weeks!)} weeks).`;
+    case 'too-slow': return `At ${rate} your target of ${target} is more than two years away.`;
+    case 'off-track': return `Your weight is moving away from your target of ${target} (${rate}).`;
+    default: return `Log your weight for at least a week to see when you will reach ${target}.`;
+  }
+};
+
+const BodyMetricsView: React.FC<BodyMetricsViewProps> = ({ measurements, userData, onSave, onDelete, onUpdateUserData }) => {
+  const units = userData.units ?? 'metric';
+  const [metric, setMetric] = useState<ChartMetric>('weight');
+  const [form, setForm] = useState(emptyForm);
+  const [targetText, setTargetText] = useState(userData.targetWeight ? String(weightIn(userData.targetWeight, units)) : '');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const weights = metricSeries(measurements, 'weight');
+  const bmis = bmiSeries(measurements, userData);
+  const series: MetricPoint[] = metric === 'bmi' ? bmis : metricSeries(measurements, metric);
+  const points = series.map(p => ({ date: p.date, value: toDisplay(metric, p.value, units) }));
+  const trend = weeklyTrend(series);
+
+  const projection = metric === 'weight' && userData.targetWeight ? projectGoal(weights, userData.targetWeight) : null;
+  const projectionPoint = projection?.status === 'on-track' ? { date: projection.date!, value: weightIn(projection.target, units) } : null;
+  const latestWeight = latestValue(measurements, 'weight');
+  const latestBmi = bmis.length > 0 ? bmis[bmis.length - 1].value : null;
+
+  const handleUnitsChange = (next: UnitSystem) => {
+    if (next === units) return;
+    onUpdateUserData({ ...userData, units: next });
+    if (userData.targetWeight) setTargetText(String(weightIn(userData.targetWeight, next)));
+  };
+
+  const handleSaveTarget = () => {
+    if (!targetText.trim()) {
+      const { targetWeight: _removed, ...rest } = userData;
+      onUpdateUserData(rest);
+      return;
+    }
+    const kg = parseWeight(targetText, units);
+    if (kg === null) {
+      setError(`"${targetText}" is not a weight FitPlan can read, e.g. 75 kg or 165 lb.`);
+      return;
+    }
+    setError(null);
+    onUpdateUserData({ ...userData, targetWeight: Math.round(kg * 10) / 10 });
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const measurement: BodyMeasurement = { id: crypto.randomUUID(), date: form.date };
+    const problems: string[] = [];
+    if (form.weight.trim()) {
+      const kg = parseWeight(form.weight, units);
+      if (kg === null) problems.push(`weight "${form.weight}"`);
+      else measurement.weight = Math.round(kg * 10) / 10;
+    }
+    if (form.bodyFat.trim()) {
+      const percent = parseFloat(form.bodyFat);
+      if (!(percent > 0 && percent < 75)) problems.push(`body fat "${form.bodyFat}"`);
+      else measurement.bodyFat = percent;
+    }
+    LENGTH_METRICS.forEach(field => {
+      if (!form[field].trim()) return;
+      const cm = parseLength(form[field], units);
+      if (cm === null || cm <= 0) problems.push(`${BODY_METRIC_LABELS[field].toLowerCase()} "${form[field]}"`);
+      else measurement[field] = Math.round(cm * 10) / 10;
+    });
+
+    if (problems.length > 0) {
+      setError(`Could not read ${problems.join(', ')}.`);
+      return;
+    }
+    if (!BODY_METRICS.some(field => measurement[field] !== undefined)) {
+      setError('Enter at least one measurement.');
+      return;
+    }
+    setError(null);
+    setIsSaving(true);
+    try {
+      await onSave(measurement);
+      setForm(emptyForm());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save this measurement.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const describe = (m: BodyMeasurement) => [
+    m.weight !== undefined && formatWeight(m.weight, units),
+    m.bodyFat !== undefined && `${m.bodyFat}% fat`,
+    ...LENGTH_METRICS.map(field => m[field] !== undefined && `${BODY_METRIC_LABELS[field].toLowerCase()} ${formatLength(m[field]!, units)}`),
+  ].filter(Boolean).join(' · ');
+
+  const recent = sortMeasurements(measurements).reverse().slice(0, RECENT_ENTRIES);
+
+  return (
+    <div className="mt-6 bg-white/50 dark:bg-slate-800/50 backdrop-blur-sm p-6 rounded-2xl shadow-lg border border-slate-200 dark:border-slate-700 text-sm">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-bold text-slate-900 dark:text-slate-100">Body Metrics</h3>
+        <div className="flex gap-1">
+          {(['metric', 'imperial'] as UnitSystem[]).map(system => (
+            <button key={system} onClick={() => handleUnitsChange(system)} className={chipClass(units === system)}>
+              {system === 'metric' ? 'kg / cm' : 'lb / in'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 mb-4">
+        <div className="p-3 rounded-xl bg-slate-100 dark:bg-slate-900/60">
+          <p className="text-xs text-slate-500 dark:text-slate-400">Weight</p>
+          <p className="font-bold text-slate-800 dark:text-slate-200">{latestWeight !== null ? formatWeight(latestWeight, units) : '—'}</p>
+        </div>
+        <div className="p-3 rounded-xl bg-slate-100 dark:bg-slate-900/60">
+          <p className="text-xs text-slate-500 dark:text-slate-400">BMI</p>
+          <p className="font-bold text-slate-800 dark:text-slate-200">{latestBmi !== null ? `${latestBmi} · ${bmiCategory(latestBmi)}` : '—'}</p>
+        </div>
+        <div className="p-3 rounded-xl bg-slate-100 dark:bg-slate-900/60">
+          <p className="text-xs text-slate-500 dark:text-slate-400">{metric === 'bmi' ? 'BMI' : BODY_METRIC_LABELS[metric]} trend</p>
+          <p className="font-bold text-slate-800 dark:text-slate-200">
+            {trend !== null ? signed(toDisplay(metric, trend, units), `${unitOf(metric, units)}/week`) : '—'}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        {[...BODY_METRICS, 'bmi' as const].map(m => (
+          <button key={m} onClick={() => setMetric(m)} className={chipClass(metric === m)}>
+            {m === 'bmi' ? 'BMI' : BODY_METRIC_LABELS[m]}
+          </button>
+        ))}
+      </div>
+      {points.length > 0 ? (
+        <TrendChart
+          points={points}
+          unit={unitOf(metric, units)}
+          target={metric === 'weight' && userData.targetWeight ? weightIn(userData.targetWeight, units) : null}
+          projection={projectionPoint}
+        />
+      ) : (
+        <p className="text-slate-600 dark:text-slate-400 py-6 text-center">
+          {metric === 'bmi' ? 'Log your weight and enter your height in your profile to see BMI over time.' : 'No readings yet. Add one below.'}
+        </p>
+      )}
+
+      {metric === 'weight' && (
+        <div className="mt-3 flex flex-col sm:flex-row sm:items-end gap-3">
+          <label className="sm:w-40">
+            <span className="block font-semibold text-slate-700 dark:text-slate-300 mb-1">Target weight</span>
+            <input type="text" value={targetText} onChange={e => setTargetText(e.target.value)} placeholder={weightUnit(units)} className={inputClass} />
+          </label>
+          <button
+            onClick={handleSaveTarget}
+            className="px-3 py-2 rounded-lg text-sm font-semibold text-indigo-600 dark:text-indigo-400 border border-indigo-500/50 hover:bg-indigo-50 dark:hover:bg-slate-700 transition-colors"
+          >
+            Set Target
+          </button>
+          {projection && <p className="flex-grow text-slate-700 dark:text-slate-300">{describeProjection(projection, units)}</p>}
+        </div>
+      )}
+
+      <form onSubmit={handleAdd} className="mt-6 pt-4 border-t border-slate-200 dark:border-slate-700">
+        <p className="font-semibold text-slate-800 dark:text-slate-200 mb-2">Add a measurement</p>
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          <label>
+            <span className="block text-xs text-slate-500 dark:text-slate-400 mb-1">Date</span>
+            <input type="date" value={form.date} max={toISODate(new Date())} onChange={e => setForm({ ...form, date: e.target.value })} className={inputClass} required />
+          </label>
+          <label>
+            <span className="block text-xs text-slate-500 dark:text-slate-400 mb-1">Weight ({weightUnit(units)})</span>
+            <input type="text" value={form.weight} onChange={e => setForm({ ...form, weight: e.target.value })} className={inputClass} />
+          </label>
+          <label>
+            <span className="block text-xs text-slate-500 dark:text-slate-400 mb-1">Body fat (%)</span>
+            <input type="text" value={form.bodyFat} onChange={e => setForm({ ...form, bodyFat: e.target.value })} className={inputClass} />
+          </label>
+          {LENGTH_METRICS.map(field => (
+            <label key={field}>
+              <span className="block text-xs text-slate-500 dark:text-slate-400 mb-1">{BODY_METRIC_LABELS[field]} ({lengthUnit(units)})</span>
+              <input type="text" value={form[field]} onChange={e => setForm({ ...form, [field]: e.target.value })} className={inputClass} />
+            </label>
+          ))}
+        </div>
+        <div className="flex justify-end mt-3">
+          <button type="submit" disabled={isSaving} className="px-4 py-2 rounded-lg font-bold bg-indigo-600 hover:bg-indigo-700 text-white transition-colors disabled:opacity-50">
+            Save Measurement
+          </button>
+        </div>
+      </form>
+      {error && <p className="mt-2 text-red-600 dark:text-red-400">{error}</p>}
+
+      {recent.length > 0 && (
+        <ul className="mt-4 divide-y divide-slate-200 dark:divide-slate-700">
+          {recent.map(m => (
+            <li key={m.id} className="flex items-center justify-between py-2">
+              <span className="text-slate-700 dark:text-slate-300">
+                <span className="font-semibold">{formatSessionDate(m.date)}</span> · {describe(m)}
+              </span>
+              <button onClick={() => onDelete(m.id)} className="text-xs font-semibold text-red-600 dark:text-red-400 hover:underline">Delete</button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default BodyMetricsView;
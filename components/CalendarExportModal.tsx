@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { GeneratedPlan, UnitSystem } from '../types';
+import { buildWorkoutCalendar } from '../utils/icalendar';
+import { downloadFile } from '../utils/download';
+import { createCalendarFeed, revokeCalendarFeed } from '../services/calendarFeedService';
+
+interface CalendarExportModalProps {
+  plan: GeneratedPlan;
+  username: string;
+  units?: UnitSystem;
+  /** Subscription feeds need the API server; browser-only builds can only download. */
+  canSubscribe: boolean;
+}
+
+const REPEAT_OPTIONS = [1, 4, 8, 12];
+
+const inputClass = "bg-slate-100 dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded-md px-2 py-1 text-sm text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const CalendarExportModal: React.FC<CalendarExportModalProps> = ({ plan, username, units, canSubscribe }) => {
+  const [startTime, setStartTime] = useState('18:00');
+  const [weeks, setWeeks] = useState(1);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [feedError, setFeedError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const handleDownload = () => {
+    const calendar = buildWorkoutCalendar(plan, { owner: username, startTime, weeks, units });
+    downloadFile(`fitplan-week-${plan.week ?? 1}.ics`, calendar, 'text/calendar;charset=utf-8');
+  };
+
+  const runFeedAction = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    setFeedError(null);
+    try {
+      await action();
+    } catch (e) {
+      setFeedError(e instanceof Error ? e.message : 'Something went wrong.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <h2 className="text-2xl font-bold text-slate-900 dark:text-slate-100 mb-1">Add to Calendar</h2>
+      <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">
+        Exports each session with its exercises. Importing again after changing your plan updates the same events.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm text-slate-700 dark:text-slate-300">
+        <label className="flex items-center gap-2">
+          Start time
+          <input type="time" value={startTime} onChange={e => setStartTime(e.target.value)} className={inputClass} />
+        </label>
+        <label className="flex items-center gap-2">
+          Repeat
+          <select value={weeks} onChange={e => setWeeks(Number(e.target.value))} className={inputClass}>
+            {REPEAT_OPTIONS.map(n => <option key={n} value={n}>{n === 1 ? 'This week only' : `Weekly for ${n} weeks`}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <button
+        onClick={handleDownload}
+        className="w-full mt-4 bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-4 rounded-lg transition-colors"
+      >
+        Download .ics
+      </button>
+
+      {canSubscribe && (
+        <div className="mt-6 pt-4 border-t border-slate-200 dark:border-slate-700 text-sm">
+          <h3 className="font-semibold text-slate-800 dark:text-slate-200">Subscribe</h3>
+          <p className="text-slate-600 dark:text-slate-400 mb-3">
+            A private link your calendar app checks for changes. Anyone with the link can see your schedule; creating a new link disables the old one.
+          </p>
+          {feedUrl && (
+            <input
+              readOnly
+              value={feedUrl}
+              onFocus={e => e.target.select()}
+              className={`${inputClass} w-full mb-3`}
+            />
+          )}
+          <div className="flex gap-3">
+            <button
+              disabled={isWorking}
+              onClick={() => runFeedAction(async () => setFeedUrl(await createCalendarFeed({ startTime, weeks })))}
+              className="px-4 py-2 rounded-lg font-semibold text-indigo-600 dark:text-indigo-400 border border-indigo-500/50 hover:bg-indigo-50 dark:hover:bg-slate-700 transition-colors disabled:opacity-50"
+            >
+              {feedUrl ? 'Create New Link' : 'Create Link'}
+            </button>
+            {feedUrl && (
+              <button
+                disabled={isWorking}
+                onClick={() => runFeedAction(async () => { await revokeCalendarFeed(); setFeedUrl(null); })}
+                className="px-4 py-2 rounded-lg font-semibold text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors disabled:opacity-50"
+              >
+                Disable Link
+              </button>
+            )}
+          </div>
+          {feedError && <p className="mt-2 text-red-600 dark:text-red-400">{feedError}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalendarExportModal;
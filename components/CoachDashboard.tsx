@@ -0,0 +1,305 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { GeneratedPlan, PlanTemplate } from '../types';
+import * as coach from '../services/coachService';
+import { CoachClient } from '../services/coachService';
+import { computeAdherence } from '../utils/analytics';
+
+interface CoachDashboardProps {
+  coachUsername: string;
+  ownPlan: GeneratedPlan | null;
+  onEditClientPlan: (client: CoachClient) => void;
+}
+
+const secondaryButtonClass = "px-3 py-1 rounded-lg text-sm font-semibold text-indigo-600 dark:text-indigo-400 border border-indigo-500/50 hover:bg-indigo-50 dark:hover:bg-slate-700 transition-colors disabled:opacity-50";
+
+const inputClass = "px-3 py-1 rounded-md bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600 text-slate-800 dark:text-slate-200";
+
+const toggle = <T,>(list: T[], value: T) => (list.includes(value) ? list.filter(v => v !== value) : [...list, value]);
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString(undefined, { dateStyle: 'medium' });
+
+const displayName = (client: CoachClient) => client.profile?.userData?.name || client.username;
+
+const AdherenceSummary: React.FC<{ client: CoachClient }> = ({ client }) => {
+  const userData = client.profile?.userData;
+  const stats = userData ? computeAdherence(client.workoutLogs, userData, 4) : null;
+  const lastSession = client.workoutLogs.map(l => l.date).sort().pop();
+  return (
+    <p className="text-slate-600 dark:text-slate-400">
+      {stats?.rate != null ? `${Math.round(stats.rate * 100)}% of sessions done over 4 weeks` : 'No adherence data yet'}
+      {stats && stats.currentStreak > 0 && ` · ${stats.currentStreak}-week streak`}
+      {lastSession && ` · last session ${formatDate(lastSession)}`}
+    </p>
+  );
+};
+
+const CoachDashboard: React.FC<CoachDashboardProps> = ({ coachUsername, ownPlan, onEditClientPlan }) => {
+  const [clients, setClients] = useState<CoachClient[] | null>(null);
+  const [templates, setTemplates] = useState<PlanTemplate[]>([]);
+  const [newClient, setNewClient] = useState({ name: '', username: '', password: '' });
+  const [templateName, setTemplateName] = useState('');
+  const [assigning, setAssigning] = useState<{ template: PlanTemplate; clients: string[] } | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [loadedClients, loadedTemplates] = await Promise.all([coach.getClients(coachUsername), coach.getTemplates(coachUsername)]);
+      setClients(loadedClients);
+      setTemplates(loadedTemplates);
+    } catch (e) {
+      setClients([]);
+      setError(e instanceof Error ? e.message : 'Could not load your clients.');
+    }
+  }, [coachUsername]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const run = async (action: () => Promise<string>) => {
+    setIsWorking(true);
+    setMessage(null);
+    setError(null);
+    try {
+      setMessage(await action());
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCreateClient = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const username = await coach.createClient(coachUsername, newClient.username, newClient.password, newClient.name);
+      setNewClient({ name: '', username: '', password: '' });
+      return `Created ${username}. Share the username and password with them so they can sign in.`;
+    });
+  };
+
+  const handleRemoveClient = (client: CoachClient) => {
+    if (!window.confirm(`Stop managing ${displayName(client)}? Their account and data are kept.`)) return;
+    run(async () => {
+      await coach.removeClient(coachUsername, client.username);
+      return `${displayName(client)} is no longer one of your clients.`;
+    });
+  };
+
+  const handleSaveTemplate = (name: string, plan: GeneratedPlan) =>
+    run(async () => {
+      const template = await coach.createTemplate(coachUsername, name, plan);
+      setTemplateName('');
+      return `Saved template "${template.name}".`;
+    });
+
+  const handleDeleteTemplate = (template: PlanTemplate) => {
+    if (!window.confirm(`Delete the template "${template.name}"? Plans already assigned from it are not changed.`)) return;
+    run(async () => {
+      await coach.deleteTemplate(coachUsername, template.id);
+      return `Deleted template "${template.name}".`;
+    });
+  };
+
+  const handleAssign = () => {
+    if (!assigning) return;
+    const { template, clients: usernames } = assigning;
+    run(async () => {
+      await coach.assignTemplate(coachUsername, template, usernames);
+      setAssigning(null);
+      return `Assigned "${template.name}" to ${usernames.length} client(s).`;
+    });
+  };
+
+  if (!clients) {
+    return (
+      <div className="p-6">
+        <h2 className="text-2xl font-bold text-slate-900 dark:text-slate-100 mb-2">Clients</h2>
+        <p className="text-sm text-slate-600 dark:text-slate-400">Loading your clients…</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 max-h-[85vh] overflow-y-auto text-sm">
+      <h2 className="text-2xl font-bold text-slate-900 dark:text-slate-100 mb-1">Clients</h2>
+      <p className="text-slate-600 dark:text-slate-400 mb-4">
+        Build and adjust plans for the people you coach. Each client signs in to their own account and sees only their own plan and logs.
+      </p>
+
+      {clients.length === 0 ? (
+        <p className="text-slate-600 dark:text-slate-400 mb-4">You have no clients yet. Add one below.</p>
+      ) : (
+        <ul className="space-y-2 mb-4">
+          {clients.map(client => {
+            const plan = client.profile?.workoutPlan;
+            return (
+              <li key={client.username} className="p-3 rounded-lg bg-slate-100 dark:bg-slate-900/60">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <p className="font-semibold text-slate-800 dark:text-slate-200">
+                      {displayName(client)} <span className="font-normal text-slate-500 dark:text-slate-400">@{client.username}</span>
+                    </p>
+                    <p className="text-slate-700 dark:text-slate-300">
+                      {plan ? `Week ${plan.week ?? 1} · ${plan.plan.length} training day(s) · ${plan.completedDays?.length ?? 0} done this week` : 'No plan assigned'}
+                    </p>
+                    <AdherenceSummary client={client} />
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <button onClick={() => plan && onEditClientPlan(client)} disabled={!plan || isWorking} className={secondaryButtonClass}>
+                      Edit Plan
+                    </button>
+                    <button
+                      onClick={() => plan && handleSaveTemplate(`${displayName(client)}'s plan`, plan)}
+                      disabled={!plan || isWorking}
+                      className={secondaryButtonClass}
+                    >
+                      Save as Template
+                    </button>
+                    <button
+                      onClick={() => handleRemoveClient(client)}
+                      disabled={isWorking}
+                      className="px-3 py-1 rounded-lg text-sm font-semibold text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-slate-700 transition-colors disabled:opacity-50"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <form onSubmit={handleCreateClient} className="flex flex-wrap items-center gap-2 mb-6">
+        <input
+          type="text"
+          value={newClient.name}
+          onChange={e => setNewClient({ ...newClient, name: e.target.value })}
+          placeholder="Client's name"
+          className={`${inputClass} flex-grow`}
+        />
+        <input
+          type="text"
+          value={newClient.username}
+          onChange={e => setNewClient({ ...newClient, username: e.target.value })}
+          placeholder="Username"
+          autoComplete="off"
+          className={`${inputClass} flex-grow`}
+        />
+        <input
+          type="password"
+          value={newClient.password}
+          onChange={e => setNewClient({ ...newClient, password: e.target.value })}
+          placeholder="Temporary password"
+          autoComplete="new-password"
+          className={`${inputClass} flex-grow`}
+        />
+        <button
+          type="submit"
+          disabled={isWorking || !newClient.username.trim() || !newClient.password}
+          className="px-3 py-1 rounded-lg font-bold bg-indigo-600 hover:bg-indigo-700 text-white transition-colors disabled:opacity-50"
+        >
+          Add Client
+        </button>
+      </form>
+
+      <h3 className="text-xl font-bold text-slate-900 dark:text-slate-100 mb-1 pt-4 border-t border-slate-200 dark:border-slate-700">Plan Templates</h3>
+      <p className="text-slate-600 dark:text-slate-400 mb-3">
+        Assigning a template gives each client their own copy starting at week 1; later edits to one client's plan do not affect the others.
+      </p>
+
+      {templates.length === 0 ? (
+        <p className="text-slate-600 dark:text-slate-400 mb-3">No templates yet. Save a client's plan or your own as a template.</p>
+      ) : (
+        <ul className="space-y-2 mb-3">
+          {templates.map(template => (
+            <li key={template.id} className="p-3 rounded-lg bg-slate-100 dark:bg-slate-900/60">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <p className="font-semibold text-slate-800 dark:text-slate-200">{template.name}</p>
+                  <p className="text-slate-600 dark:text-slate-400">
+                    {template.plan.plan.map(d => d.day).join(', ')} · saved {formatDate(template.createdAt)}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={() => setAssigning(assigning?.template.id === template.id ? null : { template, clients: [] })}
+                    disabled={isWorking || clients.length === 0}
+                    className={secondaryButtonClass}
+                  >
+                    Assign…
+                  </button>
+                  <button
+                    onClick={() => handleDeleteTemplate(template)}
+                    disabled={isWorking}
+                    className="px-3 py-1 rounded-lg text-sm font-semibold text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-slate-700 transition-colors disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+              {assigning?.template.id === template.id && (
+                <div className="mt-3 pt-3 border-t border-slate-200 dark:border-slate-700">
+                  <p className="text-slate-700 dark:text-slate-300 mb-2">Replace the current plan of:</p>
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 mb-3">
+                    {clients.map(client => (
+                      <label key={client.username} className="flex items-center gap-2 text-slate-700 dark:text-slate-300">
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4 accent-indigo-600"
+                          checked={assigning.clients.includes(client.username)}
+                          onChange={() => setAssigning({ ...assigning, clients: toggle(assigning.clients, client.username) })}
+                        />
+                        {displayName(client)}
+                      </label>
+                    ))}
+                  </div>
+                  <div className="flex justify-end gap-3">
+                    <button onClick={() => setAssigning(null)} className="px-3 py-1 rounded-lg font-semibold hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleAssign}
+                      disabled={isWorking || assigning.clients.length === 0}
+                      className="px-3 py-1 rounded-lg font-bold bg-indigo-600 hover:bg-indigo-700 text-white transition-colors disabled:opacity-50"
+                    >
+                      Assign to {assigning.clients.length} Client(s)
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {ownPlan && (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={templateName}
+            onChange={e => setTemplateName(e.target.value)}
+            placeholder="Template name"
+            className={`${inputClass} flex-grow`}
+          />
+          <button
+            onClick={() => handleSaveTemplate(templateName, ownPlan)}
+            disabled={isWorking || !templateName.trim()}
+            className={secondaryButtonClass}
+          >
+            Save My Current Plan as Template
+          </button>
+        </div>
+      )}
+
+      {message && <p className="mt-3 text-emerald-600 dark:text-emerald-400">{message}</p>}
+      {error && <p className="mt-3 text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default CoachDashboard;
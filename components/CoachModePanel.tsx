@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+
+interface CoachModePanelProps {
+  isCoach: boolean;
+  onEnable: () => Promise<void>;
+  onOpenClients: () => void;
+}
+
+const secondaryButtonClass = "px-3 py-2 rounded-lg text-sm font-semibold text-indigo-600 dark:text-indigo-400 border border-indigo-500/50 hover:bg-indigo-50 dark:hover:bg-slate-700 transition-colors disabled:opacity-50";
+
+const CoachModePanel: React.FC<CoachModePanelProps> = ({ isCoach, onEnable, onOpenClients }) => {
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleEnable = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await onEnable();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not turn on coach mode.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="px-6 pb-6 pt-4 border-t border-slate-200 dark:border-slate-700 text-sm">
+      <h3 className="font-semibold text-slate-800 dark:text-slate-200">Coach Mode</h3>
+      {isCoach ? (
+        <>
+          <p className="text-slate-600 dark:text-slate-400 mb-3">
+            Coach mode is on. Your own plan and logs are unchanged; your clients' are managed from the Clients page.
+          </p>
+          <button onClick={onOpenClients} className={secondaryButtonClass}>Open Clients</button>
+        </>
+      ) : (
+        <>
+          <p className="text-slate-600 dark:text-slate-400 mb-3">
+            Trainers can create accounts for their clients, build and edit their plans, share plan templates and follow their adherence.
+          </p>
+          <button onClick={handleEnable} disabled={isWorking} className={secondaryButtonClass}>Turn On Coach Mode</button>
+        </>
+      )}
+      {error && <p className="mt-2 text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default CoachModePanel;
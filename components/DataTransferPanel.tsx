@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { WorkoutLog } from '../types';
+import { AccountData, exerciseHistoryToCsv, parseAccountImport, workoutLogsToCsv } from '../utils/accountTransfer';
+import { ValidationIssue } from '../utils/validation';
+import { downloadFile } from '../utils/download';
+import { exportAccount, importAccount, ImportSummary } from '../services/accountTransferService';
+
+interface DataTransferPanelProps {
+  username: string;
+  workoutHistory: WorkoutLog[];
+  onImported: (data: AccountData, summary: ImportSummary) => void;
+}
+
+interface PendingImport {
+  fileName: string;
+  data: AccountData | null;
+  errors: ValidationIssue[];
+  repairs: ValidationIssue[];
+}
+
+const secondaryButtonClass = "px-3 py-2 rounded-lg text-sm font-semibold text-indigo-600 dark:text-indigo-400 border border-indigo-500/50 hover:bg-indigo-50 dark:hover:bg-slate-700 transition-colors disabled:opacity-50";
+
+const IssueList: React.FC<{ issues: ValidationIssue[]; className: string }> = ({ issues, className }) => (
+  <ul className={`list-disc pl-5 space-y-0.5 ${className}`}>
+    {issues.map((issue, i) => <li key={i}><span className="font-mono text-xs">{issue.path}</span> {issue.message}</li>)}
+  </ul>
+);
+
+const DataTransferPanel: React.FC<DataTransferPanelProps> = ({ username, workoutHistory, onImported }) => {
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  const handleExportJson = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const data = await exportAccount(username);
+      downloadFile(`fitplan-${username}-${stamp}.json`, JSON.stringify(data, null, 2), 'application/json');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not export your data.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setMessage(null);
+    setError(null);
+    const result = parseAccountImport(await file.text());
+    setPending({ fileName: file.name, data: result.value, errors: result.errors, repairs: result.repairs });
+  };
+
+  const handleConfirmImport = async () => {
+    if (!pending?.data) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      const summary = await importAccount(username, pending.data);
+      onImported(pending.data, summary);
+      setMessage(`Imported ${pending.fileName}: ${summary.logsAdded} new workout log(s), ${summary.versionsAdded} plan version(s), ${summary.measurementsAdded} body measurement(s).`);
+      setPending(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not import your data.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="px-6 pb-6 pt-4 border-t border-slate-200 dark:border-slate-700 text-sm">
+      <h3 className="font-semibold text-slate-800 dark:text-slate-200">Your Data</h3>
+      <p className="text-slate-600 dark:text-slate-400 mb-3">
+        Download everything as a backup you can import on another account or device, or your logs as spreadsheets.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        <button onClick={handleExportJson} disabled={isWorking} className={secondaryButtonClass}>Export All (JSON)</button>
+        <button
+          onClick={() => downloadFile(`fitplan-workouts-${stamp}.csv`, workoutLogsToCsv(workoutHistory), 'text/csv;charset=utf-8')}
+          disabled={workoutHistory.length === 0}
+          className={secondaryButtonClass}
+        >
+          Workout Log (CSV)
+        </button>
+        <button
+          onClick={() => downloadFile(`fitplan-exercise-history-${stamp}.csv`, exerciseHistoryToCsv(workoutHistory), 'text/csv;charset=utf-8')}
+          disabled={workoutHistory.length === 0}
+          className={secondaryButtonClass}
+        >
+          Exercise History (CSV)
+        </button>
+        <label className={`${secondaryButtonClass} cursor-pointer`}>
+          Import…
+          <input type="file" accept="application/json,.json" onChange={handleFileChosen} className="hidden" />
+        </label>
+      </div>
+
+      {pending && (
+        <div className="mt-4 p-3 rounded-lg bg-slate-100 dark:bg-slate-900/60 text-slate-700 dark:text-slate-300">
+          <p className="font-semibold mb-1">{pending.fileName}</p>
+          {pending.data ? (
+            <p>
+              Replaces your profile{pending.data.workoutPlan ? ', current plan' : ''}{pending.data.dietPlan ? ' and diet plan' : ''},
+              and adds any of its {pending.data.workoutLogs.length} workout log(s), {pending.data.planVersions.length} plan version(s) and {pending.data.bodyMeasurements.length} body measurement(s) you do not have yet.
+            </p>
+          ) : (
+            <p className="text-red-600 dark:text-red-400">This file cannot be imported; nothing has been changed.</p>
+          )}
+          {pending.errors.length > 0 && <IssueList issues={pending.errors} className="mt-2 text-red-600 dark:text-red-400" />}
+          {pending.repairs.length > 0 && (
+            <>
+              <p className="mt-2 text-amber-700 dark:text-amber-300">Fixed while reading:</p>
+              <IssueList issues={pending.repairs} className="text-amber-700 dark:text-amber-300" />
+            </>
+          )}
+          <div className="flex justify-end gap-3 mt-3">
+            <button onClick={() => setPending(null)} className="px-3 py-1 rounded-lg font-semibold hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">
+              Cancel
+            </button>
+            {pending.data && (
+              <button onClick={handleConfirmImport} disabled={isWorking} className="px-3 py-1 rounded-lg font-bold bg-indigo-600 hover:bg-indigo-700 text-white transition-colors disabled:opacity-50">
+                Import
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {message && <p className="mt-2 text-emerald-600 dark:text-emerald-400">{message}</p>}
+      {error && <p className="mt-2 text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default DataTransferPanel;
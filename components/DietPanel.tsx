@@ -0,0 +1,234 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Allergen, DietaryRestriction, GeneratedDietPlan, GeneratedPlan, Meal, MealSlot, UserData } from '../types';
+import { ALLERGEN_LABELS } from '../data/foodDatabase';
+import { checkDietPlan, DietViolation, preferencesOf, RESTRICTION_LABELS } from '../utils/dietaryRules';
+import { DEFAULT_MEALS_PER_DAY, MEAL_SLOT_LABELS, mealsOf } from '../utils/nutrition';
+import { mealAlternatives } from '../utils/mealSwap';
+import { buildDietPlan, getDietPlan, swapMeal } from '../services/dietPlanService';
+
+interface DietPanelProps {
+  username: string;
+  userData: UserData;
+  workoutPlan: GeneratedPlan | null;
+  onUpdateUserData: (userData: UserData) => void;
+}
+
+interface SwapTarget {
+  dayIndex: number;
+  slot: MealSlot;
+  options: Meal[];
+}
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1 rounded-full text-xs font-semibold border transition-colors ${
+    active
+      ? 'bg-indigo-600 border-indigo-600 text-white'
+      : 'border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'
+  }`;
+
+const secondaryButtonClass = "px-3 py-1 rounded-lg text-sm font-semibold text-indigo-600 dark:text-indigo-400 border border-indigo-500/50 hover:bg-indigo-50 dark:hover:bg-slate-700 transition-colors disabled:opacity-50";
+
+const toggle = <T,>(list: T[], value: T) => (list.includes(value) ? list.filter(v => v !== value) : [...list, value]);
+
+const DietPanel: React.FC<DietPanelProps> = ({ username, userData, workoutPlan, onUpdateUserData }) => {
+  const [restrictions, setRestrictions] = useState<DietaryRestriction[]>(userData.dietaryRestrictions ?? []);
+  const [allergens, setAllergens] = useState<Allergen[]>(userData.allergens ?? []);
+  const [disliked, setDisliked] = useState((userData.dislikedFoods ?? []).join(', '));
+  const [mealsPerDay, setMealsPerDay] = useState(userData.mealsPerDay ?? DEFAULT_MEALS_PER_DAY);
+  const [dietPlan, setDietPlan] = useState<GeneratedDietPlan | null>(null);
+  const [selectedDay, setSelectedDay] = useState(0);
+  const [swapTarget, setSwapTarget] = useState<SwapTarget | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getDietPlan(username).then(setDietPlan).catch(() => setDietPlan(null));
+  }, [username]);
+
+  const dislikedFoods = disliked.split(',').map(s => s.trim()).filter(Boolean);
+  const isDirty =
+    JSON.stringify([restrictions, allergens, dislikedFoods, mealsPerDay]) !==
+    JSON.stringify([userData.dietaryRestrictions ?? [], userData.allergens ?? [], userData.dislikedFoods ?? [], userData.mealsPerDay ?? DEFAULT_MEALS_PER_DAY]);
+
+  // Checked against the saved profile, not the unsaved draft, so flags match what the plan was built for.
+  const prefs = useMemo(() => preferencesOf(userData), [userData]);
+  const flagged = useMemo(() => (dietPlan ? checkDietPlan(dietPlan, prefs) : []), [dietPlan, prefs]);
+  const violationsFor = (dayIndex: number, slot: MealSlot): DietViolation[] =>
+    flagged.find(f => f.dayIndex === dayIndex && f.slot === slot)?.violations ?? [];
+
+  const handleSavePreferences = () => {
+    onUpdateUserData({ ...userData, dietaryRestrictions: restrictions, allergens, dislikedFoods, mealsPerDay });
+  };
+
+  const handleBuildPlan = async () => {
+    setIsWorking(true);
+    setError(null);
+    setSwapTarget(null);
+    try {
+      setDietPlan(await buildDietPlan(username, userData, workoutPlan));
+      setSelectedDay(0);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not build a meal plan.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleShowSwap = (dayIndex: number, slot: MealSlot, meal: Meal) => {
+    const eatenToday = mealsOf(dietPlan!.plan[dayIndex]).map(([, m]) => m.name);
+    setSwapTarget({ dayIndex, slot, options: mealAlternatives(slot, meal, prefs, eatenToday) });
+  };
+
+  const handleSwap = async (meal: Meal) => {
+    if (!dietPlan || !swapTarget) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      setDietPlan(await swapMeal(username, dietPlan, swapTarget.dayIndex, swapTarget.slot, meal));
+      setSwapTarget(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not swap this meal.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const day = dietPlan?.plan[selectedDay];
+
+  return (
+    <div className="mt-6 bg-white/50 dark:bg-slate-800/50 backdrop-blur-sm p-6 rounded-2xl shadow-lg border border-slate-200 dark:border-slate-700 text-sm">
+      <h3 className="text-xl font-bold text-slate-900 dark:text-slate-100 mb-4">Diet Preferences</h3>
+
+      <p className="font-semibold text-slate-700 dark:text-slate-300 mb-2">Diet</p>
+      <div className="flex flex-wrap gap-2 mb-4">
+        {(Object.keys(RESTRICTION_LABELS) as DietaryRestriction[]).map(r => (
+          <button key={r} onClick={() => setRestrictions(toggle(restrictions, r))} className={chipClass(restrictions.includes(r))}>
+            {RESTRICTION_LABELS[r]}
+          </button>
+        ))}
+      </div>
+
+      <p className="font-semibold text-slate-700 dark:text-slate-300 mb-2">Allergies</p>
+      <div className="flex flex-wrap gap-2 mb-4">
+        {(Object.keys(ALLERGEN_LABELS) as Allergen[]).map(a => (
+          <button key={a} onClick={() => setAllergens(toggle(allergens, a))} className={chipClass(allergens.includes(a))}>
+            {ALLERGEN_LABELS[a]}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-4 mb-4">
+        <label className="flex-grow">
+          <span className="block font-semibold text-slate-700 dark:text-slate-300 mb-1">Foods you don't eat</span>
+          <input
+            type="text"
+            value={disliked}
+            onChange={e => setDisliked(e.target.value)}
+            placeholder="e.g. mushrooms, tuna"
+            className="w-full px-3 py-2 rounded-lg bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600 text-slate-800 dark:text-slate-200"
+          />
+        </label>
+        <label>
+          <span className="block font-semibold text-slate-700 dark:text-slate-300 mb-1">Meals per day</span>
+          <select
+            value={mealsPerDay}
+            onChange={e => setMealsPerDay(Number(e.target.value))}
+            className="px-3 py-2 rounded-lg bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600 text-slate-800 dark:text-slate-200"
+          >
+            {[3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-2 justify-end">
+        <button onClick={handleSavePreferences} disabled={!isDirty} className={secondaryButtonClass}>Save Preferences</button>
+        <button
+          onClick={handleBuildPlan}
+          disabled={isWorking || isDirty}
+          title={isDirty ? 'Save your preferences first' : undefined}
+          className="px-3 py-1 rounded-lg font-bold bg-indigo-600 hover:bg-indigo-700 text-white transition-colors disabled:opacity-50"
+        >
+          {dietPlan ? 'Rebuild Meal Plan' : 'Build Meal Plan'}
+        </button>
+      </div>
+      {error && <p className="mt-2 text-red-600 dark:text-red-400">{error}</p>}
+
+      {dietPlan && day && (
+        <div className="mt-6 pt-4 border-t border-slate-200 dark:border-slate-700">
+          {flagged.length > 0 ? (
+            <p className="mb-3 text-amber-700 dark:text-amber-300">
+              {flagged.length} meal(s) in your plan conflict with your preferences. Swap them below or rebuild the plan.
+            </p>
+          ) : (
+            <p className="mb-3 text-emerald-600 dark:text-emerald-400">Every meal in your plan fits your preferences.</p>
+          )}
+
+          <div className="flex flex-wrap gap-2 mb-3">
+            {dietPlan.plan.map((d, i) => (
+              <button key={d.day} onClick={() => { setSelectedDay(i); setSwapTarget(null); }} className={chipClass(i === selectedDay)}>
+                {d.day}
+                {flagged.some(f => f.dayIndex === i) && <span className="ml-1 text-amber-500">●</span>}
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            {mealsOf(day).map(([slot, meal]) => {
+              const violations = violationsFor(selectedDay, slot);
+              const isSwapping = swapTarget?.dayIndex === selectedDay && swapTarget.slot === slot;
+              return (
+                <div
+                  key={slot}
+                  className={`p-3 rounded-xl border ${violations.length > 0 ? 'border-amber-400 dark:border-amber-500/60' : 'border-slate-200 dark:border-slate-700'}`}
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div>
+                      <p className="text-xs text-slate-500 dark:text-slate-400">{MEAL_SLOT_LABELS[slot]} · {meal.calories} kcal</p>
+                      <p className="font-semibold text-slate-800 dark:text-slate-200">{meal.name}</p>
+                      {meal.description && <p className="text-slate-600 dark:text-slate-400">{meal.description}</p>}
+                    </div>
+                    <button
+                      onClick={() => (isSwapping ? setSwapTarget(null) : handleShowSwap(selectedDay, slot, meal))}
+                      disabled={isWorking}
+                      className={secondaryButtonClass}
+                    >
+                      {isSwapping ? 'Cancel' : 'Swap'}
+                    </button>
+                  </div>
+                  {violations.length > 0 && (
+                    <ul className="list-disc pl-5 mt-2 text-amber-700 dark:text-amber-300">
+                      {violations.map((v, i) => <li key={i}>{v.message}</li>)}
+                    </ul>
+                  )}
+                  {isSwapping && (
+                    <div className="mt-3 space-y-2">
+                      {swapTarget!.options.length === 0 && (
+                        <p className="text-slate-600 dark:text-slate-400">No other meals fit your preferences for this slot.</p>
+                      )}
+                      {swapTarget!.options.map(option => (
+                        <button
+                          key={option.name}
+                          onClick={() => handleSwap(option)}
+                          disabled={isWorking}
+                          className="w-full text-left p-2 rounded-lg bg-slate-100 dark:bg-slate-900/60 hover:bg-indigo-50 dark:hover:bg-slate-700 transition-colors"
+                        >
+                          <span className="font-semibold text-slate-800 dark:text-slate-200">{option.name}</span>
+                          <span className="text-slate-500 dark:text-slate-400"> · {option.calories} kcal · P {option.protein}g · C {option.carbs}g · F {option.fat}g</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          <p className="mt-3 font-semibold text-slate-700 dark:text-slate-300">
+            Total {day.dailyTotals.calories} kcal · Protein {day.dailyTotals.protein} · Carbs {day.dailyTotals.carbs} · Fat {day.dailyTotals.fat}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DietPanel;
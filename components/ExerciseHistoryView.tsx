@@ -0,0 +1,90 @@
+import React, { useMemo, useState } from 'react';
+import { UnitSystem, WorkoutLog } from '../types';
+import { buildExerciseHistory } from '../utils/exerciseHistory';
+import { formatWeight, weightIn, weightUnit } from '../utils/units';
+
+interface ExerciseHistoryViewProps {
+  workoutHistory: WorkoutLog[];
+  units?: UnitSystem;
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+// Volumes run into the thousands, so they are shown as whole numbers.
+const formatVolume = (kg: number, units?: UnitSystem) => `${Math.round(weightIn(kg, units))} ${weightUnit(units)}`;
+
+const ExerciseHistoryView: React.FC<ExerciseHistoryViewProps> = ({ workoutHistory, units }) => {
+  const histories = useMemo(() => buildExerciseHistory(workoutHistory), [workoutHistory]);
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+
+  return (
+    <div className="mt-6 bg-white/50 dark:bg-slate-800/50 backdrop-blur-sm p-6 rounded-2xl shadow-lg border border-slate-200 dark:border-slate-700">
+      <h3 className="text-xl font-bold text-slate-900 dark:text-slate-100 mb-4">Exercise History</h3>
+      {histories.length === 0 ? (
+        <p className="text-slate-600 dark:text-slate-400 text-sm">
+          Log your sets after a workout to see per-exercise history here.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {histories.map(history => {
+            const latest = history.sessions[0];
+            const isExpanded = expandedKey === history.key;
+            return (
+              <div key={history.key} className="border border-slate-200 dark:border-slate-700 rounded-xl">
+                <button
+                  onClick={() => setExpandedKey(isExpanded ? null : history.key)}
+                  className="w-full flex items-center justify-between p-4 text-left"
+                >
+                  <div>
+                    <p className="font-semibold text-slate-800 dark:text-slate-200">{history.name}</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                      {history.sessions.length} session{history.sessions.length === 1 ? '' : 's'} · last {formatDate(latest.date)}
+                    </p>
+                  </div>
+                  <div className="text-right text-sm text-slate-700 dark:text-slate-300">
+                    <p>{latest.topWeight !== null ? `${formatWeight(latest.topWeight, units)} top set` : `${latest.totalReps} reps`}</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">{formatVolume(latest.volume, units)} volume</p>
+                  </div>
+                </button>
+                {isExpanded && (
+                  <div className="px-4 pb-4 overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs text-slate-500 dark:text-slate-400">
+                          <th className="py-1 pr-4">Date</th>
+                          <th className="py-1 pr-4">Sets</th>
+                          <th className="py-1 pr-4">Volume</th>
+                          <th className="py-1">Notes</th>
+                        </tr>
+                      </thead>
+                      <tbody className="text-slate-700 dark:text-slate-300">
+                        {history.sessions.map(session => (
+                          <tr key={session.date} className="border-t border-slate-200 dark:border-slate-700 align-top">
+                            <td className="py-2 pr-4 whitespace-nowrap">{formatDate(session.date)}</td>
+                            <td className="py-2 pr-4">
+                              {session.sets.map(set => set.skipped
+                                ? <span key={set.setNumber} className="block text-slate-400 line-through">Set {set.setNumber}</span>
+                                : <span key={set.setNumber} className="block">
+                                    {set.reps ?? '-'} x {formatWeight(set.weight ?? 0, units)}{set.rpe !== null ? ` @ RPE ${set.rpe}` : ''}
+                                  </span>
+                              )}
+                            </td>
+                            <td className="py-2 pr-4 whitespace-nowrap">{formatVolume(session.volume, units)}</td>
+                            <td className="py-2 text-slate-500 dark:text-slate-400">{session.notes || ''}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExerciseHistoryView;
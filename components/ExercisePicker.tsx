@@ -0,0 +1,106 @@
+import React, { useMemo, useState } from 'react';
+import { Exercise } from '../types';
+import { EQUIPMENT_LABELS, EquipmentTag, LibraryExercise, MUSCLE_LABELS, Muscle } from '../data/exerciseLibrary';
+import { searchCatalogue } from '../utils/exerciseMatcher';
+
+interface ExercisePickerProps {
+  groupName: string;
+  existingExercises: Exercise[];
+  onPick: (entry: LibraryExercise, replaceIndex: number | null) => void;
+  onCancel: () => void;
+}
+
+const DIFFICULTY_LABELS = ['', 'Beginner', 'Intermediate', 'Advanced'];
+
+const ExercisePicker: React.FC<ExercisePickerProps> = ({ groupName, existingExercises, onPick, onCancel }) => {
+  const [query, setQuery] = useState('');
+  const [muscle, setMuscle] = useState<Muscle | ''>('');
+  const [equipment, setEquipment] = useState<EquipmentTag | ''>('');
+  const [replaceIndex, setReplaceIndex] = useState<number | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const results = useMemo(() => searchCatalogue(query, { muscle, equipment }), [query, muscle, equipment]);
+
+  const selectClass = "bg-slate-100 dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded-lg px-3 py-2 text-sm text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+  return (
+    <div className="p-6 max-h-[85vh] flex flex-col">
+      <h2 className="text-2xl font-bold text-slate-900 dark:text-slate-100">Exercise Library</h2>
+      <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">{groupName}</p>
+
+      <div className="flex flex-col sm:flex-row gap-2 mb-3">
+        <input
+          autoFocus
+          type="search"
+          placeholder="Search by name, alias or muscle"
+          className={`${selectClass} flex-grow`}
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+        />
+        <select className={selectClass} value={muscle} onChange={e => setMuscle(e.target.value as Muscle | '')}>
+          <option value="">All muscles</option>
+          {(Object.keys(MUSCLE_LABELS) as Muscle[]).map(m => <option key={m} value={m}>{MUSCLE_LABELS[m]}</option>)}
+        </select>
+        <select className={selectClass} value={equipment} onChange={e => setEquipment(e.target.value as EquipmentTag | '')}>
+          <option value="">Any equipment</option>
+          {(Object.keys(EQUIPMENT_LABELS) as EquipmentTag[]).map(t => <option key={t} value={t}>{EQUIPMENT_LABELS[t]}</option>)}
+        </select>
+      </div>
+
+      {existingExercises.length > 0 && (
+        <label className="flex items-center gap-2 mb-3 text-sm text-slate-700 dark:text-slate-300">
+          <span className="font-semibold">Action:</span>
+          <select
+            className={selectClass}
+            value={replaceIndex === null ? '' : String(replaceIndex)}
+            onChange={e => setReplaceIndex(e.target.value === '' ? null : parseInt(e.target.value, 10))}
+          >
+            <option value="">Add as a new exercise</option>
+            {existingExercises.map((ex, i) => <option key={i} value={i}>Replace {ex.name}</option>)}
+          </select>
+        </label>
+      )}
+
+      <div className="flex-grow overflow-y-auto pr-1 -mr-1 space-y-2">
+        {results.length === 0 && (
+          <p className="text-sm text-slate-500 dark:text-slate-400 py-6 text-center">No exercises match your search.</p>
+        )}
+        {results.map(entry => (
+          <div key={entry.id} className="border border-slate-200 dark:border-slate-700 rounded-xl p-3">
+            <div className="flex items-start justify-between gap-3">
+              <button className="text-left flex-grow" onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}>
+                <p className="font-semibold text-slate-800 dark:text-slate-200">{entry.name}</p>
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  {entry.primaryMuscles.map(m => MUSCLE_LABELS[m]).join(', ')}
+                  {entry.secondaryMuscles.length > 0 && ` · ${entry.secondaryMuscles.map(m => MUSCLE_LABELS[m]).join(', ')}`}
+                </p>
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  {entry.equipment.map(t => EQUIPMENT_LABELS[t]).join(' + ')} · {DIFFICULTY_LABELS[entry.difficulty]}
+                </p>
+              </button>
+              <button
+                onClick={() => onPick(entry, replaceIndex)}
+                className="flex-shrink-0 px-3 py-1.5 rounded-lg text-sm font-bold bg-indigo-600 hover:bg-indigo-700 text-white transition-colors"
+              >
+                {replaceIndex === null ? 'Add' : 'Replace'}
+              </button>
+            </div>
+            {expandedId === entry.id && (
+              <ol className="mt-2 list-decimal list-inside text-sm text-slate-600 dark:text-slate-400 space-y-1">
+                {entry.instructions.map((step, i) => <li key={i}>{step}</li>)}
+              </ol>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end mt-4 pt-4 border-t border-slate-200 dark:border-slate-700">
+        <button onClick={onCancel} className="px-4 py-2 rounded-lg font-semibold text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors">
+          Close
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ExercisePicker;
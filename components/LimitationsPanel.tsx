@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { BodyArea, Limitation, MovementPattern, UserData } from '../types';
+import { BODY_AREA_LABELS, MOVEMENT_PATTERN_LABELS } from '../utils/limitations';
+
+interface LimitationsPanelProps {
+  userData: UserData;
+  hasPlan: boolean;
+  onUpdateUserData: (userData: UserData) => void;
+  onApplyToPlan: () => void;
+}
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1 rounded-full text-xs font-semibold border transition-colors ${
+    active
+      ? 'bg-indigo-600 border-indigo-600 text-white'
+      : 'border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'
+  }`;
+
+const secondaryButtonClass = "px-3 py-1 rounded-lg text-sm font-semibold text-indigo-600 dark:text-indigo-400 border border-indigo-500/50 hover:bg-indigo-50 dark:hover:bg-slate-700 transition-colors disabled:opacity-50";
+
+const toggle = <T,>(list: T[], value: T) => (list.includes(value) ? list.filter(v => v !== value) : [...list, value]);
+
+const LimitationsPanel: React.FC<LimitationsPanelProps> = ({ userData, hasPlan, onUpdateUserData, onApplyToPlan }) => {
+  const [limitations, setLimitations] = useState<Limitation[]>(userData.limitations ?? []);
+  const [avoidPatterns, setAvoidPatterns] = useState<MovementPattern[]>(userData.avoidPatterns ?? []);
+  const [includeWarmUp, setIncludeWarmUp] = useState(userData.includeWarmUp ?? false);
+
+  const isDirty =
+    JSON.stringify([limitations, avoidPatterns, includeWarmUp]) !==
+    JSON.stringify([userData.limitations ?? [], userData.avoidPatterns ?? [], userData.includeWarmUp ?? false]);
+
+  const limitationFor = (area: BodyArea) => limitations.find(l => l.area === area);
+
+  const toggleArea = (area: BodyArea) =>
+    setLimitations(limitationFor(area) ? limitations.filter(l => l.area !== area) : [...limitations, { area, severity: 'caution' }]);
+
+  const updateLimitation = (area: BodyArea, changes: Partial<Limitation>) =>
+    setLimitations(limitations.map(l => (l.area === area ? { ...l, ...changes } : l)));
+
+  const handleSave = () => {
+    const cleaned = limitations.map(({ note, ...l }) => (note?.trim() ? { ...l, note: note.trim() } : l));
+    onUpdateUserData({ ...userData, limitations: cleaned, avoidPatterns, includeWarmUp });
+  };
+
+  return (
+    <div className="mt-6 bg-white/50 dark:bg-slate-800/50 backdrop-blur-sm p-6 rounded-2xl shadow-lg border border-slate-200 dark:border-slate-700 text-sm">
+      <h3 className="text-xl font-bold text-slate-900 dark:text-slate-100 mb-1">Injuries & Limitations</h3>
+      <p className="text-slate-600 dark:text-slate-400 mb-4">
+        Plans leave out or replace exercises that could aggravate these areas. This is not medical advice; follow your physiotherapist or doctor.
+      </p>
+
+      <p className="font-semibold text-slate-700 dark:text-slate-300 mb-2">Body areas</p>
+      <div className="flex flex-wrap gap-2 mb-3">
+        {(Object.keys(BODY_AREA_LABELS) as BodyArea[]).map(area => (
+          <button key={area} onClick={() => toggleArea(area)} className={chipClass(!!limitationFor(area))}>
+            {BODY_AREA_LABELS[area]}
+          </button>
+        ))}
+      </div>
+      {limitations.length > 0 && (
+        <div className="space-y-2 mb-4">
+          {limitations.map(l => (
+            <div key={l.area} className="flex flex-col sm:flex-row sm:items-center gap-2 p-2 rounded-lg bg-slate-100 dark:bg-slate-900/60">
+              <span className="font-semibold text-slate-800 dark:text-slate-200 sm:w-28">{BODY_AREA_LABELS[l.area]}</span>
+              <select
+                value={l.severity}
+                onChange={e => updateLimitation(l.area, { severity: e.target.value as Limitation['severity'] })}
+                className="px-2 py-1 rounded-md bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600 text-slate-800 dark:text-slate-200"
+              >
+                <option value="caution">Train with care</option>
+                <option value="avoid">Injured: avoid loading</option>
+              </select>
+              <input
+                type="text"
+                value={l.note ?? ''}
+                onChange={e => updateLimitation(l.area, { note: e.target.value })}
+                placeholder="Optional note, e.g. rotator cuff strain"
+                className="flex-grow px-3 py-1 rounded-md bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600 text-slate-800 dark:text-slate-200"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p className="font-semibold text-slate-700 dark:text-slate-300 mb-2">Movements to avoid</p>
+      <div className="flex flex-wrap gap-2 mb-4">
+        {(Object.keys(MOVEMENT_PATTERN_LABELS) as MovementPattern[]).map(p => (
+          <button key={p} onClick={() => setAvoidPatterns(toggle(avoidPatterns, p))} className={chipClass(avoidPatterns.includes(p))}>
+            {MOVEMENT_PATTERN_LABELS[p]}
+          </button>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-2 mb-4 text-slate-700 dark:text-slate-300">
+        <input type="checkbox" className="h-4 w-4 accent-indigo-600" checked={includeWarmUp} onChange={e => setIncludeWarmUp(e.target.checked)} />
+        Start every session with a warm-up and mobility routine
+      </label>
+
+      <div className="flex flex-wrap gap-2 justify-end">
+        <button onClick={handleSave} disabled={!isDirty} className={secondaryButtonClass}>Save Limitations</button>
+        {hasPlan && (
+          <button
+            onClick={onApplyToPlan}
+            disabled={isDirty}
+            title={isDirty ? 'Save your limitations first' : undefined}
+            className="px-3 py-1 rounded-lg font-bold bg-indigo-600 hover:bg-indigo-700 text-white transition-colors disabled:opacity-50"
+          >
+            Apply to Current Plan
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LimitationsPanel;
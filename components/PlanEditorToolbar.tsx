@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { GeneratedPlan } from '../types';
+import { PlanEditCommand } from '../utils/planEditCommands';
+
+interface PlanEditorToolbarProps {
+  plan: GeneratedPlan;
+  dayIndex: number;
+  onCommand: (command: PlanEditCommand) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  undoLabel: string | null;
+  redoLabel: string | null;
+}
+
+const selectClass = "bg-slate-100 dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded-md px-2 py-1 text-sm text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+const buttonClass = "px-3 py-1 rounded-md text-sm font-semibold text-indigo-600 dark:text-indigo-400 border border-indigo-500/50 hover:bg-indigo-50 dark:hover:bg-slate-700 transition-colors disabled:opacity-40 disabled:hover:bg-transparent";
+
+const PlanEditorToolbar: React.FC<PlanEditorToolbarProps> = ({ plan, dayIndex, onCommand, onUndo, onRedo, undoLabel, redoLabel }) => {
+  const day = plan.plan[dayIndex];
+  const [exerciseRef, setExerciseRef] = useState('');
+  const [targetDayIndex, setTargetDayIndex] = useState(dayIndex);
+  const [targetGroupIndex, setTargetGroupIndex] = useState(0);
+  const [swapWith, setSwapWith] = useState('');
+  const [newGroupName, setNewGroupName] = useState('');
+  const [groupToRemove, setGroupToRemove] = useState('');
+
+  if (!day) return null;
+
+  const [groupIndex, exerciseIndex] = exerciseRef ? exerciseRef.split(':').map(Number) : [-1, -1];
+  const selectedGroup = day.muscleGroups[groupIndex];
+  const from = { dayIndex, groupIndex, exerciseIndex };
+  const targetGroups = plan.plan[targetDayIndex]?.muscleGroups ?? [];
+
+  const moveWithinGroup = (offset: number) => {
+    const index = exerciseIndex + offset;
+    onCommand({ type: 'moveExercise', from, to: { dayIndex, groupIndex }, index });
+    setExerciseRef(`${groupIndex}:${index}`);
+  };
+
+  const moveToGroup = () => {
+    onCommand({ type: 'moveExercise', from, to: { dayIndex: targetDayIndex, groupIndex: targetGroupIndex }, index: Number.MAX_SAFE_INTEGER });
+    setExerciseRef('');
+  };
+
+  return (
+    <div className="mb-4 bg-white/50 dark:bg-slate-800/50 backdrop-blur-sm p-4 rounded-2xl shadow-lg border border-slate-200 dark:border-slate-700 space-y-3 text-sm text-slate-700 dark:text-slate-300">
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={onUndo} disabled={!undoLabel} title={undoLabel ? `Undo: ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'} className={buttonClass}>
+          Undo
+        </button>
+        <button onClick={onRedo} disabled={!redoLabel} title={redoLabel ? `Redo: ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'} className={buttonClass}>
+          Redo
+        </button>
+        {plan.plan.length > 1 && (
+          <span className="flex items-center gap-2 ml-auto">
+            Swap {day.day} with
+            <select value={swapWith} onChange={e => setSwapWith(e.target.value)} className={selectClass}>
+              <option value="">...</option>
+              {plan.plan.map((d, i) => i !== dayIndex && <option key={d.day} value={i}>{d.day}</option>)}
+            </select>
+            <button
+              disabled={swapWith === ''}
+              onClick={() => { onCommand({ type: 'swapDays', dayIndexA: dayIndex, dayIndexB: Number(swapWith) }); setSwapWith(''); }}
+              className={buttonClass}
+            >
+              Swap
+            </button>
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={exerciseRef} onChange={e => setExerciseRef(e.target.value)} className={selectClass}>
+          <option value="">Select an exercise to move...</option>
+          {day.muscleGroups.map((group, g) => (
+            <optgroup key={`${group.name}-${g}`} label={group.name}>
+              {group.exercises.map((ex, e) => <option key={`${ex.name}-${e}`} value={`${g}:${e}`}>{ex.name}</option>)}
+            </optgroup>
+          ))}
+        </select>
+        <button onClick={() => moveWithinGroup(-1)} disabled={!selectedGroup || exerciseIndex <= 0} className={buttonClass} aria-label="Move up">↑</button>
+        <button onClick={() => moveWithinGroup(1)} disabled={!selectedGroup || exerciseIndex >= selectedGroup.exercises.length - 1} className={buttonClass} aria-label="Move down">↓</button>
+        <span>to</span>
+        <select value={targetDayIndex} onChange={e => { setTargetDayIndex(Number(e.target.value)); setTargetGroupIndex(0); }} className={selectClass}>
+          {plan.plan.map((d, i) => <option key={d.day} value={i}>{d.day}</option>)}
+        </select>
+        <select value={targetGroupIndex} onChange={e => setTargetGroupIndex(Number(e.target.value))} className={selectClass} disabled={targetGroups.length === 0}>
+          {targetGroups.map((g, i) => <option key={`${g.name}-${i}`} value={i}>{g.name}</option>)}
+        </select>
+        <button onClick={moveToGroup} disabled={!selectedGroup || targetGroups.length === 0} className={buttonClass}>Move</button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={newGroupName}
+          onChange={e => setNewGroupName(e.target.value)}
+          placeholder="New muscle group"
+          className={selectClass}
+        />
+        <button
+          disabled={!newGroupName.trim()}
+          onClick={() => { onCommand({ type: 'addMuscleGroup', dayIndex, name: newGroupName }); setNewGroupName(''); }}
+          className={buttonClass}
+        >
+          Add Group
+        </button>
+        <select value={groupToRemove} onChange={e => setGroupToRemove(e.target.value)} className={`${selectClass} ml-auto`}>
+          <option value="">Remove a group...</option>
+          {day.muscleGroups.map((g, i) => <option key={`${g.name}-${i}`} value={i}>{g.name} ({g.exercises.length})</option>)}
+        </select>
+        <button
+          disabled={groupToRemove === ''}
+          onClick={() => { onCommand({ type: 'removeMuscleGroup', at: { dayIndex, groupIndex: Number(groupToRemove) } }); setGroupToRemove(''); setExerciseRef(''); }}
+          className={buttonClass}
+        >
+          Remove
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PlanEditorToolbar;
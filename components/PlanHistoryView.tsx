@@ -0,0 +1,154 @@
+import React, { useMemo, useState } from 'react';
+import { GeneratedPlan, PlanVersion, PlanVersionSource, UnitSystem } from '../types';
+import { diffPlans, ExerciseChange } from '../utils/planDiff';
+import { formatWeight } from '../utils/units';
+
+interface PlanHistoryViewProps {
+  versions: PlanVersion[];
+  currentPlan: GeneratedPlan | null;
+  units?: UnitSystem;
+  onRestore: (version: PlanVersion) => void;
+  onFork: (version: PlanVersion) => void;
+}
+
+const SOURCE_LABELS: Record<PlanVersionSource, string> = {
+  'ai': 'Generated',
+  'manual-edit': 'Edited',
+  'progression': 'Progressed',
+  'restore': 'Restored',
+};
+
+const CURRENT = 'current';
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const formatPrescription = (p: ExerciseChange['before'], units?: UnitSystem) =>
+  p ? `${p.sets} x ${p.reps}${p.targetWeight !== undefined ? ` @ ${formatWeight(p.targetWeight, units)}` : ''}` : '';
+
+const CHANGE_STYLES: Record<ExerciseChange['status'], string> = {
+  added: 'text-emerald-600 dark:text-emerald-400',
+  removed: 'text-red-600 dark:text-red-400 line-through',
+  changed: 'text-amber-600 dark:text-amber-400',
+};
+
+const PlanHistoryView: React.FC<PlanHistoryViewProps> = ({ versions, currentPlan, units, onRestore, onFork }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(versions[0]?.id ?? null);
+  const [compareId, setCompareId] = useState<string>(CURRENT);
+
+  const selected = versions.find(v => v.id === selectedId) ?? null;
+  const comparePlan = compareId === CURRENT ? currentPlan : versions.find(v => v.id === compareId)?.plan ?? null;
+
+  const diff = useMemo(
+    () => (selected && comparePlan ? diffPlans(selected.plan, comparePlan) : null),
+    [selected, comparePlan],
+  );
+
+  if (versions.length === 0) {
+    return (
+      <div className="p-6">
+        <h2 className="text-2xl font-bold text-slate-900 dark:text-slate-100 mb-2">Plan History</h2>
+        <p className="text-sm text-slate-600 dark:text-slate-400">Plans you generate, edit or progress will appear here.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 max-h-[85vh] flex flex-col">
+      <h2 className="text-2xl font-bold text-slate-900 dark:text-slate-100 mb-4">Plan History</h2>
+
+      <div className="flex-grow min-h-0 grid grid-cols-1 md:grid-cols-[16rem_1fr] gap-4">
+        <ul className="overflow-y-auto space-y-2 pr-1">
+          {versions.map(version => (
+            <li key={version.id}>
+              <button
+                onClick={() => setSelectedId(version.id)}
+                className={`w-full text-left rounded-lg border px-3 py-2 text-sm transition-colors ${version.id === selectedId
+                  ? 'border-indigo-500 bg-indigo-50 dark:bg-slate-700'
+                  : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700/50'}`}
+              >
+                <span className="block font-semibold text-slate-800 dark:text-slate-200">
+                  {SOURCE_LABELS[version.source]}{version.plan.week ? ` · Week ${version.plan.week}` : ''}
+                </span>
+                <span className="block text-xs text-slate-500 dark:text-slate-400">{formatDate(version.createdAt)}</span>
+                {version.provider && <span className="block text-xs text-slate-500 dark:text-slate-400">{version.provider}</span>}
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        {selected && (
+          <div className="overflow-y-auto min-w-0 pr-1">
+            <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">
+              Built for: {selected.userData.goal || 'no goal set'} · {selected.userData.fitnessLevel || 'any level'} · {selected.userData.freeDays.join(', ')}
+            </p>
+            <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300 mb-4">
+              Compare with
+              <select
+                value={compareId}
+                onChange={e => setCompareId(e.target.value)}
+                className="bg-slate-100 dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value={CURRENT}>Current plan</option>
+                {versions.filter(v => v.id !== selected.id).map(v => (
+                  <option key={v.id} value={v.id}>{SOURCE_LABELS[v.source]} · {formatDate(v.createdAt)}</option>
+                ))}
+              </select>
+            </label>
+
+            {!diff ? (
+              <p className="text-sm text-slate-600 dark:text-slate-400">There is no current plan to compare with.</p>
+            ) : diff.days.every(d => d.status === 'unchanged') ? (
+              <p className="text-sm text-slate-600 dark:text-slate-400">No differences.</p>
+            ) : (
+              <div className="space-y-4">
+                <p className="text-sm text-slate-600 dark:text-slate-400">
+                  {diff.added} added · {diff.removed} removed · {diff.changed} changed
+                </p>
+                {diff.days.filter(d => d.status !== 'unchanged').map(day => (
+                  <div key={day.day} className="border border-slate-200 dark:border-slate-700 rounded-xl p-3">
+                    <h3 className="font-semibold text-slate-800 dark:text-slate-200">
+                      {day.day}
+                      {day.status === 'added' && <span className="ml-2 text-xs text-emerald-600 dark:text-emerald-400">new day</span>}
+                      {day.status === 'removed' && <span className="ml-2 text-xs text-red-600 dark:text-red-400">day removed</span>}
+                    </h3>
+                    {day.focus && (
+                      <p className="text-xs text-slate-500 dark:text-slate-400">Focus: {day.focus.before} → {day.focus.after}</p>
+                    )}
+                    <ul className="mt-2 space-y-1 text-sm">
+                      {day.exercises.map((change, i) => (
+                        <li key={`${change.name}-${i}`} className={CHANGE_STYLES[change.status]}>
+                          {change.status === 'added' ? '+ ' : change.status === 'removed' ? '− ' : '~ '}
+                          {change.status === 'changed' && change.before!.name !== change.after!.name
+                            ? `${change.before!.name} → ${change.after!.name}`
+                            : change.name}
+                          <span className="ml-2 text-xs text-slate-500 dark:text-slate-400">
+                            {change.status === 'changed'
+                              ? `${formatPrescription(change.before, units)} → ${formatPrescription(change.after, units)}`
+                              : formatPrescription(change.before ?? change.after, units)}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {selected && (
+        <div className="flex justify-end gap-3 mt-4 pt-4 border-t border-slate-200 dark:border-slate-700">
+          <button onClick={() => onFork(selected)} className="px-4 py-2 rounded-lg font-semibold text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors">
+            Edit a Copy
+          </button>
+          <button onClick={() => onRestore(selected)} className="px-4 py-2 rounded-lg font-bold bg-indigo-600 hover:bg-indigo-700 text-white transition-colors">
+            Restore This Version
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlanHistoryView;
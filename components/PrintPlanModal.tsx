@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { GeneratedDietPlan, GeneratedPlan } from '../types';
+import { PrintOptions } from './PrintablePlan';
+
+interface PrintPlanModalProps {
+  workoutPlan: GeneratedPlan | null;
+  /** Undefined while the saved diet plan is still loading. */
+  dietPlan: GeneratedDietPlan | null | undefined;
+  onPrint: (options: PrintOptions) => void;
+}
+
+const checkboxClass = "h-4 w-4 rounded border-slate-300 dark:border-slate-600 text-indigo-600 focus:ring-indigo-500";
+
+const PrintPlanModal: React.FC<PrintPlanModalProps> = ({ workoutPlan, dietPlan, onPrint }) => {
+  const [includeWorkout, setIncludeWorkout] = useState(true);
+  const [includeDiet, setIncludeDiet] = useState(true);
+  const [pagePerDay, setPagePerDay] = useState(true);
+
+  const hasWorkout = !!workoutPlan && includeWorkout;
+  const hasDiet = !!dietPlan && includeDiet;
+
+  return (
+    <div className="p-6">
+      <h2 className="text-2xl font-bold text-slate-900 dark:text-slate-100 mb-1">Print or Save as PDF</h2>
+      <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">
+        Opens your browser's print dialog. Choose "Save as PDF" as the printer to keep a copy on your phone.
+      </p>
+
+      <div className="space-y-3 text-sm text-slate-700 dark:text-slate-300">
+        <label className={`flex items-center gap-3 ${workoutPlan ? '' : 'opacity-50'}`}>
+          <input type="checkbox" checked={hasWorkout} disabled={!workoutPlan} onChange={e => setIncludeWorkout(e.target.checked)} className={checkboxClass} />
+          Workout plan, with blank columns for the weights you lift
+        </label>
+        <label className={`flex items-center gap-3 ${dietPlan ? '' : 'opacity-50'}`}>
+          <input type="checkbox" checked={hasDiet} disabled={!dietPlan} onChange={e => setIncludeDiet(e.target.checked)} className={checkboxClass} />
+          {dietPlan === undefined ? 'Diet plan (loading…)' : dietPlan ? 'Diet plan, with daily totals' : 'Diet plan (none saved yet)'}
+        </label>
+        <label className="flex items-center gap-3">
+          <input type="checkbox" checked={pagePerDay} onChange={e => setPagePerDay(e.target.checked)} className={checkboxClass} />
+          Start each day on a new page
+        </label>
+      </div>
+
+      <button
+        onClick={() => onPrint({ includeWorkout: hasWorkout, includeDiet: hasDiet, pagePerDay })}
+        disabled={!hasWorkout && !hasDiet}
+        className="w-full mt-6 bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-4 rounded-lg transition-colors disabled:opacity-50"
+      >
+        Print
+      </button>
+    </div>
+  );
+};
+
+export default PrintPlanModal;
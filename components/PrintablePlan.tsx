@@ -0,0 +1,169 @@
+import React from 'react';
+import { DailyDiet, DailyWorkout, GeneratedDietPlan, GeneratedPlan, UnitSystem } from '../types';
+import { parseSetCount } from '../utils/exerciseHistory';
+import { formatSessionDate } from '../utils/schedule';
+import { MEAL_SLOT_LABELS, mealsOf } from '../utils/nutrition';
+import { formatWeight, weightUnit } from '../utils/units';
+
+export interface PrintOptions {
+  includeWorkout: boolean;
+  includeDiet: boolean;
+  /** Start every training day and diet day on its own sheet. */
+  pagePerDay: boolean;
+}
+
+interface PrintablePlanProps {
+  name: string;
+  units?: UnitSystem;
+  workoutPlan: GeneratedPlan | null;
+  dietPlan: GeneratedDietPlan | null;
+  options: PrintOptions;
+}
+
+// Print output is always black on white, whatever theme the app is in, so these classes
+// deliberately have no dark: variants.
+const cellClass = 'border border-slate-400 px-2 py-1 align-top';
+
+const sheetClass = (pagePerDay: boolean, index: number) =>
+  `print-avoid-break mb-6 ${pagePerDay && index > 0 ? 'print-page-break' : ''}`;
+
+const WorkoutDaySheet: React.FC<{ day: DailyWorkout; date?: string; units?: UnitSystem }> = ({ day, date, units }) => {
+  // One blank weight column per set, for the day's longest exercise; cells past an
+  // exercise's own set count are shaded so nobody logs a set that is not in the plan.
+  const columns = Math.max(1, ...day.muscleGroups.flatMap(g => g.exercises.map(ex => parseSetCount(ex.sets))));
+
+  return (
+    <>
+      <h2 className="text-lg font-bold">
+        {day.day}: {day.focus}
+        <span className="font-normal text-sm"> · {day.approximateTime}{date ? ` · ${formatSessionDate(date)}` : ''}</span>
+      </h2>
+      {day.warmUp && day.warmUp.length > 0 && (
+        <p className="text-xs mt-1">
+          <span className="font-semibold">Warm-up: </span>
+          {day.warmUp.map(d => `${d.name} (${d.duration})`).join(' · ')}
+        </p>
+      )}
+      <table className="w-full border-collapse text-xs mt-2">
+        <thead>
+          <tr className="bg-slate-100">
+            <th className={`${cellClass} text-left`}>Exercise</th>
+            <th className={`${cellClass} text-left`}>Target muscles</th>
+            <th className={cellClass}>Sets × Reps</th>
+            {Array.from({ length: columns }, (_, i) => (
+              <th key={i} className={`${cellClass} w-14`}>Set {i + 1} {weightUnit(units)}</th>
+            ))}
+          </tr>
+        </thead>
+        {day.muscleGroups.map(group => (
+          <tbody key={group.name} className="print-avoid-break">
+            <tr>
+              <td colSpan={3 + columns} className={`${cellClass} font-semibold bg-slate-50`}>{group.name}</td>
+            </tr>
+            {group.exercises.map((ex, i) => {
+              const sets = parseSetCount(ex.sets);
+              return (
+                <tr key={`${ex.name}-${i}`}>
+                  <td className={cellClass}>
+                    <span className="font-semibold">{ex.name}</span>
+                    {ex.targetWeight !== undefined && <span> · target {formatWeight(ex.targetWeight, units)}</span>}
+                    {ex.adjustment?.type === 'flagged' && <span> · take care</span>}
+                  </td>
+                  <td className={cellClass}>{ex.targetMuscles.join(', ')}</td>
+                  <td className={`${cellClass} text-center whitespace-nowrap`}>{ex.sets} × {ex.reps}</td>
+                  {Array.from({ length: columns }, (_, c) => (
+                    <td key={c} className={`${cellClass} h-7 ${c >= sets ? 'bg-slate-200' : ''}`} />
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        ))}
+      </table>
+      <p className="text-xs mt-2">Notes: ________________________________________________________________</p>
+    </>
+  );
+};
+
+const DietDaySheet: React.FC<{ day: DailyDiet }> = ({ day }) => (
+  <>
+    <h2 className="text-lg font-bold">{day.day}</h2>
+    <table className="w-full border-collapse text-xs mt-2">
+      <thead>
+        <tr className="bg-slate-100">
+          <th className={`${cellClass} text-left w-24`}>Meal</th>
+          <th className={`${cellClass} text-left`}>What to eat</th>
+          <th className={`${cellClass} w-16`}>kcal</th>
+        </tr>
+      </thead>
+      <tbody>
+        {mealsOf(day).map(([slot, meal]) => (
+          <tr key={slot}>
+            <td className={cellClass}>{MEAL_SLOT_LABELS[slot]}</td>
+            <td className={cellClass}>
+              <span className="font-semibold">{meal.name}</span>
+              {meal.description && <span> — {meal.description}</span>}
+              {meal.ingredients && meal.ingredients.length > 0 && (
+                <p className="mt-0.5">
+                  {meal.ingredients.map(i => `${i.name} ${i.grams} g`).join(' · ')}
+                  {meal.protein !== undefined && <span className="italic"> (P {meal.protein}g · C {meal.carbs}g · F {meal.fat}g)</span>}
+                </p>
+              )}
+            </td>
+            <td className={`${cellClass} text-center`}>{meal.calories}</td>
+          </tr>
+        ))}
+        <tr className="font-semibold">
+          <td className={cellClass}>Total</td>
+          <td className={cellClass}>Protein {day.dailyTotals.protein} · Carbs {day.dailyTotals.carbs} · Fat {day.dailyTotals.fat}</td>
+          <td className={`${cellClass} text-center`}>{day.dailyTotals.calories}</td>
+        </tr>
+      </tbody>
+    </table>
+  </>
+);
+
+/** Paper layout of the workout and diet plans; only ever visible in print (see index.html). */
+const PrintablePlan: React.FC<PrintablePlanProps> = ({ name, units, workoutPlan, dietPlan, options }) => {
+  const dates = new Map((workoutPlan?.schedule || []).map(s => [s.day, s.date]));
+  const printedOn = new Date().toLocaleDateString();
+
+  return (
+    <div className="print-layout bg-white text-black text-sm">
+      {options.includeWorkout && workoutPlan && (
+        <section>
+          <header className="mb-4 border-b-2 border-black pb-2">
+            <h1 className="text-2xl font-black">FitPlan Workout · Week {workoutPlan.week ?? 1}</h1>
+            <p className="text-xs">{name ? `${name} · ` : ''}{workoutPlan.totalWeeklyTime} · ~{workoutPlan.totalWeeklyCaloriesBurned} kcal/week · printed {printedOn}</p>
+            {workoutPlan.summary && <p className="mt-1">{workoutPlan.summary}</p>}
+          </header>
+          {workoutPlan.plan.map((day, i) => (
+            <div key={day.day} className={sheetClass(options.pagePerDay, i)}>
+              <WorkoutDaySheet day={day} date={dates.get(day.day)} units={units} />
+            </div>
+          ))}
+        </section>
+      )}
+
+      {options.includeDiet && dietPlan && (
+        <section className={options.includeWorkout && workoutPlan ? 'print-page-break' : ''}>
+          <header className="mb-4 border-b-2 border-black pb-2">
+            <h1 className="text-2xl font-black">FitPlan Diet</h1>
+            <p className="text-xs">
+              Daily target {dietPlan.overallTargets.dailyCalories} kcal · Protein {dietPlan.overallTargets.protein} · Carbs {dietPlan.overallTargets.carbs} · Fat {dietPlan.overallTargets.fat}
+            </p>
+            {dietPlan.summary && <p className="mt-1">{dietPlan.summary}</p>}
+          </header>
+          {dietPlan.plan.map((day, i) => (
+            <div key={day.day} className={sheetClass(options.pagePerDay, i)}>
+              <DietDaySheet day={day} />
+            </div>
+          ))}
+          {dietPlan.disclaimer && <p className="print-avoid-break text-xs italic mt-4">{dietPlan.disclaimer}</p>}
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default PrintablePlan;
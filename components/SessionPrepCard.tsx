@@ -0,0 +1,57 @@
+import React from 'react';
+import { DailyWorkout } from '../types';
+import { dayAdjustments } from '../utils/limitations';
+
+interface SessionPrepCardProps {
+  day: DailyWorkout;
+}
+
+const SessionPrepCard: React.FC<SessionPrepCardProps> = ({ day }) => {
+  const adjustments = dayAdjustments(day);
+  if (!day.warmUp?.length && adjustments.length === 0) return null;
+
+  return (
+    <div className="mt-6 bg-white/50 dark:bg-slate-800/50 backdrop-blur-sm p-6 rounded-2xl shadow-lg border border-slate-200 dark:border-slate-700 text-sm">
+      {day.warmUp && day.warmUp.length > 0 && (
+        <>
+          <h3 className="text-xl font-bold text-slate-900 dark:text-slate-100 mb-3">{day.day} Warm-Up</h3>
+          <ol className="space-y-2 mb-2">
+            {day.warmUp.map((drill, i) => (
+              <li key={drill.name} className="flex gap-3">
+                <span className="flex-shrink-0 w-6 h-6 rounded-full bg-indigo-100 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300 text-xs font-bold flex items-center justify-center">
+                  {i + 1}
+                </span>
+                <div>
+                  <p className="font-semibold text-slate-800 dark:text-slate-200">
+                    {drill.name} <span className="font-normal text-slate-500 dark:text-slate-400">· {drill.duration}</span>
+                  </p>
+                  <p className="text-slate-600 dark:text-slate-400">{drill.description}</p>
+                </div>
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+
+      {adjustments.length > 0 && (
+        <div className={day.warmUp?.length ? 'mt-4 pt-4 border-t border-slate-200 dark:border-slate-700' : ''}>
+          <p className="font-semibold text-slate-800 dark:text-slate-200 mb-2">Adjusted for your limitations</p>
+          <ul className="space-y-1">
+            {adjustments.map(({ group, exercise }) => (
+              <li
+                key={`${group}-${exercise.name}`}
+                className={exercise.adjustment!.type === 'substituted' ? 'text-slate-700 dark:text-slate-300' : 'text-amber-700 dark:text-amber-300'}
+              >
+                {exercise.adjustment!.type === 'substituted'
+                  ? <><span className="font-semibold">{exercise.name}</span> replaces {exercise.adjustment!.original}: {exercise.adjustment!.reason}.</>
+                  : <><span className="font-semibold">{exercise.name}</span>: take care, {exercise.adjustment!.reason}.</>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionPrepCard;
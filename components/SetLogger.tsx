@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { DailyWorkout, ExerciseLog, SetLog, UnitSystem } from '../types';
+import { createExerciseLogs } from '../utils/exerciseHistory';
+import { weightIn, weightToKg, weightUnit } from '../utils/units';
+
+interface SetLoggerProps {
+  day: DailyWorkout;
+  units?: UnitSystem;
+  onSave: (exerciseLogs: ExerciseLog[]) => Promise<void> | void;
+  onCancel: () => void;
+}
+
+const parseNumberInput = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const num = parseFloat(value);
+  return Number.isFinite(num) && num >= 0 ? num : null;
+};
+
+// Logs are stored in kilograms; while editing, weights are in the user's own unit.
+const convertWeights = (logs: ExerciseLog[], convert: (weight: number) => number): ExerciseLog[] =>
+  logs.map(log => ({ ...log, sets: log.sets.map(set => ({ ...set, weight: set.weight === null ? null : convert(set.weight) })) }));
+
+const SetLogger: React.FC<SetLoggerProps> = ({ day, units, onSave, onCancel }) => {
+  const [exerciseLogs, setExerciseLogs] = useState<ExerciseLog[]>(() =>
+    convertWeights(createExerciseLogs(day), kg => weightIn(kg, units)));
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const updateSet = (exerciseIndex: number, setIndex: number, changes: Partial<SetLog>) => {
+    setExerciseLogs(prev => prev.map((log, i) => i !== exerciseIndex ? log : {
+      ...log,
+      sets: log.sets.map((set, j) => j === setIndex ? { ...set, ...changes } : set),
+    }));
+  };
+
+  const updateNotes = (exerciseIndex: number, notes: string) => {
+    setExerciseLogs(prev => prev.map((log, i) => i === exerciseIndex ? { ...log, notes } : log));
+  };
+
+  const addSet = (exerciseIndex: number) => {
+    setExerciseLogs(prev => prev.map((log, i) => {
+      if (i !== exerciseIndex) return log;
+      const last = log.sets[log.sets.length - 1];
+      return {
+        ...log,
+        sets: [...log.sets, {
+          setNumber: log.sets.length + 1,
+          reps: last?.reps ?? null,
+          weight: last?.weight ?? null,
+          rpe: null,
+          skipped: false,
+        }],
+      };
+    }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await onSave(convertWeights(exerciseLogs, weight => weightToKg(weight, units)));
+    } catch {
+      setSaveError('Could not save your workout. Your sets are still here; check your connection and try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = "w-full bg-slate-100 dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded-md px-2 py-1 text-sm text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-40";
+
+  return (
+    <div className="p-6 max-h-[85vh] flex flex-col">
+      <h2 className="text-2xl font-bold text-slate-900 dark:text-slate-100">Log Sets: {day.day}</h2>
+      <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">{day.focus}</p>
+
+      <div className="flex-grow overflow-y-auto pr-1 -mr-1 space-y-6">
+        {exerciseLogs.map((log, exerciseIndex) => (
+          <div key={`${log.muscleGroup}-${log.exerciseName}-${exerciseIndex}`} className="border border-slate-200 dark:border-slate-700 rounded-xl p-4">
+            <div className="flex items-baseline justify-between mb-3">
+              <h3 className="font-semibold text-slate-800 dark:text-slate-200">{log.exerciseName}</h3>
+              <span className="text-xs text-slate-500 dark:text-slate-400">Target: {log.targetSets} x {log.targetReps}</span>
+            </div>
+            <div className="grid grid-cols-[2rem_1fr_1fr_1fr_3.5rem] gap-2 items-center text-xs font-semibold text-slate-500 dark:text-slate-400 mb-1">
+              <span>Set</span><span>Reps</span><span>Weight ({weightUnit(units)})</span><span>RPE</span><span>Skip</span>
+            </div>
+            {log.sets.map((set, setIndex) => (
+              <div key={set.setNumber} className="grid grid-cols-[2rem_1fr_1fr_1fr_3.5rem] gap-2 items-center mb-2">
+                <span className="text-sm text-slate-700 dark:text-slate-300">{set.setNumber}</span>
+                <input type="number" min="0" inputMode="numeric" className={inputClass} disabled={set.skipped}
+                  value={set.reps ?? ''} onChange={e => updateSet(exerciseIndex, setIndex, { reps: parseNumberInput(e.target.value) })} />
+                <input type="number" min="0" step="0.5" inputMode="decimal" className={inputClass} disabled={set.skipped}
+                  value={set.weight ?? ''} onChange={e => updateSet(exerciseIndex, setIndex, { weight: parseNumberInput(e.target.value) })} />
+                <input type="number" min="1" max="10" step="0.5" inputMode="decimal" className={inputClass} disabled={set.skipped}
+                  value={set.rpe ?? ''} onChange={e => updateSet(exerciseIndex, setIndex, { rpe: parseNumberInput(e.target.value) })} />
+                <input type="checkbox" className="h-4 w-4 accent-indigo-600 justify-self-center"
+                  checked={set.skipped} onChange={e => updateSet(exerciseIndex, setIndex, { skipped: e.target.checked })} />
+              </div>
+            ))}
+            <button onClick={() => addSet(exerciseIndex)} className="text-xs font-semibold text-indigo-600 dark:text-indigo-400 hover:underline mb-2">
+              + Add set
+            </button>
+            <textarea
+              rows={2}
+              placeholder="Notes (form cues, how it felt...)"
+              className={inputClass}
+              value={log.notes || ''}
+              onChange={e => updateNotes(exerciseIndex, e.target.value)}
+            />
+          </div>
+        ))}
+      </div>
+
+      {saveError && <p className="mt-3 text-sm text-red-600 dark:text-red-400">{saveError}</p>}
+      <div className="flex justify-end gap-3 mt-4 pt-4 border-t border-slate-200 dark:border-slate-700">
+        <button onClick={onCancel} className="px-4 py-2 rounded-lg font-semibold text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors">
+          Cancel
+        </button>
+        <button onClick={handleSave} disabled={isSaving} className="px-4 py-2 rounded-lg font-bold bg-indigo-600 hover:bg-indigo-700 text-white transition-colors disabled:opacity-50">
+          {isSaving ? 'Saving...' : 'Save Workout'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SetLogger;
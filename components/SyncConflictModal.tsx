@@ -0,0 +1,73 @@
+import React from 'react';
+import { GeneratedPlan } from '../types';
+import { SyncConflict } from '../utils/syncMerge';
+
+interface SyncConflictModalProps {
+  conflicts: SyncConflict[];
+  onResolve: (conflictId: string, choice: 'local' | 'remote') => void;
+}
+
+const isPlan = (value: unknown): value is GeneratedPlan =>
+  !!value && typeof value === 'object' && Array.isArray((value as GeneratedPlan).plan);
+
+const PlanPreview: React.FC<{ plan: GeneratedPlan }> = ({ plan }) => (
+  <div className="space-y-2">
+    {plan.week && <p className="text-xs font-semibold text-slate-500 dark:text-slate-400">Week {plan.week}</p>}
+    {plan.plan.map(day => (
+      <div key={day.day}>
+        <p className="font-semibold text-slate-800 dark:text-slate-200">{day.day} <span className="font-normal text-slate-500 dark:text-slate-400">· {day.focus}</span></p>
+        <ul className="text-xs text-slate-600 dark:text-slate-400 list-disc list-inside">
+          {day.muscleGroups.flatMap(g => g.exercises).map((ex, i) => (
+            <li key={`${ex.name}-${i}`}>{ex.name} <span className="text-slate-400 dark:text-slate-500">{ex.sets} x {ex.reps}</span></li>
+          ))}
+        </ul>
+      </div>
+    ))}
+  </div>
+);
+
+const ValuePreview: React.FC<{ value: unknown }> = ({ value }) => {
+  if (isPlan(value)) return <PlanPreview plan={value} />;
+  if (value === null || value === undefined || value === '') {
+    return <p className="italic text-slate-500 dark:text-slate-400">Not set</p>;
+  }
+  const text = Array.isArray(value) ? value.join(', ') : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return <p className="text-slate-800 dark:text-slate-200 break-words">{text}</p>;
+};
+
+const SyncConflictModal: React.FC<SyncConflictModalProps> = ({ conflicts, onResolve }) => {
+  const conflict = conflicts[0];
+  if (!conflict) return null;
+
+  return (
+    <div className="p-6 max-h-[85vh] flex flex-col">
+      <h2 className="text-2xl font-bold text-slate-900 dark:text-slate-100">Changes on another device</h2>
+      <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">
+        <span className="font-semibold">{conflict.label}</span> was changed here and on another device.
+        Choose which version to keep.{conflicts.length > 1 && ` (${conflicts.length - 1} more after this)`}
+      </p>
+
+      <div className="flex-grow overflow-y-auto grid grid-cols-1 sm:grid-cols-2 gap-4 pr-1 -mr-1">
+        <div className="border border-slate-200 dark:border-slate-700 rounded-xl p-4 text-sm">
+          <h3 className="font-semibold text-indigo-600 dark:text-indigo-400 mb-2">This device</h3>
+          <ValuePreview value={conflict.local} />
+        </div>
+        <div className="border border-slate-200 dark:border-slate-700 rounded-xl p-4 text-sm">
+          <h3 className="font-semibold text-indigo-600 dark:text-indigo-400 mb-2">Other device</h3>
+          <ValuePreview value={conflict.remote} />
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-3 mt-4 pt-4 border-t border-slate-200 dark:border-slate-700">
+        <button onClick={() => onResolve(conflict.id, 'remote')} className="px-4 py-2 rounded-lg font-semibold text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors">
+          Keep other device's
+        </button>
+        <button onClick={() => onResolve(conflict.id, 'local')} className="px-4 py-2 rounded-lg font-bold bg-indigo-600 hover:bg-indigo-700 text-white transition-colors">
+          Keep this device's
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SyncConflictModal;
@@ -0,0 +1,127 @@
+import React, { useMemo, useState } from 'react';
+import { GeneratedPlan, ScheduledSession } from '../types';
+import { formatSessionDate, getSessions, rescheduleRemaining, RescheduleResult, SessionStatus, toISODate } from '../utils/schedule';
+
+interface TodaySessionCardProps {
+  plan: GeneratedPlan;
+  freeDays: string[];
+  selectedDayIndex: number;
+  onSelectDay: (dayIndex: number) => void;
+  onLogSets: (dayIndex: number) => void;
+  onStartWorkout: (dayIndex: number) => void;
+  onReschedule: (schedule: ScheduledSession[]) => void;
+}
+
+const STATUS_STYLES: Record<SessionStatus, string> = {
+  completed: 'bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300',
+  missed: 'bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300',
+  today: 'bg-indigo-600 text-white',
+  upcoming: 'bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300',
+};
+
+const TodaySessionCard: React.FC<TodaySessionCardProps> = ({ plan, freeDays, selectedDayIndex, onSelectDay, onLogSets, onStartWorkout, onReschedule }) => {
+  const [proposal, setProposal] = useState<RescheduleResult | null>(null);
+  const today = new Date();
+  const todayIso = toISODate(today);
+  const sessions = useMemo(() => getSessions(plan, today), [plan, todayIso]);
+
+  const todays = sessions.find(s => s.date === todayIso && s.status !== 'completed');
+  const doneToday = sessions.some(s => s.date === todayIso && s.status === 'completed');
+  const next = sessions.find(s => s.status === 'upcoming');
+  const missed = sessions.filter(s => s.status === 'missed');
+
+  const handleApply = () => {
+    if (proposal) onReschedule(proposal.schedule);
+    setProposal(null);
+  };
+
+  return (
+    <div className="mb-4 bg-white/50 dark:bg-slate-800/50 backdrop-blur-sm p-4 rounded-2xl shadow-lg border border-slate-200 dark:border-slate-700">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">Today · {formatSessionDate(todayIso)}</p>
+          {todays ? (
+            <p className="text-lg font-bold text-slate-900 dark:text-slate-100">
+              {todays.day.day}: {todays.day.focus} <span className="text-sm font-normal text-slate-500 dark:text-slate-400">· {todays.day.approximateTime}</span>
+            </p>
+          ) : (
+            <p className="text-lg font-bold text-slate-900 dark:text-slate-100">
+              {doneToday ? 'Done for today' : 'Rest day'}
+              {next && <span className="text-sm font-normal text-slate-500 dark:text-slate-400"> · next: {next.day.focus} on {formatSessionDate(next.date)}</span>}
+            </p>
+          )}
+        </div>
+        {todays && (
+          <div className="flex gap-2">
+            <button
+              onClick={() => onLogSets(todays.dayIndex)}
+              className="bg-white dark:bg-slate-900 border border-indigo-500 text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-slate-800 font-bold py-2 px-4 rounded-lg transition-colors"
+            >
+              Log Today's Sets
+            </button>
+            <button
+              onClick={() => onStartWorkout(todays.dayIndex)}
+              className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg transition-colors"
+            >
+              Start Workout
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 mt-3">
+        {sessions.map(s => (
+          <button
+            key={s.day.day}
+            onClick={() => onSelectDay(s.dayIndex)}
+            className={`px-3 py-1 rounded-full text-xs font-semibold transition-opacity hover:opacity-80 ${STATUS_STYLES[s.status]} ${s.dayIndex === selectedDayIndex ? 'ring-2 ring-indigo-400' : ''}`}
+            title={`${s.day.focus} (${s.status})`}
+          >
+            {s.day.day} · {formatSessionDate(s.date)}
+          </button>
+        ))}
+      </div>
+
+      {missed.length > 0 && !proposal && (
+        <div className="mt-3 flex flex-wrap items-center justify-between gap-2 text-sm text-red-700 dark:text-red-300">
+          <p>Missed: {missed.map(s => `${s.day.day} (${formatSessionDate(s.date)})`).join(', ')}</p>
+          <button
+            onClick={() => setProposal(rescheduleRemaining(plan, freeDays, today))}
+            className="font-semibold text-indigo-600 dark:text-indigo-400 hover:underline"
+          >
+            Reschedule remaining week
+          </button>
+        </div>
+      )}
+
+      {proposal && (
+        <div className="mt-3 border-t border-slate-200 dark:border-slate-700 pt-3 text-sm text-slate-700 dark:text-slate-300">
+          {proposal.moves.length === 0 ? (
+            <p>There is no way to move the remaining sessions without breaking rest days.</p>
+          ) : (
+            <ul className="space-y-1">
+              {proposal.moves.map(m => (
+                <li key={m.day}>{m.day}: {formatSessionDate(m.from)} → <span className="font-semibold">{formatSessionDate(m.to)}</span></li>
+              ))}
+            </ul>
+          )}
+          {proposal.unplaced.length > 0 && (
+            <p className="mt-1 text-amber-700 dark:text-amber-300">
+              Could not fit {proposal.unplaced.join(', ')} with a rest day before the next session for the same muscles.
+            </p>
+          )}
+          <div className="flex justify-end gap-3 mt-2">
+            <button onClick={() => setProposal(null)} className="px-3 py-1 rounded-lg font-semibold hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors">
+              Cancel
+            </button>
+            <button onClick={handleApply} disabled={proposal.moves.length === 0} className="px-3 py-1 rounded-lg font-bold bg-indigo-600 hover:bg-indigo-700 text-white transition-colors disabled:opacity-50">
+              Apply
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TodaySessionCard;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { MetricPoint } from '../utils/bodyMetrics';
+import { daysBetween, formatSessionDate } from '../utils/schedule';
+
+interface TrendChartProps {
+  points: MetricPoint[];
+  unit: string;
+  /** Drawn as a horizontal guide, e.g. a target weight. */
+  target?: number | null;
+  /** Where the current trend leads; drawn dashed from the last reading. */
+  projection?: MetricPoint | null;
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PAD = { top: 12, right: 16, bottom: 24, left: 44 };
+
+const TrendChart: React.FC<TrendChartProps> = ({ points, unit, target, projection }) => {
+  if (points.length === 0) return null;
+
+  const first = points[0].date;
+  const lastDate = projection?.date ?? points[points.length - 1].date;
+  const span = Math.max(1, daysBetween(first, lastDate));
+  const values = [...points.map(p => p.value), ...(projection ? [projection.value] : []), ...(target != null ? [target] : [])];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  // Pad the range so a flat line does not sit on the chart's edge.
+  const margin = Math.max((max - min) * 0.1, 0.5);
+  const low = min - margin;
+  const high = max + margin;
+
+  const x = (date: string) => PAD.left + (daysBetween(first, date) / span) * (WIDTH - PAD.left - PAD.right);
+  const y = (value: number) => PAD.top + ((high - value) / (high - low)) * (HEIGHT - PAD.top - PAD.bottom);
+  const line = points.map(p => `${x(p.date).toFixed(1)},${y(p.value).toFixed(1)}`).join(' ');
+  const last = points[points.length - 1];
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto text-slate-400 dark:text-slate-500" role="img">
+      <line x1={PAD.left} y1={HEIGHT - PAD.bottom} x2={WIDTH - PAD.right} y2={HEIGHT - PAD.bottom} stroke="currentColor" strokeWidth={1} />
+      <text x={PAD.left - 6} y={y(max) + 4} textAnchor="end" fontSize={11} fill="currentColor">{Math.round(max * 10) / 10}</text>
+      <text x={PAD.left - 6} y={y(min) + 4} textAnchor="end" fontSize={11} fill="currentColor">{Math.round(min * 10) / 10}</text>
+      <text x={PAD.left - 6} y={PAD.top - 2} textAnchor="end" fontSize={10} fill="currentColor">{unit}</text>
+      <text x={PAD.left} y={HEIGHT - 6} fontSize={11} fill="currentColor">{formatSessionDate(first)}</text>
+      <text x={WIDTH - PAD.right} y={HEIGHT - 6} textAnchor="end" fontSize={11} fill="currentColor">{formatSessionDate(lastDate)}</text>
+
+      {target != null && (
+        <line x1={PAD.left} y1={y(target)} x2={WIDTH - PAD.right} y2={y(target)} className="stroke-emerald-500" strokeWidth={1.5} strokeDasharray="2 4" />
+      )}
+      {projection && (
+        <line x1={x(last.date)} y1={y(last.value)} x2={x(projection.date)} y2={y(projection.value)} className="stroke-indigo-400" strokeWidth={2} strokeDasharray="6 4" />
+      )}
+      <polyline points={line} fill="none" className="stroke-indigo-600 dark:stroke-indigo-400" strokeWidth={2} strokeLinejoin="round" />
+      {points.map(p => (
+        <circle key={p.date} cx={x(p.date)} cy={y(p.value)} r={3} className="fill-indigo-600 dark:fill-indigo-400">
+          <title>{`${formatSessionDate(p.date)}: ${p.value} ${unit}`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+export default TrendChart;
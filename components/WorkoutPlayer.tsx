@@ -0,0 +1,327 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { DailyWorkout, ExerciseLog, UserData, WorkoutPlayerSettings } from '../types';
+import { LibraryExercise } from '../data/exerciseLibrary';
+import {
+  completeSet, currentLog, DEFAULT_PLAYER_SETTINGS, endRest, estimateRemainingSeconds, extendRest, finishSession,
+  skipExercise, skipSet, startSession, substituteExercise, substitutesFor, summarizeSession, WorkoutSessionState,
+} from '../utils/workoutSession';
+import { equipmentFromText } from '../utils/templatePlanGenerator';
+import { parseDurationMinutes } from '../utils/planValidation';
+import { weightIn, weightToKg, weightUnit } from '../utils/units';
+import { countdownCue, restOverCue, unlockAudio, workoutCompleteCue } from '../services/cueService';
+import { XCircleIcon } from './Icons';
+
+interface WorkoutPlayerProps {
+  day: DailyWorkout;
+  userData: UserData;
+  onFinish: (exerciseLogs: ExerciseLog[]) => Promise<void>;
+  onClose: () => void;
+  onUpdateUserData: (userData: UserData) => void;
+}
+
+const REST_CHOICES = [30, 45, 60, 90, 120, 150, 180, 240];
+const COUNTDOWN_SECONDS = 3;
+
+const clock = (totalSeconds: number) => {
+  const s = Math.max(0, Math.round(totalSeconds));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+const numberOrNull = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const num = parseFloat(value);
+  return Number.isFinite(num) && num >= 0 ? num : null;
+};
+
+const inputClass = "w-full bg-slate-100 dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded-lg px-3 py-2 text-lg text-center text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+const secondaryButtonClass = "px-3 py-2 rounded-lg text-sm font-semibold text-slate-700 dark:text-slate-300 border border-slate-300 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors";
+
+const WorkoutPlayer: React.FC<WorkoutPlayerProps> = ({ day, userData, onFinish, onClose, onUpdateUserData }) => {
+  const settings = userData.workoutPlayer ?? DEFAULT_PLAYER_SETTINGS;
+  // Sets are stored in kilograms; the weight input is in the user's own unit.
+  const units = userData.units;
+  const [session, setSession] = useState<WorkoutSessionState>(() => startSession(day));
+  const [now, setNow] = useState(Date.now());
+  const [inputs, setInputs] = useState({ reps: '', weight: '', rpe: '' });
+  const [showSubstitutes, setShowSubstitutes] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [isEnding, setIsEnding] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const lastCueSecond = useRef<number | null>(null);
+  const [instructions, setInstructions] = useState<Map<string, string>>(() => new Map(
+    day.muscleGroups.flatMap(g => g.exercises.map(ex => [ex.name, ex.description] as [string, string]))
+  ));
+
+  const cautions = useMemo(() => new Map(
+    day.muscleGroups.flatMap(g => g.exercises.filter(ex => ex.adjustment?.type === 'flagged').map(ex => [ex.name, ex.adjustment!.reason] as [string, string]))
+  ), [day]);
+
+  const log = currentLog(session);
+  const set = log?.sets[session.setIndex];
+  const available = useMemo(() => equipmentFromText(userData.equipment), [userData.equipment]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Keep the screen on while training; not every browser supports it.
+  useEffect(() => {
+    if (!('wakeLock' in navigator)) return;
+    let closed = false;
+    let lock: WakeLockSentinel | null = null;
+    navigator.wakeLock.request('screen').then(sentinel => {
+      // The player may have closed while the request was pending.
+      if (closed) sentinel.release().catch(() => {});
+      else lock = sentinel;
+    }).catch(() => {});
+    return () => {
+      closed = true;
+      lock?.release().catch(() => {});
+    };
+  }, []);
+
+  // Prefill the inputs with the plan's target for each new set.
+  useEffect(() => {
+    setInputs({ reps: set?.reps != null ? String(set.reps) : '', weight: set?.weight != null ? String(weightIn(set.weight, units)) : '', rpe: '' });
+    setShowSubstitutes(false);
+  }, [session.exerciseIndex, session.setIndex, log?.exerciseName]);
+
+  const restLeft = session.restEndsAt !== null ? Math.ceil((session.restEndsAt - now) / 1000) : null;
+
+  useEffect(() => {
+    if (restLeft === null) {
+      lastCueSecond.current = null;
+      return;
+    }
+    if (restLeft === lastCueSecond.current) return;
+    lastCueSecond.current = restLeft;
+    if (restLeft <= 0) {
+      restOverCue(settings);
+      setSession(endRest);
+    } else if (restLeft <= COUNTDOWN_SECONDS) {
+      countdownCue(settings);
+    }
+  }, [restLeft]);
+
+  useEffect(() => {
+    if (session.finished) workoutCompleteCue(settings);
+  }, [session.finished]);
+
+  const updateSettings = (changes: Partial<WorkoutPlayerSettings>) =>
+    onUpdateUserData({ ...userData, workoutPlayer: { ...settings, ...changes } });
+
+  const handleComplete = () => {
+    unlockAudio();
+    const weight = numberOrNull(inputs.weight);
+    setSession(s => completeSet(s, {
+      reps: numberOrNull(inputs.reps),
+      weight: weight === null ? null : weightToKg(weight, units),
+      rpe: numberOrNull(inputs.rpe),
+    }, settings));
+  };
+
+  const handleSubstitute = (entry: LibraryExercise) => {
+    setInstructions(prev => new Map(prev).set(entry.name, entry.instructions.join(' ')));
+    setSession(s => substituteExercise(s, entry));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await onFinish(finishSession(session));
+    } catch {
+      setSaveError('Could not save this workout. Nothing is lost; check your connection and try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const elapsedSeconds = (now - session.startedAt) / 1000;
+  const plannedMinutes = parseDurationMinutes(day.approximateTime);
+  const limitMinutes = parseDurationMinutes(userData.maxSessionTime);
+  const projectedMinutes = (elapsedSeconds + estimateRemainingSeconds(session, settings)) / 60;
+  const overLimit = limitMinutes !== null && !session.finished && projectedMinutes > limitMinutes;
+  const totalSets = session.logs.reduce((sum, l) => sum + l.sets.length, 0);
+  const setsDone = session.logs.slice(0, session.exerciseIndex).reduce((sum, l) => sum + l.sets.length, 0) + session.setIndex;
+  const summary = summarizeSession(finishSession(session));
+  const upNext = log && set && restLeft !== null ? `${log.exerciseName} · set ${set.setNumber} of ${log.sets.length}` : null;
+
+  return (
+    <div className="p-6 max-h-[90vh] flex flex-col">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900 dark:text-slate-100">{day.day}: {day.focus}</h2>
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            <span className="font-mono font-semibold">{clock(elapsedSeconds)}</span>
+            {plannedMinutes !== null && <span> of ~{plannedMinutes} min planned</span>}
+            {limitMinutes !== null && <span> · limit {limitMinutes} min</span>}
+          </p>
+        </div>
+        <button onClick={() => setIsEnding(true)} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200" aria-label="End workout">
+          <XCircleIcon />
+        </button>
+      </div>
+
+      <div className="h-2 rounded-full bg-slate-200 dark:bg-slate-700 mt-3 overflow-hidden">
+        <div className="h-full bg-indigo-600 transition-all" style={{ width: `${totalSets > 0 ? (session.finished ? 100 : (setsDone / totalSets) * 100) : 0}%` }} />
+      </div>
+      {overLimit && (
+        <p className="mt-2 text-sm text-amber-700 dark:text-amber-300">
+          At this pace you will finish after about {Math.round(projectedMinutes)} min, past your {limitMinutes} min limit. Consider skipping an accessory exercise.
+        </p>
+      )}
+
+      <div className="flex-grow overflow-y-auto mt-4">
+        {isEnding ? (
+          <div className="text-center py-8">
+            <p className="text-lg font-semibold text-slate-800 dark:text-slate-200 mb-1">End this workout?</p>
+            <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">
+              {summary.completedSets} set(s) done so far. Saving logs them and marks the rest as skipped.
+            </p>
+            <div className="flex flex-wrap justify-center gap-3">
+              <button onClick={() => setIsEnding(false)} className={secondaryButtonClass}>Keep Going</button>
+              <button onClick={onClose} className="px-3 py-2 rounded-lg text-sm font-semibold text-red-600 dark:text-red-400 border border-red-500/50 hover:bg-red-50 dark:hover:bg-slate-700 transition-colors">
+                Discard
+              </button>
+              <button onClick={handleSave} disabled={isSaving || summary.completedSets === 0} className="px-4 py-2 rounded-lg font-bold bg-indigo-600 hover:bg-indigo-700 text-white transition-colors disabled:opacity-50">
+                Save & Finish
+              </button>
+            </div>
+            {saveError && <p className="mt-3 text-sm text-red-600 dark:text-red-400">{saveError}</p>}
+          </div>
+        ) : session.finished ? (
+          <div className="text-center py-8">
+            <p className="text-2xl font-bold text-slate-900 dark:text-slate-100 mb-2">Workout complete</p>
+            <p className="text-slate-600 dark:text-slate-400 mb-6">
+              {clock(elapsedSeconds)} · {summary.completedSets} sets done{summary.skippedSets > 0 ? `, ${summary.skippedSets} skipped` : ''} · {Math.round(weightIn(summary.volume, units))} {weightUnit(units)} volume
+            </p>
+            <button onClick={handleSave} disabled={isSaving} className="px-6 py-3 rounded-lg font-bold bg-indigo-600 hover:bg-indigo-700 text-white transition-colors disabled:opacity-50">
+              {isSaving ? 'Saving...' : 'Save Workout'}
+            </button>
+            {saveError && <p className="mt-3 text-sm text-red-600 dark:text-red-400">{saveError}</p>}
+          </div>
+        ) : restLeft !== null ? (
+          <div className="text-center py-6">
+            <p className="text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">Rest</p>
+            <p className={`text-6xl font-black font-mono my-2 ${restLeft <= COUNTDOWN_SECONDS ? 'text-indigo-600 dark:text-indigo-400' : 'text-slate-900 dark:text-slate-100'}`}>
+              {clock(restLeft)}
+            </p>
+            {upNext && <p className="text-slate-600 dark:text-slate-400 mb-4">Up next: {upNext}</p>}
+            <div className="flex justify-center gap-3">
+              <button onClick={() => setSession(s => extendRest(s, 30))} className={secondaryButtonClass}>+30s</button>
+              <button onClick={() => setSession(endRest)} className="px-4 py-2 rounded-lg font-bold bg-indigo-600 hover:bg-indigo-700 text-white transition-colors">
+                Skip Rest
+              </button>
+            </div>
+          </div>
+        ) : log && set ? (
+          <div>
+            {session.exerciseIndex === 0 && session.setIndex === 0 && day.warmUp && day.warmUp.length > 0 && (
+              <div className="mb-4 p-3 rounded-lg bg-slate-100 dark:bg-slate-900/60">
+                <p className="font-semibold text-slate-800 dark:text-slate-200 mb-1">Warm up first</p>
+                <ul className="text-sm text-slate-600 dark:text-slate-400 list-disc pl-5">
+                  {day.warmUp.map(d => <li key={d.name}>{d.name} · {d.duration}</li>)}
+                </ul>
+              </div>
+            )}
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {log.muscleGroup} · exercise {session.exerciseIndex + 1} of {session.logs.length}
+            </p>
+            <h3 className="text-xl font-bold text-slate-900 dark:text-slate-100">{log.exerciseName}</h3>
+            <p className="text-indigo-600 dark:text-indigo-400 font-semibold">
+              Set {set.setNumber} of {log.sets.length} · target {log.targetReps}
+            </p>
+            {instructions.get(log.exerciseName) && (
+              <p className="text-sm text-slate-600 dark:text-slate-400 mt-2">{instructions.get(log.exerciseName)}</p>
+            )}
+            {cautions.get(log.exerciseName) && (
+              <p className="text-sm text-amber-700 dark:text-amber-300 mt-2">Take care: {cautions.get(log.exerciseName)}. Stop if it hurts.</p>
+            )}
+
+            <div className="grid grid-cols-3 gap-3 mt-4">
+              <label className="text-xs font-semibold text-slate-500 dark:text-slate-400">
+                Reps
+                <input type="number" min="0" inputMode="numeric" className={inputClass} value={inputs.reps}
+                  onChange={e => setInputs({ ...inputs, reps: e.target.value })} />
+              </label>
+              <label className="text-xs font-semibold text-slate-500 dark:text-slate-400">
+                Weight ({weightUnit(units)})
+                <input type="number" min="0" step="0.5" inputMode="decimal" className={inputClass} value={inputs.weight}
+                  onChange={e => setInputs({ ...inputs, weight: e.target.value })} />
+              </label>
+              <label className="text-xs font-semibold text-slate-500 dark:text-slate-400">
+                RPE
+                <input type="number" min="1" max="10" step="0.5" inputMode="decimal" className={inputClass} value={inputs.rpe}
+                  onChange={e => setInputs({ ...inputs, rpe: e.target.value })} />
+              </label>
+            </div>
+
+            <button onClick={handleComplete} className="w-full mt-4 py-3 rounded-lg font-bold bg-indigo-600 hover:bg-indigo-700 text-white text-lg transition-colors">
+              Complete Set
+            </button>
+            <div className="flex flex-wrap gap-2 mt-3">
+              <button onClick={() => setSession(s => skipSet(s))} className={secondaryButtonClass}>Skip Set</button>
+              <button onClick={() => setSession(skipExercise)} className={secondaryButtonClass}>Skip Exercise</button>
+              <button onClick={() => setShowSubstitutes(v => !v)} className={secondaryButtonClass}>Substitute…</button>
+            </div>
+
+            {showSubstitutes && (
+              <div className="mt-3 space-y-2">
+                {substitutesFor(log, available, session.logs).map(entry => (
+                  <button
+                    key={entry.id}
+                    onClick={() => handleSubstitute(entry)}
+                    className="w-full text-left p-2 rounded-lg bg-slate-100 dark:bg-slate-900/60 hover:bg-indigo-50 dark:hover:bg-slate-700 transition-colors"
+                  >
+                    <span className="font-semibold text-slate-800 dark:text-slate-200">{entry.name}</span>
+                    <span className="text-xs text-slate-500 dark:text-slate-400"> · {entry.equipment.join(', ')}</span>
+                  </button>
+                ))}
+                {substitutesFor(log, available, session.logs).length === 0 && (
+                  <p className="text-sm text-slate-600 dark:text-slate-400">No alternative in the library fits your equipment.</p>
+                )}
+              </div>
+            )}
+          </div>
+        ) : null}
+      </div>
+
+      <div className="mt-4 pt-3 border-t border-slate-200 dark:border-slate-700 text-sm">
+        <button onClick={() => setShowSettings(v => !v)} className="font-semibold text-indigo-600 dark:text-indigo-400 hover:underline">
+          {showSettings ? 'Hide timer settings' : 'Timer settings'}
+        </button>
+        {showSettings && (
+          <div className="flex flex-wrap items-center gap-4 mt-2 text-slate-700 dark:text-slate-300">
+            <label>
+              Compound rest{' '}
+              <select value={settings.compoundRestSeconds} onChange={e => updateSettings({ compoundRestSeconds: Number(e.target.value) })}
+                className="ml-1 px-2 py-1 rounded-md bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600">
+                {REST_CHOICES.map(s => <option key={s} value={s}>{clock(s)}</option>)}
+              </select>
+            </label>
+            <label>
+              Isolation rest{' '}
+              <select value={settings.isolationRestSeconds} onChange={e => updateSettings({ isolationRestSeconds: Number(e.target.value) })}
+                className="ml-1 px-2 py-1 rounded-md bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600">
+                {REST_CHOICES.map(s => <option key={s} value={s}>{clock(s)}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-1">
+              <input type="checkbox" className="h-4 w-4 accent-indigo-600" checked={settings.sound} onChange={e => updateSettings({ sound: e.target.checked })} />
+              Sound
+            </label>
+            <label className="flex items-center gap-1">
+              <input type="checkbox" className="h-4 w-4 accent-indigo-600" checked={settings.vibration} onChange={e => updateSettings({ vibration: e.target.checked })} />
+              Vibration
+            </label>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WorkoutPlayer;
@@ -0,0 +1,850 @@
+import { MovementPattern } from '../types';
+
+export type EquipmentTag = 'bodyweight' | 'dumbbell' | 'barbell' | 'bench' | 'machine' | 'cable' | 'kettlebell' | 'band' | 'pullup-bar';
+
+export type TrainingGroup = 'Chest' | 'Back' | 'Shoulders' | 'Arms' | 'Legs' | 'Glutes' | 'Core';
+
+export type Muscle =
+  | 'chest' | 'upper-chest' | 'front-delts' | 'side-delts' | 'rear-delts' | 'rotator-cuff'
+  | 'lats' | 'upper-back' | 'lower-back' | 'biceps' | 'triceps' | 'forearms'
+  | 'abs' | 'obliques' | 'hip-flexors' | 'quads' | 'hamstrings' | 'glutes' | 'glute-medius' | 'calves';
+
+export const MUSCLE_LABELS: Record<Muscle, string> = {
+  'chest': 'Chest',
+  'upper-chest': 'Upper Chest',
+  'front-delts': 'Front Delts',
+  'side-delts': 'Side Delts',
+  'rear-delts': 'Rear Delts',
+  'rotator-cuff': 'Rotator Cuff',
+  'lats': 'Lats',
+  'upper-back': 'Upper Back',
+  'lower-back': 'Lower Back',
+  'biceps': 'Biceps',
+  'triceps': 'Triceps',
+  'forearms': 'Forearms',
+  'abs': 'Abs',
+  'obliques': 'Obliques',
+  'hip-flexors': 'Hip Flexors',
+  'quads': 'Quads',
+  'hamstrings': 'Hamstrings',
+  'glutes': 'Glutes',
+  'glute-medius': 'Glute Medius',
+  'calves': 'Calves',
+};
+
+export const EQUIPMENT_LABELS: Record<EquipmentTag, string> = {
+  'bodyweight': 'Bodyweight',
+  'dumbbell': 'Dumbbells',
+  'barbell': 'Barbell',
+  'bench': 'Bench',
+  'machine': 'Machines',
+  'cable': 'Cable Station',
+  'kettlebell': 'Kettlebell',
+  'band': 'Resistance Bands',
+  'pullup-bar': 'Pull-up Bar',
+};
+
+export interface LibraryExercise {
+  id: string; // canonical id, stable across releases; logs and history are keyed on it
+  name: string;
+  aliases: string[]; // alternative spellings the AI or users commonly use
+  group: TrainingGroup;
+  primaryMuscles: Muscle[];
+  secondaryMuscles: Muscle[];
+  equipment: EquipmentTag[]; // everything listed is required
+  difficulty: 1 | 2 | 3; // 1 beginner, 2 intermediate, 3 advanced
+  compound: boolean;
+  timed?: boolean; // prescribed in seconds rather than reps
+  patterns?: MovementPattern[]; // movements someone with an injury may need to avoid
+  instructions: string[];
+}
+
+export const EXERCISE_LIBRARY: LibraryExercise[] = [
+  // Chest
+  {
+    id: 'push-up',
+    name: 'Push-Up',
+    aliases: ['pushup', 'push up', 'press-up', 'press up', 'standard push-up'],
+    group: 'Chest',
+    primaryMuscles: ['chest'],
+    secondaryMuscles: ['triceps', 'front-delts'],
+    equipment: ['bodyweight'],
+    difficulty: 1,
+    compound: true,
+    patterns: ['weight-on-hands'],
+    instructions: [
+      'Hands just wider than shoulders, body in a straight line, lower your chest to the floor and press back up.',
+    ],
+  },
+  {
+    id: 'incline-push-up',
+    name: 'Incline Push-Up',
+    aliases: ['incline pushup', 'elevated push-up', 'hands-elevated push-up'],
+    group: 'Chest',
+    primaryMuscles: ['chest'],
+    secondaryMuscles: ['triceps'],
+    equipment: ['bodyweight'],
+    difficulty: 1,
+    compound: true,
+    patterns: ['weight-on-hands'],
+    instructions: [
+      'Hands on a bench or step to reduce the load.',
+      'Keep your body rigid as you lower and press.',
+    ],
+  },
+  {
+    id: 'decline-push-up',
+    name: 'Decline Push-Up',
+    aliases: ['decline pushup', 'feet-elevated push-up'],
+    group: 'Chest',
+    primaryMuscles: ['upper-chest'],
+    secondaryMuscles: ['front-delts', 'triceps'],
+    equipment: ['bodyweight'],
+    difficulty: 2,
+    compound: true,
+    patterns: ['weight-on-hands'],
+    instructions: [
+      'Feet elevated on a bench, lower your chest towards the floor under control and press back up.',
+    ],
+  },
+  {
+    id: 'dumbbell-bench-press',
+    name: 'Dumbbell Bench Press',
+    aliases: ['db bench press', 'flat dumbbell press', 'dumbbell chest press'],
+    group: 'Chest',
+    primaryMuscles: ['chest'],
+    secondaryMuscles: ['triceps', 'front-delts'],
+    equipment: ['dumbbell', 'bench'],
+    difficulty: 1,
+    compound: true,
+    instructions: [
+      'Lie on a flat bench, press the dumbbells from chest level to arms extended.',
+      'Lower slowly.',
+    ],
+  },
+  {
+    id: 'dumbbell-floor-press',
+    name: 'Dumbbell Floor Press',
+    aliases: ['db floor press', 'floor press'],
+    group: 'Chest',
+    primaryMuscles: ['chest'],
+    secondaryMuscles: ['triceps'],
+    equipment: ['dumbbell'],
+    difficulty: 1,
+    compound: true,
+    instructions: [
+      'Lie on the floor and press the dumbbells up.',
+      'The floor limits the range to protect the shoulders.',
+    ],
+  },
+  {
+    id: 'barbell-bench-press',
+    name: 'Barbell Bench Press',
+    aliases: ['bench press', 'flat bench press', 'bb bench press'],
+    group: 'Chest',
+    primaryMuscles: ['chest'],
+    secondaryMuscles: ['triceps', 'front-delts'],
+    equipment: ['barbell', 'bench'],
+    difficulty: 2,
+    compound: true,
+    instructions: [
+      'Grip slightly wider than shoulders, lower the bar to mid-chest and press it back up over the shoulders.',
+    ],
+  },
+  {
+    id: 'incline-dumbbell-press',
+    name: 'Incline Dumbbell Press',
+    aliases: ['incline db press', 'incline dumbbell bench press'],
+    group: 'Chest',
+    primaryMuscles: ['upper-chest'],
+    secondaryMuscles: ['front-delts', 'triceps'],
+    equipment: ['dumbbell', 'bench'],
+    difficulty: 2,
+    compound: true,
+    instructions: [
+      'On a 30-45 degree incline, press the dumbbells up and together.',
+      'Lower to upper chest.',
+    ],
+  },
+  {
+    id: 'cable-chest-fly',
+    name: 'Cable Chest Fly',
+    aliases: ['cable fly', 'cable crossover', 'standing cable fly'],
+    group: 'Chest',
+    primaryMuscles: ['chest'],
+    secondaryMuscles: [],
+    equipment: ['cable'],
+    difficulty: 2,
+    compound: false,
+    instructions: [
+      'With a slight bend in the elbows, bring the handles together in a wide hugging arc.',
+    ],
+  },
+  {
+    id: 'machine-chest-press',
+    name: 'Machine Chest Press',
+    aliases: ['chest press machine', 'seated chest press'],
+    group: 'Chest',
+    primaryMuscles: ['chest'],
+    secondaryMuscles: ['triceps'],
+    equipment: ['machine'],
+    difficulty: 1,
+    compound: true,
+    instructions: [
+      'Set the seat so the handles are at mid-chest and press forward without locking the elbows hard.',
+    ],
+  },
+  {
+    id: 'band-chest-press',
+    name: 'Band Chest Press',
+    aliases: ['resistance band chest press', 'banded chest press'],
+    group: 'Chest',
+    primaryMuscles: ['chest'],
+    secondaryMuscles: ['triceps'],
+    equipment: ['band'],
+    difficulty: 1,
+    compound: true,
+    instructions: [
+      'Anchor the band behind you at chest height and press both handles forward.',
+    ],
+  },
+
+  // Back
+  {
+    id: 'inverted-row',
+    name: 'Inverted Row',
+    aliases: ['bodyweight row', 'australian pull-up', 'table row'],
+    group: 'Back',
+    primaryMuscles: ['lats'],
+    secondaryMuscles: ['upper-back', 'biceps'],
+    equipment: ['bodyweight'],
+    difficulty: 1,
+    compound: true,
+    instructions: [
+      'Hang under a sturdy table or bar, body straight, and pull your chest up to it.',
+    ],
+  },
+  {
+    id: 'pull-up',
+    name: 'Pull-Up',
+    aliases: ['pullup', 'pull up', 'overhand pull-up'],
+    group: 'Back',
+    primaryMuscles: ['lats'],
+    secondaryMuscles: ['biceps', 'rear-delts'],
+    equipment: ['pullup-bar'],
+    difficulty: 3,
+    compound: true,
+    patterns: ['hanging'],
+    instructions: [
+      'From a dead hang with an overhand grip, pull until your chin clears the bar.',
+      'Lower fully.',
+    ],
+  },
+  {
+    id: 'chin-up',
+    name: 'Chin-Up',
+    aliases: ['chinup', 'chin up', 'underhand pull-up'],
+    group: 'Back',
+    primaryMuscles: ['lats'],
+    secondaryMuscles: ['biceps'],
+    equipment: ['pullup-bar'],
+    difficulty: 2,
+    compound: true,
+    patterns: ['hanging'],
+    instructions: [
+      'Underhand grip at shoulder width.',
+      'Pull your chin over the bar and lower under control.',
+    ],
+  },
+  {
+    id: 'one-arm-dumbbell-row',
+    name: 'One-Arm Dumbbell Row',
+    aliases: ['single-arm dumbbell row', 'dumbbell row', 'one arm db row', 'bent-over dumbbell row'],
+    group: 'Back',
+    primaryMuscles: ['lats'],
+    secondaryMuscles: ['upper-back', 'biceps'],
+    equipment: ['dumbbell'],
+    difficulty: 1,
+    compound: true,
+    instructions: [
+      'Brace one hand on a bench or knee and row the dumbbell to your hip, keeping the back flat.',
+    ],
+  },
+  {
+    id: 'barbell-bent-over-row',
+    name: 'Barbell Bent-Over Row',
+    aliases: ['barbell row', 'bent-over row', 'bent over barbell row'],
+    group: 'Back',
+    primaryMuscles: ['lats'],
+    secondaryMuscles: ['upper-back', 'lower-back'],
+    equipment: ['barbell'],
+    difficulty: 2,
+    compound: true,
+    patterns: ['hip-hinging'],
+    instructions: [
+      'Hinge to about 45 degrees and row the bar to your lower ribs, squeezing the shoulder blades.',
+    ],
+  },
+  {
+    id: 'lat-pulldown',
+    name: 'Lat Pulldown',
+    aliases: ['lat pull-down', 'wide-grip lat pulldown', 'cable pulldown'],
+    group: 'Back',
+    primaryMuscles: ['lats'],
+    secondaryMuscles: ['biceps'],
+    equipment: ['cable'],
+    difficulty: 1,
+    compound: true,
+    instructions: [
+      'Pull the bar to your upper chest while leaning back slightly.',
+      'Let it rise with control.',
+    ],
+  },
+  {
+    id: 'seated-cable-row',
+    name: 'Seated Cable Row',
+    aliases: ['cable row', 'seated row', 'low row'],
+    group: 'Back',
+    primaryMuscles: ['upper-back'],
+    secondaryMuscles: ['lats', 'rear-delts'],
+    equipment: ['cable'],
+    difficulty: 1,
+    compound: true,
+    instructions: [
+      'Sit tall and row the handle to your stomach without rocking your torso.',
+    ],
+  },
+  {
+    id: 'band-pull-apart',
+    name: 'Band Pull-Apart',
+    aliases: ['resistance band pull-apart', 'band pull apart'],
+    group: 'Back',
+    primaryMuscles: ['rear-delts'],
+    secondaryMuscles: ['upper-back'],
+    equipment: ['band'],
+    difficulty: 1,
+    compound: false,
+    instructions: [
+      'Hold the band at shoulder height and pull it apart until it touches your chest.',
+    ],
+  },
+  {
+    id: 'superman-hold',
+    name: 'Superman Hold',
+    aliases: ['superman', 'supermans', 'back extension hold'],
+    group: 'Back',
+    primaryMuscles: ['lower-back'],
+    secondaryMuscles: ['glutes'],
+    equipment: ['bodyweight'],
+    difficulty: 1,
+    compound: false,
+    timed: true,
+    instructions: [
+      'Lie face down and lift arms and legs off the floor, holding briefly at the top.',
+    ],
+  },
+
+  // Shoulders
+  {
+    id: 'pike-push-up',
+    name: 'Pike Push-Up',
+    aliases: ['pike pushup', 'pike press'],
+    group: 'Shoulders',
+    primaryMuscles: ['front-delts'],
+    secondaryMuscles: ['triceps'],
+    equipment: ['bodyweight'],
+    difficulty: 2,
+    compound: true,
+    patterns: ['overhead-pressing', 'weight-on-hands'],
+    instructions: [
+      'Hips high in an inverted V, bend the elbows to bring your head towards the floor and press back.',
+    ],
+  },
+  {
+    id: 'dumbbell-shoulder-press',
+    name: 'Dumbbell Shoulder Press',
+    aliases: ['db shoulder press', 'dumbbell overhead press', 'seated dumbbell press'],
+    group: 'Shoulders',
+    primaryMuscles: ['front-delts'],
+    secondaryMuscles: ['triceps'],
+    equipment: ['dumbbell'],
+    difficulty: 1,
+    compound: true,
+    patterns: ['overhead-pressing'],
+    instructions: [
+      'Press the dumbbells from shoulder height to overhead, keeping the ribs down.',
+    ],
+  },
+  {
+    id: 'barbell-overhead-press',
+    name: 'Barbell Overhead Press',
+    aliases: ['overhead press', 'military press', 'standing barbell press', 'ohp'],
+    group: 'Shoulders',
+    primaryMuscles: ['front-delts'],
+    secondaryMuscles: ['triceps', 'upper-chest'],
+    equipment: ['barbell'],
+    difficulty: 2,
+    compound: true,
+    patterns: ['overhead-pressing', 'spinal-loading'],
+    instructions: [
+      'Standing, press the bar from your collarbone to overhead, moving your head back out of the way.',
+    ],
+  },
+  {
+    id: 'dumbbell-lateral-raise',
+    name: 'Dumbbell Lateral Raise',
+    aliases: ['lateral raise', 'side raise', 'side lateral raise'],
+    group: 'Shoulders',
+    primaryMuscles: ['side-delts'],
+    secondaryMuscles: [],
+    equipment: ['dumbbell'],
+    difficulty: 1,
+    compound: false,
+    instructions: [
+      'Raise the dumbbells out to the sides to shoulder height with a slight bend in the elbows.',
+    ],
+  },
+  {
+    id: 'face-pull',
+    name: 'Face Pull',
+    aliases: ['cable face pull', 'rope face pull'],
+    group: 'Shoulders',
+    primaryMuscles: ['rear-delts'],
+    secondaryMuscles: ['rotator-cuff'],
+    equipment: ['cable'],
+    difficulty: 1,
+    compound: false,
+    instructions: [
+      'Pull the rope towards your face, splitting the ends and finishing with hands beside your ears.',
+    ],
+  },
+  {
+    id: 'band-overhead-press',
+    name: 'Band Overhead Press',
+    aliases: ['resistance band shoulder press', 'banded overhead press'],
+    group: 'Shoulders',
+    primaryMuscles: ['front-delts'],
+    secondaryMuscles: ['triceps'],
+    equipment: ['band'],
+    difficulty: 1,
+    compound: true,
+    patterns: ['overhead-pressing'],
+    instructions: [
+      'Stand on the band and press the handles overhead.',
+    ],
+  },
+
+  // Arms
+  {
+    id: 'bench-dip',
+    name: 'Bench Dip',
+    aliases: ['bench dips', 'triceps bench dip', 'chair dip'],
+    group: 'Arms',
+    primaryMuscles: ['triceps'],
+    secondaryMuscles: ['chest'],
+    equipment: ['bodyweight'],
+    difficulty: 1,
+    compound: true,
+    patterns: ['dips', 'weight-on-hands'],
+    instructions: [
+      'Hands on a bench behind you, lower your hips by bending the elbows and press back up.',
+    ],
+  },
+  {
+    id: 'diamond-push-up',
+    name: 'Diamond Push-Up',
+    aliases: ['diamond pushup', 'close-grip push-up', 'triangle push-up'],
+    group: 'Arms',
+    primaryMuscles: ['triceps'],
+    secondaryMuscles: ['chest'],
+    equipment: ['bodyweight'],
+    difficulty: 2,
+    compound: true,
+    patterns: ['weight-on-hands'],
+    instructions: [
+      'Push-up with hands close together under the chest to bias the triceps.',
+    ],
+  },
+  {
+    id: 'dumbbell-biceps-curl',
+    name: 'Dumbbell Biceps Curl',
+    aliases: ['dumbbell curl', 'bicep curl', 'biceps curl', 'db curl'],
+    group: 'Arms',
+    primaryMuscles: ['biceps'],
+    secondaryMuscles: ['forearms'],
+    equipment: ['dumbbell'],
+    difficulty: 1,
+    compound: false,
+    instructions: [
+      'Curl the dumbbells up without swinging, keeping the elbows by your sides.',
+    ],
+  },
+  {
+    id: 'hammer-curl',
+    name: 'Hammer Curl',
+    aliases: ['dumbbell hammer curl', 'neutral-grip curl'],
+    group: 'Arms',
+    primaryMuscles: ['biceps'],
+    secondaryMuscles: ['forearms'],
+    equipment: ['dumbbell'],
+    difficulty: 1,
+    compound: false,
+    instructions: [
+      'Curl with palms facing each other throughout the movement.',
+    ],
+  },
+  {
+    id: 'overhead-dumbbell-triceps-extension',
+    name: 'Overhead Dumbbell Triceps Extension',
+    aliases: ['overhead triceps extension', 'dumbbell overhead extension', 'seated triceps extension'],
+    group: 'Arms',
+    primaryMuscles: ['triceps'],
+    secondaryMuscles: [],
+    equipment: ['dumbbell'],
+    difficulty: 1,
+    compound: false,
+    patterns: ['overhead-pressing'],
+    instructions: [
+      'Hold one dumbbell overhead with both hands and lower it behind your head.',
+      'Extend.',
+    ],
+  },
+  {
+    id: 'cable-triceps-pushdown',
+    name: 'Cable Triceps Pushdown',
+    aliases: ['triceps pushdown', 'tricep pushdown', 'rope pushdown'],
+    group: 'Arms',
+    primaryMuscles: ['triceps'],
+    secondaryMuscles: [],
+    equipment: ['cable'],
+    difficulty: 1,
+    compound: false,
+    instructions: [
+      'Keep elbows pinned to your sides and push the bar or rope down until the arms are straight.',
+    ],
+  },
+  {
+    id: 'barbell-curl',
+    name: 'Barbell Curl',
+    aliases: ['bb curl', 'standing barbell curl'],
+    group: 'Arms',
+    primaryMuscles: ['biceps'],
+    secondaryMuscles: [],
+    equipment: ['barbell'],
+    difficulty: 1,
+    compound: false,
+    instructions: [
+      'Curl the bar to shoulder height with a shoulder-width underhand grip.',
+    ],
+  },
+  {
+    id: 'band-biceps-curl',
+    name: 'Band Biceps Curl',
+    aliases: ['resistance band curl', 'banded bicep curl'],
+    group: 'Arms',
+    primaryMuscles: ['biceps'],
+    secondaryMuscles: [],
+    equipment: ['band'],
+    difficulty: 1,
+    compound: false,
+    instructions: [
+      'Stand on the band and curl the handles up to your shoulders.',
+    ],
+  },
+
+  // Legs
+  {
+    id: 'bodyweight-squat',
+    name: 'Bodyweight Squat',
+    aliases: ['air squat', 'squat', 'bodyweight squats'],
+    group: 'Legs',
+    primaryMuscles: ['quads'],
+    secondaryMuscles: ['glutes'],
+    equipment: ['bodyweight'],
+    difficulty: 1,
+    compound: true,
+    patterns: ['deep-squatting'],
+    instructions: [
+      'Feet shoulder-width apart, sit back and down until thighs are parallel.',
+      'Stand up.',
+    ],
+  },
+  {
+    id: 'reverse-lunge',
+    name: 'Reverse Lunge',
+    aliases: ['reverse lunges', 'backward lunge', 'lunge'],
+    group: 'Legs',
+    primaryMuscles: ['quads'],
+    secondaryMuscles: ['glutes', 'hamstrings'],
+    equipment: ['bodyweight'],
+    difficulty: 1,
+    compound: true,
+    patterns: ['lunging'],
+    instructions: [
+      'Step back and lower the rear knee towards the floor.',
+      'Drive through the front heel.',
+    ],
+  },
+  {
+    id: 'bulgarian-split-squat',
+    name: 'Bulgarian Split Squat',
+    aliases: ['rear-foot elevated split squat', 'split squat', 'bulgarian squat'],
+    group: 'Legs',
+    primaryMuscles: ['quads'],
+    secondaryMuscles: ['glutes'],
+    equipment: ['bodyweight'],
+    difficulty: 2,
+    compound: true,
+    patterns: ['lunging'],
+    instructions: [
+      'Rear foot on a bench, lower straight down on the front leg and drive back up.',
+    ],
+  },
+  {
+    id: 'goblet-squat',
+    name: 'Goblet Squat',
+    aliases: ['dumbbell goblet squat', 'kettlebell goblet squat'],
+    group: 'Legs',
+    primaryMuscles: ['quads'],
+    secondaryMuscles: ['glutes', 'abs'],
+    equipment: ['dumbbell'],
+    difficulty: 1,
+    compound: true,
+    patterns: ['deep-squatting'],
+    instructions: [
+      'Hold a dumbbell at your chest and squat between your knees, keeping the torso upright.',
+    ],
+  },
+  {
+    id: 'dumbbell-romanian-deadlift',
+    name: 'Dumbbell Romanian Deadlift',
+    aliases: ['db rdl', 'dumbbell rdl', 'romanian deadlift', 'stiff-leg deadlift'],
+    group: 'Legs',
+    primaryMuscles: ['hamstrings'],
+    secondaryMuscles: ['glutes', 'lower-back'],
+    equipment: ['dumbbell'],
+    difficulty: 1,
+    compound: true,
+    patterns: ['hip-hinging'],
+    instructions: [
+      'Hinge at the hips with soft knees, sliding the dumbbells down your thighs.',
+      'Stand tall.',
+    ],
+  },
+  {
+    id: 'barbell-back-squat',
+    name: 'Barbell Back Squat',
+    aliases: ['back squat', 'barbell squat'],
+    group: 'Legs',
+    primaryMuscles: ['quads'],
+    secondaryMuscles: ['glutes', 'abs'],
+    equipment: ['barbell'],
+    difficulty: 2,
+    compound: true,
+    patterns: ['deep-squatting', 'spinal-loading'],
+    instructions: [
+      'Bar across the upper back, squat to at least parallel keeping the chest up.',
+      'Drive up.',
+    ],
+  },
+  {
+    id: 'barbell-deadlift',
+    name: 'Barbell Deadlift',
+    aliases: ['deadlift', 'conventional deadlift'],
+    group: 'Legs',
+    primaryMuscles: ['hamstrings'],
+    secondaryMuscles: ['glutes', 'lower-back'],
+    equipment: ['barbell'],
+    difficulty: 3,
+    compound: true,
+    patterns: ['hip-hinging', 'spinal-loading'],
+    instructions: [
+      'Bar over mid-foot, brace and push the floor away, locking out hips and knees together.',
+    ],
+  },
+  {
+    id: 'leg-press',
+    name: 'Leg Press',
+    aliases: ['machine leg press', 'seated leg press'],
+    group: 'Legs',
+    primaryMuscles: ['quads'],
+    secondaryMuscles: ['glutes'],
+    equipment: ['machine'],
+    difficulty: 1,
+    compound: true,
+    patterns: ['deep-squatting'],
+    instructions: [
+      'Lower the sled until knees reach about 90 degrees and press back without locking out.',
+    ],
+  },
+  {
+    id: 'lying-leg-curl',
+    name: 'Lying Leg Curl',
+    aliases: ['leg curl', 'hamstring curl'],
+    group: 'Legs',
+    primaryMuscles: ['hamstrings'],
+    secondaryMuscles: [],
+    equipment: ['machine'],
+    difficulty: 1,
+    compound: false,
+    instructions: [
+      'Curl the pad towards your glutes and lower slowly.',
+    ],
+  },
+  {
+    id: 'standing-calf-raise',
+    name: 'Standing Calf Raise',
+    aliases: ['calf raise', 'calf raises'],
+    group: 'Legs',
+    primaryMuscles: ['calves'],
+    secondaryMuscles: [],
+    equipment: ['bodyweight'],
+    difficulty: 1,
+    compound: false,
+    instructions: [
+      'Rise onto the balls of your feet, pause, and lower the heels below the step if possible.',
+    ],
+  },
+  {
+    id: 'kettlebell-swing',
+    name: 'Kettlebell Swing',
+    aliases: ['kb swing', 'russian kettlebell swing'],
+    group: 'Legs',
+    primaryMuscles: ['glutes'],
+    secondaryMuscles: ['hamstrings', 'abs'],
+    equipment: ['kettlebell'],
+    difficulty: 2,
+    compound: true,
+    patterns: ['hip-hinging', 'explosive'],
+    instructions: [
+      'Hinge and snap the hips forward to swing the bell to chest height.',
+    ],
+  },
+
+  // Glutes
+  {
+    id: 'glute-bridge',
+    name: 'Glute Bridge',
+    aliases: ['hip bridge', 'bridge', 'floor glute bridge'],
+    group: 'Glutes',
+    primaryMuscles: ['glutes'],
+    secondaryMuscles: ['hamstrings'],
+    equipment: ['bodyweight'],
+    difficulty: 1,
+    compound: false,
+    instructions: [
+      'Lying on your back with knees bent, drive the hips up and squeeze the glutes at the top.',
+    ],
+  },
+  {
+    id: 'dumbbell-hip-thrust',
+    name: 'Dumbbell Hip Thrust',
+    aliases: ['hip thrust', 'barbell hip thrust', 'weighted hip thrust'],
+    group: 'Glutes',
+    primaryMuscles: ['glutes'],
+    secondaryMuscles: [],
+    equipment: ['dumbbell', 'bench'],
+    difficulty: 2,
+    compound: false,
+    instructions: [
+      'Upper back on a bench and a dumbbell on your hips, drive the hips up to full extension.',
+    ],
+  },
+  {
+    id: 'band-lateral-walk',
+    name: 'Band Lateral Walk',
+    aliases: ['lateral band walk', 'monster walk', 'banded side walk'],
+    group: 'Glutes',
+    primaryMuscles: ['glute-medius'],
+    secondaryMuscles: [],
+    equipment: ['band'],
+    difficulty: 1,
+    compound: false,
+    instructions: [
+      'Band above the knees, half squat, and step sideways keeping tension on the band.',
+    ],
+  },
+
+  // Core
+  {
+    id: 'plank',
+    name: 'Plank',
+    aliases: ['forearm plank', 'front plank', 'plank hold'],
+    group: 'Core',
+    primaryMuscles: ['abs'],
+    secondaryMuscles: ['obliques'],
+    equipment: ['bodyweight'],
+    difficulty: 1,
+    compound: false,
+    timed: true,
+    instructions: [
+      'Hold a straight line from head to heels on your forearms, bracing the abs.',
+    ],
+  },
+  {
+    id: 'dead-bug',
+    name: 'Dead Bug',
+    aliases: ['deadbug', 'dead bugs'],
+    group: 'Core',
+    primaryMuscles: ['abs'],
+    secondaryMuscles: [],
+    equipment: ['bodyweight'],
+    difficulty: 1,
+    compound: false,
+    instructions: [
+      'On your back, extend the opposite arm and leg while keeping the lower back pressed down.',
+    ],
+  },
+  {
+    id: 'hanging-knee-raise',
+    name: 'Hanging Knee Raise',
+    aliases: ['hanging knee tuck', 'knee raise'],
+    group: 'Core',
+    primaryMuscles: ['abs'],
+    secondaryMuscles: ['hip-flexors'],
+    equipment: ['pullup-bar'],
+    difficulty: 2,
+    compound: false,
+    patterns: ['hanging', 'spinal-flexion'],
+    instructions: [
+      'Hang from the bar and raise your knees towards your chest without swinging.',
+    ],
+  },
+  {
+    id: 'russian-twist',
+    name: 'Russian Twist',
+    aliases: ['russian twists', 'seated twist'],
+    group: 'Core',
+    primaryMuscles: ['obliques'],
+    secondaryMuscles: ['abs'],
+    equipment: ['bodyweight'],
+    difficulty: 1,
+    compound: false,
+    patterns: ['twisting', 'spinal-flexion'],
+    instructions: [
+      'Seated with feet off the floor, rotate your torso side to side.',
+    ],
+  },
+  {
+    id: 'cable-woodchop',
+    name: 'Cable Woodchop',
+    aliases: ['wood chop', 'cable wood chopper', 'woodchopper'],
+    group: 'Core',
+    primaryMuscles: ['obliques'],
+    secondaryMuscles: ['abs'],
+    equipment: ['cable'],
+    difficulty: 2,
+    compound: false,
+    patterns: ['twisting'],
+    instructions: [
+      'Rotate the handle diagonally across your body from high to low, pivoting the back foot.',
+    ],
+  },
+];
+
+const BY_ID = new Map(EXERCISE_LIBRARY.map(e => [e.id, e]));
+
+export const getLibraryExercise = (id: string): LibraryExercise | undefined => BY_ID.get(id);
+
+export const musclesOf = (entry: LibraryExercise): string[] =>
+  [...entry.primaryMuscles, ...entry.secondaryMuscles].map(m => MUSCLE_LABELS[m]);
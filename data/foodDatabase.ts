@@ -0,0 +1,137 @@
+import { Allergen } from '../types';
+
+export type FoodCategory = 'protein' | 'dairy' | 'grain' | 'legume' | 'vegetable' | 'fruit' | 'fat' | 'other';
+
+export const FOOD_CATEGORY_LABELS: Record<FoodCategory, string> = {
+  'protein': 'Meat, Fish & Eggs',
+  'dairy': 'Dairy & Alternatives',
+  'grain': 'Grains & Starches',
+  'legume': 'Beans & Legumes',
+  'vegetable': 'Vegetables',
+  'fruit': 'Fruit',
+  'fat': 'Nuts, Seeds & Oils',
+  'other': 'Other',
+};
+
+// Where an animal product comes from; plant foods have none. Dietary restrictions are checked against this.
+export type AnimalSource = 'red-meat' | 'pork' | 'poultry' | 'fish' | 'shellfish' | 'dairy' | 'egg' | 'honey';
+
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  'gluten': 'Gluten',
+  'dairy': 'Dairy',
+  'eggs': 'Eggs',
+  'peanuts': 'Peanuts',
+  'tree-nuts': 'Tree Nuts',
+  'soy': 'Soy',
+  'fish': 'Fish',
+  'shellfish': 'Shellfish',
+  'sesame': 'Sesame',
+};
+
+export interface FoodNutrients {
+  calories: number; // kcal
+  protein: number; // g
+  carbs: number; // g
+  fat: number; // g
+  fiber: number; // g
+}
+
+export interface FoodItem {
+  id: string; // canonical id, stable across releases; saved meals are keyed on it
+  name: string;
+  aliases: string[]; // alternative names the AI or users commonly use
+  category: FoodCategory;
+  per100g: FoodNutrients; // as eaten: cooked weights for meat, grains and legumes
+  portion?: { label: string; grams: number }; // a natural unit, e.g. one egg or one slice
+  animal?: AnimalSource;
+  allergens?: Allergen[];
+}
+
+// Values are rounded averages from public food composition tables (USDA FoodData Central).
+// Allergen tags are conservative: oats are marked as gluten (usually cross-contaminated) and
+// dark chocolate as dairy (often made on shared lines).
+const n = (calories: number, protein: number, carbs: number, fat: number, fiber = 0): FoodNutrients =>
+  ({ calories, protein, carbs, fat, fiber });
+
+export const FOOD_DATABASE: FoodItem[] = [
+  // Meat, fish & eggs
+  { id: 'chicken-breast', name: 'Chicken Breast (cooked)', aliases: ['chicken', 'grilled chicken', 'chicken breast'], category: 'protein', per100g: n(165, 31, 0, 3.6), animal: 'poultry' },
+  { id: 'turkey-breast', name: 'Turkey Breast (cooked)', aliases: ['turkey', 'sliced turkey'], category: 'protein', per100g: n(135, 30, 0, 1), animal: 'poultry' },
+  { id: 'lean-beef-mince', name: 'Lean Beef Mince (cooked)', aliases: ['lean beef', 'ground beef', 'beef mince', 'minced beef'], category: 'protein', per100g: n(164, 26, 0, 6.4), animal: 'red-meat' },
+  { id: 'pork-tenderloin', name: 'Pork Tenderloin (cooked)', aliases: ['pork', 'pork loin'], category: 'protein', per100g: n(143, 26, 0, 3.5), animal: 'pork' },
+  { id: 'salmon', name: 'Salmon (cooked)', aliases: ['salmon fillet', 'baked salmon'], category: 'protein', per100g: n(206, 22, 0, 12.4), animal: 'fish', allergens: ['fish'] },
+  { id: 'cod', name: 'Cod (cooked)', aliases: ['white fish', 'cod fillet'], category: 'protein', per100g: n(105, 23, 0, 0.9), animal: 'fish', allergens: ['fish'] },
+  { id: 'tuna-canned', name: 'Tuna (canned in water)', aliases: ['tuna', 'canned tuna'], category: 'protein', per100g: n(116, 26, 0, 0.8), portion: { label: 'can', grams: 120 }, animal: 'fish', allergens: ['fish'] },
+  { id: 'shrimp', name: 'Shrimp (cooked)', aliases: ['prawns', 'shrimps'], category: 'protein', per100g: n(99, 24, 0.2, 0.3), animal: 'shellfish', allergens: ['shellfish'] },
+  { id: 'egg', name: 'Egg', aliases: ['eggs', 'whole egg', 'boiled egg', 'scrambled eggs'], category: 'protein', per100g: n(143, 12.6, 0.7, 9.5), portion: { label: 'egg', grams: 50 }, animal: 'egg', allergens: ['eggs'] },
+  { id: 'egg-white', name: 'Egg White', aliases: ['egg whites'], category: 'protein', per100g: n(52, 10.9, 0.7, 0.2), animal: 'egg', allergens: ['eggs'] },
+  { id: 'tofu', name: 'Tofu (firm)', aliases: ['firm tofu', 'bean curd'], category: 'protein', per100g: n(144, 15.8, 2.8, 8.7, 2.3), allergens: ['soy'] },
+  { id: 'tempeh', name: 'Tempeh', aliases: [], category: 'protein', per100g: n(192, 20.3, 7.6, 10.8), allergens: ['soy'] },
+
+  // Dairy & alternatives
+  { id: 'greek-yogurt', name: 'Greek Yogurt (0% fat)', aliases: ['greek yoghurt', 'yogurt', 'yoghurt', 'nonfat greek yogurt'], category: 'dairy', per100g: n(59, 10.2, 3.6, 0.4), animal: 'dairy', allergens: ['dairy'] },
+  { id: 'milk', name: 'Milk (semi-skimmed)', aliases: ['2% milk', 'semi skimmed milk', 'low fat milk'], category: 'dairy', per100g: n(50, 3.3, 4.8, 2), animal: 'dairy', allergens: ['dairy'] },
+  { id: 'cottage-cheese', name: 'Cottage Cheese (low fat)', aliases: ['cottage cheese'], category: 'dairy', per100g: n(81, 10.5, 4.8, 2.3), animal: 'dairy', allergens: ['dairy'] },
+  { id: 'cheddar', name: 'Cheddar Cheese', aliases: ['cheese', 'cheddar'], category: 'dairy', per100g: n(403, 24.9, 1.3, 33.1), animal: 'dairy', allergens: ['dairy'] },
+  { id: 'mozzarella', name: 'Mozzarella (part-skim)', aliases: ['mozzarella'], category: 'dairy', per100g: n(254, 24.3, 2.8, 15.9), animal: 'dairy', allergens: ['dairy'] },
+  { id: 'whey-protein', name: 'Whey Protein Powder', aliases: ['protein powder', 'whey', 'protein shake'], category: 'dairy', per100g: n(400, 80, 8, 6), portion: { label: 'scoop', grams: 30 }, animal: 'dairy', allergens: ['dairy'] },
+
+  { id: 'soy-milk', name: 'Soy Milk (unsweetened)', aliases: ['soya milk', 'plant milk'], category: 'dairy', per100g: n(33, 2.9, 1.7, 1.6, 0.4), allergens: ['soy'] },
+
+  // Grains & starches
+  { id: 'rolled-oats', name: 'Rolled Oats (dry)', aliases: ['oats', 'oatmeal', 'porridge oats', 'porridge'], category: 'grain', per100g: n(379, 13.2, 67.7, 6.5, 10.1), allergens: ['gluten'] },
+  { id: 'brown-rice', name: 'Brown Rice (cooked)', aliases: ['brown rice'], category: 'grain', per100g: n(123, 2.7, 25.6, 1, 1.6) },
+  { id: 'white-rice', name: 'White Rice (cooked)', aliases: ['rice', 'white rice', 'jasmine rice', 'basmati rice'], category: 'grain', per100g: n(130, 2.7, 28.2, 0.3, 0.4) },
+  { id: 'quinoa', name: 'Quinoa (cooked)', aliases: [], category: 'grain', per100g: n(120, 4.4, 21.3, 1.9, 2.8) },
+  { id: 'pasta', name: 'Pasta (cooked)', aliases: ['spaghetti', 'penne', 'whole wheat pasta', 'noodles'], category: 'grain', per100g: n(158, 5.8, 30.9, 0.9, 1.8), allergens: ['gluten'] },
+  { id: 'wholegrain-bread', name: 'Wholegrain Bread', aliases: ['bread', 'whole wheat bread', 'toast', 'wholemeal bread'], category: 'grain', per100g: n(247, 13, 41, 3.4, 7), portion: { label: 'slice', grams: 35 }, allergens: ['gluten'] },
+  { id: 'tortilla', name: 'Wheat Tortilla', aliases: ['wrap', 'tortilla wrap', 'flour tortilla'], category: 'grain', per100g: n(312, 8.3, 51.6, 8, 3.5), portion: { label: 'wrap', grams: 45 }, allergens: ['gluten'] },
+  { id: 'sweet-potato', name: 'Sweet Potato (baked)', aliases: ['sweet potatoes', 'yam'], category: 'grain', per100g: n(90, 2, 20.7, 0.2, 3.3) },
+  { id: 'potato', name: 'Potato (baked)', aliases: ['potatoes', 'baked potato', 'boiled potatoes'], category: 'grain', per100g: n(93, 2.5, 21.2, 0.1, 2.2) },
+  { id: 'rice-cakes', name: 'Rice Cakes', aliases: ['rice cake'], category: 'grain', per100g: n(387, 8.2, 81.5, 2.8, 4.2), portion: { label: 'cake', grams: 9 } },
+
+  // Beans & legumes
+  { id: 'lentils', name: 'Lentils (cooked)', aliases: ['red lentils', 'green lentils', 'dal'], category: 'legume', per100g: n(116, 9, 20.1, 0.4, 7.9) },
+  { id: 'chickpeas', name: 'Chickpeas (cooked)', aliases: ['garbanzo beans', 'chick peas'], category: 'legume', per100g: n(164, 8.9, 27.4, 2.6, 7.6) },
+  { id: 'black-beans', name: 'Black Beans (cooked)', aliases: ['beans', 'kidney beans'], category: 'legume', per100g: n(132, 8.9, 23.7, 0.5, 8.7) },
+  { id: 'edamame', name: 'Edamame', aliases: ['soybeans', 'soy beans'], category: 'legume', per100g: n(121, 11.9, 8.9, 5.2, 5.2), allergens: ['soy'] },
+  { id: 'hummus', name: 'Hummus', aliases: ['houmous'], category: 'legume', per100g: n(166, 7.9, 14.3, 9.6, 6), allergens: ['sesame'] },
+
+  // Vegetables
+  { id: 'broccoli', name: 'Broccoli', aliases: [], category: 'vegetable', per100g: n(35, 2.4, 7.2, 0.4, 3.3) },
+  { id: 'spinach', name: 'Spinach', aliases: ['baby spinach'], category: 'vegetable', per100g: n(23, 2.9, 3.6, 0.4, 2.2) },
+  { id: 'mixed-greens', name: 'Mixed Salad Greens', aliases: ['salad', 'lettuce', 'mixed salad', 'greens'], category: 'vegetable', per100g: n(17, 1.2, 3.3, 0.2, 2.1) },
+  { id: 'tomato', name: 'Tomato', aliases: ['tomatoes', 'cherry tomatoes'], category: 'vegetable', per100g: n(18, 0.9, 3.9, 0.2, 1.2) },
+  { id: 'bell-pepper', name: 'Bell Pepper', aliases: ['pepper', 'peppers', 'red pepper'], category: 'vegetable', per100g: n(31, 1, 6, 0.3, 2.1) },
+  { id: 'carrot', name: 'Carrot', aliases: ['carrots'], category: 'vegetable', per100g: n(41, 0.9, 9.6, 0.2, 2.8) },
+  { id: 'green-beans', name: 'Green Beans', aliases: ['string beans'], category: 'vegetable', per100g: n(31, 1.8, 7, 0.2, 2.7) },
+  { id: 'cucumber', name: 'Cucumber', aliases: [], category: 'vegetable', per100g: n(15, 0.7, 3.6, 0.1, 0.5) },
+  { id: 'mushrooms', name: 'Mushrooms', aliases: ['mushroom'], category: 'vegetable', per100g: n(22, 3.1, 3.3, 0.3, 1) },
+  { id: 'zucchini', name: 'Zucchini', aliases: ['courgette'], category: 'vegetable', per100g: n(17, 1.2, 3.1, 0.3, 1) },
+  { id: 'onion', name: 'Onion', aliases: ['onions', 'red onion'], category: 'vegetable', per100g: n(40, 1.1, 9.3, 0.1, 1.7) },
+  { id: 'frozen-mixed-veg', name: 'Mixed Vegetables', aliases: ['vegetables', 'mixed veg', 'stir fry vegetables'], category: 'vegetable', per100g: n(65, 2.9, 13.1, 0.5, 4.4) },
+
+  // Fruit
+  { id: 'banana', name: 'Banana', aliases: ['bananas'], category: 'fruit', per100g: n(89, 1.1, 22.8, 0.3, 2.6), portion: { label: 'banana', grams: 118 } },
+  { id: 'apple', name: 'Apple', aliases: ['apples'], category: 'fruit', per100g: n(52, 0.3, 13.8, 0.2, 2.4), portion: { label: 'apple', grams: 180 } },
+  { id: 'orange', name: 'Orange', aliases: ['oranges'], category: 'fruit', per100g: n(47, 0.9, 11.8, 0.1, 2.4), portion: { label: 'orange', grams: 130 } },
+  { id: 'blueberries', name: 'Blueberries', aliases: ['berries', 'mixed berries'], category: 'fruit', per100g: n(57, 0.7, 14.5, 0.3, 2.4) },
+  { id: 'strawberries', name: 'Strawberries', aliases: ['strawberry'], category: 'fruit', per100g: n(32, 0.7, 7.7, 0.3, 2) },
+
+  // Nuts, seeds & oils
+  { id: 'olive-oil', name: 'Olive Oil', aliases: ['oil', 'extra virgin olive oil'], category: 'fat', per100g: n(884, 0, 0, 100), portion: { label: 'tbsp', grams: 13.5 } },
+  { id: 'butter', name: 'Butter', aliases: [], category: 'fat', per100g: n(717, 0.9, 0.1, 81.1), portion: { label: 'tsp', grams: 5 }, animal: 'dairy', allergens: ['dairy'] },
+  { id: 'avocado', name: 'Avocado', aliases: ['avocados', 'guacamole'], category: 'fat', per100g: n(160, 2, 8.5, 14.7, 6.7) },
+  { id: 'almonds', name: 'Almonds', aliases: ['nuts', 'mixed nuts'], category: 'fat', per100g: n(579, 21.2, 21.6, 49.9, 12.5), allergens: ['tree-nuts'] },
+  { id: 'walnuts', name: 'Walnuts', aliases: [], category: 'fat', per100g: n(654, 15.2, 13.7, 65.2, 6.7), allergens: ['tree-nuts'] },
+  { id: 'peanut-butter', name: 'Peanut Butter', aliases: ['nut butter'], category: 'fat', per100g: n(588, 25.1, 20, 50.4, 6), portion: { label: 'tbsp', grams: 16 }, allergens: ['peanuts'] },
+  { id: 'chia-seeds', name: 'Chia Seeds', aliases: ['chia'], category: 'fat', per100g: n(486, 16.5, 42.1, 30.7, 34.4), portion: { label: 'tbsp', grams: 12 } },
+
+  // Other
+  { id: 'honey', name: 'Honey', aliases: [], category: 'other', per100g: n(304, 0.3, 82.4, 0, 0.2), portion: { label: 'tsp', grams: 7 }, animal: 'honey' },
+  { id: 'dark-chocolate', name: 'Dark Chocolate (70%)', aliases: ['chocolate'], category: 'other', per100g: n(598, 7.8, 45.9, 42.6, 10.9), allergens: ['dairy'] },
+];
+
+const BY_ID = new Map(FOOD_DATABASE.map(f => [f.id, f]));
+
+export const getFood = (id: string): FoodItem | undefined => BY_ID.get(id);
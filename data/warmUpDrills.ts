@@ -0,0 +1,124 @@
+import { BodyArea } from '../types';
+import { TrainingGroup } from './exerciseLibrary';
+
+export interface MobilityDrill {
+  id: string;
+  name: string;
+  seconds: number;
+  description: string;
+  prepares: TrainingGroup[]; // sessions training these groups open with this drill
+  areas: BodyArea[]; // joints it mobilises gently, for users with a limitation there
+  highImpact?: boolean;
+}
+
+// Raise the heart rate before mobility work; the low-impact one is used when jumping is out.
+export const PULSE_RAISERS: MobilityDrill[] = [
+  {
+    id: 'jumping-jacks',
+    name: 'Jumping Jacks',
+    seconds: 120,
+    description: 'Easy, rhythmic jumping jacks to get warm. Speed up over the last 30 seconds.',
+    prepares: [],
+    areas: [],
+    highImpact: true,
+  },
+  {
+    id: 'marching-arm-swings',
+    name: 'Marching with Arm Swings',
+    seconds: 120,
+    description: 'March on the spot, driving the knees up and swinging the arms through a full range.',
+    prepares: [],
+    areas: [],
+  },
+];
+
+export const MOBILITY_DRILLS: MobilityDrill[] = [
+  {
+    id: 'arm-circles',
+    name: 'Arm Circles',
+    seconds: 45,
+    description: 'Small circles growing to large ones, forwards then backwards, arms straight.',
+    prepares: ['Shoulders', 'Chest', 'Arms'],
+    areas: ['shoulder'],
+  },
+  {
+    id: 'band-dislocates',
+    name: 'Shoulder Pass-Throughs',
+    seconds: 45,
+    description: 'Holding a band or towel wide, take it overhead and behind you without bending the elbows, then back.',
+    prepares: ['Shoulders', 'Chest', 'Back'],
+    areas: [],
+  },
+  {
+    id: 'cat-cow',
+    name: 'Cat-Cow',
+    seconds: 45,
+    description: 'On hands and knees, slowly round then arch the spine, moving one segment at a time.',
+    prepares: ['Back', 'Core'],
+    areas: ['upper-back', 'lower-back'],
+  },
+  {
+    id: 'thoracic-rotations',
+    name: 'Open Book Rotations',
+    seconds: 60,
+    description: 'Lying on your side with knees bent, open the top arm across to the other side and follow it with your eyes.',
+    prepares: ['Back', 'Chest'],
+    areas: ['upper-back'],
+  },
+  {
+    id: 'hip-circles',
+    name: 'Standing Hip Circles',
+    seconds: 45,
+    description: 'Hands on hips, draw slow, wide circles with the hips in both directions.',
+    prepares: ['Legs', 'Glutes'],
+    areas: ['hip', 'lower-back'],
+  },
+  {
+    id: 'leg-swings',
+    name: 'Leg Swings',
+    seconds: 60,
+    description: 'Holding a support, swing one leg forwards and back, then side to side. Switch legs halfway.',
+    prepares: ['Legs', 'Glutes'],
+    areas: ['hip'],
+  },
+  {
+    id: 'glute-bridge-hold',
+    name: 'Glute Bridge Pulses',
+    seconds: 45,
+    description: 'Lying on your back, lift the hips and pulse gently at the top, squeezing the glutes.',
+    prepares: ['Glutes', 'Legs', 'Core'],
+    areas: ['lower-back'],
+  },
+  {
+    id: 'knee-rocks',
+    name: 'Kneeling Ankle Rocks',
+    seconds: 45,
+    description: 'In a half-kneeling position, rock the front knee forwards over the toes and back, heel down.',
+    prepares: ['Legs'],
+    areas: ['ankle', 'knee'],
+  },
+  {
+    id: 'wrist-circles',
+    name: 'Wrist and Forearm Circles',
+    seconds: 30,
+    description: 'Interlace the fingers and roll the wrists in both directions, then gently flex and extend them.',
+    prepares: ['Arms', 'Chest'],
+    areas: ['wrist', 'elbow'],
+  },
+  {
+    id: 'neck-nods',
+    name: 'Neck Nods and Turns',
+    seconds: 30,
+    description: 'Slowly nod, then turn the head side to side within a pain-free range. No circles.',
+    prepares: [],
+    areas: ['neck'],
+  },
+  {
+    id: 'dead-bug-breathing',
+    name: 'Dead Bug Breathing',
+    seconds: 45,
+    description: 'On your back with knees over hips, breathe out fully to flatten the lower back, then reach one arm back.',
+    prepares: ['Core'],
+    areas: ['lower-back'],
+  },
+];
@@ -0,0 +1,81 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { User } from '../types';
+import * as localAuth from '../services/authService';
+import * as apiAuth from '../services/apiAuthService';
+import { isServerMode } from '../services/dataStore';
+
+const auth = isServerMode ? apiAuth : localAuth;
+
+export const useAuth = () => {
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const expiryTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const applySession = useCallback((session: localAuth.ActiveSession | null) => {
+    setCurrentUser(session?.user ?? null);
+    setExpiresAt(session?.expiresAt ?? null);
+  }, []);
+
+  // A session that can't be restored is treated as logged out.
+  const restore = useCallback(() =>
+    auth.restoreSession()
+      .then(applySession)
+      .catch(e => {
+        console.error('Failed to restore session', e);
+        applySession(null);
+      }), [applySession]);
+
+  useEffect(() => {
+    restore().finally(() => setLoading(false));
+  }, [restore]);
+
+  // Log out when the session expires, even if the tab stays open.
+  useEffect(() => {
+    if (expiryTimer.current) clearTimeout(expiryTimer.current);
+    if (expiresAt === null) return;
+    // setTimeout overflows above ~24.8 days; re-check at least daily.
+    const delay = Math.min(Math.max(0, expiresAt - Date.now()), 24 * 60 * 60 * 1000);
+    expiryTimer.current = setTimeout(restore, delay);
+    return () => {
+      if (expiryTimer.current) clearTimeout(expiryTimer.current);
+    };
+  }, [expiresAt, restore]);
+
+  // Keep tabs in sync when another tab logs in or out.
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === auth.SESSION_TOKEN_KEY) {
+        restore();
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [restore]);
+
+  const login = useCallback(async (username: string, password: string) => {
+    await auth.login(username, password);
+    applySession(await auth.restoreSession());
+  }, [applySession]);
+
+  const signup = useCallback(async (username: string, password: string) => {
+    await auth.signup(username, password);
+    applySession(await auth.restoreSession());
+  }, [applySession]);
+
+  const logout = useCallback(async () => {
+    await auth.logout();
+    applySession(null);
+  }, [applySession]);
+
+  const changePassword = useCallback(async (username: string, oldPass: string, newPass: string) => {
+    await auth.changePassword(username, oldPass, newPass);
+  }, []);
+
+  const enableCoachMode = useCallback(async (username: string) => {
+    await auth.enableCoachMode(username);
+    applySession(await auth.restoreSession());
+  }, [applySession]);
+
+  return { currentUser, login, signup, logout, loading, changePassword, enableCoachMode };
+};
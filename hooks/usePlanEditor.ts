@@ -0,0 +1,118 @@
+import { useReducer, useEffect, useCallback } from 'react';
+import { GeneratedPlan } from '../types';
+import { applyPlanEdit, describePlanEdit, editsSameField, PlanEditCommand } from '../utils/planEditCommands';
+
+const MAX_HISTORY = 100;
+// Keystrokes in the same field within this window are undone together.
+const COALESCE_MS = 1000;
+
+interface HistoryEntry {
+  command: PlanEditCommand;
+  // The plan to go back to: before the command on the undo stack, after it on the redo stack.
+  snapshot: GeneratedPlan;
+  at: number;
+}
+
+interface EditorState {
+  plan: GeneratedPlan | null;
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+type EditorAction =
+  | { type: 'open'; plan: GeneratedPlan }
+  | { type: 'close' }
+  | { type: 'apply'; command: PlanEditCommand; at: number }
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+const initialState: EditorState = { plan: null, past: [], future: [] };
+
+// Text fields keep the browser's own undo for what is being typed.
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement);
+
+const reducer = (state: EditorState, action: EditorAction): EditorState => {
+  switch (action.type) {
+    case 'open':
+      return { plan: action.plan, past: [], future: [] };
+    case 'close':
+      return initialState;
+    case 'apply': {
+      if (!state.plan) return state;
+      let plan: GeneratedPlan;
+      try {
+        plan = applyPlanEdit(state.plan, action.command);
+      } catch (e) {
+        // A stale command (e.g. a double-click on a deleted row) must not take the editor down.
+        console.error('Plan edit rejected', e);
+        return state;
+      }
+      const last = state.past[state.past.length - 1];
+      if (last && action.at - last.at < COALESCE_MS && editsSameField(last.command, action.command)) {
+        return { plan, past: [...state.past.slice(0, -1), { ...last, command: action.command, at: action.at }], future: [] };
+      }
+      const entry = { command: action.command, snapshot: state.plan, at: action.at };
+      return { plan, past: [...state.past, entry].slice(-MAX_HISTORY), future: [] };
+    }
+    case 'undo': {
+      const last = state.past[state.past.length - 1];
+      if (!last || !state.plan) return state;
+      return { plan: last.snapshot, past: state.past.slice(0, -1), future: [{ ...last, snapshot: state.plan }, ...state.future] };
+    }
+    case 'redo': {
+      const [next, ...rest] = state.future;
+      if (!next || !state.plan) return state;
+      return { plan: next.snapshot, past: [...state.past, { ...next, snapshot: state.plan }], future: rest };
+    }
+  }
+};
+
+/**
+ * Holds the plan being edited together with its undo/redo history. Every change goes through
+ * a typed command; Ctrl/Cmd+Z undoes and Ctrl/Cmd+Shift+Z or Ctrl+Y redoes while editing.
+ */
+export const usePlanEditor = () => {
+  const [state, dispatch] = useReducer(reducer, initialState);
+
+  const open = useCallback((plan: GeneratedPlan) => dispatch({ type: 'open', plan }), []);
+  const close = useCallback(() => dispatch({ type: 'close' }), []);
+  const apply = useCallback((command: PlanEditCommand) => dispatch({ type: 'apply', command, at: Date.now() }), []);
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+
+  const isEditing = state.plan !== null;
+
+  useEffect(() => {
+    if (!isEditing) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isEditableTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isEditing, undo, redo]);
+
+  const lastDone = state.past[state.past.length - 1];
+  const nextUndone = state.future[0];
+
+  return {
+    plan: state.plan,
+    open,
+    close,
+    apply,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+    undoLabel: lastDone ? describePlanEdit(lastDone.command) : null,
+    redoLabel: nextUndone ? describePlanEdit(nextUndone.command) : null,
+  };
+};
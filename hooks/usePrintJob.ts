@@ -0,0 +1,28 @@
+import { useState, useEffect } from 'react';
+
+const PRINTING_CLASS = 'printing';
+
+/**
+ * Holds what is being printed while the browser's print dialog is open. Setting a job renders
+ * it (the caller puts it in a `.print-layout` portal), then opens the dialog; `body.printing`
+ * hides the rest of the app from the printout until the dialog closes.
+ */
+export const usePrintJob = <T,>() => {
+  const [job, setJob] = useState<T | null>(null);
+
+  useEffect(() => {
+    if (job === null) return;
+    const finish = () => setJob(null);
+    document.body.classList.add(PRINTING_CLASS);
+    window.addEventListener('afterprint', finish);
+    // Wait a frame so the layout has been laid out before the dialog snapshots the page.
+    const frame = requestAnimationFrame(() => window.print());
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('afterprint', finish);
+      document.body.classList.remove(PRINTING_CLASS);
+    };
+  }, [job]);
+
+  return { job, print: setJob };
+};
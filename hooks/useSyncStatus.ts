@@ -0,0 +1,26 @@
+import { useState, useEffect } from 'react';
+import * as sync from '../services/syncService';
+import { isServerMode } from '../services/dataStore';
+
+/**
+ * Live view of the sync queue and connectivity. Browser-only builds have nothing to sync,
+ * so there only `online` ever changes.
+ */
+export const useSyncStatus = (): sync.SyncStatus => {
+  const [status, setStatus] = useState<sync.SyncStatus>(sync.getSyncStatus);
+
+  useEffect(() => {
+    setStatus(sync.getSyncStatus());
+    const unsubscribe = isServerMode ? sync.subscribe(setStatus) : () => {};
+    const handleConnectivity = () => setStatus(sync.getSyncStatus());
+    window.addEventListener('online', handleConnectivity);
+    window.addEventListener('offline', handleConnectivity);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', handleConnectivity);
+      window.removeEventListener('offline', handleConnectivity);
+    };
+  }, []);
+
+  return status;
+};
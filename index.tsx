@@ -2,6 +2,7 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import AuthWrapper from './AuthWrapper';
 import { ThemeProvider } from './context/ThemeContext';
+import { registerServiceWorker } from './services/serviceWorkerService';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -15,4 +16,6 @@ root.render(
       <AuthWrapper />
     </ThemeProvider>
   </React.StrictMode>
-);
\ No newline at end of file
+);
+
+registerServiceWorker();
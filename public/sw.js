@@ -0,0 +1,102 @@
+// FitPlan service worker: keeps the app shell and its CDN dependencies available offline.
+// User data is not cached here; it lives in localStorage and, against the API server, the
+// sync layer queues changes until the connection is back.
+
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `fitplan-shell-${CACHE_VERSION}`;
+const RUNTIME_CACHE = `fitplan-runtime-${CACHE_VERSION}`;
+
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg', '/icon-maskable.svg'];
+
+// Hosts the page loads code, styles and fonts from (see index.html).
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'aistudiocdn.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+
+/** Scripts and stylesheets referenced by the built index.html, whose names change with every build. */
+const assetsIn = (html) => [
+  ...[...html.matchAll(/<script\b[^>]*\bsrc="([^"]+)"/g)].map(match => match[1]),
+  ...[...html.matchAll(/<link\b[^>]*>/g)]
+    .map(match => match[0])
+    .filter(tag => /\brel="(?:stylesheet|modulepreload)"/.test(tag))
+    .map(tag => tag.match(/\bhref="([^"]+)"/)?.[1])
+    .filter(Boolean),
+];
+
+const precacheShell = async () => {
+  const cache = await caches.open(SHELL_CACHE);
+  await cache.addAll(SHELL_URLS);
+  const html = await (await cache.match('/index.html')).text();
+  await Promise.all(assetsIn(html).map(async (url) => {
+    const isCrossOrigin = new URL(url, self.location.origin).origin !== self.location.origin;
+    try {
+      const response = await fetch(url, isCrossOrigin ? { mode: 'no-cors' } : undefined);
+      if (response.ok || response.type === 'opaque') await cache.put(url, response);
+    } catch {
+      // A CDN that is down at install time is picked up by the runtime cache later.
+    }
+  }));
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keep = new Set([SHELL_CACHE, RUNTIME_CACHE]);
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => name.startsWith('fitplan-') && !keep.has(name)).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+// Pages come from the network when possible so a new deploy shows up straight away.
+const networkFirst = async (request) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.put('/index.html', response.clone());
+    }
+    return response;
+  } catch {
+    return (await caches.match('/index.html')) ?? Response.error();
+  }
+};
+
+// Assets answer from the cache and are refreshed in the background.
+const staleWhileRevalidate = async (event) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = (await cache.match(event.request)) ?? (await caches.match(event.request));
+  const refresh = fetch(event.request)
+    .then(async (response) => {
+      if (response.ok || response.type === 'opaque') await cache.put(event.request, response.clone());
+      return response;
+    })
+    .catch(() => null);
+  if (cached) {
+    event.waitUntil(refresh);
+    return cached;
+  }
+  return (await refresh) ?? Response.error();
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (url.origin === self.location.origin) {
+    // The API is per user and handled by the sync layer; never serve it from a shared cache.
+    if (url.pathname.startsWith('/api/')) return;
+    if (request.mode === 'navigate') {
+      event.respondWith(networkFirst(request));
+      return;
+    }
+    event.respondWith(staleWhileRevalidate(event));
+    return;
+  }
+
+  if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(event));
+  }
+});
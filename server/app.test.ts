@@ -0,0 +1,163 @@
+import { createServer, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { Store } from './db';
+
+// The store needs node:sqlite, which ships unflagged from Node 22.13 (the version in
+// package.json's engines). On an older runtime the suite is skipped instead of failing to load.
+const hasSqlite = !!process.getBuiltinModule?.('node:sqlite');
+
+const plan = {
+  summary: 'Two days a week.',
+  totalWeeklyTime: '90 minutes',
+  totalWeeklyCaloriesBurned: 600,
+  plan: ['Tuesday', 'Thursday'].map(day => ({
+    day,
+    focus: 'Full Body',
+    approximateTime: '45 minutes',
+    caloriesBurned: 300,
+    muscleGroups: [{
+      name: 'Legs',
+      exercises: [{ name: 'Bodyweight Squat', sets: '3', reps: '15', description: 'Squat to parallel.', targetMuscles: ['Quadriceps'] }],
+    }],
+  })),
+};
+
+const userData = {
+  name: 'Sam',
+  weight: '78',
+  height: '180',
+  freeDays: ['Tuesday', 'Thursday'],
+  gender: 'male',
+  fitnessLevel: 'beginner',
+  goal: 'General fitness',
+  equipment: 'None',
+  maxSessionTime: '1 hour',
+};
+
+describe.skipIf(!hasSqlite)('REST API', () => {
+  let store: Store;
+  let server: Server;
+  let baseUrl: string;
+  let token: string;
+  let otherToken: string;
+
+  const call = async (method: string, path: string, options: { body?: unknown; token?: string } = {}) => {
+    const res = await fetch(baseUrl + path, {
+      method,
+      headers: options.token ? { Authorization: `Bearer ${options.token}` } : {},
+      body: options.body === undefined ? undefined : JSON.stringify(options.body),
+    });
+    const text = await res.text();
+    return { status: res.status, body: text ? JSON.parse(text) : undefined };
+  };
+
+  const signup = async (username: string) => {
+    const { status, body } = await call('POST', '/api/auth/signup', { body: { username, password: 'correct horse' } });
+    expect(status).toBe(200);
+    return body.token as string;
+  };
+
+  beforeAll(async () => {
+    const { Store } = await import('./db');
+    const { createApp } = await import('./app');
+    store = new Store(':memory:');
+    server = createServer(createApp(store));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    token = await signup('sam');
+    otherToken = await signup('alex');
+  }, 30_000);
+
+  afterAll(async () => {
+    await new Promise(resolve => server?.close(resolve));
+    store?.close();
+  });
+
+  describe('authentication', () => {
+    it('refuses requests without a valid bearer token', async () => {
+      expect(await call('GET', '/api/profile')).toEqual({ status: 401, body: { error: 'Not signed in.' } });
+      expect((await call('GET', '/api/profile', { token: 'not-a-session' })).status).toBe(401);
+    });
+
+    it('signs in with the right password only', async () => {
+      const wrong = await call('POST', '/api/auth/login', { body: { username: 'sam', password: 'wrong horse' } });
+      expect(wrong).toEqual({ status: 401, body: { error: 'Invalid username or password.' } });
+
+      const right = await call('POST', '/api/auth/login', { body: { username: 'SAM', password: 'correct horse' } });
+      expect(right.status).toBe(200);
+      expect(await call('GET', '/api/auth/session', { token: right.body.token })).toMatchObject({ status: 200, body: { username: 'sam' } });
+    }, 15_000);
+
+    it('rejects a second account with a taken username', async () => {
+      const taken = await call('POST', '/api/auth/signup', { body: { username: 'Sam', password: 'another password' } });
+      expect(taken).toEqual({ status: 409, body: { error: 'That username is already taken.' } });
+    });
+  });
+
+  describe('profiles', () => {
+    it('rejects a write based on a stale version with the current profile', async () => {
+      const first = await call('PUT', '/api/profile', { token, body: { version: null, userData, workoutPlan: null } });
+      expect(first).toEqual({ status: 200, body: { version: 1 } });
+      expect((await call('PUT', '/api/profile', { token, body: { version: 1, userData, workoutPlan: plan } })).body).toEqual({ version: 2 });
+
+      const stale = await call('PUT', '/api/profile', { token, body: { version: 1, userData, workoutPlan: null } });
+      expect(stale.status).toBe(409);
+      expect(stale.body).toMatchObject({ error: 'The profile was changed on another device.', current: { version: 2, workoutPlan: { summary: plan.summary } } });
+    });
+
+    it('keeps each user to their own profile', async () => {
+      expect(await call('GET', '/api/profile', { token: otherToken })).toEqual({ status: 200, body: null });
+      expect((await call('GET', '/api/profile', { token })).body).toMatchObject({ username: 'sam', version: 2 });
+    });
+
+    it('stores only the validated profile fields', async () => {
+      const current = (await call('GET', '/api/profile', { token })).body;
+      await call('PUT', '/api/profile', { token, body: { ...current, role: 'coach', userData: { ...userData, units: 'furlongs' } } });
+
+      const saved = (await call('GET', '/api/profile', { token })).body;
+      expect(Object.keys(saved).sort()).toEqual(['userData', 'username', 'version', 'workoutPlan']);
+      expect(saved.userData.units).toBeUndefined();
+    });
+
+    it('rejects malformed form data and plans', async () => {
+      const badUserData = await call('PUT', '/api/profile', { token: otherToken, body: { version: null, userData: 'Sam' } });
+      expect(badUserData).toEqual({ status: 400, body: { error: 'Expected userData as a JSON object.' } });
+
+      const badPlan = await call('PUT', '/api/profile', { token: otherToken, body: { version: null, userData, workoutPlan: { plan: 'Tuesday' } } });
+      expect(badPlan).toEqual({ status: 400, body: { error: 'Invalid plan: plan.plan expected a list.' } });
+      expect((await call('GET', '/api/profile', { token: otherToken })).body).toBeNull();
+    });
+  });
+
+  describe('request bodies', () => {
+    it('rejects a body that is not JSON', async () => {
+      const res = await fetch(`${baseUrl}/api/plan`, { method: 'PUT', headers: { Authorization: `Bearer ${token}` }, body: '{plan' });
+      expect(res.status).toBe(400);
+      expect(await res.json()).toEqual({ error: 'Request body must be JSON.' });
+    });
+
+    it('validates plans before storing them', async () => {
+      expect((await call('PUT', '/api/plan', { token, body: { ...plan, plan: [plan.plan[0], plan.plan[0]] } })).body)
+        .toEqual({ error: 'Invalid plan: plan[1].day "Tuesday" appears more than once.' });
+
+      expect((await call('PUT', '/api/plan', { token, body: plan })).status).toBe(204);
+      expect((await call('GET', '/api/plan', { token })).body).toEqual(plan);
+    });
+
+    it('validates diet plans and measurements', async () => {
+      expect(await call('PUT', '/api/diet-plan', { token, body: { summary: 'Nothing yet', plan: [] } }))
+        .toMatchObject({ status: 400, body: { error: expect.stringContaining('dietPlan.plan has no days') } });
+      expect(await call('PUT', '/api/diet-plan', { token, body: [] }))
+        .toEqual({ status: 400, body: { error: 'Expected a diet plan as a JSON object.' } });
+      expect((await call('GET', '/api/diet-plan', { token })).body).toBeNull();
+
+      expect((await call('PUT', '/api/measurements', { token, body: { weight: 80 } })).status).toBe(400);
+    });
+
+    it('requires an ISO date on workout logs', async () => {
+      expect(await call('POST', '/api/logs', { token, body: { date: 'yesterday' } }))
+        .toEqual({ status: 400, body: { error: 'A workout log needs an ISO date.' } });
+    });
+  });
+});
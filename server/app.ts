@@ -0,0 +1,362 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { randomBytes } from 'node:crypto';
+import { Store } from './db';
+import * as auth from './auth';
+import { HttpError } from './auth';
+import { UserData } from '../types';
+import { buildWorkoutCalendar } from '../utils/icalendar';
+import { StaleExercise } from '../utils/progression';
+import { validateStoredPlan, validateUserData } from '../utils/planValidation';
+import { validateGeneratedDietPlan } from '../utils/dietValidation';
+import { validateBodyMeasurement } from '../utils/measurementValidation';
+import { ValidationResult } from '../utils/validation';
+import type { StoredProfile } from '../services/dbService';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export interface AppOptions {
+  /** Generates a validated workout plan; injected so tests can run without an AI provider. */
+  generatePlan?: (userData: UserData, bmi: unknown) => Promise<unknown>;
+  /** Suggests substitutes for stalled exercises; injected for the same reason. */
+  suggestSwaps?: (stale: StaleExercise[], userData: UserData) => Promise<unknown>;
+}
+
+type Session = ReturnType<typeof auth.authenticate>;
+type Handler = (ctx: { req: IncomingMessage; body: unknown; session: Session | null; store: Store }) => Promise<unknown> | unknown;
+
+interface Route {
+  method: string;
+  path: string;
+  auth: boolean;
+  handler: Handler;
+}
+
+const readBody = (req: IncomingMessage): Promise<unknown> => new Promise((resolve, reject) => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, 'Request body too large.'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    if (chunks.length === 0) return resolve(null);
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+    } catch {
+      reject(new HttpError(400, 'Request body must be JSON.'));
+    }
+  });
+  req.on('error', reject);
+});
+
+/** A non-JSON response body, e.g. the calendar feed. */
+class RawBody {
+  constructor(readonly contentType: string, readonly text: string) {}
+}
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  if (body instanceof RawBody) {
+    res.writeHead(status, { 'Content-Type': body.contentType, 'Cache-Control': 'no-store' });
+    res.end(body.text);
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const requireObject = (body: unknown, what: string) => {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new HttpError(400, `Expected ${what} as a JSON object.`);
+  }
+  return body as Record<string, unknown>;
+};
+
+const getStoredProfile = (store: Store, username: string) => store.getDocument('profiles', username) as StoredProfile | null;
+
+const readProfile = (store: Store, username: string) => {
+  const profile = getStoredProfile(store, username);
+  return profile && { ...profile, version: store.getProfileVersion(username) };
+};
+
+/**
+ * Optimistic concurrency for profiles: a write must name the version it was based on, and a
+ * stale write is rejected with 409 and the current profile so the client can merge.
+ */
+const writeProfile = (store: Store, username: string, baseVersion: number | null, profile: Record<string, unknown>) => {
+  const version = store.putProfileIfVersion(username, baseVersion, profile);
+  if (version === null) {
+    throw new HttpError(409, 'The profile was changed on another device.', { current: readProfile(store, username) });
+  }
+  return { version };
+};
+
+const queryParam = (req: IncomingMessage, name: string) => new URL(req.url || '/', 'http://localhost').searchParams.get(name);
+
+/** Coach routes are refused to everyone else, so a client can never reach another user's data. */
+const requireCoach = (store: Store, session: Session) => {
+  if (store.getUser(session.username)?.role !== 'coach') throw new HttpError(403, 'Coach mode is not enabled for this account.');
+  return session.username;
+};
+
+/** The client named in the query, which must be one of the coach's own clients. */
+const requireClient = (store: Store, coach: string, req: IncomingMessage) => {
+  const client = queryParam(req, 'username');
+  if (!client) throw new HttpError(400, 'A client username is required.');
+  const user = store.getUser(client);
+  if (!user || !store.isClientOf(coach, user.username)) throw new HttpError(404, 'Unknown client.');
+  return user.username;
+};
+
+/** The validated value, or a 400 listing every issue the validator found. */
+const requireValid = <T>({ value, errors }: ValidationResult<T>, what: string): T => {
+  if (!value) throw new HttpError(400, `Invalid ${what}: ${errors.map(e => `${e.path} ${e.message}`).join('; ')}.`);
+  return value;
+};
+
+const requirePlan = (raw: unknown) => requireValid(validateStoredPlan(raw), 'plan');
+
+const requireUserData = (raw: unknown) => requireValid(validateUserData(requireObject(raw, 'userData')), 'userData');
+
+// Only the profile's own fields are stored; the plan and form data go through their validators.
+const requireProfile = (raw: Record<string, unknown>, username: string) => ({
+  username,
+  userData: raw.userData == null ? null : requireUserData(raw.userData),
+  workoutPlan: raw.workoutPlan == null ? null : requirePlan(raw.workoutPlan),
+});
+
+const isStaleExercise = (item: unknown): item is StaleExercise => {
+  const exercise = item && typeof item === 'object' ? (item as { exercise?: unknown }).exercise : null;
+  return !!exercise && typeof exercise === 'object'
+    && typeof (exercise as { name?: unknown }).name === 'string'
+    && Array.isArray((exercise as { targetMuscles?: unknown }).targetMuscles);
+};
+
+/**
+ * Builds the request handler for the REST API. Every route except signup and login
+ * requires a bearer token, and every document is scoped to the token's user or, on the
+ * coach routes, to that user's own clients.
+ */
+export const createApp = (store: Store, options: AppOptions = {}) => {
+  const routes: Route[] = [
+    {
+      method: 'POST', path: '/api/auth/signup', auth: false,
+      handler: ({ body }) => {
+        const { username, password } = requireObject(body, 'credentials');
+        return auth.signup(store, username, password);
+      },
+    },
+    {
+      method: 'POST', path: '/api/auth/login', auth: false,
+      handler: ({ body }) => {
+        const { username, password } = requireObject(body, 'credentials');
+        return auth.login(store, username, password);
+      },
+    },
+    {
+      method: 'GET', path: '/api/auth/session', auth: true,
+      handler: ({ session }) => ({ username: session!.username, role: store.getUser(session!.username)?.role ?? 'user', expiresAt: session!.expiresAt }),
+    },
+    { method: 'POST', path: '/api/auth/logout', auth: true, handler: ({ session }) => { store.deleteSession(session!.tokenHash); } },
+    {
+      method: 'POST', path: '/api/auth/password', auth: true,
+      handler: ({ session, body }) => {
+        const { oldPassword, newPassword } = requireObject(body, 'a password change');
+        return auth.changePassword(store, session!.username, session!.tokenHash, oldPassword, newPassword);
+      },
+    },
+
+    { method: 'GET', path: '/api/profile', auth: true, handler: ({ session }) => readProfile(store, session!.username) },
+    {
+      method: 'PUT', path: '/api/profile', auth: true,
+      handler: ({ session, body }) => {
+        const profile = requireObject(body, 'a profile');
+        const baseVersion = typeof profile.version === 'number' ? profile.version : null;
+        return writeProfile(store, session!.username, baseVersion, requireProfile(profile, session!.username));
+      },
+    },
+    {
+      method: 'GET', path: '/api/plan', auth: true,
+      handler: ({ session }) => getStoredProfile(store, session!.username)?.workoutPlan ?? null,
+    },
+    {
+      method: 'PUT', path: '/api/plan', auth: true,
+      handler: ({ session, body }) => {
+        const plan = body === null ? null : requirePlan(body);
+        const profile = getStoredProfile(store, session!.username) ?? { username: session!.username, userData: null };
+        writeProfile(store, session!.username, store.getProfileVersion(session!.username), { ...profile, workoutPlan: plan });
+      },
+    },
+
+    { method: 'GET', path: '/api/logs', auth: true, handler: ({ session }) => store.getWorkoutLogs(session!.username) },
+    {
+      method: 'POST', path: '/api/logs', auth: true,
+      handler: ({ session, body }) => {
+        const { username: _ignored, ...log } = requireObject(body, 'a workout log');
+        const { id, date } = log;
+        if (typeof date !== 'string' || Number.isNaN(Date.parse(date))) throw new HttpError(400, 'A workout log needs an ISO date.');
+        if (id !== undefined && typeof id !== 'string') throw new HttpError(400, 'A workout log id must be a string.');
+        store.addWorkoutLog(session!.username, typeof id === 'string' ? id : null, date, log);
+      },
+    },
+
+    { method: 'GET', path: '/api/diet-plan', auth: true, handler: ({ session }) => store.getDocument('diet_plans', session!.username) },
+    {
+      method: 'PUT', path: '/api/diet-plan', auth: true,
+      handler: ({ session, body }) => {
+        store.putDocument('diet_plans', session!.username, requireValid(validateGeneratedDietPlan(requireObject(body, 'a diet plan')), 'diet plan'));
+      },
+    },
+
+    { method: 'GET', path: '/api/measurements', auth: true, handler: ({ session }) => store.getMeasurements(session!.username) },
+    {
+      method: 'PUT', path: '/api/measurements', auth: true,
+      handler: ({ session, body }) => {
+        const value = requireValid(validateBodyMeasurement(requireObject(body, 'a measurement')), 'measurement');
+        store.putMeasurement(session!.username, value.id, value.date, value);
+      },
+    },
+    {
+      method: 'DELETE', path: '/api/measurements', auth: true,
+      handler: ({ req, session }) => {
+        const id = new URL(req.url || '/', 'http://localhost').searchParams.get('id');
+        if (!id) throw new HttpError(400, 'A measurement id is required.');
+        store.deleteMeasurement(session!.username, id);
+      },
+    },
+
+    // Coaches manage accounts they created for their clients. The client signs in with the
+    // password the coach set and sees only their own data through the routes above.
+    { method: 'POST', path: '/api/coach/enable', auth: true, handler: ({ session }) => { store.setRole(session!.username, 'coach'); } },
+    {
+      method: 'GET', path: '/api/coach/clients', auth: true,
+      handler: ({ session }) => store.getClients(requireCoach(store, session!)).map(username => ({
+        username,
+        profile: readProfile(store, username),
+        workoutLogs: store.getWorkoutLogs(username),
+      })),
+    },
+    {
+      method: 'POST', path: '/api/coach/clients', auth: true,
+      handler: async ({ session, body }) => {
+        const coach = requireCoach(store, session!);
+        const { username, password, userData } = requireObject(body, 'a new client');
+        const clientData = requireUserData(userData);
+        const client = await auth.createAccount(store, username, password);
+        store.addClient(coach, client);
+        writeProfile(store, client, null, { username: client, userData: clientData, workoutPlan: null });
+        return { username: client };
+      },
+    },
+    {
+      method: 'DELETE', path: '/api/coach/clients', auth: true,
+      handler: ({ req, session }) => {
+        const coach = requireCoach(store, session!);
+        store.removeClient(coach, requireClient(store, coach, req));
+      },
+    },
+    {
+      method: 'PUT', path: '/api/coach/clients/plan', auth: true,
+      handler: ({ req, session, body }) => {
+        const client = requireClient(store, requireCoach(store, session!), req);
+        const plan = body === null ? null : requirePlan(body);
+        const profile = getStoredProfile(store, client) ?? { username: client, userData: null };
+        return writeProfile(store, client, store.getProfileVersion(client), { ...profile, workoutPlan: plan });
+      },
+    },
+    { method: 'GET', path: '/api/coach/templates', auth: true, handler: ({ session }) => store.getPlanTemplates(requireCoach(store, session!)) },
+    {
+      method: 'PUT', path: '/api/coach/templates', auth: true,
+      handler: ({ session, body }) => {
+        const coach = requireCoach(store, session!);
+        const { id, name, createdAt, plan } = requireObject(body, 'a plan template');
+        if (typeof id !== 'string' || !id) throw new HttpError(400, 'A plan template needs an id.');
+        if (typeof name !== 'string' || !name.trim()) throw new HttpError(400, 'A plan template needs a name.');
+        const created = typeof createdAt === 'string' && !Number.isNaN(Date.parse(createdAt)) ? createdAt : new Date().toISOString();
+        store.putPlanTemplate(coach, id, { id, name: name.trim(), createdAt: created, plan: requirePlan(plan) });
+      },
+    },
+    {
+      method: 'DELETE', path: '/api/coach/templates', auth: true,
+      handler: ({ req, session }) => {
+        const id = queryParam(req, 'id');
+        if (!id) throw new HttpError(400, 'A template id is required.');
+        store.deletePlanTemplate(requireCoach(store, session!), id);
+      },
+    },
+
+    // Calendar apps cannot send a bearer token, so the feed is authorised by a revocable key
+    // in the URL instead. Only a hash of the key is stored.
+    {
+      method: 'POST', path: '/api/calendar/feed', auth: true,
+      handler: ({ session }) => {
+        const key = randomBytes(32).toString('base64url');
+        store.setCalendarFeed(session!.username, auth.hashToken(key));
+        return { path: `/api/calendar.ics?key=${key}` };
+      },
+    },
+    { method: 'DELETE', path: '/api/calendar/feed', auth: true, handler: ({ session }) => { store.deleteCalendarFeed(session!.username); } },
+    {
+      method: 'GET', path: '/api/calendar.ics', auth: false,
+      handler: ({ req }) => {
+        const query = new URL(req.url || '/', 'http://localhost').searchParams;
+        const key = query.get('key');
+        const username = key ? store.getCalendarFeedUser(auth.hashToken(key)) : null;
+        if (!username) throw new HttpError(404, 'Unknown calendar feed.');
+        const profile = getStoredProfile(store, username);
+        const calendar = buildWorkoutCalendar(profile?.workoutPlan ?? { plan: [], summary: '', totalWeeklyTime: '', totalWeeklyCaloriesBurned: 0 }, {
+          owner: username,
+          units: profile?.userData?.units,
+          startTime: query.get('time') ?? undefined,
+          weeks: query.has('weeks') ? Number(query.get('weeks')) || 1 : 1,
+        });
+        return new RawBody('text/calendar; charset=utf-8', calendar);
+      },
+    },
+
+    {
+      method: 'POST', path: '/api/ai/workout-plan', auth: true,
+      handler: async ({ body }) => {
+        if (!options.generatePlan) throw new HttpError(503, 'Plan generation is not configured on this server.');
+        const { userData, bmi } = requireObject(body, 'a plan request');
+        return options.generatePlan(requireUserData(userData), bmi ?? null);
+      },
+    },
+    {
+      method: 'POST', path: '/api/ai/exercise-swaps', auth: true,
+      handler: async ({ body }) => {
+        if (!options.suggestSwaps) throw new HttpError(503, 'Exercise swaps are not configured on this server.');
+        const { stale, userData } = requireObject(body, 'a swap request');
+        if (!Array.isArray(stale) || !stale.every(isStaleExercise)) throw new HttpError(400, 'Expected stale as a list of exercises to replace.');
+        return options.suggestSwaps(stale, requireUserData(userData));
+      },
+    },
+  ];
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const path = new URL(req.url || '/', 'http://localhost').pathname.replace(/\/$/, '');
+    const matching = routes.filter(r => r.path === path);
+    const route = matching.find(r => r.method === req.method);
+
+    try {
+      if (!route) {
+        throw matching.length > 0 ? new HttpError(405, 'Method not allowed.') : new HttpError(404, 'Not found.');
+      }
+      const session = route.auth ? auth.authenticate(store, req.headers.authorization) : null;
+      const body = req.method === 'GET' ? null : await readBody(req);
+      const result = await route.handler({ req, body, session, store });
+      send(res, result === undefined ? 204 : 200, result);
+    } catch (err) {
+      if (err instanceof HttpError) {
+        send(res, err.status, { error: err.message, ...err.details });
+      } else {
+        console.error(`${req.method} ${path} failed`, err);
+        send(res, 500, { error: 'Internal server error.' });
+      }
+    }
+  };
+};
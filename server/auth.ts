@@ -0,0 +1,110 @@
+import { createHash, pbkdf2, randomBytes, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+import { Store } from './db';
+
+const pbkdf2Async = promisify(pbkdf2);
+
+const PBKDF2_ITERATIONS = 600_000;
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_FREE_ATTEMPTS = 5;
+const BASE_LOCKOUT_MS = 30 * 1000;
+const MAX_LOCKOUT_MS = 15 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 8;
+
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const derive = async (password: string, salt: Buffer, iterations: number) =>
+  (await pbkdf2Async(password, salt, iterations, 32, 'sha256')).toString('base64');
+
+export const hashToken = (token: string) => createHash('sha256').update(token).digest('base64');
+
+const validatePassword = (password: unknown): string => {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    throw new HttpError(400, `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+  }
+  return password;
+};
+
+const issueSession = (store: Store, username: string) => {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = Date.now() + SESSION_TTL_MS;
+  store.createSession(hashToken(token), username, expiresAt);
+  return { token, username, expiresAt };
+};
+
+/** Creates the account without signing in to it, as a coach does for a new client. Returns the username. */
+export const createAccount = async (store: Store, username: unknown, password: unknown) => {
+  const name = typeof username === 'string' ? username.trim() : '';
+  if (!name) throw new HttpError(400, 'Please enter a username.');
+  const pass = validatePassword(password);
+  if (store.getUser(name)) throw new HttpError(409, 'That username is already taken.');
+
+  const salt = randomBytes(16);
+  store.createUser({ username: name, password_hash: await derive(pass, salt, PBKDF2_ITERATIONS), salt: salt.toString('base64'), iterations: PBKDF2_ITERATIONS });
+  return name;
+};
+
+export const signup = async (store: Store, username: unknown, password: unknown) =>
+  issueSession(store, await createAccount(store, username, password));
+
+const checkPassword = async (hash: string, salt: string, iterations: number, password: string) => {
+  const actual = Buffer.from(await derive(password, Buffer.from(salt, 'base64'), iterations), 'base64');
+  const expected = Buffer.from(hash, 'base64');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+export const login = async (store: Store, username: unknown, password: unknown) => {
+  const user = typeof username === 'string' ? store.getUser(username.trim()) : undefined;
+  const pass = typeof password === 'string' ? password : '';
+  if (!user) {
+    await derive(pass, randomBytes(16), PBKDF2_ITERATIONS);
+    throw new HttpError(401, 'Invalid username or password.');
+  }
+
+  const now = Date.now();
+  if (user.locked_until && user.locked_until > now) {
+    throw new HttpError(429, `Too many failed attempts. Try again in ${Math.ceil((user.locked_until - now) / 1000)} seconds.`);
+  }
+  if (!(await checkPassword(user.password_hash, user.salt, user.iterations, pass))) {
+    const failed = user.failed_attempts + 1;
+    const lockout = failed < MAX_FREE_ATTEMPTS ? 0 : Math.min(MAX_LOCKOUT_MS, BASE_LOCKOUT_MS * 2 ** (failed - MAX_FREE_ATTEMPTS));
+    store.recordLoginAttempt(user.username, failed, lockout ? now + lockout : null);
+    throw new HttpError(lockout ? 429 : 401, lockout
+      ? `Too many failed attempts. Try again in ${Math.ceil(lockout / 1000)} seconds.`
+      : 'Invalid username or password.');
+  }
+
+  store.recordLoginAttempt(user.username, 0, null);
+  return issueSession(store, user.username);
+};
+
+export const changePassword = async (store: Store, username: string, tokenHash: string, oldPass: unknown, newPass: unknown) => {
+  const user = store.getUser(username);
+  if (!user || typeof oldPass !== 'string' || !(await checkPassword(user.password_hash, user.salt, user.iterations, oldPass))) {
+    throw new HttpError(400, 'Your current password is incorrect.');
+  }
+  const pass = validatePassword(newPass);
+  const salt = randomBytes(16);
+  store.updatePassword(user.username, await derive(pass, salt, PBKDF2_ITERATIONS), salt.toString('base64'), PBKDF2_ITERATIONS);
+  store.deleteOtherSessions(user.username, tokenHash);
+};
+
+/**
+ * Resolves the bearer token of a request to its user, or throws 401.
+ */
+export const authenticate = (store: Store, authorization: string | undefined) => {
+  const token = authorization?.match(/^Bearer (.+)$/)?.[1];
+  if (!token) throw new HttpError(401, 'Not signed in.');
+  const tokenHash = hashToken(token);
+  const session = store.getSession(tokenHash);
+  if (!session || session.expires_at <= Date.now()) {
+    if (session) store.deleteSession(tokenHash);
+    throw new HttpError(401, 'Your session has expired. Please sign in again.');
+  }
+  return { username: session.username, tokenHash, expiresAt: session.expires_at };
+};
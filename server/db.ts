@@ -0,0 +1,253 @@
+import { DatabaseSync } from 'node:sqlite';
+
+export interface UserRow {
+  username: string;
+  password_hash: string;
+  salt: string;
+  iterations: number;
+  failed_attempts: number;
+  locked_until: number | null;
+  role: 'user' | 'coach';
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS users (
+    username TEXT PRIMARY KEY COLLATE NOCASE,
+    password_hash TEXT NOT NULL,
+    salt TEXT NOT NULL,
+    iterations INTEGER NOT NULL,
+    failed_attempts INTEGER NOT NULL DEFAULT 0,
+    locked_until INTEGER,
+    role TEXT NOT NULL DEFAULT 'user'
+  );
+  CREATE TABLE IF NOT EXISTS sessions (
+    token_hash TEXT PRIMARY KEY,
+    username TEXT NOT NULL REFERENCES users(username) ON DELETE CASCADE,
+    expires_at INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS profiles (
+    username TEXT PRIMARY KEY REFERENCES users(username) ON DELETE CASCADE,
+    data TEXT NOT NULL,
+    version INTEGER NOT NULL DEFAULT 0,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS workout_logs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    username TEXT NOT NULL REFERENCES users(username) ON DELETE CASCADE,
+    client_id TEXT,
+    date TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS workout_logs_user_date ON workout_logs (username, date);
+  CREATE TABLE IF NOT EXISTS calendar_feeds (
+    username TEXT PRIMARY KEY REFERENCES users(username) ON DELETE CASCADE,
+    token_hash TEXT NOT NULL UNIQUE
+  );
+  CREATE TABLE IF NOT EXISTS diet_plans (
+    username TEXT PRIMARY KEY REFERENCES users(username) ON DELETE CASCADE,
+    data TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS body_measurements (
+    username TEXT NOT NULL REFERENCES users(username) ON DELETE CASCADE,
+    id TEXT NOT NULL,
+    date TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (username, id)
+  );
+  CREATE TABLE IF NOT EXISTS coach_clients (
+    coach TEXT NOT NULL REFERENCES users(username) ON DELETE CASCADE,
+    client TEXT NOT NULL REFERENCES users(username) ON DELETE CASCADE,
+    PRIMARY KEY (coach, client)
+  );
+  CREATE TABLE IF NOT EXISTS plan_templates (
+    coach TEXT NOT NULL REFERENCES users(username) ON DELETE CASCADE,
+    id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (coach, id)
+  );
+`;
+
+// Columns added after the first release, for databases created before them.
+const COLUMN_MIGRATIONS: { table: string; column: string; definition: string }[] = [
+  { table: 'profiles', column: 'version', definition: 'INTEGER NOT NULL DEFAULT 0' },
+  { table: 'workout_logs', column: 'client_id', definition: 'TEXT' },
+  { table: 'users', column: 'role', definition: "TEXT NOT NULL DEFAULT 'user'" },
+];
+
+/**
+ * Thin repository over SQLite. Profiles, logs, diet plans, body measurements and plan templates are stored as JSON documents
+ * so the server does not need a migration whenever the client-side types grow a field.
+ */
+export class Store {
+  private db: DatabaseSync;
+
+  constructor(path: string) {
+    this.db = new DatabaseSync(path);
+    this.db.exec('PRAGMA foreign_keys = ON; PRAGMA journal_mode = WAL;');
+    this.db.exec(SCHEMA);
+    this.migrate();
+  }
+
+  private migrate() {
+    for (const { table, column, definition } of COLUMN_MIGRATIONS) {
+      const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+      if (!columns.some(c => c.name === column)) {
+        this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      }
+    }
+    this.db.exec('CREATE UNIQUE INDEX IF NOT EXISTS workout_logs_user_client_id ON workout_logs (username, client_id)');
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  getUser(username: string): UserRow | undefined {
+    return this.db.prepare('SELECT * FROM users WHERE username = ?').get(username) as unknown as UserRow | undefined;
+  }
+
+  createUser(row: Omit<UserRow, 'failed_attempts' | 'locked_until' | 'role'>) {
+    this.db.prepare('INSERT INTO users (username, password_hash, salt, iterations) VALUES (?, ?, ?, ?)')
+      .run(row.username, row.password_hash, row.salt, row.iterations);
+  }
+
+  updatePassword(username: string, hash: string, salt: string, iterations: number) {
+    this.db.prepare('UPDATE users SET password_hash = ?, salt = ?, iterations = ?, failed_attempts = 0, locked_until = NULL WHERE username = ?')
+      .run(hash, salt, iterations, username);
+  }
+
+  setRole(username: string, role: UserRow['role']) {
+    this.db.prepare('UPDATE users SET role = ? WHERE username = ?').run(role, username);
+  }
+
+  recordLoginAttempt(username: string, failedAttempts: number, lockedUntil: number | null) {
+    this.db.prepare('UPDATE users SET failed_attempts = ?, locked_until = ? WHERE username = ?')
+      .run(failedAttempts, lockedUntil, username);
+  }
+
+  createSession(tokenHash: string, username: string, expiresAt: number) {
+    this.db.prepare('DELETE FROM sessions WHERE expires_at <= ?').run(Date.now());
+    this.db.prepare('INSERT INTO sessions (token_hash, username, expires_at) VALUES (?, ?, ?)').run(tokenHash, username, expiresAt);
+  }
+
+  getSession(tokenHash: string): { username: string; expires_at: number } | undefined {
+    return this.db.prepare('SELECT username, expires_at FROM sessions WHERE token_hash = ?').get(tokenHash) as
+      { username: string; expires_at: number } | undefined;
+  }
+
+  deleteSession(tokenHash: string) {
+    this.db.prepare('DELETE FROM sessions WHERE token_hash = ?').run(tokenHash);
+  }
+
+  deleteOtherSessions(username: string, keepTokenHash: string) {
+    this.db.prepare('DELETE FROM sessions WHERE username = ? AND token_hash != ?').run(username, keepTokenHash);
+  }
+
+  getDocument(table: 'profiles' | 'diet_plans', username: string): unknown | null {
+    const row = this.db.prepare(`SELECT data FROM ${table} WHERE username = ?`).get(username) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  // Profiles are versioned and go through putProfileIfVersion instead.
+  putDocument(table: 'diet_plans', username: string, data: unknown) {
+    this.db.prepare(`INSERT INTO ${table} (username, data, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT(username) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`)
+      .run(username, JSON.stringify(data), Date.now());
+  }
+
+  getProfileVersion(username: string): number | null {
+    const row = this.db.prepare('SELECT version FROM profiles WHERE username = ?').get(username) as { version: number } | undefined;
+    return row ? row.version : null;
+  }
+
+  /**
+   * Writes the profile only if its stored version still equals expectedVersion (null meaning
+   * "no profile yet"), and returns the new version; returns null when another write got there first.
+   */
+  putProfileIfVersion(username: string, expectedVersion: number | null, data: unknown): number | null {
+    const now = Date.now();
+    const json = JSON.stringify(data);
+    const result = expectedVersion === null
+      ? this.db.prepare('INSERT OR IGNORE INTO profiles (username, data, version, updated_at) VALUES (?, ?, 1, ?)').run(username, json, now)
+      : this.db.prepare('UPDATE profiles SET data = ?, version = version + 1, updated_at = ? WHERE username = ? AND version = ?')
+        .run(json, now, username, expectedVersion);
+    return Number(result.changes) === 1 ? (expectedVersion ?? 0) + 1 : null;
+  }
+
+  /** Replaces the user's calendar feed key, which revokes any previously shared feed URL. */
+  setCalendarFeed(username: string, tokenHash: string) {
+    this.db.prepare(`INSERT INTO calendar_feeds (username, token_hash) VALUES (?, ?)
+      ON CONFLICT(username) DO UPDATE SET token_hash = excluded.token_hash`).run(username, tokenHash);
+  }
+
+  deleteCalendarFeed(username: string) {
+    this.db.prepare('DELETE FROM calendar_feeds WHERE username = ?').run(username);
+  }
+
+  getCalendarFeedUser(tokenHash: string): string | null {
+    const row = this.db.prepare('SELECT username FROM calendar_feeds WHERE token_hash = ?').get(tokenHash) as { username: string } | undefined;
+    return row ? row.username : null;
+  }
+
+  getWorkoutLogs(username: string): unknown[] {
+    const rows = this.db.prepare('SELECT data FROM workout_logs WHERE username = ? ORDER BY date DESC').all(username) as { data: string }[];
+    return rows.map(r => JSON.parse(r.data));
+  }
+
+  /** Re-sending a log with the same client id is a no-op, so clients can retry freely. */
+  addWorkoutLog(username: string, clientId: string | null, date: string, data: unknown) {
+    this.db.prepare('INSERT OR IGNORE INTO workout_logs (username, client_id, date, data) VALUES (?, ?, ?, ?)')
+      .run(username, clientId, date, JSON.stringify(data));
+  }
+
+  getMeasurements(username: string): unknown[] {
+    const rows = this.db.prepare('SELECT data FROM body_measurements WHERE username = ? ORDER BY date').all(username) as { data: string }[];
+    return rows.map(r => JSON.parse(r.data));
+  }
+
+  /** Saving a measurement with an existing id replaces it, so edits and retries need no separate route. */
+  putMeasurement(username: string, id: string, date: string, data: unknown) {
+    this.db.prepare(`INSERT INTO body_measurements (username, id, date, data) VALUES (?, ?, ?, ?)
+      ON CONFLICT(username, id) DO UPDATE SET date = excluded.date, data = excluded.data`)
+      .run(username, id, date, JSON.stringify(data));
+  }
+
+  deleteMeasurement(username: string, id: string) {
+    this.db.prepare('DELETE FROM body_measurements WHERE username = ? AND id = ?').run(username, id);
+  }
+
+  addClient(coach: string, client: string) {
+    this.db.prepare('INSERT OR IGNORE INTO coach_clients (coach, client) VALUES (?, ?)').run(coach, client);
+  }
+
+  /** Unlinks the client from the coach; their account and data are left alone. */
+  removeClient(coach: string, client: string) {
+    this.db.prepare('DELETE FROM coach_clients WHERE coach = ? AND client = ?').run(coach, client);
+  }
+
+  getClients(coach: string): string[] {
+    const rows = this.db.prepare('SELECT client FROM coach_clients WHERE coach = ? ORDER BY client').all(coach) as { client: string }[];
+    return rows.map(r => r.client);
+  }
+
+  isClientOf(coach: string, client: string): boolean {
+    return this.db.prepare('SELECT 1 FROM coach_clients WHERE coach = ? AND client = ?').get(coach, client) !== undefined;
+  }
+
+  getPlanTemplates(coach: string): unknown[] {
+    const rows = this.db.prepare('SELECT data FROM plan_templates WHERE coach = ? ORDER BY id').all(coach) as { data: string }[];
+    return rows.map(r => JSON.parse(r.data));
+  }
+
+  /** Saving a template with an existing id replaces it. */
+  putPlanTemplate(coach: string, id: string, data: unknown) {
+    this.db.prepare(`INSERT INTO plan_templates (coach, id, data) VALUES (?, ?, ?)
+      ON CONFLICT(coach, id) DO UPDATE SET data = excluded.data`)
+      .run(coach, id, JSON.stringify(data));
+  }
+
+  deletePlanTemplate(coach: string, id: string) {
+    this.db.prepare('DELETE FROM plan_templates WHERE coach = ? AND id = ?').run(coach, id);
+  }
+}
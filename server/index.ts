@@ -0,0 +1,42 @@
+import { createServer } from 'node:http';
+import { Store } from './db';
+import { createApp } from './app';
+import type { Bmi } from '../services/providers';
+import { metricBodyStats } from '../utils/units';
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No env file; rely on the process environment.
+}
+// The Gemini provider reads API_KEY, as it does in the browser build.
+process.env.API_KEY ??= process.env.GEMINI_API_KEY;
+
+const port = Number(process.env.PORT) || 8787;
+const store = new Store(process.env.DB_PATH || 'fitplan.sqlite');
+
+// Imported after the environment is set up, because the Gemini client is created on import.
+const { generateValidatedWorkoutPlan } = await import('../services/planGenerationService');
+const { calculateBMI } = await import('../utils/calculateBmi');
+const { suggestExerciseSwaps } = await import('../services/exerciseSwapService');
+
+const server = createServer(createApp(store, {
+  generatePlan: (userData, bmi) => {
+    const stats = metricBodyStats(userData);
+    return generateValidatedWorkoutPlan(userData, (bmi as Bmi) ?? calculateBMI(stats.weight, stats.height));
+  },
+  suggestSwaps: async (stale, userData) => ({ substitutes: await suggestExerciseSwaps(stale, userData) }),
+}));
+
+server.listen(port, () => {
+  console.log(`FitPlan API listening on http://localhost:${port}`);
+});
+
+const shutdown = () => {
+  server.close(() => {
+    store.close();
+    process.exit(0);
+  });
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,57 @@
+import { WorkoutLog } from '../types';
+import * as db from './dataStore';
+import * as planHistory from './planHistoryService';
+import * as bodyMetrics from './bodyMetricsService';
+import { AccountData, AccountExport, createAccountExport } from '../utils/accountTransfer';
+
+export interface ImportSummary {
+  logsAdded: number;
+  versionsAdded: number;
+  measurementsAdded: number;
+}
+
+export const exportAccount = async (username: string): Promise<AccountExport> => {
+  const [profile, workoutLogs, dietPlan, planVersions, bodyMeasurements] = await Promise.all([
+    db.getProfile(username),
+    db.getWorkoutLogs(username),
+    db.getDietPlan(username),
+    planHistory.getPlanVersions(username),
+    bodyMetrics.getMeasurements(username),
+  ]);
+  return createAccountExport(username, {
+    userData: profile?.userData ?? null,
+    workoutPlan: profile?.workoutPlan ?? null,
+    workoutLogs,
+    dietPlan,
+    planVersions,
+    bodyMeasurements,
+  });
+};
+
+// A log already stored under the same id, or for the same session, is not added twice.
+const isSameLog = (a: WorkoutLog, b: WorkoutLog) =>
+  (!!a.id && a.id === b.id) || (a.date === b.date && a.dayName === b.dayName);
+
+/**
+ * Writes validated account data (from parseAccountImport) for the signed-in user. The profile
+ * and diet plan are replaced; logs, plan versions and measurements are merged so importing the
+ * same file twice changes nothing.
+ */
+export const importAccount = async (username: string, data: AccountData): Promise<ImportSummary> => {
+  if (data.userData) {
+    await db.saveProfile({ username, userData: data.userData, workoutPlan: data.workoutPlan });
+  }
+  if (data.dietPlan) {
+    await db.saveDietPlan(username, data.dietPlan);
+  }
+
+  const existing = await db.getWorkoutLogs(username);
+  const newLogs = data.workoutLogs.filter(log => !existing.some(e => isSameLog(e, log)));
+  for (const log of newLogs) {
+    await db.addWorkoutLog({ ...log, username });
+  }
+
+  const versionsAdded = await planHistory.importPlanVersions(username, data.planVersions);
+  const measurementsAdded = await bodyMetrics.importMeasurements(username, data.bodyMeasurements);
+  return { logsAdded: newLogs.length, versionsAdded, measurementsAdded };
+};
@@ -0,0 +1,49 @@
+import { User, UserRole } from '../types';
+import { API_TOKEN_KEY, apiRequest, setApiToken } from './apiClient';
+import type { ActiveSession } from './authService';
+
+// Server-backed counterpart of authService with the same functions.
+
+export const SESSION_TOKEN_KEY = API_TOKEN_KEY;
+
+interface SessionResponse {
+  token: string;
+  username: string;
+  expiresAt: number;
+}
+
+export const signup = async (username: string, password: string): Promise<User> => {
+  const session = await apiRequest<SessionResponse>('POST', '/auth/signup', { username, password });
+  setApiToken(session.token);
+  return { username: session.username };
+};
+
+export const login = async (username: string, password: string): Promise<User> => {
+  const session = await apiRequest<SessionResponse>('POST', '/auth/login', { username, password });
+  setApiToken(session.token);
+  return { username: session.username };
+};
+
+export const logout = async (): Promise<void> => {
+  try {
+    await apiRequest<void>('POST', '/auth/logout');
+  } finally {
+    setApiToken(null);
+  }
+};
+
+export const restoreSession = async (): Promise<ActiveSession | null> => {
+  if (!localStorage.getItem(API_TOKEN_KEY)) return null;
+  try {
+    const session = await apiRequest<{ username: string; role: UserRole; expiresAt: number }>('GET', '/auth/session');
+    return { user: { username: session.username, role: session.role }, expiresAt: session.expiresAt };
+  } catch {
+    return null;
+  }
+};
+
+export const changePassword = (_username: string, oldPassword: string, newPassword: string): Promise<void> =>
+  apiRequest<void>('POST', '/auth/password', { oldPassword, newPassword });
+
+export const enableCoachMode = (_username: string): Promise<void> =>
+  apiRequest<void>('POST', '/coach/enable');
@@ -0,0 +1,43 @@
+const API_BASE = '/api';
+export const API_TOKEN_KEY = 'fitplan_api_token';
+
+export class ApiError extends Error {
+  constructor(readonly status: number, message: string, readonly body: any = null) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export const getApiToken = () => localStorage.getItem(API_TOKEN_KEY);
+
+export const setApiToken = (token: string | null) => {
+  if (token) {
+    localStorage.setItem(API_TOKEN_KEY, token);
+  } else {
+    localStorage.removeItem(API_TOKEN_KEY);
+  }
+};
+
+/**
+ * Calls the FitPlan API with the stored bearer token. Error responses are thrown as ApiError
+ * carrying the server's message; a 401 also clears the stored token.
+ */
+export const apiRequest = async <T>(method: string, path: string, body?: unknown): Promise<T> => {
+  const token = getApiToken();
+  const response = await fetch(`${API_BASE}${path}`, {
+    method,
+    headers: {
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+
+  if (response.status === 204) return undefined as T;
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    if (response.status === 401) setApiToken(null);
+    throw new ApiError(response.status, data?.error || `Request failed with status ${response.status}`, data);
+  }
+  return data as T;
+};
@@ -0,0 +1,40 @@
+import { BodyMeasurement, GeneratedDietPlan, WorkoutLog } from '../types';
+import type { StoredProfile } from './dbService';
+import { apiRequest } from './apiClient';
+
+// Same operations as dbService, backed by the FitPlan API. The username arguments are kept
+// for signature compatibility; the server scopes every request to the signed-in user.
+
+/** A profile as the server stores it; version increases by one on every accepted write. */
+export type VersionedProfile = StoredProfile & { version?: number | null };
+
+export const getProfile = (_username: string): Promise<VersionedProfile | null> =>
+  apiRequest<VersionedProfile | null>('GET', '/profile');
+
+/**
+ * Saves the profile if the server still holds `profile.version`. A stale version is rejected
+ * with an ApiError (409) whose body carries the server's `current` profile.
+ */
+export const saveProfile = (profile: VersionedProfile): Promise<{ version: number }> =>
+  apiRequest<{ version: number }>('PUT', '/profile', profile);
+
+export const getWorkoutLogs = (_username: string): Promise<WorkoutLog[]> =>
+  apiRequest<WorkoutLog[]>('GET', '/logs');
+
+export const addWorkoutLog = (log: WorkoutLog & { username: string }): Promise<void> =>
+  apiRequest<void>('POST', '/logs', log);
+
+export const getDietPlan = (_username: string): Promise<GeneratedDietPlan | null> =>
+  apiRequest<GeneratedDietPlan | null>('GET', '/diet-plan');
+
+export const saveDietPlan = (_username: string, plan: GeneratedDietPlan): Promise<void> =>
+  apiRequest<void>('PUT', '/diet-plan', plan);
+
+export const getMeasurements = (_username: string): Promise<BodyMeasurement[]> =>
+  apiRequest<BodyMeasurement[]>('GET', '/measurements');
+
+export const saveMeasurement = (_username: string, measurement: BodyMeasurement): Promise<void> =>
+  apiRequest<void>('PUT', '/measurements', measurement);
+
+export const deleteMeasurement = (_username: string, id: string): Promise<void> =>
+  apiRequest<void>('DELETE', `/measurements?id=${encodeURIComponent(id)}`);
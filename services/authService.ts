@@ -0,0 +1,256 @@
+import { User, UserRole } from '../types';
+
+const USERS_KEY = 'fitplan_users';
+const SESSIONS_KEY = 'fitplan_sessions';
+export const SESSION_TOKEN_KEY = 'fitplan_session_token';
+// Earlier versions kept the logged-in username here with no expiry.
+const LEGACY_SESSION_KEY = 'fitplan_current_user';
+
+const PBKDF2_ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+const TOKEN_BYTES = 32;
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const MAX_FREE_ATTEMPTS = 5;
+const BASE_LOCKOUT_MS = 30 * 1000;
+const MAX_LOCKOUT_MS = 15 * 60 * 1000;
+export const MIN_PASSWORD_LENGTH = 8;
+
+export interface StoredCredential {
+  username: string;
+  passwordHash?: string; // base64 PBKDF2-SHA256
+  salt?: string; // base64
+  iterations?: number;
+  password?: string; // legacy plaintext, removed on the next successful login
+  failedAttempts?: number;
+  lockedUntil?: number; // epoch ms
+  role?: UserRole; // absent for accounts created before coach mode, meaning 'user'
+}
+
+interface StoredSession {
+  username: string;
+  expiresAt: number;
+}
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+const encoder = new TextEncoder();
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array) =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes)));
+
+const fromBase64 = (text: string) =>
+  Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+const derive = async (password: string, salt: Uint8Array, iterations: number): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return toBase64(bits);
+};
+
+// Compares without returning early so the comparison time does not leak a matching prefix.
+const constantTimeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+const sha256 = async (text: string) => toBase64(await crypto.subtle.digest('SHA-256', encoder.encode(text)));
+
+export const hashPassword = async (password: string): Promise<Required<Pick<StoredCredential, 'passwordHash' | 'salt' | 'iterations'>>> => {
+  const salt = randomBytes(SALT_BYTES);
+  return { passwordHash: await derive(password, salt, PBKDF2_ITERATIONS), salt: toBase64(salt), iterations: PBKDF2_ITERATIONS };
+};
+
+const verifyPassword = async (credential: StoredCredential, password: string): Promise<boolean> => {
+  if (credential.passwordHash && credential.salt) {
+    const hash = await derive(password, fromBase64(credential.salt), credential.iterations || PBKDF2_ITERATIONS);
+    return constantTimeEqual(hash, credential.passwordHash);
+  }
+  if (credential.password !== undefined) {
+    return constantTimeEqual(credential.password, password);
+  }
+  return false;
+};
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) as T : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const readUsers = (): StoredCredential[] => readJson<StoredCredential[]>(USERS_KEY, []);
+const writeUsers = (users: StoredCredential[]) => localStorage.setItem(USERS_KEY, JSON.stringify(users));
+const readSessions = (): Record<string, StoredSession> => readJson<Record<string, StoredSession>>(SESSIONS_KEY, {});
+const writeSessions = (sessions: Record<string, StoredSession>) => localStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
+
+const findUser = (username: string) => {
+  const users = readUsers();
+  const index = users.findIndex(u => u.username.toLowerCase() === username.trim().toLowerCase());
+  return { users, index };
+};
+
+const updateUser = (username: string, changes: Partial<StoredCredential>) => {
+  const { users, index } = findUser(username);
+  if (index === -1) return;
+  users[index] = { ...users[index], ...changes };
+  // Drop keys explicitly set to undefined, such as a migrated plaintext password.
+  writeUsers(JSON.parse(JSON.stringify(users)));
+};
+
+const lockoutFor = (failedAttempts: number) =>
+  failedAttempts < MAX_FREE_ATTEMPTS ? 0 : Math.min(MAX_LOCKOUT_MS, BASE_LOCKOUT_MS * 2 ** (failedAttempts - MAX_FREE_ATTEMPTS));
+
+const createSession = async (username: string): Promise<void> => {
+  const token = toBase64(randomBytes(TOKEN_BYTES));
+  const sessions = readSessions();
+  const now = Date.now();
+  // Prune expired sessions while we are here.
+  for (const [key, session] of Object.entries(sessions)) {
+    if (session.expiresAt <= now) delete sessions[key];
+  }
+  sessions[await sha256(token)] = { username, expiresAt: now + SESSION_TTL_MS };
+  writeSessions(sessions);
+  localStorage.setItem(SESSION_TOKEN_KEY, token);
+  localStorage.removeItem(LEGACY_SESSION_KEY);
+};
+
+const revokeSessions = (username: string, keepHash?: string) => {
+  const sessions = readSessions();
+  for (const [key, session] of Object.entries(sessions)) {
+    if (session.username === username && key !== keepHash) delete sessions[key];
+  }
+  writeSessions(sessions);
+};
+
+const validatePassword = (password: string) => {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new AuthError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+  }
+};
+
+/** Creates the account without signing in to it, as a coach does for a new client. Returns the username. */
+export const createAccount = async (username: string, password: string): Promise<string> => {
+  const name = username.trim();
+  if (!name) throw new AuthError('Please enter a username.');
+  validatePassword(password);
+  if (findUser(name).index !== -1) throw new AuthError('That username is already taken.');
+
+  const users = readUsers();
+  users.push({ username: name, ...(await hashPassword(password)) });
+  writeUsers(users);
+  return name;
+};
+
+export const signup = async (username: string, password: string): Promise<User> => {
+  const name = await createAccount(username, password);
+  await createSession(name);
+  return { username: name };
+};
+
+/**
+ * Checks the password, applying exponential backoff after repeated failures. Accounts still
+ * holding a plaintext password from the mock version are rehashed on their first successful
+ * login. Unknown users get the same error as a wrong password.
+ */
+export const login = async (username: string, password: string): Promise<User> => {
+  const { users, index } = findUser(username);
+  const credential = users[index];
+
+  if (!credential) {
+    // Spend the same time as a real check so response time does not reveal valid usernames.
+    await derive(password, randomBytes(SALT_BYTES), PBKDF2_ITERATIONS);
+    throw new AuthError('Invalid username or password.');
+  }
+
+  const now = Date.now();
+  if (credential.lockedUntil && credential.lockedUntil > now) {
+    const seconds = Math.ceil((credential.lockedUntil - now) / 1000);
+    throw new AuthError(`Too many failed attempts. Try again in ${seconds} second${seconds === 1 ? '' : 's'}.`);
+  }
+
+  if (!(await verifyPassword(credential, password))) {
+    const failedAttempts = (credential.failedAttempts || 0) + 1;
+    const lockout = lockoutFor(failedAttempts);
+    updateUser(credential.username, { failedAttempts, lockedUntil: lockout ? now + lockout : undefined });
+    throw new AuthError(lockout
+      ? `Too many failed attempts. Try again in ${Math.ceil(lockout / 1000)} seconds.`
+      : 'Invalid username or password.');
+  }
+
+  const needsRehash = !credential.passwordHash || (credential.iterations || 0) < PBKDF2_ITERATIONS;
+  updateUser(credential.username, {
+    failedAttempts: 0,
+    lockedUntil: undefined,
+    ...(needsRehash ? { ...(await hashPassword(password)), password: undefined } : {}),
+  });
+  await createSession(credential.username);
+  return { username: credential.username };
+};
+
+export const logout = async (): Promise<void> => {
+  const token = localStorage.getItem(SESSION_TOKEN_KEY);
+  if (token) {
+    const sessions = readSessions();
+    delete sessions[await sha256(token)];
+    writeSessions(sessions);
+  }
+  localStorage.removeItem(SESSION_TOKEN_KEY);
+  localStorage.removeItem(LEGACY_SESSION_KEY);
+};
+
+export interface ActiveSession {
+  user: User;
+  expiresAt: number;
+}
+
+/**
+ * Resolves the stored session token. Expired or unknown tokens are cleared. Legacy
+ * username-only sessions are not trusted and require a fresh login.
+ */
+export const restoreSession = async (): Promise<ActiveSession | null> => {
+  localStorage.removeItem(LEGACY_SESSION_KEY);
+  const token = localStorage.getItem(SESSION_TOKEN_KEY);
+  if (!token) return null;
+
+  const sessions = readSessions();
+  const hash = await sha256(token);
+  const session = sessions[hash];
+  if (!session || session.expiresAt <= Date.now() || findUser(session.username).index === -1) {
+    delete sessions[hash];
+    writeSessions(sessions);
+    localStorage.removeItem(SESSION_TOKEN_KEY);
+    return null;
+  }
+  const { users, index } = findUser(session.username);
+  return { user: { username: session.username, role: users[index].role ?? 'user' }, expiresAt: session.expiresAt };
+};
+
+export const enableCoachMode = async (username: string): Promise<void> => {
+  updateUser(username, { role: 'coach' });
+};
+
+export const changePassword = async (username: string, oldPass: string, newPass: string): Promise<void> => {
+  const { users, index } = findUser(username);
+  const credential = users[index];
+  if (!credential || !(await verifyPassword(credential, oldPass))) {
+    throw new AuthError('Your current password is incorrect.');
+  }
+  validatePassword(newPass);
+  updateUser(credential.username, { ...(await hashPassword(newPass)), password: undefined, failedAttempts: 0, lockedUntil: undefined });
+
+  // Sign out every other device that knew the old password.
+  const token = localStorage.getItem(SESSION_TOKEN_KEY);
+  revokeSessions(credential.username, token ? await sha256(token) : undefined);
+};
@@ -0,0 +1,53 @@
+import { BodyMeasurement } from '../types';
+import * as syncedDb from './syncService';
+import { isServerMode } from './dataStore';
+import { sortMeasurements } from '../utils/bodyMetrics';
+
+const MEASUREMENTS_KEY_PREFIX = 'fitplan_body_measurements_';
+
+const readLocal = (username: string): BodyMeasurement[] => {
+  try {
+    const raw = localStorage.getItem(MEASUREMENTS_KEY_PREFIX + username);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeLocal = (username: string, measurements: BodyMeasurement[]) => {
+  localStorage.setItem(MEASUREMENTS_KEY_PREFIX + username, JSON.stringify(sortMeasurements(measurements)));
+};
+
+// Same contract as the API: saving an existing id replaces it.
+const browserStore = {
+  getMeasurements: async (username: string) => readLocal(username),
+  saveMeasurement: async (username: string, measurement: BodyMeasurement) => {
+    writeLocal(username, [...readLocal(username).filter(m => m.id !== measurement.id), measurement]);
+  },
+  deleteMeasurement: async (username: string, id: string) => {
+    writeLocal(username, readLocal(username).filter(m => m.id !== id));
+  },
+};
+
+// Against the API server, changes made offline are queued by the sync layer.
+const store = isServerMode ? syncedDb : browserStore;
+
+/** All of the user's measurements, oldest first. */
+export const getMeasurements = async (username: string): Promise<BodyMeasurement[]> =>
+  sortMeasurements(await store.getMeasurements(username));
+
+export const saveMeasurement = (username: string, measurement: BodyMeasurement): Promise<void> =>
+  store.saveMeasurement(username, measurement);
+
+export const deleteMeasurement = (username: string, id: string): Promise<void> =>
+  store.deleteMeasurement(username, id);
+
+/** Adds imported measurements the user does not have yet (by id) and returns how many were added. */
+export const importMeasurements = async (username: string, imported: BodyMeasurement[]): Promise<number> => {
+  const known = new Set((await getMeasurements(username)).map(m => m.id));
+  const added = imported.filter(m => !known.has(m.id));
+  for (const measurement of added) {
+    await store.saveMeasurement(username, measurement);
+  }
+  return added.length;
+};
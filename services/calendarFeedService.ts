@@ -0,0 +1,15 @@
+import { apiRequest } from './apiClient';
+
+/**
+ * Creates (or rotates) the calendar subscription feed on the API server and returns its
+ * absolute URL. Rotating revokes the previous URL.
+ */
+export const createCalendarFeed = async (options: { startTime: string; weeks: number }): Promise<string> => {
+  const { path } = await apiRequest<{ path: string }>('POST', '/calendar/feed');
+  const url = new URL(path, window.location.origin);
+  url.searchParams.set('time', options.startTime);
+  url.searchParams.set('weeks', String(options.weeks));
+  return url.toString();
+};
+
+export const revokeCalendarFeed = (): Promise<void> => apiRequest<void>('DELETE', '/calendar/feed');
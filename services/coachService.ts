@@ -0,0 +1,126 @@
+import { GeneratedPlan, PlanTemplate, UserData, WorkoutLog } from '../types';
+import * as browserDb from './dbService';
+import type { StoredProfile } from './dbService';
+import { createAccount } from './authService';
+import { apiRequest } from './apiClient';
+import { isServerMode } from './dataStore';
+
+const CLIENTS_KEY_PREFIX = 'fitplan_coach_clients_';
+const TEMPLATES_KEY_PREFIX = 'fitplan_plan_templates_';
+
+/** A client as their coach sees them: the profile with its current plan, and their logs for adherence. */
+export interface CoachClient {
+  username: string;
+  profile: StoredProfile | null;
+  workoutLogs: WorkoutLog[];
+}
+
+const readList = <T>(key: string): T[] => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeList = <T>(key: string, list: T[]) => localStorage.setItem(key, JSON.stringify(list));
+
+const requireLocalClient = (coach: string, client: string) => {
+  const username = readList<string>(CLIENTS_KEY_PREFIX + coach).find(u => u.toLowerCase() === client.toLowerCase());
+  if (!username) throw new Error('Unknown client.');
+  return username;
+};
+
+// Browser mode keeps every account on this device, so the coach's links and templates are
+// stored next to them. The server enforces the same rules in its /api/coach routes.
+const browserStore = {
+  getClients: async (coach: string): Promise<CoachClient[]> =>
+    Promise.all(readList<string>(CLIENTS_KEY_PREFIX + coach).map(async username => ({
+      username,
+      profile: await browserDb.getProfile(username),
+      workoutLogs: await browserDb.getWorkoutLogs(username),
+    }))),
+  createClient: async (coach: string, username: string, password: string, userData: UserData): Promise<string> => {
+    const client = await createAccount(username, password);
+    writeList(CLIENTS_KEY_PREFIX + coach, [...readList<string>(CLIENTS_KEY_PREFIX + coach), client]);
+    await browserDb.saveProfile({ username: client, userData, workoutPlan: null });
+    return client;
+  },
+  removeClient: async (coach: string, client: string) => {
+    const username = requireLocalClient(coach, client);
+    writeList(CLIENTS_KEY_PREFIX + coach, readList<string>(CLIENTS_KEY_PREFIX + coach).filter(u => u !== username));
+  },
+  saveClientPlan: async (coach: string, client: string, plan: GeneratedPlan | null) => {
+    const username = requireLocalClient(coach, client);
+    const profile = await browserDb.getProfile(username);
+    if (!profile) throw new Error('This client has no profile yet.');
+    await browserDb.saveProfile({ ...profile, workoutPlan: plan });
+  },
+  getTemplates: async (coach: string) => readList<PlanTemplate>(TEMPLATES_KEY_PREFIX + coach),
+  saveTemplate: async (coach: string, template: PlanTemplate) => {
+    const templates = readList<PlanTemplate>(TEMPLATES_KEY_PREFIX + coach).filter(t => t.id !== template.id);
+    writeList(TEMPLATES_KEY_PREFIX + coach, [...templates, template]);
+  },
+  deleteTemplate: async (coach: string, id: string) => {
+    writeList(TEMPLATES_KEY_PREFIX + coach, readList<PlanTemplate>(TEMPLATES_KEY_PREFIX + coach).filter(t => t.id !== id));
+  },
+};
+
+// The coach arguments are kept for signature compatibility; the server uses the session.
+const apiStore = {
+  getClients: (_coach: string) => apiRequest<CoachClient[]>('GET', '/coach/clients'),
+  createClient: async (_coach: string, username: string, password: string, userData: UserData) =>
+    (await apiRequest<{ username: string }>('POST', '/coach/clients', { username, password, userData })).username,
+  removeClient: (_coach: string, client: string) =>
+    apiRequest<void>('DELETE', `/coach/clients?username=${encodeURIComponent(client)}`),
+  saveClientPlan: async (_coach: string, client: string, plan: GeneratedPlan | null) => {
+    await apiRequest<{ version: number }>('PUT', `/coach/clients/plan?username=${encodeURIComponent(client)}`, plan);
+  },
+  getTemplates: (_coach: string) => apiRequest<PlanTemplate[]>('GET', '/coach/templates'),
+  saveTemplate: (_coach: string, template: PlanTemplate) => apiRequest<void>('PUT', '/coach/templates', template),
+  deleteTemplate: (_coach: string, id: string) =>
+    apiRequest<void>('DELETE', `/coach/templates?id=${encodeURIComponent(id)}`),
+};
+
+const store = isServerMode ? apiStore : browserStore;
+
+export const getClients = (coach: string): Promise<CoachClient[]> => store.getClients(coach);
+
+/**
+ * Creates a sign-in for a new client and links it to the coach. The client logs in with this
+ * password, which they can change afterwards, and only ever sees their own data.
+ */
+export const createClient = (coach: string, username: string, password: string, name: string): Promise<string> =>
+  store.createClient(coach, username, password, {
+    name: name.trim(),
+    weight: '', height: '', freeDays: [], gender: '',
+    fitnessLevel: '', goal: '', equipment: '', maxSessionTime: '',
+  });
+
+/** Stops managing the client. Their account, plan and logs are kept. */
+export const removeClient = (coach: string, client: string): Promise<void> => store.removeClient(coach, client);
+
+export const saveClientPlan = (coach: string, client: string, plan: GeneratedPlan | null): Promise<void> =>
+  store.saveClientPlan(coach, client, plan);
+
+// Progress belongs to whoever trained the week, so neither templates nor assigned plans carry it.
+const withoutProgress = (plan: GeneratedPlan): GeneratedPlan => ({ ...plan, completedDays: [], week: 1, schedule: undefined });
+
+export const getTemplates = async (coach: string): Promise<PlanTemplate[]> =>
+  (await store.getTemplates(coach)).sort((a, b) => a.name.localeCompare(b.name));
+
+export const createTemplate = async (coach: string, name: string, plan: GeneratedPlan): Promise<PlanTemplate> => {
+  const template: PlanTemplate = { id: crypto.randomUUID(), name: name.trim(), createdAt: new Date().toISOString(), plan: withoutProgress(plan) };
+  await store.saveTemplate(coach, template);
+  return template;
+};
+
+export const deleteTemplate = (coach: string, id: string): Promise<void> => store.deleteTemplate(coach, id);
+
+/** Gives each client a fresh copy of the template, replacing their current plan. */
+export const assignTemplate = async (coach: string, template: PlanTemplate, clients: string[]): Promise<void> => {
+  for (const client of clients) {
+    await store.saveClientPlan(coach, client, withoutProgress(template.plan));
+  }
+};
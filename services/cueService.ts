@@ -0,0 +1,73 @@
+// Audio and vibration cues for the workout player. Both are best effort: browsers without
+// Web Audio or the Vibration API (or with sound blocked until a user gesture) stay silent.
+
+declare global {
+  interface Window {
+    // Older Safari only has the prefixed constructor.
+    webkitAudioContext?: typeof AudioContext;
+  }
+}
+
+let audioContext: AudioContext | null = null;
+
+const getAudioContext = (): AudioContext | null => {
+  if (typeof window === 'undefined') return null;
+  const Ctor = window.AudioContext ?? window.webkitAudioContext;
+  if (!Ctor) return null;
+  audioContext ??= new Ctor();
+  return audioContext;
+};
+
+/**
+ * Browsers only allow audio once the page has had a user gesture, so call this from a click
+ * (e.g. starting the workout) to make later cues audible.
+ */
+export const unlockAudio = () => {
+  const ctx = getAudioContext();
+  if (ctx?.state === 'suspended') ctx.resume().catch(() => {});
+};
+
+const beep = (frequency: number, durationMs: number) => {
+  const ctx = getAudioContext();
+  if (!ctx || ctx.state !== 'running') return;
+  const oscillator = ctx.createOscillator();
+  const gain = ctx.createGain();
+  oscillator.frequency.value = frequency;
+  // Fade out rather than cut off, which clicks.
+  gain.gain.setValueAtTime(0.2, ctx.currentTime);
+  gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + durationMs / 1000);
+  oscillator.connect(gain).connect(ctx.destination);
+  oscillator.start();
+  oscillator.stop(ctx.currentTime + durationMs / 1000);
+};
+
+const vibrate = (pattern: number[]) => {
+  if (typeof navigator !== 'undefined' && 'vibrate' in navigator) navigator.vibrate(pattern);
+};
+
+export interface CueOptions {
+  sound: boolean;
+  vibration: boolean;
+}
+
+/** A short tick for each of the last seconds of a rest. */
+export const countdownCue = ({ sound, vibration }: CueOptions) => {
+  if (sound) beep(660, 120);
+  if (vibration) vibrate([60]);
+};
+
+/** Rest is over: time for the next set. */
+export const restOverCue = ({ sound, vibration }: CueOptions) => {
+  if (sound) beep(880, 400);
+  if (vibration) vibrate([200, 100, 200]);
+};
+
+/** The last set of the session is done. */
+export const workoutCompleteCue = ({ sound, vibration }: CueOptions) => {
+  if (sound) {
+    beep(660, 150);
+    setTimeout(() => beep(880, 150), 180);
+    setTimeout(() => beep(1100, 300), 360);
+  }
+  if (vibration) vibrate([100, 60, 100, 60, 300]);
+};
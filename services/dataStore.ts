@@ -0,0 +1,19 @@
+import * as browserDb from './dbService';
+import * as syncedDb from './syncService';
+
+export type { StoredProfile } from './dbService';
+
+/** True when the app was built against the FitPlan API server (API_SERVER in .env.local). */
+export const isServerMode = process.env.USE_API_SERVER === 'true';
+
+// Browser storage stays the default and works fully offline. Against the API server, writes
+// go through the sync layer, which queues them while offline and merges with other devices.
+const impl = isServerMode ? syncedDb : browserDb;
+
+export const getProfile: typeof syncedDb.getProfile = (username) => impl.getProfile(username);
+export const saveProfile: typeof syncedDb.saveProfile = (profile) => impl.saveProfile(profile);
+export const getWorkoutLogs: typeof syncedDb.getWorkoutLogs = (username) => impl.getWorkoutLogs(username);
+export const addWorkoutLog: typeof syncedDb.addWorkoutLog = (log) => impl.addWorkoutLog(log);
+
+export const getDietPlan: typeof syncedDb.getDietPlan = (username) => impl.getDietPlan(username);
+export const saveDietPlan: typeof syncedDb.saveDietPlan = (username, plan) => impl.saveDietPlan(username, plan);
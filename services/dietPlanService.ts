@@ -0,0 +1,31 @@
+import { GeneratedDietPlan, GeneratedPlan, Meal, MealSlot, UserData } from '../types';
+import * as db from './dataStore';
+import { assertValidDietPlan } from '../utils/dietValidation';
+import { generateTemplateDietPlan } from '../utils/templateDietGenerator';
+import { replaceMeal } from '../utils/mealSwap';
+
+export const getDietPlan = (username: string): Promise<GeneratedDietPlan | null> => db.getDietPlan(username);
+
+/**
+ * Builds a meal plan from the food database for the current profile and saves it. The result
+ * goes through the same validation as a generated plan, so it is rejected rather than saved
+ * if it ever breaks the user's preferences.
+ */
+export const buildDietPlan = async (username: string, userData: UserData, workoutPlan: GeneratedPlan | null): Promise<GeneratedDietPlan> => {
+  const plan = assertValidDietPlan(generateTemplateDietPlan(userData, workoutPlan), { userData, workoutPlan });
+  await db.saveDietPlan(username, plan);
+  return plan;
+};
+
+/** Replaces a single meal and saves the plan; the other meals are kept as they are. */
+export const swapMeal = async (
+  username: string,
+  plan: GeneratedDietPlan,
+  dayIndex: number,
+  slot: MealSlot,
+  meal: Meal,
+): Promise<GeneratedDietPlan> => {
+  const updated = replaceMeal(plan, dayIndex, slot, meal);
+  await db.saveDietPlan(username, updated);
+  return updated;
+};
@@ -0,0 +1,40 @@
+import { Exercise, UserData } from '../types';
+import { StaleExercise } from '../utils/progression';
+import { matchExercise } from '../utils/exerciseMatcher';
+import { validateExerciseSwaps } from '../utils/planValidation';
+import { PlanValidationError } from '../utils/validation';
+import { getActiveProvider, templateProvider } from './providers';
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+/**
+ * Asks the active plan provider (the API server, when the app uses one) for a fresh variation
+ * of each stale exercise that trains the same muscles with the user's equipment. Without a
+ * connection the offline planner picks from the exercise library instead. Returns null for
+ * any position that got no usable substitute; a malformed response is thrown.
+ */
+export const suggestExerciseSwaps = async (stale: StaleExercise[], userData: UserData): Promise<(Exercise | null)[]> => {
+  if (stale.length === 0) return [];
+
+  const active = getActiveProvider();
+  const provider = active.isRemote && isOffline() ? templateProvider : active;
+  const result = validateExerciseSwaps(await provider.suggestExerciseSwaps(stale, userData), stale.length);
+  if (result.repairs.length > 0) {
+    console.warn('Repaired exercise swaps', result.repairs);
+  }
+  if (!result.value) throw new PlanValidationError('exercise swap list', result.errors);
+
+  return stale.map((item, i) => {
+    const s = result.value![i];
+    if (!s) return null;
+    const match = matchExercise(s.name);
+    return {
+      ...(match ? { exerciseId: match.id } : {}),
+      name: s.name,
+      sets: item.exercise.sets,
+      reps: item.exercise.reps,
+      description: s.description,
+      targetMuscles: s.targetMuscles.length > 0 ? s.targetMuscles : item.exercise.targetMuscles,
+    };
+  });
+};
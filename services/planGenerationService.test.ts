@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { UserData } from '../types';
+import { PlanValidationError } from '../utils/validation';
+import { generateValidatedWorkoutPlan } from './planGenerationService';
+import { getProvider } from './providers';
+import geminiResponse from './__fixtures__/gemini-plan-response.json';
+import localLlmResponse from './__fixtures__/local-llm-plan-response.json';
+
+// The fixtures are responses recorded from the Gemini API and from Ollama's OpenAI-compatible
+// endpoint, replayed through a stubbed fetch so the providers parse them as they would live.
+
+const userData: UserData = {
+  name: 'Sam',
+  weight: '78',
+  height: '180',
+  freeDays: ['Monday', 'Wednesday', 'Friday'],
+  gender: 'female',
+  fitnessLevel: 'intermediate',
+  goal: 'Build strength',
+  equipment: 'Dumbbells, bench',
+  maxSessionTime: '45 minutes',
+};
+
+const replay = (body: unknown) => {
+  const fetchMock = vi.fn(async (_input: RequestInfo | URL, _init?: RequestInit) =>
+    new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+const promptOf = (init: RequestInit | undefined): string => JSON.parse(String(init?.body)).messages[1].content;
+
+describe('generateValidatedWorkoutPlan', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('repairs a recorded Gemini plan and orders it by the selected days', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchMock = replay(geminiResponse);
+
+    const plan = await generateValidatedWorkoutPlan(userData, '24.1', getProvider('gemini'));
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(plan.plan.map(d => d.day)).toEqual(['Monday', 'Wednesday', 'Friday']);
+    const [monday, wednesday, friday] = plan.plan;
+    expect(monday.approximateTime).toBe('40 minutes');
+    expect(monday.caloriesBurned).toBe(320);
+    expect(monday.muscleGroups[0].exercises[0]).toMatchObject({ name: 'Dumbbell Bench Press', sets: '3', exerciseId: 'dumbbell-bench-press' });
+    expect(friday.muscleGroups[0].exercises[0].targetMuscles).toEqual(['Quadriceps', 'Glutes']);
+    expect(wednesday.muscleGroups.map(g => g.name)).toEqual(['Legs', 'Core']);
+    expect(plan.totalWeeklyCaloriesBurned).toBe(1000);
+  });
+
+  it('re-prompts a recorded local model answer with the validation errors, then gives up', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchMock = replay(localLlmResponse);
+
+    const error = await generateValidatedWorkoutPlan(userData, '24.1', getProvider('local-llm')).catch(e => e);
+
+    expect(error).toBeInstanceOf(PlanValidationError);
+    expect(error.issues).toEqual([
+      { path: 'plan[1].approximateTime', message: '75 minutes exceeds the 45 minute session limit' },
+      { path: 'plan', message: 'no workout for Friday' },
+    ]);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(promptOf(fetchMock.mock.calls[0][1])).not.toContain('previous answer was rejected');
+    for (const [, init] of fetchMock.mock.calls.slice(1)) {
+      expect(promptOf(init)).toContain('- plan[1].approximateTime: 75 minutes exceeds the 45 minute session limit');
+      expect(promptOf(init)).toContain('- plan: no workout for Friday');
+    }
+  });
+});
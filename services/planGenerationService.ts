@@ -0,0 +1,67 @@
+import { GeneratedPlan, UserData } from '../types';
+import { validateGeneratedPlan } from '../utils/planValidation';
+import { PlanValidationError } from '../utils/validation';
+import { annotateExerciseIds } from '../utils/exerciseMatcher';
+import { applyLimitations } from '../utils/limitations';
+import { equipmentFromText } from '../utils/templatePlanGenerator';
+import { Bmi, PlanProvider, getActiveProvider, templateProvider } from './providers';
+
+const MAX_ATTEMPTS = 3;
+
+export interface PlanGenerationResult {
+  plan: GeneratedPlan;
+  provider: PlanProvider;
+  usedFallback: boolean;
+}
+
+/**
+ * Generates a workout plan and validates it before it reaches the UI. Responses that can be
+ * repaired (string numbers, wrong day order, bad totals) are fixed in place; structurally
+ * invalid ones are re-requested with the errors as feedback. After the last attempt the
+ * validation errors are thrown. Valid plans then have the user's limitations enforced,
+ * whatever the provider made of them.
+ */
+export const generateValidatedWorkoutPlan = async (
+  data: UserData,
+  bmi: Bmi,
+  provider: PlanProvider = getActiveProvider(),
+): Promise<GeneratedPlan> => {
+  let lastError: PlanValidationError | null = null;
+  let feedback: string[] | undefined;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const raw = await provider.generateWorkoutPlan(data, bmi, feedback);
+    const result = validateGeneratedPlan(raw, data);
+    if (result.repairs.length > 0) {
+      console.warn('Repaired generated plan', result.repairs);
+    }
+    if (result.value) return applyLimitations(annotateExerciseIds(result.value), data, equipmentFromText(data.equipment));
+
+    lastError = new PlanValidationError('workout plan', result.errors);
+    feedback = result.errors.map(e => `${e.path}: ${e.message}`);
+    console.warn(`Plan validation failed (${provider.id}, attempt ${attempt}/${MAX_ATTEMPTS})`, result.errors);
+  }
+
+  throw lastError;
+};
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+/**
+ * Generates with the active provider and falls back to the offline template planner
+ * when a remote provider fails for any reason. Without a connection the remote provider
+ * is not tried at all.
+ */
+export const generatePlanWithFallback = async (data: UserData, bmi: Bmi): Promise<PlanGenerationResult> => {
+  const provider = getActiveProvider();
+  if (provider.isRemote && isOffline()) {
+    return { plan: await generateValidatedWorkoutPlan(data, bmi, templateProvider), provider: templateProvider, usedFallback: true };
+  }
+  try {
+    return { plan: await generateValidatedWorkoutPlan(data, bmi, provider), provider, usedFallback: false };
+  } catch (err) {
+    if (!provider.isRemote) throw err;
+    console.warn(`${provider.label} failed, using the offline planner`, err);
+    return { plan: await generateValidatedWorkoutPlan(data, bmi, templateProvider), provider: templateProvider, usedFallback: true };
+  }
+};
@@ -0,0 +1,60 @@
+import { GeneratedPlan, PlanVersion, PlanVersionSource, UserData } from '../types';
+
+const HISTORY_KEY_PREFIX = 'fitplan_plan_history_';
+// Oldest versions are dropped beyond this so localStorage does not fill up.
+const MAX_VERSIONS = 50;
+
+const readVersions = (username: string): PlanVersion[] => {
+  try {
+    const raw = localStorage.getItem(HISTORY_KEY_PREFIX + username);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeVersions = (username: string, versions: PlanVersion[]) => {
+  localStorage.setItem(HISTORY_KEY_PREFIX + username, JSON.stringify(versions.slice(0, MAX_VERSIONS)));
+};
+
+// Completion and dates belong to the week being trained, not to the plan's design.
+const structureOf = (plan: GeneratedPlan) => JSON.stringify({ ...plan, completedDays: undefined, schedule: undefined });
+
+/** All saved versions, newest first. */
+export const getPlanVersions = async (username: string): Promise<PlanVersion[]> => readVersions(username);
+
+export interface NewPlanVersion {
+  source: PlanVersionSource;
+  plan: GeneratedPlan;
+  userData: UserData;
+  provider?: string;
+  parentId?: string;
+}
+
+/**
+ * Stores a plan as a new version. Saving a plan identical to the latest version returns that
+ * version instead, so re-saving an unchanged edit does not clutter the history.
+ */
+export const recordPlanVersion = async (username: string, version: NewPlanVersion): Promise<PlanVersion> => {
+  const versions = readVersions(username);
+  const latest = versions[0];
+  if (latest && structureOf(latest.plan) === structureOf(version.plan)) return latest;
+
+  const entry: PlanVersion = {
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    ...version,
+    plan: { ...version.plan, completedDays: [], schedule: undefined },
+  };
+  writeVersions(username, [entry, ...versions]);
+  return entry;
+};
+
+/** Merges imported versions into the history by id, keeping the newest MAX_VERSIONS. */
+export const importPlanVersions = async (username: string, imported: PlanVersion[]): Promise<number> => {
+  const versions = readVersions(username);
+  const known = new Set(versions.map(v => v.id));
+  const added = imported.filter(v => !known.has(v.id));
+  writeVersions(username, [...versions, ...added].sort((a, b) => b.createdAt.localeCompare(a.createdAt)));
+  return added.length;
+};
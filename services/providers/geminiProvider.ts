@@ -0,0 +1,94 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { buildPlanPrompt, buildSwapPrompt } from './prompts';
+import { PlanProvider } from './types';
+
+const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+const exerciseSchema = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING },
+    sets: { type: Type.STRING },
+    reps: { type: Type.STRING },
+    description: { type: Type.STRING },
+    targetMuscles: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ["name", "sets", "reps", "description", "targetMuscles"],
+};
+
+const planSchema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    totalWeeklyTime: { type: Type.STRING },
+    totalWeeklyCaloriesBurned: { type: Type.NUMBER },
+    plan: {
+      type: Type.ARRAY,
+      description: "One session per training day, in the order the days were given.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          day: { type: Type.STRING },
+          focus: { type: Type.STRING },
+          approximateTime: { type: Type.STRING },
+          caloriesBurned: { type: Type.NUMBER },
+          muscleGroups: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                name: { type: Type.STRING },
+                exercises: { type: Type.ARRAY, items: exerciseSchema },
+              },
+              required: ["name", "exercises"],
+            },
+          },
+        },
+        required: ["day", "focus", "approximateTime", "caloriesBurned", "muscleGroups"],
+      },
+    },
+  },
+  required: ["summary", "totalWeeklyTime", "totalWeeklyCaloriesBurned", "plan"],
+};
+
+const swapSchema = {
+  type: Type.OBJECT,
+  properties: {
+    substitutes: {
+      type: Type.ARRAY,
+      description: "One substitute exercise per stale exercise, in the same order.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          description: { type: Type.STRING },
+          targetMuscles: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+        required: ["name", "description", "targetMuscles"],
+      },
+    },
+  },
+  required: ["substitutes"],
+};
+
+const requestJson = async (prompt: string, responseSchema: object): Promise<unknown> => {
+  const response = await ai.models.generateContent({
+    model: "gemini-2.5-flash",
+    contents: prompt,
+    config: {
+      systemInstruction: "You are an expert personal trainer.",
+      responseMimeType: "application/json",
+      responseSchema,
+    },
+  });
+  return JSON.parse(response.text?.trim() || '{}');
+};
+
+export const geminiProvider: PlanProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  isRemote: true,
+  // Uses the shared prompt so Gemini sees the user's limitations and any validation feedback.
+  generateWorkoutPlan: (data, bmi, feedback) => requestJson(buildPlanPrompt(data, bmi, feedback), planSchema),
+  suggestExerciseSwaps: (stale, data) => requestJson(buildSwapPrompt(stale, data), swapSchema),
+};
@@ -0,0 +1,28 @@
+import { geminiProvider } from './geminiProvider';
+import { openAiCompatibleProvider } from './openAiCompatibleProvider';
+import { serverProvider } from './serverProvider';
+import { templateProvider } from './templateProvider';
+import { PlanProvider, PlanProviderId } from './types';
+
+export type { Bmi, PlanProvider, PlanProviderId } from './types';
+export { templateProvider };
+
+const PROVIDERS: Record<PlanProviderId, PlanProvider> = {
+  'gemini': geminiProvider,
+  'local-llm': openAiCompatibleProvider,
+  'template': templateProvider,
+  'server': serverProvider,
+};
+
+export const getProvider = (id: PlanProviderId): PlanProvider => PROVIDERS[id];
+
+/**
+ * The provider selected at build time through PLAN_PROVIDER. Builds that talk to the API
+ * server generate there; otherwise unknown values fall back to Gemini, which matches the
+ * behaviour before providers existed.
+ */
+export const getActiveProvider = (): PlanProvider => {
+  if (process.env.USE_API_SERVER === 'true') return serverProvider;
+  const id = process.env.PLAN_PROVIDER as PlanProviderId | undefined;
+  return (id && id !== 'server' && PROVIDERS[id]) || geminiProvider;
+};
@@ -0,0 +1,60 @@
+import { PlanProvider } from './types';
+import { buildPlanPrompt, buildSwapPrompt, PLAN_SHAPE, SWAP_SHAPE } from './prompts';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_MODEL = 'llama3.1';
+
+// Local models often wrap JSON in a markdown fence despite being asked not to.
+const extractJson = (content: string): unknown => {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const text = fenced ? fenced[1] : content;
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) throw new Error('Local model response did not contain JSON');
+  return JSON.parse(text.slice(start, end + 1));
+};
+
+const requestJson = async (prompt: string): Promise<unknown> => {
+  const baseUrl = (process.env.LOCAL_LLM_URL || DEFAULT_BASE_URL).replace(/\/$/, '');
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      model: process.env.LOCAL_LLM_MODEL || DEFAULT_MODEL,
+      temperature: 0.4,
+      response_format: { type: 'json_object' },
+      messages: [
+        { role: 'system', content: 'You are an expert personal trainer. You only answer with valid JSON.' },
+        { role: 'user', content: prompt },
+      ],
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Local model request failed with status ${response.status}`);
+  }
+  const body = await response.json();
+  const content = body?.choices?.[0]?.message?.content;
+  if (typeof content !== 'string') {
+    throw new Error('Local model returned no message content');
+  }
+  return extractJson(content);
+};
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API, such as
+ * Ollama, LM Studio or llama.cpp, configured through LOCAL_LLM_URL and LOCAL_LLM_MODEL.
+ */
+export const openAiCompatibleProvider: PlanProvider = {
+  id: 'local-llm',
+  label: 'Local model',
+  isRemote: true,
+  generateWorkoutPlan: (data, bmi, feedback) => requestJson(`${buildPlanPrompt(data, bmi, feedback)}
+Respond with JSON only, matching this shape:
+${PLAN_SHAPE}
+`),
+  suggestExerciseSwaps: (stale, data) => requestJson(`${buildSwapPrompt(stale, data)}
+Respond with JSON only, matching this shape:
+${SWAP_SHAPE}
+`),
+};
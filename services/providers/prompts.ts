@@ -0,0 +1,54 @@
+import { UserData } from '../../types';
+import { StaleExercise } from '../../utils/progression';
+import { describeLimitations } from '../../utils/limitations';
+import { Bmi } from './types';
+
+// Prompts shared by the providers that talk to a language model. Providers without a
+// structured output mode append the matching *_SHAPE so the model knows what to return.
+
+export const PLAN_SHAPE = `{
+  "summary": string,
+  "totalWeeklyTime": string,
+  "totalWeeklyCaloriesBurned": number,
+  "plan": [{
+    "day": string,
+    "focus": string,
+    "approximateTime": string,
+    "caloriesBurned": number,
+    "muscleGroups": [{
+      "name": string,
+      "exercises": [{ "name": string, "sets": string, "reps": string, "description": string, "targetMuscles": string[] }]
+    }]
+  }]
+}`;
+
+export const buildPlanPrompt = (data: UserData, bmi: Bmi, feedback?: string[]) => `
+Create a one-week workout plan for this person:
+- Gender: ${data.gender}
+- Weight: ${data.weight}
+- Height: ${data.height}
+- BMI: ${bmi ?? 'unknown'}
+- Fitness level: ${data.fitnessLevel}
+- Goal: ${data.goal}
+- Available equipment: ${data.equipment}
+- Maximum session length: ${data.maxSessionTime}
+- Training days: ${data.freeDays.join(', ')}
+${describeLimitations(data).map(line => `- Limitation: ${line}`).join('\n')}
+
+Create exactly one entry in "plan" for each training day, using the day name as "day", in that order.
+No session may take longer than the maximum session length.
+Respect every limitation: leave out exercises that load an injured area or use a movement to avoid, and choose alternatives that train the same muscles.
+${feedback && feedback.length > 0 ? `\nYour previous answer was rejected for these reasons; fix all of them:\n- ${feedback.join('\n- ')}\n` : ''}`;
+
+export const SWAP_SHAPE = `{
+  "substitutes": [{ "name": string, "description": string, "targetMuscles": string[] }]
+}`;
+
+export const buildSwapPrompt = (stale: StaleExercise[], data: UserData) => `
+A ${data.fitnessLevel} trainee with the goal "${data.goal}" has stopped progressing on these exercises:
+${stale.map((item, i) => `${i + 1}. ${item.exercise.name} (targets: ${item.exercise.targetMuscles.join(', ')})`).join('\n')}
+
+Available equipment: ${data.equipment}.
+For each exercise, suggest one substitute that trains the same primary muscles with a different movement or implement.
+Keep descriptions to one or two sentences. Return exactly ${stale.length} substitutes in the same order.
+`;
@@ -0,0 +1,11 @@
+import { apiRequest } from '../apiClient';
+import { PlanProvider } from './types';
+
+// Generation runs on the FitPlan API server, which holds the AI credentials.
+export const serverProvider: PlanProvider = {
+  id: 'server',
+  label: 'FitPlan server',
+  isRemote: true,
+  generateWorkoutPlan: (data, bmi) => apiRequest<unknown>('POST', '/ai/workout-plan', { userData: data, bmi }),
+  suggestExerciseSwaps: (stale, data) => apiRequest<unknown>('POST', '/ai/exercise-swaps', { stale, userData: data }),
+};
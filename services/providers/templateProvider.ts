@@ -0,0 +1,24 @@
+import { equipmentFromText, generateTemplatePlan } from '../../utils/templatePlanGenerator';
+import { findSubstitute } from '../../utils/limitations';
+import { matchExercise, toPlanExercise } from '../../utils/exerciseMatcher';
+import { PlanProvider } from './types';
+
+export const templateProvider: PlanProvider = {
+  id: 'template',
+  label: 'Offline planner',
+  isRemote: false,
+  generateWorkoutPlan: async (data) => generateTemplatePlan(data),
+  // Picks library alternatives instead, never the exercise being replaced or one already picked.
+  suggestExerciseSwaps: async (stale, data) => {
+    const available = equipmentFromText(data.equipment);
+    const used = new Set(stale.map(item => item.exercise.exerciseId ?? matchExercise(item.exercise.name)?.id).filter((id): id is string => !!id));
+    return {
+      substitutes: stale.map(item => {
+        const entry = findSubstitute(item.exercise, '', data, available, used);
+        if (!entry) return null;
+        used.add(entry.id);
+        return toPlanExercise(entry);
+      }),
+    };
+  },
+};
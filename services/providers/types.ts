@@ -0,0 +1,25 @@
+import { UserData } from '../../types';
+import { calculateBMI } from '../../utils/calculateBmi';
+import { StaleExercise } from '../../utils/progression';
+
+export type PlanProviderId = 'gemini' | 'local-llm' | 'template' | 'server';
+
+export type Bmi = ReturnType<typeof calculateBMI>;
+
+export interface PlanProvider {
+  id: PlanProviderId;
+  label: string;
+  /** True when the provider needs a network connection or a running model server. */
+  isRemote: boolean;
+  /**
+   * Returns the raw plan response. Callers validate it before use, so providers only
+   * need to return something shaped like a GeneratedPlan. `feedback` lists problems
+   * with the previous attempt, for providers that can pass them back to the model.
+   */
+  generateWorkoutPlan: (data: UserData, bmi: Bmi, feedback?: string[]) => Promise<unknown>;
+  /**
+   * Returns the raw `{ substitutes }` response with one replacement per stalled exercise, in
+   * order. Callers validate it with validateExerciseSwaps.
+   */
+  suggestExerciseSwaps: (stale: StaleExercise[], data: UserData) => Promise<unknown>;
+}
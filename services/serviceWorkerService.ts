@@ -0,0 +1,13 @@
+const SERVICE_WORKER_URL = '/sw.js';
+
+/**
+ * Registers the service worker that caches the app shell for offline use. Only production
+ * builds register it: in development it would serve stale modules over Vite's hot reload.
+ */
+export const registerServiceWorker = () => {
+  if (process.env.ENABLE_SERVICE_WORKER !== 'true' || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(SERVICE_WORKER_URL)
+      .catch(e => console.warn('Service worker registration failed; the app will not work offline', e));
+  });
+};
@@ -0,0 +1,395 @@
+import { BodyMeasurement, GeneratedDietPlan, WorkoutLog } from '../types';
+import * as apiDb from './apiDbService';
+import type { VersionedProfile } from './apiDbService';
+import type { StoredProfile } from './dbService';
+import { ApiError } from './apiClient';
+import { mergeProfiles, mergeWorkoutLogs, resolveConflictValue, SyncConflict } from '../utils/syncMerge';
+
+const SYNC_KEY_PREFIX = 'fitplan_sync_';
+const MAX_SAVE_ATTEMPTS = 3;
+
+type PendingMeasurement =
+  | { type: 'save'; measurement: BodyMeasurement }
+  | { type: 'delete'; id: string };
+
+interface SyncRecord {
+  /** Last profile the server confirmed; the common ancestor when merging. */
+  base: VersionedProfile | null;
+  /** What this device shows; ahead of base while profileDirty. */
+  local: VersionedProfile | null;
+  profileDirty: boolean;
+  pendingLogs: WorkoutLog[];
+  /** Server logs as last fetched, for reading while offline. */
+  syncedLogs: WorkoutLog[];
+  /** Diet plans are replaced whole, so the latest save simply wins on the server. */
+  dietPlan: GeneratedDietPlan | null;
+  dietPlanDirty: boolean;
+  pendingMeasurements: PendingMeasurement[];
+  syncedMeasurements: BodyMeasurement[];
+  conflicts: SyncConflict[];
+  lastSyncedAt: number | null;
+}
+
+export interface SyncStatus {
+  online: boolean;
+  syncing: boolean;
+  pendingChanges: number;
+  conflicts: SyncConflict[];
+  lastSyncedAt: number | null;
+  /** Why the last background refresh failed, until one succeeds. */
+  error: string | null;
+}
+
+const emptyRecord = (): SyncRecord => ({
+  base: null, local: null, profileDirty: false, pendingLogs: [], syncedLogs: [],
+  dietPlan: null, dietPlanDirty: false, pendingMeasurements: [], syncedMeasurements: [], conflicts: [], lastSyncedAt: null,
+});
+
+const records = new Map<string, SyncRecord>();
+let activeUser: string | null = null;
+let flushing: Promise<void> | null = null;
+let listenersAttached = false;
+let refreshError: string | null = null;
+const statusListeners = new Set<(status: SyncStatus) => void>();
+const profileListeners = new Set<(profile: StoredProfile) => void>();
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+const load = (username: string): SyncRecord => {
+  let record = records.get(username);
+  if (!record) {
+    try {
+      const raw = localStorage.getItem(SYNC_KEY_PREFIX + username);
+      record = raw ? { ...emptyRecord(), ...JSON.parse(raw) } : emptyRecord();
+    } catch {
+      record = emptyRecord();
+    }
+    records.set(username, record!);
+  }
+  return record!;
+};
+
+const persist = (username: string) => {
+  localStorage.setItem(SYNC_KEY_PREFIX + username, JSON.stringify(load(username)));
+};
+
+export const getSyncStatus = (): SyncStatus => {
+  const record = activeUser ? load(activeUser) : emptyRecord();
+  return {
+    online: isOnline(),
+    syncing: flushing !== null,
+    pendingChanges: record.pendingLogs.length + record.pendingMeasurements.length
+      + (record.profileDirty ? 1 : 0) + (record.dietPlanDirty ? 1 : 0),
+    conflicts: record.conflicts,
+    lastSyncedAt: record.lastSyncedAt,
+    error: refreshError,
+  };
+};
+
+const notifyStatus = () => {
+  const status = getSyncStatus();
+  statusListeners.forEach(l => l(status));
+};
+
+const notifyProfile = (profile: VersionedProfile | null) => {
+  if (!profile) return;
+  const { version: _version, ...stored } = profile;
+  profileListeners.forEach(l => l(stored));
+};
+
+/** Subscribes to queue and conflict changes; returns the unsubscribe function. */
+export const subscribe = (listener: (status: SyncStatus) => void) => {
+  statusListeners.add(listener);
+  return () => { statusListeners.delete(listener); };
+};
+
+/** Called when a merge with another device's changes altered the profile on this device. */
+export const onProfileChanged = (listener: (profile: StoredProfile) => void) => {
+  profileListeners.add(listener);
+  return () => { profileListeners.delete(listener); };
+};
+
+// Offline, timeouts, server errors and an expired session are worth retrying later; a 400
+// means the change itself is unacceptable and would be rejected forever.
+const isRetryable = (err: unknown) => !(err instanceof ApiError) || err.status === 401 || err.status === 408 || err.status === 429 || err.status >= 500;
+
+const withoutVersion = (profile: VersionedProfile | null) => {
+  if (!profile) return null;
+  const { version: _version, ...rest } = profile;
+  return rest;
+};
+
+const sameProfile = (a: VersionedProfile | null, b: VersionedProfile | null) =>
+  JSON.stringify(withoutVersion(a)) === JSON.stringify(withoutVersion(b));
+
+/**
+ * Folds the server's profile into the record. Without local edits the server copy simply
+ * wins; with local edits the three are merged and any real conflicts are queued for the user.
+ */
+const receiveRemote = (record: SyncRecord, remote: VersionedProfile | null) => {
+  if (!remote) {
+    // Nothing on the server yet (first sync of a device's data): upload what we have.
+    record.base = null;
+    if (record.local) record.profileDirty = true;
+    return;
+  }
+  if (!record.profileDirty || !record.local) {
+    const changed = !sameProfile(record.local, remote);
+    record.base = remote;
+    record.local = remote;
+    if (changed) notifyProfile(remote);
+    return;
+  }
+  if (remote.version === record.base?.version) return;
+
+  const { merged, conflicts } = mergeProfiles(withoutVersion(record.base), withoutVersion(record.local)!, withoutVersion(remote)!);
+  const paths = new Set(conflicts.map(c => c.path));
+  record.conflicts = [...record.conflicts.filter(c => !paths.has(c.path)), ...conflicts];
+  const before = record.local;
+  record.base = remote;
+  record.local = { ...merged, version: remote.version };
+  record.profileDirty = !sameProfile(record.local, remote);
+  if (!sameProfile(before, record.local)) notifyProfile(record.local);
+};
+
+const pushLogs = async (record: SyncRecord) => {
+  while (record.pendingLogs.length > 0) {
+    const log = record.pendingLogs[0];
+    try {
+      await apiDb.addWorkoutLog({ ...log, username: activeUser! });
+      record.syncedLogs = mergeWorkoutLogs([log], record.syncedLogs);
+    } catch (e) {
+      if (isRetryable(e)) throw e;
+      console.error('Dropping workout log the server rejected', log, e);
+    }
+    record.pendingLogs.shift();
+  }
+};
+
+const applyMeasurementChange = (measurements: BodyMeasurement[], change: PendingMeasurement) =>
+  change.type === 'save'
+    ? [...measurements.filter(m => m.id !== change.measurement.id), change.measurement]
+    : measurements.filter(m => m.id !== change.id);
+
+const pushMeasurements = async (record: SyncRecord) => {
+  while (record.pendingMeasurements.length > 0) {
+    const change = record.pendingMeasurements[0];
+    try {
+      if (change.type === 'save') {
+        await apiDb.saveMeasurement(activeUser!, change.measurement);
+      } else {
+        await apiDb.deleteMeasurement(activeUser!, change.id);
+      }
+      record.syncedMeasurements = applyMeasurementChange(record.syncedMeasurements, change);
+    } catch (e) {
+      if (isRetryable(e)) throw e;
+      console.error('Dropping measurement change the server rejected', change, e);
+    }
+    record.pendingMeasurements.shift();
+  }
+};
+
+const pushDietPlan = async (record: SyncRecord) => {
+  if (!record.dietPlanDirty || !record.dietPlan) return;
+  try {
+    await apiDb.saveDietPlan(activeUser!, record.dietPlan);
+  } catch (e) {
+    if (isRetryable(e)) throw e;
+    console.error('The server rejected the diet plan', e);
+  }
+  record.dietPlanDirty = false;
+};
+
+const pushProfile = async (record: SyncRecord) => {
+  for (let attempt = 0; attempt < MAX_SAVE_ATTEMPTS && record.profileDirty && record.local; attempt++) {
+    const sent = record.local;
+    try {
+      const { version } = await apiDb.saveProfile({ ...sent, version: record.base?.version ?? null });
+      record.base = { ...sent, version };
+      if (record.local === sent) {
+        record.local = record.base;
+        record.profileDirty = false;
+      }
+    } catch (e) {
+      if (e instanceof ApiError && e.status === 409) {
+        receiveRemote(record, e.body?.current ?? null);
+        continue;
+      }
+      if (isRetryable(e)) throw e;
+      console.error('The server rejected the profile; keeping its copy', e);
+      record.local = record.base;
+      record.profileDirty = false;
+      notifyProfile(record.local);
+    }
+  }
+};
+
+/**
+ * Sends queued logs and the pending profile to the server. Safe to call at any time: it is
+ * a no-op while offline and concurrent calls share one run.
+ */
+export const flush = (): Promise<void> => {
+  if (flushing) return flushing;
+  if (!activeUser || !isOnline()) return Promise.resolve();
+  const username = activeUser;
+  const record = load(username);
+
+  flushing = (async () => {
+    try {
+      await pushLogs(record);
+      await pushMeasurements(record);
+      await pushDietPlan(record);
+      await pushProfile(record);
+      if (!record.profileDirty) record.lastSyncedAt = Date.now();
+    } catch (e) {
+      console.warn('Sync paused; changes stay queued', e);
+    } finally {
+      persist(username);
+      flushing = null;
+      notifyStatus();
+    }
+  })();
+  notifyStatus();
+  return flushing;
+};
+
+/** Pulls the server's profile (picking up edits from other devices) and pushes local changes. */
+export const refresh = async (): Promise<void> => {
+  if (!activeUser || !isOnline()) return notifyStatus();
+  const record = load(activeUser);
+  try {
+    receiveRemote(record, await apiDb.getProfile(activeUser));
+    persist(activeUser);
+    refreshError = null;
+  } catch (e) {
+    if (!isRetryable(e)) throw e;
+  }
+  await flush();
+};
+
+// Nobody awaits the refreshes the browser triggers, so their failures are shown in the status.
+const refreshInBackground = () => {
+  refresh().catch(e => {
+    console.error('Refreshing from the server failed', e);
+    refreshError = e instanceof Error ? e.message : 'Could not sync with the server.';
+    notifyStatus();
+  });
+};
+
+const attachListeners = () => {
+  if (listenersAttached || typeof window === 'undefined') return;
+  listenersAttached = true;
+  window.addEventListener('online', refreshInBackground);
+  window.addEventListener('offline', notifyStatus);
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible') refreshInBackground();
+  });
+};
+
+export const getProfile = async (username: string): Promise<StoredProfile | null> => {
+  activeUser = username;
+  attachListeners();
+  await refresh();
+  return withoutVersion(load(username).local) as StoredProfile | null;
+};
+
+export const saveProfile = async (profile: StoredProfile): Promise<void> => {
+  const record = load(profile.username);
+  if (sameProfile(record.local, profile)) return;
+  record.local = { ...profile, version: record.base?.version ?? null };
+  record.profileDirty = true;
+  persist(profile.username);
+  notifyStatus();
+  flush();
+};
+
+export const getWorkoutLogs = async (username: string): Promise<WorkoutLog[]> => {
+  const record = load(username);
+  if (isOnline()) {
+    try {
+      record.syncedLogs = await apiDb.getWorkoutLogs(username);
+      persist(username);
+    } catch (e) {
+      if (!isRetryable(e)) throw e;
+    }
+  }
+  return mergeWorkoutLogs(record.pendingLogs, record.syncedLogs);
+};
+
+export const addWorkoutLog = async (log: WorkoutLog & { username: string }): Promise<void> => {
+  const { username, ...entry } = log;
+  const record = load(username);
+  record.pendingLogs.push({ ...entry, id: entry.id ?? crypto.randomUUID() });
+  persist(username);
+  notifyStatus();
+  flush();
+};
+
+export const getDietPlan = async (username: string): Promise<GeneratedDietPlan | null> => {
+  const record = load(username);
+  // While a save is queued this device's copy is newer than the server's.
+  if (isOnline() && !record.dietPlanDirty) {
+    try {
+      record.dietPlan = await apiDb.getDietPlan(username);
+      persist(username);
+    } catch (e) {
+      if (!isRetryable(e)) throw e;
+    }
+  }
+  return record.dietPlan;
+};
+
+export const saveDietPlan = async (username: string, plan: GeneratedDietPlan): Promise<void> => {
+  const record = load(username);
+  record.dietPlan = plan;
+  record.dietPlanDirty = true;
+  persist(username);
+  notifyStatus();
+  flush();
+};
+
+export const getMeasurements = async (username: string): Promise<BodyMeasurement[]> => {
+  const record = load(username);
+  if (isOnline()) {
+    try {
+      record.syncedMeasurements = await apiDb.getMeasurements(username);
+      persist(username);
+    } catch (e) {
+      if (!isRetryable(e)) throw e;
+    }
+  }
+  return record.pendingMeasurements.reduce(applyMeasurementChange, record.syncedMeasurements);
+};
+
+const queueMeasurementChange = (username: string, change: PendingMeasurement) => {
+  load(username).pendingMeasurements.push(change);
+  persist(username);
+  notifyStatus();
+  flush();
+};
+
+export const saveMeasurement = async (username: string, measurement: BodyMeasurement): Promise<void> =>
+  queueMeasurementChange(username, { type: 'save', measurement });
+
+export const deleteMeasurement = async (username: string, id: string): Promise<void> =>
+  queueMeasurementChange(username, { type: 'delete', id });
+
+/**
+ * Settles a conflict. Choosing the remote value needs no write because the merged profile
+ * already holds it; choosing this device's value is saved like any other edit.
+ */
+export const resolveConflict = (conflictId: string, choice: 'local' | 'remote') => {
+  if (!activeUser) return;
+  const record = load(activeUser);
+  const conflict = record.conflicts.find(c => c.id === conflictId);
+  if (!conflict) return;
+  record.conflicts = record.conflicts.filter(c => c.id !== conflictId);
+  if (choice === 'local' && record.local) {
+    record.local = resolveConflictValue(record.local, conflict, 'local');
+    record.profileDirty = true;
+    notifyProfile(record.local);
+  }
+  persist(activeUser);
+  notifyStatus();
+  flush();
+};
@@ -1,3 +1,29 @@
+export type DietaryRestriction = 'vegetarian' | 'vegan' | 'pescatarian' | 'halal' | 'kosher' | 'lactose-free' | 'gluten-free';
+
+export type Allergen = 'gluten' | 'dairy' | 'eggs' | 'peanuts' | 'tree-nuts' | 'soy' | 'fish' | 'shellfish' | 'sesame';
+
+export type UnitSystem = 'metric' | 'imperial';
+
+export type BodyArea = 'neck' | 'shoulder' | 'elbow' | 'wrist' | 'upper-back' | 'lower-back' | 'hip' | 'knee' | 'ankle';
+
+export type MovementPattern =
+  | 'overhead-pressing' | 'deep-squatting' | 'lunging' | 'hip-hinging' | 'spinal-loading'
+  | 'spinal-flexion' | 'twisting' | 'hanging' | 'dips' | 'weight-on-hands' | 'explosive';
+
+export interface Limitation {
+  area: BodyArea;
+  // 'caution' flags exercises that load the area; 'avoid' replaces them.
+  severity: 'caution' | 'avoid';
+  note?: string;
+}
+
+export interface WorkoutPlayerSettings {
+  compoundRestSeconds: number;
+  isolationRestSeconds: number;
+  sound: boolean;
+  vibration: boolean;
+}
+
 export interface UserData {
   name: string;
   weight: string;
@@ -8,14 +34,35 @@ export interface UserData {
   goal: string;
   equipment: string;
   maxSessionTime: string;
+  // Diet preferences are optional so profiles saved before they existed still load.
+  dietaryRestrictions?: DietaryRestriction[];
+  allergens?: Allergen[];
+  dislikedFoods?: string[];
+  mealsPerDay?: number; // 3-5; 4 when not set
+  targetWeight?: number; // kg, for goal projections
+  units?: UnitSystem; // how body metrics are shown and bare numbers read; metric when not set
+  workoutPlayer?: WorkoutPlayerSettings; // rest times and cues for guided workouts
+  limitations?: Limitation[]; // injuries or limitations by body area
+  avoidPatterns?: MovementPattern[]; // movements never to prescribe, whatever the body area
+  includeWarmUp?: boolean; // add a warm-up and mobility block to every session
+}
+
+/** Why an exercise was changed or flagged to respect the user's limitations. */
+export interface LimitationAdjustment {
+  type: 'substituted' | 'flagged';
+  reason: string;
+  original?: string; // name of the exercise it replaced, for substitutions
 }
 
 export interface Exercise {
+  exerciseId?: string; // canonical id from the exercise library, when the name could be matched
   name: string;
   sets: string;
   reps: string;
   description: string;
   targetMuscles: string[];
+  targetWeight?: number; // kg, set by progression once a working weight has been logged
+  adjustment?: LimitationAdjustment;
 }
 
 export interface MuscleGroup {
@@ -29,39 +76,114 @@ export interface DailyWorkout {
   focus: string;
   approximateTime: string;
   caloriesBurned: number;
+  warmUp?: WarmUpDrill[];
+}
+
+export interface WarmUpDrill {
+  name: string;
+  duration: string;
+  description: string;
 }
 
 export type WorkoutPlan = DailyWorkout[];
 
+export interface ScheduledSession {
+  day: string; // matches DailyWorkout.day
+  date: string; // local calendar date, YYYY-MM-DD
+}
+
 export interface GeneratedPlan {
   plan: WorkoutPlan;
   summary: string;
   totalWeeklyTime: string;
   totalWeeklyCaloriesBurned: number;
   completedDays?: string[];
+  week?: number;
+  schedule?: ScheduledSession[];
+}
+
+export type PlanVersionSource = 'ai' | 'manual-edit' | 'progression' | 'restore';
+
+export interface PlanVersion {
+  id: string;
+  createdAt: string; // ISO string
+  source: PlanVersionSource;
+  provider?: string; // plan provider label, for AI-generated versions
+  parentId?: string; // version this one was restored or forked from
+  userData: UserData; // inputs the plan was built for
+  plan: GeneratedPlan;
+}
+
+export interface SetLog {
+  setNumber: number;
+  reps: number | null;
+  weight: number | null; // kg
+  rpe: number | null;
+  skipped: boolean;
+}
+
+export interface ExerciseLog {
+  exerciseId?: string;
+  exerciseName: string;
+  muscleGroup: string;
+  targetSets: string;
+  targetReps: string;
+  sets: SetLog[];
+  notes?: string;
 }
 
 export interface WorkoutLog {
+  id?: string; // client-generated, so the same log is never stored twice when syncing
   date: string; // ISO string
   dayName: string;
   focus: string;
   caloriesBurned: number;
+  exerciseLogs?: ExerciseLog[];
+}
+
+export type BodyMetric = 'weight' | 'bodyFat' | 'waist' | 'hips' | 'chest';
+
+// Stored in metric units whatever the user typed them in; see utils/units.
+export interface BodyMeasurement {
+  id: string;
+  date: string; // local calendar date, YYYY-MM-DD
+  weight?: number; // kg
+  bodyFat?: number; // %
+  waist?: number; // cm
+  hips?: number; // cm
+  chest?: number; // cm
+  height?: number; // cm
+  notes?: string;
 }
 
 // Diet Plan Types
+export interface MealIngredient {
+  foodId: string; // id in data/foodDatabase
+  name: string;
+  grams: number;
+}
+
 export interface Meal {
   name: string;
   description: string;
   calories: number;
+  // When a meal lists its ingredients, calories and macros are computed from the food database.
+  ingredients?: MealIngredient[];
+  protein?: number; // g
+  carbs?: number; // g
+  fat?: number; // g
 }
 
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner' | 'snack' | 'secondSnack';
+
 export interface DailyDiet {
   day: string;
   meals: {
     breakfast: Meal;
     lunch: Meal;
     dinner: Meal;
-    snack: Meal;
+    snack?: Meal; // absent on three-meal days
+    secondSnack?: Meal; // only on five-meal days
   };
   dailyTotals: {
     calories: number;
@@ -83,7 +205,18 @@ export interface GeneratedDietPlan {
   disclaimer: string;
 }
 
+// Coaches can create client accounts and manage their plans; everyone else is a 'user'.
+export type UserRole = 'user' | 'coach';
+
 export interface User {
   username: string;
-  password?: string; // Stored plaintext for this mock version. DO NOT DO THIS IN PRODUCTION.
+  role?: UserRole;
+}
+
+/** A plan a coach keeps for reuse and can assign to any of their clients. */
+export interface PlanTemplate {
+  id: string;
+  name: string;
+  createdAt: string; // ISO string
+  plan: GeneratedPlan;
 }
\ No newline at end of file
@@ -0,0 +1,225 @@
+import { BodyMeasurement, ExerciseLog, GeneratedDietPlan, GeneratedPlan, PlanVersion, PlanVersionSource, SetLog, UserData, WorkoutLog } from '../types';
+import { validateStoredPlan, validateUserData } from './planValidation';
+import { validateGeneratedDietPlan } from './dietValidation';
+import { validateBodyMeasurement } from './measurementValidation';
+import { isRecord, ValidationIssue, ValidationResult } from './validation';
+import { buildExerciseHistory } from './exerciseHistory';
+
+export const ACCOUNT_EXPORT_FORMAT = 'fitplan-account';
+export const ACCOUNT_SCHEMA_VERSION = 2;
+
+export interface AccountData {
+  userData: UserData | null;
+  workoutPlan: GeneratedPlan | null;
+  workoutLogs: WorkoutLog[];
+  dietPlan: GeneratedDietPlan | null;
+  planVersions: PlanVersion[];
+  bodyMeasurements: BodyMeasurement[];
+}
+
+export interface AccountExport extends AccountData {
+  format: typeof ACCOUNT_EXPORT_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  username: string;
+}
+
+export const createAccountExport = (username: string, data: AccountData, now: Date = new Date()): AccountExport => ({
+  format: ACCOUNT_EXPORT_FORMAT,
+  schemaVersion: ACCOUNT_SCHEMA_VERSION,
+  exportedAt: now.toISOString(),
+  username,
+  ...data,
+});
+
+// Import files are untrusted: everything is read as unknown and narrowed field by field.
+/**
+ * Upgrades an export one schema version at a time; MIGRATIONS[n] turns version n into n + 1.
+ * Version 0 is a bare StoredProfile as kept in browser storage before exports existed.
+ */
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  0: profile => ({
+    format: ACCOUNT_EXPORT_FORMAT,
+    schemaVersion: 1,
+    exportedAt: new Date().toISOString(),
+    username: profile.username ?? '',
+    userData: profile.userData ?? null,
+    workoutPlan: profile.workoutPlan ?? null,
+    workoutLogs: [],
+    dietPlan: null,
+    planVersions: [],
+  }),
+  // Version 2 added body measurements.
+  1: data => ({ ...data, schemaVersion: 2, bodyMeasurements: [] }),
+};
+
+const detectSchemaVersion = (raw: Record<string, unknown>): number | null => {
+  if (raw.format === ACCOUNT_EXPORT_FORMAT) return typeof raw.schemaVersion === 'number' ? raw.schemaVersion : null;
+  if ('userData' in raw && 'workoutPlan' in raw) return 0;
+  return null;
+};
+
+const validateSet = (raw: unknown, index: number): SetLog | null => {
+  if (!isRecord(raw)) return null;
+  const num = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) && v >= 0 ? v : null);
+  return {
+    setNumber: typeof raw.setNumber === 'number' ? raw.setNumber : index + 1,
+    reps: num(raw.reps),
+    weight: num(raw.weight),
+    rpe: num(raw.rpe),
+    skipped: raw.skipped === true,
+  };
+};
+
+const validateExerciseLog = (raw: unknown): ExerciseLog | null => {
+  if (!isRecord(raw) || typeof raw.exerciseName !== 'string' || !Array.isArray(raw.sets)) return null;
+  return {
+    ...(typeof raw.exerciseId === 'string' ? { exerciseId: raw.exerciseId } : {}),
+    exerciseName: raw.exerciseName,
+    muscleGroup: String(raw.muscleGroup ?? ''),
+    targetSets: String(raw.targetSets ?? ''),
+    targetReps: String(raw.targetReps ?? ''),
+    sets: raw.sets.map(validateSet).filter((s): s is SetLog => s !== null),
+    ...(typeof raw.notes === 'string' && raw.notes ? { notes: raw.notes } : {}),
+  };
+};
+
+const validateWorkoutLog = (raw: unknown): WorkoutLog | null => {
+  if (!isRecord(raw) || typeof raw.date !== 'string' || Number.isNaN(Date.parse(raw.date))) return null;
+  const exerciseLogs = Array.isArray(raw.exerciseLogs)
+    ? raw.exerciseLogs.map(validateExerciseLog).filter((l): l is ExerciseLog => l !== null)
+    : [];
+  return {
+    // Logs exported before sync existed have no id; give them one so re-importing is idempotent.
+    id: typeof raw.id === 'string' && raw.id ? raw.id : `import-${raw.date}-${raw.dayName ?? ''}`,
+    date: new Date(raw.date).toISOString(),
+    dayName: String(raw.dayName ?? ''),
+    focus: String(raw.focus ?? ''),
+    caloriesBurned: typeof raw.caloriesBurned === 'number' && raw.caloriesBurned >= 0 ? raw.caloriesBurned : 0,
+    ...(exerciseLogs.length > 0 ? { exerciseLogs } : {}),
+  };
+};
+
+const PLAN_VERSION_SOURCES: PlanVersionSource[] = ['ai', 'manual-edit', 'progression', 'restore'];
+
+// Built field by field so nothing but the PlanVersion shape is persisted and synced.
+const isPlanVersionSource = (value: unknown): value is PlanVersionSource =>
+  PLAN_VERSION_SOURCES.includes(value as PlanVersionSource);
+
+const validatePlanVersion = (raw: unknown): PlanVersion | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || !raw.id) return null;
+  if (typeof raw.createdAt !== 'string' || Number.isNaN(Date.parse(raw.createdAt))) return null;
+  if (!isPlanVersionSource(raw.source)) return null;
+  const plan = validateStoredPlan(raw.plan).value;
+  const userData = validateUserData(raw.userData).value;
+  if (!plan || !userData) return null;
+  return {
+    id: raw.id,
+    createdAt: raw.createdAt,
+    source: raw.source,
+    ...(typeof raw.provider === 'string' && raw.provider ? { provider: raw.provider } : {}),
+    ...(typeof raw.parentId === 'string' && raw.parentId ? { parentId: raw.parentId } : {}),
+    userData,
+    plan,
+  };
+};
+
+/**
+ * Parses an account export, migrating old schema versions and validating every part. A
+ * profile, plan or diet plan that cannot be repaired rejects the whole import so nothing is
+ * half-written; individual malformed logs or history entries are dropped and reported.
+ */
+export const parseAccountImport = (text: string): ValidationResult<AccountData> & { sourceVersion: number | null } => {
+  const errors: ValidationIssue[] = [];
+  const repairs: ValidationIssue[] = [];
+  const fail = (path: string, message: string) => ({ value: null, errors: [...errors, { path, message }], repairs, sourceVersion: null });
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return fail('file', 'is not valid JSON');
+  }
+  if (!isRecord(raw)) return fail('file', 'is not a FitPlan export');
+
+  const sourceVersion = detectSchemaVersion(raw);
+  if (sourceVersion === null) return fail('file', 'is not a FitPlan export');
+  if (sourceVersion > ACCOUNT_SCHEMA_VERSION) {
+    return fail('schemaVersion', `was written by a newer version of FitPlan (${sourceVersion}); please update the app first`);
+  }
+  let data: Record<string, unknown> = raw;
+  for (let version = sourceVersion; version < ACCOUNT_SCHEMA_VERSION; version++) {
+    data = MIGRATIONS[version](data);
+    repairs.push({ path: 'schemaVersion', message: `upgraded from version ${version} to ${version + 1}` });
+  }
+
+  const collect = <T>(result: ValidationResult<T>, prefix: string): T | null => {
+    errors.push(...result.errors.map(i => ({ ...i, path: `${prefix}.${i.path}` })));
+    repairs.push(...result.repairs.map(i => ({ ...i, path: `${prefix}.${i.path}` })));
+    return result.value;
+  };
+
+  const userData = data.userData == null ? null : collect(validateUserData(data.userData), 'profile');
+  const workoutPlan = data.workoutPlan == null ? null : collect(validateStoredPlan(data.workoutPlan), 'workoutPlan');
+  const dietPlan = data.dietPlan == null ? null : collect(validateGeneratedDietPlan(data.dietPlan), 'dietPlan');
+  if (workoutPlan && !userData) errors.push({ path: 'profile', message: 'is missing, but the export contains a workout plan' });
+
+  const rawLogs: unknown[] = Array.isArray(data.workoutLogs) ? data.workoutLogs : [];
+  const workoutLogs = rawLogs.map(validateWorkoutLog).filter((l): l is WorkoutLog => l !== null);
+  if (workoutLogs.length < rawLogs.length) {
+    repairs.push({ path: 'workoutLogs', message: `skipped ${rawLogs.length - workoutLogs.length} malformed log(s)` });
+  }
+
+  const rawVersions: unknown[] = Array.isArray(data.planVersions) ? data.planVersions : [];
+  const planVersions = rawVersions.map(validatePlanVersion).filter((v): v is PlanVersion => v !== null);
+  if (planVersions.length < rawVersions.length) {
+    repairs.push({ path: 'planVersions', message: `skipped ${rawVersions.length - planVersions.length} malformed version(s)` });
+  }
+
+  const rawMeasurements: unknown[] = Array.isArray(data.bodyMeasurements) ? data.bodyMeasurements : [];
+  const bodyMeasurements = rawMeasurements
+    .map(m => validateBodyMeasurement(m).value)
+    .filter((m): m is BodyMeasurement => m !== null);
+  if (bodyMeasurements.length < rawMeasurements.length) {
+    repairs.push({ path: 'bodyMeasurements', message: `skipped ${rawMeasurements.length - bodyMeasurements.length} malformed measurement(s)` });
+  }
+
+  if (errors.length > 0) return { value: null, errors, repairs, sourceVersion };
+  return { value: { userData, workoutPlan, workoutLogs, dietPlan, planVersions, bodyMeasurements }, errors, repairs, sourceVersion };
+};
+
+// RFC 4180 quoting, plus a leading apostrophe on text that a spreadsheet would run as a formula.
+const csvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: unknown[][]) =>
+  [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+
+/** One row per logged set, so every number a user entered ends up in the spreadsheet. */
+export const workoutLogsToCsv = (logs: WorkoutLog[]): string => {
+  const rows = logs.flatMap(log => {
+    if (!log.exerciseLogs || log.exerciseLogs.length === 0) {
+      return [[log.date, log.dayName, log.focus, log.caloriesBurned, '', '', '', '', '', '', '', '']];
+    }
+    return log.exerciseLogs.flatMap(ex => ex.sets.map(set => [
+      log.date, log.dayName, log.focus, log.caloriesBurned,
+      ex.exerciseName, ex.muscleGroup, set.setNumber, set.reps, set.weight, set.rpe, set.skipped ? 'yes' : 'no', ex.notes ?? '',
+    ]));
+  });
+  return toCsv(
+    ['date', 'day', 'focus', 'calories_burned', 'exercise', 'muscle_group', 'set', 'reps', 'weight_kg', 'rpe', 'skipped', 'notes'],
+    rows,
+  );
+};
+
+/** One row per exercise per session, with the summary numbers the progress view shows. */
+export const exerciseHistoryToCsv = (logs: WorkoutLog[]): string => {
+  const rows = buildExerciseHistory(logs).flatMap(history => history.sessions.map(session => [
+    history.name, session.date, session.dayName, session.completedSets, session.totalReps, session.topWeight, session.volume,
+  ]));
+  return toCsv(['exercise', 'date', 'day', 'completed_sets', 'total_reps', 'top_weight_kg', 'volume_kg'], rows);
+};
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { ExerciseLog, SetLog, UserData, WorkoutLog } from '../types';
+import { computeAdherence, findUndertrainedGroups, strengthTrends, weeklyGroupStats, weekStartOf } from './analytics';
+
+const userData: UserData = {
+  name: 'Sam',
+  weight: '78',
+  height: '180',
+  freeDays: ['Monday', 'Thursday'],
+  gender: 'male',
+  fitnessLevel: 'intermediate',
+  goal: 'Build strength',
+  equipment: 'Barbell, bench',
+  maxSessionTime: '1 hour',
+};
+
+// Log dates are full timestamps; noon local time keeps each on its calendar day in any zone.
+const noon = (iso: string) => new Date(`${iso}T12:00:00`);
+
+const sets = (count: number, reps: number, weight: number | null, skipped = 0): SetLog[] =>
+  Array.from({ length: count + skipped }, (_, i) => ({ setNumber: i + 1, reps, weight, rpe: null, skipped: i >= count }));
+
+const exercise = (exerciseName: string, muscleGroup: string, setLogs: SetLog[]): ExerciseLog =>
+  ({ exerciseName, muscleGroup, targetSets: String(setLogs.length), targetReps: '8', sets: setLogs });
+
+const session = (iso: string, exerciseLogs: ExerciseLog[] = []): WorkoutLog =>
+  ({ date: noon(iso).toISOString(), dayName: 'Monday', focus: 'Full Body', caloriesBurned: 300, exerciseLogs });
+
+describe('weeklyGroupStats', () => {
+  it('returns empty weeks ending with the current one when nothing is logged', () => {
+    const weeks = weeklyGroupStats([], null, 4, noon('2026-10-21'));
+    expect(weeks.map(w => w.weekStart)).toEqual(['2026-09-28', '2026-10-05', '2026-10-12', '2026-10-19']);
+    expect(weeks.every(w => w.sessions === 0 && Object.values(w.sets).every(s => s === 0) && Object.values(w.volume).every(v => v === 0))).toBe(true);
+  });
+
+  it('credits completed sets and volume to primary and secondary muscle groups', () => {
+    const logs = [
+      session('2026-10-19', [exercise('Barbell Bench Press', 'Chest', sets(3, 8, 60, 1))]),
+      session('2026-10-22', [exercise('Sled Push', 'Legs', sets(2, 10, 40))]),
+    ];
+    const [lastWeek, thisWeek] = weeklyGroupStats(logs, null, 2, noon('2026-10-23'));
+
+    expect(lastWeek.sessions).toBe(0);
+    expect(thisWeek.sessions).toBe(2);
+    expect(thisWeek.sets).toMatchObject({ Chest: 3, Arms: 1.5, Shoulders: 1.5, Legs: 2, Back: 0 });
+    expect(thisWeek.volume).toMatchObject({ Chest: 1440, Arms: 720, Shoulders: 720, Legs: 800 });
+  });
+
+  it('ignores sessions outside the window', () => {
+    const weeks = weeklyGroupStats([session('2026-08-03', [exercise('Barbell Bench Press', 'Chest', sets(3, 8, 60))])], null, 4, noon('2026-10-21'));
+    expect(weeks.every(w => w.sessions === 0)).toBe(true);
+  });
+
+  it('starts weeks on Monday', () => {
+    expect(weekStartOf('2026-10-25')).toBe('2026-10-19');
+    expect(weekStartOf('2026-10-19')).toBe('2026-10-19');
+  });
+});
+
+describe('findUndertrainedGroups', () => {
+  it('flags nothing before the first logged session', () => {
+    expect(findUndertrainedGroups(weeklyGroupStats([], null))).toEqual([]);
+  });
+});
+
+describe('computeAdherence', () => {
+  it('has no rate or streak without logs or training days', () => {
+    const empty = { rate: null, weeks: [], currentStreak: 0, longestStreak: 0 };
+    expect(computeAdherence([], userData, 8, noon('2026-10-21'))).toEqual(empty);
+    expect(computeAdherence([session('2026-10-19')], { ...userData, freeDays: [] }, 8, noon('2026-10-21'))).toEqual(empty);
+  });
+
+  it('counts weeks where every scheduled session was done towards streaks', () => {
+    const logs = ['2026-09-28', '2026-10-01', '2026-10-05', '2026-10-12', '2026-10-15', '2026-10-19'].map(d => session(d));
+    const stats = computeAdherence(logs, userData, 8, noon('2026-10-20'));
+
+    expect(stats.weeks).toEqual([
+      { weekStart: '2026-09-28', scheduled: 2, completed: 2 },
+      { weekStart: '2026-10-05', scheduled: 2, completed: 1 },
+      { weekStart: '2026-10-12', scheduled: 2, completed: 2 },
+      // Thursday is still to come.
+      { weekStart: '2026-10-19', scheduled: 1, completed: 1 },
+    ]);
+    expect(stats.rate).toBeCloseTo(6 / 7);
+    expect(stats.currentStreak).toBe(2);
+    expect(stats.longestStreak).toBe(2);
+  });
+
+  it('does not break the streak over the week in progress', () => {
+    const logs = ['2026-10-12', '2026-10-15', '2026-10-19'].map(d => session(d));
+    const stats = computeAdherence(logs, userData, 8, noon('2026-10-22'));
+    expect(stats.weeks[1]).toEqual({ weekStart: '2026-10-19', scheduled: 2, completed: 1 });
+    expect(stats.currentStreak).toBe(1);
+  });
+
+  it('does not let extra sessions make up for a missed week', () => {
+    const logs = ['2026-10-05', '2026-10-12', '2026-10-13', '2026-10-14', '2026-10-15'].map(d => session(d));
+    const stats = computeAdherence(logs, userData, 8, noon('2026-10-18'));
+    expect(stats.weeks.map(w => w.completed)).toEqual([1, 2]);
+    expect(stats.rate).toBe(3 / 4);
+    expect(stats.longestStreak).toBe(1);
+  });
+});
+
+describe('strengthTrends', () => {
+  it('returns no trends for empty or unweighted logs', () => {
+    expect(strengthTrends([])).toEqual([]);
+    expect(strengthTrends([session('2026-10-19', [exercise('Push-up', 'Chest', sets(3, 15, null))])])).toEqual([]);
+  });
+
+  it('keeps the best estimated one-rep max of each session', () => {
+    const logs = [
+      session('2026-10-12', [exercise('Barbell Bench Press', 'Chest', [...sets(1, 5, 80), ...sets(1, 1, 90)])]),
+      session('2026-10-19', [exercise('Barbell Bench Press', 'Chest', sets(2, 10, 75))]),
+    ];
+    const [trend] = strengthTrends(logs, noon('2026-10-20'));
+    expect(trend.points).toEqual([{ date: '2026-10-12', value: 93.3 }, { date: '2026-10-19', value: 100 }]);
+    expect(trend.best).toBe(100);
+    expect(trend.recentChange).toBeCloseTo(100 / 93.3 - 1);
+  });
+});
@@ -0,0 +1,279 @@
+import { GeneratedPlan, UserData, WorkoutLog } from '../types';
+import { getLibraryExercise, Muscle, MUSCLE_LABELS, TrainingGroup } from '../data/exerciseLibrary';
+import { exerciseKey, matchExercise } from './exerciseMatcher';
+import { isSetCompleted } from './exerciseHistory';
+import { addDays, daysBetween, parseISODate, toISODate, weekdayIndexOf } from './schedule';
+
+export const TRAINING_GROUPS: TrainingGroup[] = ['Chest', 'Back', 'Shoulders', 'Arms', 'Legs', 'Glutes', 'Core'];
+
+const GROUP_OF_MUSCLE: Record<Muscle, TrainingGroup> = {
+  'chest': 'Chest', 'upper-chest': 'Chest',
+  'lats': 'Back', 'upper-back': 'Back', 'lower-back': 'Back',
+  'front-delts': 'Shoulders', 'side-delts': 'Shoulders', 'rear-delts': 'Shoulders', 'rotator-cuff': 'Shoulders',
+  'biceps': 'Arms', 'triceps': 'Arms', 'forearms': 'Arms',
+  'quads': 'Legs', 'hamstrings': 'Legs', 'calves': 'Legs', 'hip-flexors': 'Legs',
+  'glutes': 'Glutes', 'glute-medius': 'Glutes',
+  'abs': 'Core', 'obliques': 'Core',
+};
+
+// Names AI plans use for muscles that are not library labels.
+const GROUP_SYNONYMS: Record<string, TrainingGroup> = {
+  pecs: 'Chest', pectorals: 'Chest', pectoralis: 'Chest',
+  latissimus: 'Back', traps: 'Back', trapezius: 'Back', rhomboids: 'Back', 'erector spinae': 'Back',
+  delts: 'Shoulders', deltoids: 'Shoulders',
+  quadriceps: 'Legs', hamstring: 'Legs', calf: 'Legs', adductors: 'Legs', legs: 'Legs',
+  'gluteus maximus': 'Glutes', 'gluteus medius': 'Glutes', abductors: 'Glutes',
+  abdominals: 'Core', 'rectus abdominis': 'Core', 'transverse abdominis': 'Core',
+};
+
+const groupByLabel = new Map<string, TrainingGroup>([
+  ...TRAINING_GROUPS.map(g => [g.toLowerCase(), g] as [string, TrainingGroup]),
+  ...(Object.keys(MUSCLE_LABELS) as Muscle[]).map(m => [MUSCLE_LABELS[m].toLowerCase(), GROUP_OF_MUSCLE[m]] as [string, TrainingGroup]),
+  ...Object.entries(GROUP_SYNONYMS),
+]);
+
+/** The training group a muscle name belongs to, for library labels and common anatomical names. */
+export const groupOfMuscle = (name: string): TrainingGroup | null =>
+  groupByLabel.get(name.toLowerCase().replace(/[^a-z ]+/g, ' ').replace(/\s+/g, ' ').trim()) ?? null;
+
+// A set counts in full for the muscles an exercise mainly trains and half for those it assists.
+const PRIMARY_CREDIT = 1;
+const SECONDARY_CREDIT = 0.5;
+
+export type GroupCredit = Partial<Record<TrainingGroup, number>>;
+
+const addCredit = (credit: GroupCredit, group: TrainingGroup | null, amount: number) => {
+  if (group) credit[group] = Math.max(credit[group] ?? 0, amount);
+};
+
+/**
+ * How much one set of an exercise counts towards each training group. Library exercises use
+ * their primary and secondary muscles; others fall back to the plan's target muscles (the
+ * first one counting as primary), then to the muscle group the exercise was logged under.
+ */
+export const exerciseCredit = (
+  exerciseName: string,
+  exerciseId: string | undefined,
+  muscleGroup: string,
+  planMuscles?: string[],
+): GroupCredit => {
+  const credit: GroupCredit = {};
+  const entry = (exerciseId && getLibraryExercise(exerciseId)) || matchExercise(exerciseName);
+  if (entry) {
+    entry.secondaryMuscles.forEach(m => addCredit(credit, GROUP_OF_MUSCLE[m], SECONDARY_CREDIT));
+    entry.primaryMuscles.forEach(m => addCredit(credit, GROUP_OF_MUSCLE[m], PRIMARY_CREDIT));
+    return credit;
+  }
+  (planMuscles ?? []).forEach((muscle, i) => addCredit(credit, groupOfMuscle(muscle), i === 0 ? PRIMARY_CREDIT : SECONDARY_CREDIT));
+  if (Object.keys(credit).length === 0) addCredit(credit, groupOfMuscle(muscleGroup), PRIMARY_CREDIT);
+  return credit;
+};
+
+const planMusclesByKey = (plan: GeneratedPlan | null) => {
+  const byKey = new Map<string, string[]>();
+  plan?.plan.forEach(day => day.muscleGroups.forEach(group => group.exercises.forEach(ex => {
+    byKey.set(exerciseKey(ex.name, ex.exerciseId), ex.targetMuscles);
+  })));
+  return byKey;
+};
+
+/** The Monday starting the week a date falls in, as YYYY-MM-DD. */
+export const weekStartOf = (iso: string): string => {
+  const date = parseISODate(iso);
+  return addDays(iso, -((date.getDay() + 6) % 7));
+};
+
+const logDate = (log: WorkoutLog) => toISODate(new Date(log.date));
+
+export interface WeeklyGroupStats {
+  weekStart: string; // Monday, YYYY-MM-DD
+  sets: Record<TrainingGroup, number>;
+  volume: Record<TrainingGroup, number>; // kg x reps, weighted by the same credit as sets
+  sessions: number;
+}
+
+const emptyByGroup = () => Object.fromEntries(TRAINING_GROUPS.map(g => [g, 0])) as Record<TrainingGroup, number>;
+
+/**
+ * Completed sets and volume per training group for each of the `weeks` weeks up to and
+ * including the one containing `today`, oldest first. Weeks without training are included
+ * with zeros so charts show the gaps.
+ */
+export const weeklyGroupStats = (
+  logs: WorkoutLog[],
+  plan: GeneratedPlan | null,
+  weeks = 8,
+  today: Date = new Date(),
+): WeeklyGroupStats[] => {
+  const thisWeek = weekStartOf(toISODate(today));
+  const stats = Array.from({ length: weeks }, (_, i): WeeklyGroupStats => ({
+    weekStart: addDays(thisWeek, (i - weeks + 1) * 7),
+    sets: emptyByGroup(),
+    volume: emptyByGroup(),
+    sessions: 0,
+  }));
+  const byWeek = new Map(stats.map(s => [s.weekStart, s]));
+  const planMuscles = planMusclesByKey(plan);
+
+  logs.forEach(log => {
+    const week = byWeek.get(weekStartOf(logDate(log)));
+    if (!week) return;
+    week.sessions++;
+    (log.exerciseLogs ?? []).forEach(ex => {
+      const completed = ex.sets.filter(isSetCompleted);
+      if (completed.length === 0) return;
+      const credit = exerciseCredit(ex.exerciseName, ex.exerciseId, ex.muscleGroup, planMuscles.get(exerciseKey(ex.exerciseName, ex.exerciseId)));
+      const volume = completed.reduce((sum, s) => sum + (s.reps ?? 0) * (s.weight ?? 0), 0);
+      (Object.keys(credit) as TrainingGroup[]).forEach(group => {
+        week.sets[group] += completed.length * credit[group]!;
+        week.volume[group] += volume * credit[group]!;
+      });
+    });
+  });
+  return stats;
+};
+
+// Roughly the least weekly work that keeps a muscle group progressing; below it is flagged.
+export const MIN_WEEKLY_SETS = 6;
+const UNDERTRAINED_WINDOW_WEEKS = 4;
+
+export interface UndertrainedGroup {
+  group: TrainingGroup;
+  averageSets: number;
+}
+
+/**
+ * Training groups averaging fewer than MIN_WEEKLY_SETS over the last four weeks, least
+ * trained first. Weeks before the first logged session do not count against anyone.
+ */
+export const findUndertrainedGroups = (weekly: WeeklyGroupStats[]): UndertrainedGroup[] => {
+  const firstActive = weekly.findIndex(w => w.sessions > 0);
+  if (firstActive === -1) return [];
+  const recent = weekly.slice(Math.max(firstActive, weekly.length - UNDERTRAINED_WINDOW_WEEKS));
+  return TRAINING_GROUPS
+    .map(group => ({ group, averageSets: recent.reduce((sum, w) => sum + w.sets[group], 0) / recent.length }))
+    .filter(g => g.averageSets < MIN_WEEKLY_SETS)
+    .sort((a, b) => a.averageSets - b.averageSets);
+};
+
+export interface AdherenceWeek {
+  weekStart: string;
+  scheduled: number;
+  completed: number; // sessions logged, counting at most `scheduled`
+}
+
+export interface AdherenceStats {
+  rate: number | null; // 0-1 over the window; null before anything was scheduled
+  weeks: AdherenceWeek[];
+  currentStreak: number; // consecutive weeks with every scheduled session done
+  longestStreak: number;
+}
+
+/**
+ * Logged sessions against the training days in the profile, week by week. Only scheduled days
+ * from the first logged session up to today count, so a new user or the rest of the current
+ * week is not held against them. Sessions on other days still count towards their week, but
+ * extra sessions do not make up for another week.
+ */
+export const computeAdherence = (
+  logs: WorkoutLog[],
+  userData: UserData,
+  weeks = 8,
+  today: Date = new Date(),
+): AdherenceStats => {
+  const todayIso = toISODate(today);
+  const trainingDays = new Set(userData.freeDays.map(weekdayIndexOf).filter((d): d is number => d !== null));
+  const dates = [...new Set(logs.map(logDate))].sort();
+  const thisWeek = weekStartOf(todayIso);
+  if (dates.length === 0 || trainingDays.size === 0) {
+    return { rate: null, weeks: [], currentStreak: 0, longestStreak: 0 };
+  }
+
+  const since = dates[0];
+  const totalWeeks = Math.floor(daysBetween(weekStartOf(since), thisWeek) / 7) + 1;
+  const allWeeks = Array.from({ length: totalWeeks }, (_, i): AdherenceWeek => {
+    const weekStart = addDays(weekStartOf(since), i * 7);
+    const days = Array.from({ length: 7 }, (_, d) => addDays(weekStart, d));
+    const scheduled = days.filter(day => day >= since && day <= todayIso && trainingDays.has(parseISODate(day).getDay())).length;
+    const logged = dates.filter(date => date >= weekStart && date <= days[6]).length;
+    return { weekStart, scheduled, completed: Math.min(logged, scheduled) };
+  });
+
+  // A week counts once every session it was due has been done; the week in progress only
+  // extends a streak, it never breaks one.
+  const met = (w: AdherenceWeek) => w.scheduled > 0 && w.completed >= w.scheduled;
+  let longestStreak = 0;
+  let run = 0;
+  allWeeks.forEach(w => {
+    if (w.scheduled === 0) return;
+    run = met(w) ? run + 1 : 0;
+    longestStreak = Math.max(longestStreak, run);
+  });
+  let currentStreak = 0;
+  for (let i = allWeeks.length - 1; i >= 0; i--) {
+    const w = allWeeks[i];
+    if (w.scheduled === 0) continue;
+    if (met(w)) currentStreak++;
+    else if (w.weekStart !== thisWeek) break;
+  }
+
+  const window = allWeeks.slice(-weeks);
+  const scheduled = window.reduce((sum, w) => sum + w.scheduled, 0);
+  const completed = window.reduce((sum, w) => sum + w.completed, 0);
+  return { rate: scheduled > 0 ? completed / scheduled : null, weeks: window, currentStreak, longestStreak };
+};
+
+// Epley is reliable up to about a dozen reps; sets beyond that say little about a one-rep max.
+const MAX_E1RM_REPS = 12;
+
+/** Estimated one-rep max by the Epley formula, or null for unweighted or high-rep sets. */
+export const estimateOneRepMax = (weight: number | null, reps: number | null): number | null => {
+  if (!weight || !reps || reps > MAX_E1RM_REPS) return null;
+  return reps === 1 ? weight : weight * (1 + reps / 30);
+};
+
+export interface StrengthPoint {
+  date: string; // YYYY-MM-DD
+  value: number; // best estimated 1RM that session, kg
+}
+
+export interface StrengthTrend {
+  key: string;
+  name: string;
+  points: StrengthPoint[]; // oldest first
+  best: number;
+  /** Change from the first to the last estimate in the last `windowDays`, as a fraction. */
+  recentChange: number | null;
+}
+
+const TREND_WINDOW_DAYS = 28;
+
+/**
+ * Estimated 1RM over time for each weighted exercise, taking the best set of each session.
+ * Exercises with the most sessions come first.
+ */
+export const strengthTrends = (logs: WorkoutLog[], today: Date = new Date()): StrengthTrend[] => {
+  const byExercise = new Map<string, { name: string; best: Map<string, number> }>();
+  logs.forEach(log => (log.exerciseLogs ?? []).forEach(ex => {
+    const estimates = ex.sets.filter(isSetCompleted).map(s => estimateOneRepMax(s.weight, s.reps)).filter((e): e is number => e !== null);
+    if (estimates.length === 0) return;
+    const key = exerciseKey(ex.exerciseName, ex.exerciseId);
+    if (!byExercise.has(key)) byExercise.set(key, { name: ex.exerciseName, best: new Map() });
+    const best = byExercise.get(key)!.best;
+    const date = logDate(log);
+    best.set(date, Math.max(best.get(date) ?? 0, ...estimates));
+  }));
+
+  const since = addDays(toISODate(today), -TREND_WINDOW_DAYS);
+  return [...byExercise].map(([key, { name, best }]): StrengthTrend => {
+    const points = [...best].sort(([a], [b]) => a.localeCompare(b)).map(([date, value]) => ({ date, value: Math.round(value * 10) / 10 }));
+    const recent = points.filter(p => p.date >= since);
+    return {
+      key,
+      name,
+      points,
+      best: Math.max(...points.map(p => p.value)),
+      recentChange: recent.length >= 2 ? recent[recent.length - 1].value / recent[0].value - 1 : null,
+    };
+  }).sort((a, b) => b.points.length - a.points.length);
+};
@@ -0,0 +1,136 @@
+import { BodyMeasurement, BodyMetric, UserData } from '../types';
+import { addDays, daysBetween, toISODate } from './schedule';
+import { parseHeight, parseWeight } from './units';
+
+export const BODY_METRICS: BodyMetric[] = ['weight', 'bodyFat', 'waist', 'hips', 'chest'];
+
+export const BODY_METRIC_LABELS: Record<BodyMetric, string> = {
+  weight: 'Weight',
+  bodyFat: 'Body Fat',
+  waist: 'Waist',
+  hips: 'Hips',
+  chest: 'Chest',
+};
+
+export interface MetricPoint {
+  date: string; // YYYY-MM-DD
+  value: number;
+}
+
+// A trend needs readings at least this far apart, and only the most recent weeks count
+// towards it so an old plateau does not hide the current rate.
+const MIN_TREND_SPAN_DAYS = 7;
+const TREND_WINDOW_DAYS = 28;
+// Slower than this, or further away than this, and a projected date means nothing.
+const MIN_RATE_PER_WEEK = 0.05;
+const MAX_PROJECTION_WEEKS = 104;
+const GOAL_TOLERANCE_KG = 0.5;
+
+/** Measurements oldest first; entries on the same day keep their saved order. */
+export const sortMeasurements = (measurements: BodyMeasurement[]) =>
+  [...measurements].sort((a, b) => a.date.localeCompare(b.date));
+
+/** One point per day that has the metric, oldest first; a later entry on the same day wins. */
+export const metricSeries = (measurements: BodyMeasurement[], metric: BodyMetric): MetricPoint[] => {
+  const byDate = new Map<string, number>();
+  sortMeasurements(measurements).forEach(m => {
+    const value = m[metric];
+    if (typeof value === 'number') byDate.set(m.date, value);
+  });
+  return [...byDate].map(([date, value]) => ({ date, value }));
+};
+
+export const latestValue = (measurements: BodyMeasurement[], metric: BodyMetric | 'height'): number | null => {
+  const withValue = sortMeasurements(measurements).filter(m => typeof m[metric] === 'number');
+  return withValue.length > 0 ? withValue[withValue.length - 1][metric] as number : null;
+};
+
+export const bmiOf = (kg: number, cm: number) => Math.round((kg / (cm / 100) ** 2) * 10) / 10;
+
+export const bmiCategory = (bmi: number) =>
+  bmi < 18.5 ? 'Underweight' : bmi < 25 ? 'Healthy weight' : bmi < 30 ? 'Overweight' : 'Obese';
+
+/**
+ * BMI for every weigh-in, using the most recent height measured on or before it, or the
+ * profile's height for readings before any was measured.
+ */
+export const bmiSeries = (measurements: BodyMeasurement[], userData: UserData): MetricPoint[] => {
+  const profileHeight = parseHeight(userData.height, userData.units);
+  const sorted = sortMeasurements(measurements);
+  return metricSeries(measurements, 'weight').flatMap(point => {
+    const measured = sorted.filter(m => m.date <= point.date && typeof m.height === 'number');
+    const height = measured.length > 0 ? measured[measured.length - 1].height! : profileHeight;
+    return height ? [{ date: point.date, value: bmiOf(point.value, height) }] : [];
+  });
+};
+
+/**
+ * Change per week over the recent readings, by least squares so one odd weigh-in does not
+ * swing it. Returns null without enough readings to tell.
+ */
+export const weeklyTrend = (points: MetricPoint[]): number | null => {
+  if (points.length < 2) return null;
+  const last = points[points.length - 1].date;
+  const recent = points.filter(p => daysBetween(p.date, last) <= TREND_WINDOW_DAYS);
+  if (recent.length < 2 || daysBetween(recent[0].date, last) < MIN_TREND_SPAN_DAYS) return null;
+
+  const xs = recent.map(p => daysBetween(recent[0].date, p.date));
+  const meanX = xs.reduce((a, b) => a + b, 0) / xs.length;
+  const meanY = recent.reduce((a, p) => a + p.value, 0) / recent.length;
+  const covariance = recent.reduce((sum, p, i) => sum + (xs[i] - meanX) * (p.value - meanY), 0);
+  const variance = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+  return (covariance / variance) * 7;
+};
+
+export type GoalStatus = 'reached' | 'on-track' | 'too-slow' | 'off-track' | 'not-enough-data';
+
+export interface GoalProjection {
+  status: GoalStatus;
+  target: number;
+  latest: number | null;
+  perWeek: number | null;
+  /** Estimated date the target is reached at the current rate, when on track. */
+  date?: string;
+  weeks?: number;
+}
+
+/**
+ * When `target` will be reached if the recent trend continues. The goal counts as reached
+ * within half a kilogram, and as off track when the trend is heading the other way.
+ */
+export const projectGoal = (points: MetricPoint[], target: number): GoalProjection => {
+  const latest = points.length > 0 ? points[points.length - 1] : null;
+  const perWeek = weeklyTrend(points);
+  const base = { target, latest: latest?.value ?? null, perWeek };
+  if (!latest) return { ...base, status: 'not-enough-data' };
+  if (Math.abs(latest.value - target) <= GOAL_TOLERANCE_KG) return { ...base, status: 'reached' };
+  if (perWeek === null) return { ...base, status: 'not-enough-data' };
+
+  const remaining = target - latest.value;
+  if (Math.sign(remaining) !== Math.sign(perWeek)) return { ...base, status: 'off-track' };
+  const weeks = remaining / perWeek;
+  if (Math.abs(perWeek) < MIN_RATE_PER_WEEK || weeks > MAX_PROJECTION_WEEKS) return { ...base, status: 'too-slow' };
+  return { ...base, status: 'on-track', weeks, date: addDays(latest.date, Math.ceil(weeks * 7)) };
+};
+
+/**
+ * A weigh-in taken from the profile, so generating a plan with a new weight records it.
+ * Returns null when the weight cannot be read or matches the latest measurement.
+ */
+export const measurementFromProfile = (
+  userData: UserData,
+  measurements: BodyMeasurement[],
+  today: Date = new Date(),
+): BodyMeasurement | null => {
+  const weight = parseWeight(userData.weight, userData.units);
+  if (weight === null) return null;
+  const latest = latestValue(measurements, 'weight');
+  if (latest !== null && Math.abs(latest - weight) < 0.05) return null;
+  const height = parseHeight(userData.height, userData.units);
+  return {
+    id: crypto.randomUUID(),
+    date: toISODate(today),
+    weight: Math.round(weight * 10) / 10,
+    ...(height !== null && height !== latestValue(measurements, 'height') ? { height: Math.round(height) } : {}),
+  };
+};
@@ -0,0 +1,170 @@
+import { DailyDiet, GeneratedDietPlan, GeneratedPlan, Meal, MealIngredient, MealSlot, UserData } from '../types';
+import { computeDietTargets, findFood, formatGrams, mealSlotsFor, MEAL_SLOTS, withComputedNutrients } from './nutrition';
+import { checkMeal, preferencesOf } from './dietaryRules';
+import { Checker, isRecord, PlanValidationError, ValidationResult } from './validation';
+
+// Every day needs the three main meals; snacks depend on how many meals a day the user eats.
+const REQUIRED_MEALS: MealSlot[] = ['breakfast', 'lunch', 'dinner'];
+
+const gramsText = (c: Checker, value: unknown, path: string): string => {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    c.repair(path, 'converted number to grams');
+    return `${Math.round(value)}g`;
+  }
+  return c.requiredString(value, path);
+};
+
+// Ingredients may name a food by id or by name; either way it must be in the food database.
+const validateIngredient = (c: Checker, raw: unknown, path: string): MealIngredient | null => {
+  if (!c.isObject(raw, path)) return null;
+  const ref = c.requiredString(raw.foodId ?? raw.food ?? raw.name, `${path}.foodId`);
+  if (!ref) return null;
+  const food = findFood(ref);
+  if (!food) {
+    c.error(`${path}.foodId`, `"${ref}" is not in the food database`);
+    return null;
+  }
+  if (ref !== food.id) c.repair(`${path}.foodId`, `matched "${ref}" to ${food.id}`);
+
+  let grams: number;
+  if (raw.grams === undefined && typeof raw.portions === 'number' && food.portion) {
+    c.repair(`${path}.grams`, `converted ${raw.portions} ${food.portion.label}(s) to grams`);
+    grams = raw.portions * food.portion.grams;
+  } else {
+    grams = c.number(raw.grams, `${path}.grams`);
+  }
+  if (grams <= 0) {
+    c.error(`${path}.grams`, 'must be more than 0');
+    return null;
+  }
+  return { foodId: food.id, name: food.name, grams: Math.round(grams) };
+};
+
+const validateMeal = (c: Checker, raw: unknown, path: string): Meal => {
+  if (!c.isObject(raw, path)) return { name: '', description: '', calories: 0 };
+  const name = c.requiredString(raw.name, `${path}.name`);
+  const description = c.optionalString(raw.description, `${path}.description`);
+
+  if (raw.ingredients === undefined) {
+    return { name, description, calories: Math.max(0, Math.round(c.number(raw.calories, `${path}.calories`))) };
+  }
+
+  const ingredients = (c.array(raw.ingredients, `${path}.ingredients`) || [])
+    .map((item, i) => validateIngredient(c, item, `${path}.ingredients[${i}]`))
+    .filter((item): item is MealIngredient => item !== null);
+  if (ingredients.length === 0) c.error(`${path}.ingredients`, 'has no foods from the food database');
+
+  // Numbers are always computed from the ingredients; whatever the model stated is only compared.
+  const meal = withComputedNutrients({ name, description, calories: 0, ingredients });
+  if (typeof raw.calories === 'number' && Math.abs(raw.calories - meal.calories) > 10) {
+    c.repair(`${path}.calories`, `recomputed as ${meal.calories} from the ingredients`);
+  }
+  return meal;
+};
+
+const validateDietDay = (c: Checker, raw: unknown, path: string, context?: DietContext): DailyDiet | null => {
+  if (!c.isObject(raw, path)) return null;
+  const rawMeals = c.isObject(raw.meals, `${path}.meals`) ? raw.meals : {};
+  const slots = MEAL_SLOTS.filter(slot => REQUIRED_MEALS.includes(slot) || rawMeals[slot] != null);
+  const meals = Object.fromEntries(
+    slots.map(slot => [slot, validateMeal(c, rawMeals[slot], `${path}.meals.${slot}`)])
+  ) as DailyDiet['meals'];
+  const mealList = slots.map(slot => meals[slot]!);
+  const mealTotal = mealList.reduce((sum, meal) => sum + meal.calories, 0);
+
+  if (context) {
+    const expected = mealSlotsFor(context.userData.mealsPerDay);
+    if (slots.length !== expected.length) c.error(`${path}.meals`, `expected ${expected.length} meals, got ${slots.length}`);
+    // Meals that break the user's restrictions, allergies or dislikes are rejected so they
+    // are generated again rather than shown.
+    const prefs = preferencesOf(context.userData);
+    slots.forEach(slot => {
+      checkMeal(meals[slot]!, prefs).forEach(v => c.error(`${path}.meals.${slot}`, v.message));
+    });
+  }
+
+  const rawTotals = c.isObject(raw.dailyTotals, `${path}.dailyTotals`) ? raw.dailyTotals : {};
+  let calories = Math.round(c.number(rawTotals.calories, `${path}.dailyTotals.calories`, mealTotal));
+  if (calories !== mealTotal) {
+    c.repair(`${path}.dailyTotals.calories`, `recomputed as ${mealTotal} from the meals`);
+    calories = mealTotal;
+  }
+
+  // Macros can only be derived when every meal lists its ingredients.
+  const computedMacros = mealList.every(m => m.ingredients && m.ingredients.length > 0);
+  const macroTotal = (key: 'protein' | 'carbs' | 'fat', rawValue: unknown) => {
+    if (!computedMacros) return gramsText(c, rawValue, `${path}.dailyTotals.${key}`);
+    const total = formatGrams(mealList.reduce((sum, m) => sum + (m[key] ?? 0), 0));
+    if (rawValue !== undefined && String(rawValue).replace(/\s+/g, '') !== total) {
+      c.repair(`${path}.dailyTotals.${key}`, `recomputed as ${total} from the meals`);
+    }
+    return total;
+  };
+
+  return {
+    day: c.requiredString(raw.day, `${path}.day`),
+    meals,
+    dailyTotals: {
+      calories,
+      protein: macroTotal('protein', rawTotals.protein),
+      carbs: macroTotal('carbs', rawTotals.carbs),
+      fat: macroTotal('fat', rawTotals.fat),
+    },
+  };
+};
+
+export interface DietContext {
+  userData: UserData;
+  workoutPlan: GeneratedPlan | null;
+}
+
+/**
+ * Checks a diet plan response against the GeneratedDietPlan shape. Daily calorie totals are
+ * recomputed from the meals so the numbers shown always add up, and meals that list
+ * ingredients get their calories and macros from the food database. With a `context` (for
+ * freshly generated plans), the overall targets are computed from the profile and workout
+ * plan, and every day must have the user's meals per day and respect their diet preferences.
+ */
+export const validateGeneratedDietPlan = (raw: unknown, context?: DietContext): ValidationResult<GeneratedDietPlan> => {
+  const c = new Checker();
+  if (!c.isObject(raw, 'dietPlan')) return { value: null, errors: c.errors, repairs: c.repairs };
+
+  const days = (c.array(raw.plan, 'dietPlan.plan') || [])
+    .map((d, i) => validateDietDay(c, d, `dietPlan[${i}]`, context))
+    .filter((d): d is DailyDiet => d !== null);
+  if (days.length === 0) c.error('dietPlan.plan', 'has no days');
+
+  const computedTargets = context ? computeDietTargets(context.userData, context.workoutPlan) : null;
+  let overallTargets: GeneratedDietPlan['overallTargets'];
+  if (computedTargets) {
+    const stated = isRecord(raw.overallTargets) ? raw.overallTargets.dailyCalories : undefined;
+    if (typeof stated === 'number' && Math.round(stated) !== computedTargets.dailyCalories) {
+      c.repair('overallTargets.dailyCalories', `recomputed as ${computedTargets.dailyCalories} from your profile`);
+    }
+    overallTargets = computedTargets;
+  } else {
+    const targets = c.isObject(raw.overallTargets, 'overallTargets') ? raw.overallTargets : {};
+    overallTargets = {
+      dailyCalories: Math.round(c.number(targets.dailyCalories, 'overallTargets.dailyCalories')),
+      protein: gramsText(c, targets.protein, 'overallTargets.protein'),
+      carbs: gramsText(c, targets.carbs, 'overallTargets.carbs'),
+      fat: gramsText(c, targets.fat, 'overallTargets.fat'),
+    };
+  }
+
+  const plan: GeneratedDietPlan = {
+    summary: c.optionalString(raw.summary, 'summary'),
+    overallTargets,
+    plan: days,
+    disclaimer: c.optionalString(raw.disclaimer, 'disclaimer',
+      'This plan is for general guidance only. Consult a healthcare professional before making dietary changes.'),
+  };
+
+  return { value: c.errors.length === 0 ? plan : null, errors: c.errors, repairs: c.repairs };
+};
+
+export const assertValidDietPlan = (raw: unknown, context?: DietContext): GeneratedDietPlan => {
+  const result = validateGeneratedDietPlan(raw, context);
+  if (!result.value) throw new PlanValidationError('diet plan', result.errors);
+  return result.value;
+};
@@ -0,0 +1,131 @@
+import { Allergen, DietaryRestriction, GeneratedDietPlan, Meal, MealSlot, UserData } from '../types';
+import { ALLERGEN_LABELS, AnimalSource, FoodItem, getFood } from '../data/foodDatabase';
+import { findFood, foodNames, foodsMentionedIn, mealsOf, mentions } from './nutrition';
+
+export const RESTRICTION_LABELS: Record<DietaryRestriction, string> = {
+  'vegetarian': 'Vegetarian',
+  'vegan': 'Vegan',
+  'pescatarian': 'Pescatarian',
+  'halal': 'Halal',
+  'kosher': 'Kosher',
+  'lactose-free': 'Lactose-Free',
+  'gluten-free': 'Gluten-Free',
+};
+
+// Animal products each restriction rules out. Halal and kosher also need certified meat,
+// which a food table cannot know; the checker only rules out what is never allowed.
+const FORBIDDEN_SOURCES: Record<DietaryRestriction, AnimalSource[]> = {
+  'vegetarian': ['red-meat', 'pork', 'poultry', 'fish', 'shellfish'],
+  'vegan': ['red-meat', 'pork', 'poultry', 'fish', 'shellfish', 'dairy', 'egg', 'honey'],
+  'pescatarian': ['red-meat', 'pork', 'poultry'],
+  'halal': ['pork'],
+  'kosher': ['pork', 'shellfish'],
+  'lactose-free': ['dairy'],
+  'gluten-free': [],
+};
+
+const FORBIDDEN_ALLERGENS: Partial<Record<DietaryRestriction, Allergen[]>> = {
+  'gluten-free': ['gluten'],
+};
+
+const MEAT_SOURCES: AnimalSource[] = ['red-meat', 'poultry'];
+
+export interface DietPreferences {
+  restrictions: DietaryRestriction[];
+  allergens: Allergen[];
+  dislikedFoods: string[];
+}
+
+export type DietViolationKind = 'restriction' | 'allergen' | 'disliked';
+
+export interface DietViolation {
+  kind: DietViolationKind;
+  foodName: string;
+  message: string;
+}
+
+export interface FlaggedMeal {
+  dayIndex: number;
+  day: string;
+  slot: MealSlot;
+  meal: Meal;
+  violations: DietViolation[];
+}
+
+export const preferencesOf = (userData: UserData): DietPreferences => ({
+  restrictions: userData.dietaryRestrictions ?? [],
+  allergens: userData.allergens ?? [],
+  dislikedFoods: userData.dislikedFoods ?? [],
+});
+
+export const hasDietPreferences = (prefs: DietPreferences) =>
+  prefs.restrictions.length > 0 || prefs.allergens.length > 0 || prefs.dislikedFoods.length > 0;
+
+const isDisliked = (food: FoodItem, term: string) => {
+  const match = findFood(term);
+  return match ? match.id === food.id : foodNames(food).some(name => mentions(name, term));
+};
+
+/** Every way a single food breaks the preferences; empty when it is fine to eat. */
+export const foodViolations = (food: FoodItem, prefs: DietPreferences): DietViolation[] => {
+  const violations: DietViolation[] = [];
+  prefs.restrictions.forEach(restriction => {
+    const bySource = food.animal && FORBIDDEN_SOURCES[restriction].includes(food.animal);
+    const byAllergen = (FORBIDDEN_ALLERGENS[restriction] ?? []).some(a => food.allergens?.includes(a));
+    if (bySource || byAllergen) {
+      violations.push({ kind: 'restriction', foodName: food.name, message: `${food.name} is not ${RESTRICTION_LABELS[restriction].toLowerCase()}` });
+    }
+  });
+  prefs.allergens.forEach(allergen => {
+    if (food.allergens?.includes(allergen)) {
+      violations.push({ kind: 'allergen', foodName: food.name, message: `${food.name} contains ${ALLERGEN_LABELS[allergen].toLowerCase()}` });
+    }
+  });
+  const disliked = prefs.dislikedFoods.find(term => isDisliked(food, term));
+  if (disliked) {
+    violations.push({ kind: 'disliked', foodName: food.name, message: `${food.name} is on your disliked list` });
+  }
+  return violations;
+};
+
+export const isFoodAllowed = (food: FoodItem, prefs: DietPreferences) => foodViolations(food, prefs).length === 0;
+
+/**
+ * Foods in a meal: its ingredients when it lists them, otherwise any database food its name
+ * or description mentions, so meals written as free text are still checked.
+ */
+export const foodsInMeal = (meal: Meal): FoodItem[] =>
+  meal.ingredients && meal.ingredients.length > 0
+    ? meal.ingredients.map(i => getFood(i.foodId)).filter((f): f is FoodItem => f !== undefined)
+    : foodsMentionedIn(`${meal.name} ${meal.description}`);
+
+export const checkMeal = (meal: Meal, prefs: DietPreferences): DietViolation[] => {
+  const foods = foodsInMeal(meal);
+  const violations = foods.flatMap(food => foodViolations(food, prefs));
+
+  // Disliked foods outside the database can still be named in a free-text meal.
+  if (!meal.ingredients || meal.ingredients.length === 0) {
+    prefs.dislikedFoods
+      .filter(term => !findFood(term) && mentions(`${meal.name} ${meal.description}`, term))
+      .forEach(term => violations.push({ kind: 'disliked', foodName: term, message: `${term} is on your disliked list` }));
+  }
+
+  // Kosher rules also forbid serving meat and dairy together.
+  if (prefs.restrictions.includes('kosher')) {
+    const meat = foods.find(f => f.animal && MEAT_SOURCES.includes(f.animal));
+    const dairy = foods.find(f => f.animal === 'dairy');
+    if (meat && dairy) {
+      violations.push({ kind: 'restriction', foodName: `${meat.name} + ${dairy.name}`, message: `${meat.name} and ${dairy.name} in the same meal is not kosher` });
+    }
+  }
+  return violations;
+};
+
+/** Every meal in the plan that breaks the preferences, in plan order. */
+export const checkDietPlan = (plan: GeneratedDietPlan, prefs: DietPreferences): FlaggedMeal[] =>
+  plan.plan.flatMap((day, dayIndex) =>
+    mealsOf(day).flatMap(([slot, meal]) => {
+      const violations = checkMeal(meal, prefs);
+      return violations.length > 0 ? [{ dayIndex, day: day.day, slot, meal, violations }] : [];
+    })
+  );
@@ -0,0 +1,12 @@
+/** Saves generated text as a file through a temporary object URL. */
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke on the next tick; some browsers start the download asynchronously.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,87 @@
+import { DailyWorkout, ExerciseLog, SetLog, WorkoutLog } from '../types';
+import { exerciseKey } from './exerciseMatcher';
+
+export interface ExerciseSession {
+  date: string;
+  dayName: string;
+  sets: SetLog[];
+  completedSets: number;
+  totalReps: number;
+  volume: number; // sum of reps * weight over completed sets
+  topWeight: number | null;
+  notes?: string;
+}
+
+export interface ExerciseHistory {
+  key: string;
+  name: string;
+  sessions: ExerciseSession[]; // newest first
+}
+
+// "3", "3 sets", "3-4" -> 3
+export const parseSetCount = (sets: string): number => {
+  const match = String(sets).match(/\d+/);
+  const count = match ? parseInt(match[0], 10) : NaN;
+  return Number.isFinite(count) && count > 0 ? Math.min(count, 10) : 3;
+};
+
+// "8-12", "10", "AMRAP", "30 seconds" -> first number, or null when there is none
+export const parseTargetReps = (reps: string): number | null => {
+  const match = String(reps).match(/\d+/);
+  return match ? parseInt(match[0], 10) : null;
+};
+
+export const createExerciseLogs = (day: DailyWorkout): ExerciseLog[] =>
+  day.muscleGroups.flatMap(group =>
+    group.exercises.map(exercise => ({
+      ...(exercise.exerciseId ? { exerciseId: exercise.exerciseId } : {}),
+      exerciseName: exercise.name,
+      muscleGroup: group.name,
+      targetSets: exercise.sets,
+      targetReps: exercise.reps,
+      sets: Array.from({ length: parseSetCount(exercise.sets) }, (_, i) => ({
+        setNumber: i + 1,
+        reps: parseTargetReps(exercise.reps),
+        weight: exercise.targetWeight ?? null,
+        rpe: null,
+        skipped: false,
+      })),
+      notes: '',
+    }))
+  );
+
+export const isSetCompleted = (set: SetLog): boolean => !set.skipped && (set.reps ?? 0) > 0;
+
+const summarizeSession = (log: WorkoutLog, exerciseLog: ExerciseLog): ExerciseSession => {
+  const completed = exerciseLog.sets.filter(isSetCompleted);
+  const weights = completed.map(s => s.weight).filter((w): w is number => w !== null);
+  return {
+    date: log.date,
+    dayName: log.dayName,
+    sets: exerciseLog.sets,
+    completedSets: completed.length,
+    totalReps: completed.reduce((sum, s) => sum + (s.reps ?? 0), 0),
+    volume: completed.reduce((sum, s) => sum + (s.reps ?? 0) * (s.weight ?? 0), 0),
+    topWeight: weights.length > 0 ? Math.max(...weights) : null,
+    notes: exerciseLog.notes,
+  };
+};
+
+export const buildExerciseHistory = (logs: WorkoutLog[]): ExerciseHistory[] => {
+  const byExercise = new Map<string, ExerciseHistory>();
+
+  for (const log of logs) {
+    for (const exerciseLog of log.exerciseLogs || []) {
+      const key = exerciseKey(exerciseLog.exerciseName, exerciseLog.exerciseId);
+      if (!key) continue;
+      if (!byExercise.has(key)) {
+        byExercise.set(key, { key, name: exerciseLog.exerciseName, sessions: [] });
+      }
+      byExercise.get(key)!.sessions.push(summarizeSession(log, exerciseLog));
+    }
+  }
+
+  const histories = Array.from(byExercise.values());
+  histories.forEach(h => h.sessions.sort((a, b) => b.date.localeCompare(a.date)));
+  return histories.sort((a, b) => b.sessions[0].date.localeCompare(a.sessions[0].date));
+};
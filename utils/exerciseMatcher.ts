@@ -0,0 +1,154 @@
+import { Exercise, GeneratedPlan } from '../types';
+import { EXERCISE_LIBRARY, EquipmentTag, LibraryExercise, Muscle, musclesOf } from '../data/exerciseLibrary';
+
+// Abbreviations and spellings that should compare equal once normalized.
+const SYNONYMS: Record<string, string> = {
+  db: 'dumbbell',
+  dumbbells: 'dumbbell',
+  bb: 'barbell',
+  kb: 'kettlebell',
+  bicep: 'biceps',
+  tricep: 'triceps',
+  pushup: 'push up',
+  pullup: 'pull up',
+  chinup: 'chin up',
+  situp: 'sit up',
+  pulldown: 'pull down',
+  pushdown: 'push down',
+  rdl: 'romanian deadlift',
+  ohp: 'overhead press',
+};
+
+const FILLER = new Set(['the', 'a', 'an', 'with', 'exercise']);
+
+// Words naming an implement, each spelled as its EquipmentTag.
+const EQUIPMENT_WORDS: EquipmentTag[] = ['dumbbell', 'barbell', 'kettlebell', 'cable', 'machine', 'band'];
+
+export const normalizeExerciseName = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .map(word => SYNONYMS[word] ?? word)
+    .join(' ')
+    .split(' ')
+    .filter(word => word && !FILLER.has(word))
+    // "squats" and "squat", "lunges" and "lunge"
+    .map(word => (word.length > 2 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word))
+    .join(' ');
+
+const tokens = (normalized: string) => new Set(normalized.split(' ').filter(Boolean));
+
+const diceSimilarity = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(t => { if (b.has(t)) shared++; });
+  return (2 * shared) / (a.size + b.size);
+};
+
+const exactIndex = new Map<string, LibraryExercise>();
+for (const entry of EXERCISE_LIBRARY) {
+  for (const name of [entry.name, ...entry.aliases]) {
+    const key = normalizeExerciseName(name);
+    if (!exactIndex.has(key)) exactIndex.set(key, entry);
+  }
+}
+
+const MIN_SIMILARITY = 0.75;
+
+// An implement named in the exercise must be one the entry uses. Aliases often leave the
+// implement out ("romanian deadlift"), so comparing against the matched key is not enough.
+const usesNamedEquipment = (entry: LibraryExercise, nameEquipment: EquipmentTag[]) =>
+  nameEquipment.length === 0 || nameEquipment.some(tag => entry.equipment.includes(tag));
+
+/**
+ * Finds the catalogue entry for a free-text exercise name. Exact matches on the name or an
+ * alias win; otherwise the closest entry by word overlap is used, provided the entry uses the
+ * implement the name mentions (a "cable row" never matches a "dumbbell row", nor a "barbell
+ * romanian deadlift" the dumbbell one through its bare alias).
+ */
+export const matchExercise = (name: string): LibraryExercise | null => {
+  const normalized = normalizeExerciseName(name);
+  if (!normalized) return null;
+  const exact = exactIndex.get(normalized);
+  if (exact) return exact;
+
+  const nameTokens = tokens(normalized);
+  const nameEquipment = EQUIPMENT_WORDS.filter(w => nameTokens.has(w));
+  let best: { entry: LibraryExercise; score: number } | null = null;
+
+  for (const [key, entry] of exactIndex) {
+    if (!usesNamedEquipment(entry, nameEquipment)) continue;
+    const keyTokens = tokens(key);
+    const score = diceSimilarity(nameTokens, keyTokens);
+    if (score >= MIN_SIMILARITY && (!best || score > best.score)) {
+      best = { entry, score };
+    }
+  }
+  return best?.entry ?? null;
+};
+
+/**
+ * Key used to aggregate logs across plans: the canonical id when one is known or can be
+ * matched, the normalized name otherwise.
+ */
+export const exerciseKey = (name: string, exerciseId?: string): string =>
+  exerciseId || matchExercise(name)?.id || normalizeExerciseName(name);
+
+export const annotateExerciseIds = (plan: GeneratedPlan): GeneratedPlan => ({
+  ...plan,
+  plan: plan.plan.map(day => ({
+    ...day,
+    muscleGroups: day.muscleGroups.map(group => ({
+      ...group,
+      exercises: group.exercises.map(exercise => {
+        const match = exercise.exerciseId ? null : matchExercise(exercise.name);
+        return match ? { ...exercise, exerciseId: match.id } : exercise;
+      }),
+    })),
+  })),
+});
+
+export const toPlanExercise = (entry: LibraryExercise, sets = '3', reps = entry.timed ? '30 seconds' : '10'): Exercise => ({
+  exerciseId: entry.id,
+  name: entry.name,
+  sets,
+  reps,
+  description: entry.instructions.join(' '),
+  targetMuscles: musclesOf(entry),
+});
+
+export interface CatalogueFilters {
+  muscle?: Muscle | '';
+  equipment?: EquipmentTag | '';
+  maxDifficulty?: number;
+}
+
+/**
+ * Searches the catalogue by name, alias and muscle. Results are ranked with name prefix
+ * matches first, then alias matches, then muscle matches.
+ */
+export const searchCatalogue = (query: string, filters: CatalogueFilters = {}): LibraryExercise[] => {
+  const q = normalizeExerciseName(query);
+  const filtered = EXERCISE_LIBRARY.filter(entry =>
+    (!filters.muscle || entry.primaryMuscles.includes(filters.muscle) || entry.secondaryMuscles.includes(filters.muscle))
+    && (!filters.equipment || entry.equipment.includes(filters.equipment))
+    && (!filters.maxDifficulty || entry.difficulty <= filters.maxDifficulty));
+  if (!q) return filtered;
+
+  const rank = (entry: LibraryExercise): number => {
+    const name = normalizeExerciseName(entry.name);
+    if (name.startsWith(q)) return 0;
+    if (name.includes(q)) return 1;
+    if (entry.aliases.some(a => normalizeExerciseName(a).includes(q))) return 2;
+    if (musclesOf(entry).some(m => m.toLowerCase().includes(query.trim().toLowerCase()))) return 3;
+    return -1;
+  };
+
+  return filtered
+    .map(entry => ({ entry, rank: rank(entry) }))
+    .filter(r => r.rank >= 0)
+    .sort((a, b) => a.rank - b.rank || a.entry.name.localeCompare(b.entry.name))
+    .map(r => r.entry);
+};
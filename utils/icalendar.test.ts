@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { GeneratedPlan } from '../types';
+import { buildWorkoutCalendar } from './icalendar';
+
+const plan: GeneratedPlan = {
+  summary: 'Two days a week.',
+  totalWeeklyTime: '95 minutes',
+  totalWeeklyCaloriesBurned: 650,
+  week: 2,
+  plan: [
+    {
+      day: 'Monday',
+      focus: 'Push; Pull, Legs',
+      approximateTime: '50 minutes',
+      caloriesBurned: 350,
+      muscleGroups: [{
+        name: 'Chest',
+        exercises: [
+          { name: 'Barbell Bench Press', sets: '3', reps: '8-10', description: '', targetMuscles: ['Chest'], targetWeight: 60 },
+          { name: 'Push-up', sets: '2', reps: 'AMRAP', description: '', targetMuscles: ['Chest'] },
+        ],
+      }],
+    },
+    {
+      day: 'Thursday',
+      focus: 'Mobilité & équilibre 💪',
+      approximateTime: 'a while',
+      caloriesBurned: 300,
+      muscleGroups: [{
+        name: 'Core',
+        exercises: [{ name: 'Planche latérale avec rotation du tronc', sets: '3', reps: '30 seconds', description: '', targetMuscles: ['Obliques'] }],
+      }],
+    },
+  ],
+  schedule: [{ day: 'Monday', date: '2026-10-19' }, { day: 'Thursday', date: '2026-10-22' }],
+};
+
+const now = new Date('2026-10-18T09:30:15Z');
+
+const unfold = (ics: string) => ics.replace(/\r\n /g, '');
+
+const events = (ics: string) => unfold(ics).split('BEGIN:VEVENT\r\n').slice(1).map(event => Object.fromEntries(
+  event.split('\r\n').filter(line => line.includes(':')).map(line => [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 1)]),
+));
+
+describe('buildWorkoutCalendar', () => {
+  const ics = buildWorkoutCalendar(plan, { owner: 'sam', startTime: '07:15' }, now);
+
+  it('folds lines at 75 octets with CRLF and a space, without splitting characters', () => {
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+
+    const lines = ics.split('\r\n').slice(0, -1);
+    expect(lines.some(line => line.startsWith(' '))).toBe(true);
+    for (const line of lines) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+      expect(line).not.toContain('�');
+    }
+    expect(unfold(ics)).toContain('Mobilité & équilibre 💪');
+    expect(unfold(ics)).toContain('Planche latérale avec rotation du tronc (Core): 3 x 30 seconds');
+  });
+
+  it('escapes text values', () => {
+    const [monday] = events(ics);
+    expect(monday.SUMMARY).toBe('Push\\; Pull\\, Legs workout');
+    expect(monday.DESCRIPTION).toBe('Push\\; Pull\\, Legs\\n\\nBarbell Bench Press (Chest): 3 x 8-10 @ 60 kg\\nPush-up (Chest): 2 x AMRAP');
+
+    const name = buildWorkoutCalendar(plan, { owner: 'sam', calendarName: 'Back\\slash, semi;colon\nnew line' }, now);
+    expect(name).toContain('X-WR-CALNAME:Back\\\\slash\\, semi\\;colon\\nnew line\r\n');
+  });
+
+  it('writes sessions in floating local time on their scheduled dates', () => {
+    const [monday, thursday] = events(ics);
+    expect(monday).toMatchObject({ DTSTART: '20261019T071500', DURATION: 'PT50M', DTSTAMP: '20261018T093015Z' });
+    expect(thursday).toMatchObject({ DTSTART: '20261022T071500', DURATION: 'PT60M' });
+    expect(monday.SEQUENCE).toBe(String(Math.floor(now.getTime() / 1000)));
+    expect(monday.RRULE).toBeUndefined();
+  });
+
+  it('falls back to the default start time', () => {
+    expect(events(buildWorkoutCalendar(plan, { owner: 'sam', startTime: 'evening' }, now))[0].DTSTART).toBe('20261019T180000');
+  });
+
+  it('keeps UIDs stable across exports and private to the owner', () => {
+    const [monday] = events(ics);
+    const later = events(buildWorkoutCalendar({ ...plan, schedule: [{ day: 'Monday', date: '2026-10-20' }] }, { owner: 'sam' }, new Date()));
+    expect(later[0].UID).toBe(monday.UID);
+    expect(monday.UID).toMatch(/-w2-monday@fitplan$/);
+    expect(monday.UID).not.toContain('sam');
+    expect(events(buildWorkoutCalendar(plan, { owner: 'alex' }, now))[0].UID).not.toBe(monday.UID);
+  });
+
+  it('repeats weekly events up to a year', () => {
+    const [monday] = events(buildWorkoutCalendar(plan, { owner: 'sam', weeks: 8 }, now));
+    expect(monday.RRULE).toBe('FREQ=WEEKLY;COUNT=8');
+    expect(monday.UID).toMatch(/-monday-weekly@fitplan$/);
+    expect(events(buildWorkoutCalendar(plan, { owner: 'sam', weeks: 500 }, now))[0].RRULE).toBe('FREQ=WEEKLY;COUNT=52');
+  });
+
+  it('writes target loads in the chosen units', () => {
+    expect(events(buildWorkoutCalendar(plan, { owner: 'sam', units: 'imperial' }, now))[0].DESCRIPTION).toContain('3 x 8-10 @ 132.3 lb');
+  });
+});
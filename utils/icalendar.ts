@@ -0,0 +1,134 @@
+import { GeneratedPlan, UnitSystem } from '../types';
+import { parseDurationMinutes } from './planValidation';
+import { syncSchedule, parseISODate } from './schedule';
+import { formatWeight } from './units';
+
+export interface CalendarOptions {
+  /** Identifies the owner so UIDs differ between accounts; never shown in the file. */
+  owner: string;
+  /** Local start time of every session, "HH:MM". */
+  startTime?: string;
+  /** Repeat each session weekly for this many weeks (1 = this week only). */
+  weeks?: number;
+  calendarName?: string;
+  /** How target loads are written in event descriptions; metric when not set. */
+  units?: UnitSystem;
+}
+
+const DEFAULT_START_TIME = '18:00';
+const DEFAULT_DURATION_MINUTES = 60;
+const MAX_WEEKS = 52;
+const PRODID = '-//FitPlan//Workout Schedule//EN';
+
+// RFC 5545 §3.3.11: backslash, semicolon and comma are escaped and newlines become "\n".
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const encoder = new TextEncoder();
+
+// RFC 5545 §3.1: lines longer than 75 octets are folded with CRLF and a leading space,
+// without splitting a multi-byte character.
+const foldLine = (line: string): string => {
+  if (encoder.encode(line).length <= 75) return line;
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74; // continuation lines start with a space
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Floating local time (no "Z", no TZID): the session happens at the same clock time wherever
+// the user's calendar is, which is what a workout schedule means.
+const formatLocalDateTime = (date: Date) =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}T${pad(date.getHours())}${pad(date.getMinutes())}00`;
+
+const formatUtcDateTime = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+const slug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'session';
+
+// Small non-cryptographic hash (FNV-1a) so UIDs do not reveal the username.
+const hashOwner = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+const parseStartTime = (time: string | undefined) => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time || '');
+  const [hours, minutes] = match ? [parseInt(match[1], 10), parseInt(match[2], 10)] : DEFAULT_START_TIME.split(':').map(Number);
+  return { hours: Math.min(23, hours), minutes: Math.min(59, minutes) };
+};
+
+/**
+ * Builds an RFC 5545 calendar with one event per plan day, on the dates from the plan's
+ * schedule. UIDs depend only on the owner and the day label (plus the week for one-off
+ * exports), so importing again after an edit or a reschedule updates the same events.
+ */
+export const buildWorkoutCalendar = (plan: GeneratedPlan, options: CalendarOptions, now: Date = new Date()): string => {
+  const { hours, minutes } = parseStartTime(options.startTime);
+  const weeks = Math.max(1, Math.min(MAX_WEEKS, Math.floor(options.weeks ?? 1)));
+  const owner = hashOwner(options.owner);
+  const stamp = formatUtcDateTime(now);
+  // SEQUENCE must grow with every revision; seconds since the epoch always do.
+  const sequence = Math.floor(now.getTime() / 1000);
+  const schedule = new Map((plan.schedule && plan.schedule.length > 0 ? plan.schedule : syncSchedule(plan, now)).map(s => [s.day, s.date]));
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.calendarName || 'FitPlan Workouts')}`,
+  ];
+
+  for (const day of plan.plan) {
+    const date = schedule.get(day.day);
+    if (!date) continue;
+    const start = parseISODate(date);
+    start.setHours(hours, minutes, 0, 0);
+    const duration = parseDurationMinutes(day.approximateTime) || DEFAULT_DURATION_MINUTES;
+
+    const exercises = day.muscleGroups.flatMap(group => group.exercises.map(ex =>
+      `${ex.name} (${group.name}): ${ex.sets} x ${ex.reps}${ex.targetWeight !== undefined ? ` @ ${formatWeight(ex.targetWeight, options.units)}` : ''}`));
+    const description = [day.focus, '', ...exercises].join('\n');
+
+    const uid = weeks > 1
+      ? `${owner}-${slug(day.day)}-weekly@fitplan`
+      : `${owner}-w${plan.week ?? 1}-${slug(day.day)}@fitplan`;
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${uid}`,
+      `DTSTAMP:${stamp}`,
+      `SEQUENCE:${sequence}`,
+      `DTSTART:${formatLocalDateTime(start)}`,
+      `DURATION:PT${duration}M`,
+      `SUMMARY:${escapeText(`${day.focus} workout`)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      'CATEGORIES:Fitness',
+      ...(weeks > 1 ? [`RRULE:FREQ=WEEKLY;COUNT=${weeks}`] : []),
+      'END:VEVENT',
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,247 @@
+import { BodyArea, DailyWorkout, Exercise, GeneratedPlan, Limitation, MovementPattern, UserData, WarmUpDrill } from '../types';
+import { EquipmentTag, EXERCISE_LIBRARY, getLibraryExercise, LibraryExercise, MUSCLE_LABELS, TrainingGroup } from '../data/exerciseLibrary';
+import { MOBILITY_DRILLS, MobilityDrill, PULSE_RAISERS } from '../data/warmUpDrills';
+import { matchExercise, toPlanExercise } from './exerciseMatcher';
+import { groupOfMuscle } from './analytics';
+
+export const BODY_AREA_LABELS: Record<BodyArea, string> = {
+  'neck': 'Neck',
+  'shoulder': 'Shoulder',
+  'elbow': 'Elbow',
+  'wrist': 'Wrist',
+  'upper-back': 'Upper Back',
+  'lower-back': 'Lower Back',
+  'hip': 'Hip',
+  'knee': 'Knee',
+  'ankle': 'Ankle',
+};
+
+export const MOVEMENT_PATTERN_LABELS: Record<MovementPattern, string> = {
+  'overhead-pressing': 'Overhead pressing',
+  'deep-squatting': 'Deep squatting',
+  'lunging': 'Lunging',
+  'hip-hinging': 'Hip hinging',
+  'spinal-loading': 'Bar on the back or shoulders',
+  'spinal-flexion': 'Crunching',
+  'twisting': 'Twisting',
+  'hanging': 'Hanging',
+  'dips': 'Dips',
+  'weight-on-hands': 'Weight on the hands',
+  'explosive': 'Jumping and explosive moves',
+};
+
+// Movements that commonly aggravate each area. Guidance for programming, not medical advice.
+const AREA_PATTERNS: Record<BodyArea, MovementPattern[]> = {
+  'neck': ['spinal-loading', 'spinal-flexion'],
+  'shoulder': ['overhead-pressing', 'dips', 'hanging'],
+  'elbow': ['dips', 'hanging'],
+  'wrist': ['weight-on-hands'],
+  'upper-back': ['spinal-loading'],
+  'lower-back': ['hip-hinging', 'spinal-loading', 'spinal-flexion', 'twisting'],
+  'hip': ['deep-squatting', 'lunging', 'explosive'],
+  'knee': ['deep-squatting', 'lunging', 'explosive'],
+  'ankle': ['lunging', 'explosive'],
+};
+
+// Muscle names, as library labels or AI plans write them, whose training loads each area.
+const AREA_MUSCLES: Record<BodyArea, RegExp> = {
+  'neck': /\b(neck|traps?|trapezius)\b/i,
+  'shoulder': /\b(delts?|deltoids?|shoulders?|rotator)\b/i,
+  'elbow': /\b(triceps|biceps|brachialis)\b/i,
+  'wrist': /\b(forearms?|wrists?|grip)\b/i,
+  'upper-back': /\b(upper back|rhomboids?)\b/i,
+  'lower-back': /\b(lower back|erector|spinal)\b/i,
+  'hip': /\b(hip|adductors?|abductors?)\b/i,
+  'knee': /\b(quads|quadriceps|knees?)\b/i,
+  'ankle': /\b(calf|calves|ankles?|tibialis)\b/i,
+};
+
+// For exercises the library does not know, e.g. ones an AI plan invented.
+const NAME_PATTERNS: [RegExp, MovementPattern][] = [
+  [/overhead|military|shoulder press|arnold|push press|snatch|jerk/i, 'overhead-pressing'],
+  [/squat|leg press|hack|sissy|pistol/i, 'deep-squatting'],
+  [/lunge|split squat|step.?up/i, 'lunging'],
+  [/deadlift|good morning|rdl|hinge|bent.?over|swing|hip thrust/i, 'hip-hinging'],
+  [/barbell (back |front )?squat|back squat|front squat|deadlift|barbell overhead|military/i, 'spinal-loading'],
+  [/crunch|sit.?up|v.?up|toes to bar|knee raise|leg raise/i, 'spinal-flexion'],
+  [/twist|woodchop|rotation/i, 'twisting'],
+  [/pull.?up|chin.?up|hang/i, 'hanging'],
+  [/\bdips?\b/i, 'dips'],
+  [/push.?up|plank to|burpee|mountain climber|handstand|bear crawl/i, 'weight-on-hands'],
+  [/jump|burpee|box|skater|sprint|clean|snatch|swing|plyo|bound/i, 'explosive'],
+];
+
+const libraryEntryOf = (exercise: Pick<Exercise, 'name' | 'exerciseId'>): LibraryExercise | null =>
+  (exercise.exerciseId && getLibraryExercise(exercise.exerciseId)) || matchExercise(exercise.name);
+
+/** Movement patterns an exercise involves, from the library where it is known and its name otherwise. */
+export const patternsOf = (exercise: Pick<Exercise, 'name' | 'exerciseId'>): MovementPattern[] => {
+  const entry = libraryEntryOf(exercise);
+  const patterns = new Set<MovementPattern>(entry?.patterns ?? []);
+  if (!entry) NAME_PATTERNS.filter(([re]) => re.test(exercise.name)).forEach(([, p]) => patterns.add(p));
+  return [...patterns];
+};
+
+// The muscles an exercise mainly trains. AI plans list every muscle involved, so an unknown
+// exercise is judged on all of them.
+const mainMusclesOf = (exercise: Pick<Exercise, 'name' | 'exerciseId' | 'targetMuscles'>): string[] => {
+  const entry = libraryEntryOf(exercise);
+  return entry ? entry.primaryMuscles.map(m => MUSCLE_LABELS[m]) : exercise.targetMuscles;
+};
+
+export interface LimitationIssue {
+  severity: Limitation['severity'];
+  reason: string;
+}
+
+/**
+ * Whether an exercise conflicts with the user's limitations. Avoided movement patterns and
+ * exercises loading an area marked 'avoid' must go; anything touching an area marked
+ * 'caution' is only flagged. The most severe issue is returned.
+ */
+export const checkExercise = (
+  exercise: Pick<Exercise, 'name' | 'exerciseId' | 'targetMuscles'>,
+  userData: UserData,
+): LimitationIssue | null => {
+  const patterns = patternsOf(exercise);
+  const muscles = mainMusclesOf(exercise);
+  const explicit = patterns.find(p => userData.avoidPatterns?.includes(p));
+  if (explicit) return { severity: 'avoid', reason: `${MOVEMENT_PATTERN_LABELS[explicit]} is on your list of movements to avoid` };
+
+  let caution: LimitationIssue | null = null;
+  for (const limitation of userData.limitations ?? []) {
+    const area = BODY_AREA_LABELS[limitation.area].toLowerCase();
+    const pattern = patterns.find(p => AREA_PATTERNS[limitation.area].includes(p));
+    const loadsArea = muscles.some(m => AREA_MUSCLES[limitation.area].test(m));
+    if (!pattern && !loadsArea) continue;
+    const reason = pattern
+      ? `${MOVEMENT_PATTERN_LABELS[pattern].toLowerCase()} can aggravate your ${area}`
+      : `it works the muscles around your ${area}`;
+    if (limitation.severity === 'avoid') return { severity: 'avoid', reason };
+    caution ??= { severity: 'caution', reason };
+  }
+  return caution;
+};
+
+export const checkLibraryExercise = (entry: LibraryExercise, userData: UserData): LimitationIssue | null =>
+  checkExercise({ name: entry.name, exerciseId: entry.id, targetMuscles: [] }, userData);
+
+const isTimed = (reps: string) => /sec|min/i.test(reps);
+
+/**
+ * The library exercise that best replaces another, e.g. one the user must avoid: same training
+ * group (or a shared primary muscle), doable with their equipment, not already in the session
+ * and free of conflicts, preferring no caution and a similar difficulty.
+ */
+export const findSubstitute = (
+  exercise: Exercise,
+  groupName: string,
+  userData: UserData,
+  available: Set<EquipmentTag>,
+  inSession: Set<string>,
+): LibraryExercise | null => {
+  const entry = libraryEntryOf(exercise);
+  const group: TrainingGroup | null = entry?.group ?? groupOfMuscle(groupName) ?? exercise.targetMuscles.map(groupOfMuscle).find(g => g) ?? null;
+  const candidates = EXERCISE_LIBRARY
+    .filter(e => !inSession.has(e.id) && e.equipment.every(tag => available.has(tag)))
+    .filter(e => e.group === group || (entry !== null && e.primaryMuscles.some(m => entry.primaryMuscles.includes(m))))
+    .map(e => ({ e, issue: checkLibraryExercise(e, userData) }))
+    .filter(({ issue }) => issue?.severity !== 'avoid')
+    .sort((a, b) => Number(a.issue !== null) - Number(b.issue !== null)
+      || Number(b.e.group === group) - Number(a.e.group === group)
+      || Math.abs(a.e.difficulty - (entry?.difficulty ?? 1)) - Math.abs(b.e.difficulty - (entry?.difficulty ?? 1)));
+  return candidates[0]?.e ?? null;
+};
+
+const adjustExercise = (
+  exercise: Exercise,
+  groupName: string,
+  userData: UserData,
+  available: Set<EquipmentTag>,
+  inSession: Set<string>,
+): Exercise => {
+  // Flags are worked out afresh; a substitution stays recorded as long as the substitute is fine.
+  const { adjustment, ...base } = exercise;
+  const kept = adjustment?.type === 'substituted' ? { adjustment } : {};
+  const issue = checkExercise(base, userData);
+  if (!issue) return { ...base, ...kept };
+  if (issue.severity === 'caution') return { ...base, adjustment: { type: 'flagged', reason: issue.reason } };
+
+  const substitute = findSubstitute(base, groupName, userData, available, inSession);
+  if (!substitute) {
+    return { ...base, adjustment: { type: 'flagged', reason: `${issue.reason}, and no alternative fits your equipment. Skip it or check with a professional` } };
+  }
+  inSession.add(substitute.id);
+  const reps = substitute.timed && !isTimed(base.reps) ? '30 seconds' : !substitute.timed && isTimed(base.reps) ? '10-12' : base.reps;
+  return {
+    ...toPlanExercise(substitute, base.sets, reps),
+    adjustment: { type: 'substituted', reason: issue.reason, original: adjustment?.original ?? base.name },
+  };
+};
+
+const formatSeconds = (seconds: number) =>
+  seconds < 90 ? `${seconds} seconds` : `${Math.round(seconds / 60)} minutes`;
+
+const toWarmUpDrill = (drill: MobilityDrill): WarmUpDrill => ({
+  name: drill.name,
+  duration: formatSeconds(drill.seconds),
+  description: drill.description,
+});
+
+const MOBILITY_DRILLS_PER_SESSION = 4;
+
+/**
+ * A short warm-up for a session: a pulse raiser (low impact when jumping is out), gentle
+ * mobility for each limited area, then drills for the groups the session trains.
+ */
+export const buildWarmUp = (day: DailyWorkout, userData: UserData): WarmUpDrill[] => {
+  const noImpact = userData.avoidPatterns?.includes('explosive')
+    || (userData.limitations ?? []).some(l => AREA_PATTERNS[l.area].includes('explosive'));
+  const pulse = PULSE_RAISERS.find(d => !noImpact || !d.highImpact) ?? PULSE_RAISERS[0];
+
+  const groups = new Set(day.muscleGroups
+    .flatMap(g => [groupOfMuscle(g.name), ...g.exercises.map(e => libraryEntryOf(e)?.group ?? null)])
+    .filter((g): g is TrainingGroup => g !== null));
+  const chosen: MobilityDrill[] = [];
+  const add = (drill: MobilityDrill | undefined) => {
+    if (drill && !chosen.includes(drill) && chosen.length < MOBILITY_DRILLS_PER_SESSION) chosen.push(drill);
+  };
+  (userData.limitations ?? []).forEach(l => add(MOBILITY_DRILLS.find(d => d.areas.includes(l.area) && !chosen.includes(d))));
+  MOBILITY_DRILLS.filter(d => d.prepares.some(g => groups.has(g))).forEach(add);
+
+  return [pulse, ...chosen].map(toWarmUpDrill);
+};
+
+/**
+ * Enforces the user's limitations on a plan from any provider: conflicting exercises are
+ * swapped for a safe library alternative (or flagged when there is none), exercises near a
+ * sensitive area are flagged, and each day gets a warm-up when the user asked for one.
+ */
+export const applyLimitations = (plan: GeneratedPlan, userData: UserData, available: Set<EquipmentTag>): GeneratedPlan => ({
+  ...plan,
+  plan: plan.plan.map(day => {
+    const inSession = new Set(day.muscleGroups.flatMap(g => g.exercises.map(e => libraryEntryOf(e)?.id ?? e.name)));
+    const { warmUp: _warmUp, ...rest } = day;
+    const adjusted: DailyWorkout = {
+      ...rest,
+      muscleGroups: day.muscleGroups.map(group => ({
+        ...group,
+        exercises: group.exercises.map(e => adjustExercise(e, group.name, userData, available, inSession)),
+      })),
+    };
+    return userData.includeWarmUp ? { ...adjusted, warmUp: buildWarmUp(adjusted, userData) } : adjusted;
+  }),
+});
+
+/** Exercises in a session that were changed or flagged for the user's limitations. */
+export const dayAdjustments = (day: DailyWorkout) =>
+  day.muscleGroups.flatMap(g => g.exercises.filter(e => e.adjustment).map(e => ({ group: g.name, exercise: e })));
+
+/** The limitations as plain sentences, for prompts to AI providers. */
+export const describeLimitations = (userData: UserData): string[] => [
+  ...(userData.limitations ?? []).map(l =>
+    `${BODY_AREA_LABELS[l.area]}: ${l.severity === 'avoid' ? 'injured, do not load it' : 'sensitive, train it with care'}${l.note ? ` (${l.note})` : ''}`),
+  ...(userData.avoidPatterns?.length
+    ? [`Do not include these movements: ${userData.avoidPatterns.map(p => MOVEMENT_PATTERN_LABELS[p].toLowerCase()).join(', ')}`]
+    : []),
+];
@@ -0,0 +1,39 @@
+import { GeneratedDietPlan, Meal, MealSlot } from '../types';
+import { buildMeal, mealTemplatesFor } from './templateDietGenerator';
+import { dailyTotalsOf, mealsOf } from './nutrition';
+import { DietPreferences } from './dietaryRules';
+
+const MAX_ALTERNATIVES = 3;
+
+/**
+ * Replacement meals for one slot, cooked to the same calories as the meal they replace and
+ * filtered by the user's diet preferences. Those closest in protein come first; the meal
+ * itself and anything else already eaten that day are left out.
+ */
+export const mealAlternatives = (
+  slot: MealSlot,
+  current: Meal,
+  prefs: DietPreferences,
+  exclude: string[] = [],
+): Meal[] => {
+  const skip = new Set([current.name, ...exclude]);
+  const kind = slot === 'secondSnack' ? 'snack' : slot;
+  const calories = current.calories > 0 ? current.calories : 400;
+  const candidates = mealTemplatesFor(kind, prefs)
+    .filter(t => !skip.has(t.name))
+    .map(t => buildMeal(t, calories));
+  if (current.protein === undefined) return candidates.slice(0, MAX_ALTERNATIVES);
+  return candidates
+    .sort((a, b) => Math.abs((a.protein ?? 0) - current.protein!) - Math.abs((b.protein ?? 0) - current.protein!))
+    .slice(0, MAX_ALTERNATIVES);
+};
+
+/** Puts `meal` in one slot of one day and recomputes that day's totals; the rest of the plan is untouched. */
+export const replaceMeal = (plan: GeneratedDietPlan, dayIndex: number, slot: MealSlot, meal: Meal): GeneratedDietPlan => ({
+  ...plan,
+  plan: plan.plan.map((day, i) => {
+    if (i !== dayIndex) return day;
+    const updated = { ...day, meals: { ...day.meals, [slot]: meal } };
+    return { ...updated, dailyTotals: dailyTotalsOf(mealsOf(updated).map(([, m]) => m), day.dailyTotals) };
+  }),
+});
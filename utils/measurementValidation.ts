@@ -0,0 +1,37 @@
+import { BodyMeasurement } from '../types';
+import { Checker, ValidationResult } from './validation';
+
+const MEASUREMENT_FIELDS = ['weight', 'bodyFat', 'waist', 'hips', 'chest', 'height'] as const;
+
+/**
+ * Checks a body measurement. It needs an id and a calendar date (a full timestamp is cut to
+ * its date); values that are not positive numbers are dropped, but at least one must remain.
+ */
+export const validateBodyMeasurement = (raw: unknown): ValidationResult<BodyMeasurement> => {
+  const c = new Checker();
+  if (!c.isObject(raw, 'measurement')) return { value: null, errors: c.errors, repairs: c.repairs };
+  const id = c.requiredString(raw.id, 'measurement.id');
+  let date = c.requiredString(raw.date, 'measurement.date');
+  if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    if (/^\d{4}-\d{2}-\d{2}T/.test(date) && !Number.isNaN(Date.parse(date))) {
+      c.repair('measurement.date', 'kept only the date');
+      date = date.slice(0, 10);
+    } else {
+      c.error('measurement.date', 'expected a YYYY-MM-DD date');
+    }
+  }
+
+  const measurement: BodyMeasurement = { id, date };
+  MEASUREMENT_FIELDS.forEach(field => {
+    if (raw[field] === undefined || raw[field] === null) return;
+    const value = c.number(raw[field], `measurement.${field}`, 0);
+    if (value > 0) measurement[field] = value;
+    else c.repair(`measurement.${field}`, 'dropped a value that is not positive');
+  });
+  if (!MEASUREMENT_FIELDS.some(field => measurement[field] !== undefined)) {
+    c.error('measurement', 'has no measurements');
+  }
+  if (typeof raw.notes === 'string' && raw.notes.trim()) measurement.notes = raw.notes.trim();
+
+  return { value: c.errors.length === 0 ? measurement : null, errors: c.errors, repairs: c.repairs };
+};
@@ -0,0 +1,174 @@
+import { DailyDiet, GeneratedDietPlan, GeneratedPlan, Meal, MealIngredient, MealSlot, UserData } from '../types';
+import { FOOD_DATABASE, FoodItem, FoodNutrients, getFood } from '../data/foodDatabase';
+import { parseHeight, parseWeight } from './units';
+
+export type DietTargets = GeneratedDietPlan['overallTargets'];
+
+// Mifflin-St Jeor needs an age, which the profile does not ask for; assume a typical adult.
+const DEFAULT_AGE = 30;
+// Everyday activity outside training. Training itself is added from the plan's own calorie
+// estimate rather than through a bigger multiplier, so it is not counted twice.
+const NON_EXERCISE_ACTIVITY_FACTOR = 1.2;
+const MIN_DAILY_CALORIES = 1200;
+const KCAL_PER_G_PROTEIN = 4;
+const KCAL_PER_G_CARBS = 4;
+const KCAL_PER_G_FAT = 9;
+const FAT_SHARE_OF_CALORIES = 0.25;
+
+/** Slots in the order a day is eaten and shown; which ones a day has depends on meals per day. */
+export const MEAL_SLOTS: MealSlot[] = ['breakfast', 'lunch', 'dinner', 'snack', 'secondSnack'];
+
+export const MEAL_SLOT_LABELS: Record<MealSlot, string> = {
+  breakfast: 'Breakfast',
+  lunch: 'Lunch',
+  dinner: 'Dinner',
+  snack: 'Snack',
+  secondSnack: 'Second Snack',
+};
+
+export const DEFAULT_MEALS_PER_DAY = 4;
+
+export const mealSlotsFor = (mealsPerDay: number = DEFAULT_MEALS_PER_DAY): MealSlot[] =>
+  MEAL_SLOTS.slice(0, Math.min(5, Math.max(3, Math.round(mealsPerDay) || DEFAULT_MEALS_PER_DAY)));
+
+/** The day's meals in slot order, skipping slots the day does not have. */
+export const mealsOf = (day: DailyDiet): [MealSlot, Meal][] =>
+  MEAL_SLOTS.flatMap(slot => (day.meals[slot] ? [[slot, day.meals[slot]!] as [MealSlot, Meal]] : []));
+
+const ZERO: FoodNutrients = { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 };
+
+const normalizeFoodName = (name: string) =>
+  name.toLowerCase().replace(/\(.*?\)/g, ' ').replace(/[^a-z0-9%]+/g, ' ').trim();
+
+/** Every name a food goes by, normalized, for matching against what users type. */
+export const foodNames = (food: FoodItem): string[] =>
+  [food.id.replace(/-/g, ' '), food.name, ...food.aliases].map(normalizeFoodName);
+
+const foodIndex = new Map<string, FoodItem>();
+FOOD_DATABASE.forEach(food => {
+  foodNames(food).forEach(key => {
+    if (!foodIndex.has(key)) foodIndex.set(key, food);
+  });
+});
+
+/** Looks a food up by id or by name; names ignore case, punctuation and "(cooked)"-style notes. */
+export const findFood = (idOrName: string): FoodItem | null =>
+  getFood(idOrName) ?? foodIndex.get(normalizeFoodName(idOrName)) ?? null;
+
+/** True when `term` appears in `text` as whole words, ignoring case and punctuation. */
+export const mentions = (text: string, term: string): boolean => {
+  const needle = normalizeFoodName(term);
+  return needle !== '' && ` ${normalizeFoodName(text)} `.includes(` ${needle} `);
+};
+
+/** Foods from the database named in free text, e.g. a meal written without ingredients. */
+export const foodsMentionedIn = (text: string): FoodItem[] => {
+  const haystack = ` ${normalizeFoodName(text)} `;
+  const found = new Set<FoodItem>();
+  foodIndex.forEach((food, key) => {
+    if (haystack.includes(` ${key} `)) found.add(food);
+  });
+  return [...found];
+};
+
+export const ingredientNutrients = (ingredient: Pick<MealIngredient, 'foodId' | 'grams'>): FoodNutrients => {
+  const food = getFood(ingredient.foodId);
+  if (!food) return ZERO;
+  const factor = ingredient.grams / 100;
+  return {
+    calories: food.per100g.calories * factor,
+    protein: food.per100g.protein * factor,
+    carbs: food.per100g.carbs * factor,
+    fat: food.per100g.fat * factor,
+    fiber: food.per100g.fiber * factor,
+  };
+};
+
+export const sumNutrients = (items: FoodNutrients[]): FoodNutrients =>
+  items.reduce((total, item) => ({
+    calories: total.calories + item.calories,
+    protein: total.protein + item.protein,
+    carbs: total.carbs + item.carbs,
+    fat: total.fat + item.fat,
+    fiber: total.fiber + item.fiber,
+  }), ZERO);
+
+export const formatGrams = (grams: number) => `${Math.round(grams)}g`;
+
+/** Fills in a meal's calories and macros from its ingredients; meals without any are unchanged. */
+export const withComputedNutrients = (meal: Meal): Meal => {
+  if (!meal.ingredients || meal.ingredients.length === 0) return meal;
+  const total = sumNutrients(meal.ingredients.map(ingredientNutrients));
+  return {
+    ...meal,
+    calories: Math.round(total.calories),
+    protein: Math.round(total.protein),
+    carbs: Math.round(total.carbs),
+    fat: Math.round(total.fat),
+  };
+};
+
+/**
+ * Daily totals from the meals. Macros are only computed when every meal has them (meals
+ * written without ingredients do not), otherwise the previous figures are kept.
+ */
+export const dailyTotalsOf = (meals: Meal[], previous?: DailyDiet['dailyTotals']): DailyDiet['dailyTotals'] => {
+  const calories = meals.reduce((sum, m) => sum + m.calories, 0);
+  if (!meals.every(m => m.protein !== undefined) && previous) return { ...previous, calories };
+  const sum = (key: 'protein' | 'carbs' | 'fat') => formatGrams(meals.reduce((total, m) => total + (m[key] ?? 0), 0));
+  return { calories, protein: sum('protein'), carbs: sum('carbs'), fat: sum('fat') };
+};
+
+const genderOffset = (gender: string) => {
+  const g = gender.toLowerCase();
+  if (/^(male|man|m)$/.test(g)) return 5;
+  if (/^(female|woman|f)$/.test(g)) return -161;
+  return -78; // midpoint when not stated
+};
+
+/**
+ * Basal metabolic rate in kcal/day by the Mifflin-St Jeor equation. Weight and height may be
+ * in any unit parseWeight and parseHeight read. Returns null when either is missing.
+ */
+export const calculateBmr = (userData: UserData, age = DEFAULT_AGE): number | null => {
+  const weight = parseWeight(userData.weight, userData.units);
+  const height = parseHeight(userData.height, userData.units);
+  if (weight === null || height === null) return null;
+  return 10 * weight + 6.25 * height - 5 * age + genderOffset(userData.gender);
+};
+
+/** Total daily energy expenditure: BMR, everyday activity, and the plan's training averaged over the week. */
+export const calculateTdee = (userData: UserData, workoutPlan: GeneratedPlan | null): number | null => {
+  const bmr = calculateBmr(userData);
+  if (bmr === null) return null;
+  const training = workoutPlan ? workoutPlan.totalWeeklyCaloriesBurned / 7 : 0;
+  return bmr * NON_EXERCISE_ACTIVITY_FACTOR + training;
+};
+
+const goalAdjustment = (goal: string) => {
+  const g = goal.toLowerCase();
+  // "Gain weight" must not read as a weight-loss goal, so explicit gains are checked first.
+  if (/gain|bulk/.test(g)) return { calories: 1.1, proteinPerKg: 1.8 };
+  if (/lose|loss|fat|lean|cut/.test(g)) return { calories: 0.8, proteinPerKg: 2.0 };
+  if (/muscle|build|hypertrophy|strength/.test(g)) return { calories: 1.1, proteinPerKg: 1.8 };
+  return { calories: 1, proteinPerKg: 1.6 };
+};
+
+/**
+ * Daily calorie and macro targets: TDEE adjusted for the goal (a 20% deficit to lose fat, a
+ * 10% surplus to build muscle), protein by body weight, a quarter of calories from fat and the
+ * rest from carbohydrate. Returns null when the profile has no weight or height.
+ */
+export const computeDietTargets = (userData: UserData, workoutPlan: GeneratedPlan | null): DietTargets | null => {
+  const tdee = calculateTdee(userData, workoutPlan);
+  const weight = parseWeight(userData.weight, userData.units);
+  if (tdee === null || weight === null) return null;
+
+  const adjustment = goalAdjustment(userData.goal);
+  const dailyCalories = Math.round(Math.max(MIN_DAILY_CALORIES, tdee * adjustment.calories));
+  const protein = weight * adjustment.proteinPerKg;
+  const fat = (dailyCalories * FAT_SHARE_OF_CALORIES) / KCAL_PER_G_FAT;
+  const carbs = Math.max(0, (dailyCalories - protein * KCAL_PER_G_PROTEIN - fat * KCAL_PER_G_FAT) / KCAL_PER_G_CARBS);
+
+  return { dailyCalories, protein: formatGrams(protein), carbs: formatGrams(carbs), fat: formatGrams(fat) };
+};
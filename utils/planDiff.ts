@@ -0,0 +1,99 @@
+import { DailyWorkout, Exercise, GeneratedPlan } from '../types';
+import { exerciseKey } from './exerciseMatcher';
+
+export type ChangeStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface ExerciseChange {
+  status: Exclude<ChangeStatus, 'unchanged'>;
+  name: string;
+  muscleGroup: string;
+  before?: Pick<Exercise, 'name' | 'sets' | 'reps' | 'targetWeight'>;
+  after?: Pick<Exercise, 'name' | 'sets' | 'reps' | 'targetWeight'>;
+}
+
+export interface DayDiff {
+  day: string;
+  status: ChangeStatus;
+  focus?: { before: string; after: string };
+  exercises: ExerciseChange[];
+}
+
+export interface PlanDiff {
+  days: DayDiff[];
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+interface Slot {
+  key: string;
+  muscleGroup: string;
+  exercise: Exercise;
+}
+
+const slotsOf = (day: DailyWorkout | undefined): Slot[] => {
+  if (!day) return [];
+  const seen = new Map<string, number>();
+  return day.muscleGroups.flatMap(group => group.exercises.map(exercise => {
+    // The same exercise can appear twice in a day; number repeats so they pair up in order.
+    const base = exerciseKey(exercise.name, exercise.exerciseId);
+    const n = seen.get(base) ?? 0;
+    seen.set(base, n + 1);
+    return { key: `${base}#${n}`, muscleGroup: group.name, exercise };
+  }));
+};
+
+const prescription = (e: Exercise) => ({ name: e.name, sets: e.sets, reps: e.reps, targetWeight: e.targetWeight });
+
+const samePrescription = (a: Exercise, b: Exercise) =>
+  a.name === b.name && a.sets === b.sets && a.reps === b.reps && a.targetWeight === b.targetWeight;
+
+const diffDay = (day: string, before: DailyWorkout | undefined, after: DailyWorkout | undefined): DayDiff => {
+  const beforeSlots = slotsOf(before);
+  const afterSlots = new Map(slotsOf(after).map(s => [s.key, s]));
+  const exercises: ExerciseChange[] = [];
+
+  for (const slot of beforeSlots) {
+    const match = afterSlots.get(slot.key);
+    if (!match) {
+      exercises.push({ status: 'removed', name: slot.exercise.name, muscleGroup: slot.muscleGroup, before: prescription(slot.exercise) });
+      continue;
+    }
+    afterSlots.delete(slot.key);
+    if (!samePrescription(slot.exercise, match.exercise)) {
+      exercises.push({
+        status: 'changed', name: match.exercise.name, muscleGroup: match.muscleGroup,
+        before: prescription(slot.exercise), after: prescription(match.exercise),
+      });
+    }
+  }
+  for (const slot of afterSlots.values()) {
+    exercises.push({ status: 'added', name: slot.exercise.name, muscleGroup: slot.muscleGroup, after: prescription(slot.exercise) });
+  }
+
+  const focusChanged = !!before && !!after && before.focus !== after.focus;
+  const status: ChangeStatus = !before ? 'added' : !after ? 'removed' : exercises.length > 0 || focusChanged ? 'changed' : 'unchanged';
+  return {
+    day,
+    status,
+    ...(focusChanged ? { focus: { before: before!.focus, after: after!.focus } } : {}),
+    exercises,
+  };
+};
+
+/**
+ * Structural diff between two plans. Days are paired by name and exercises by catalogue id
+ * (falling back to the normalised name), so a renamed variant of the same movement shows up
+ * as a change rather than a removal plus an addition.
+ */
+export const diffPlans = (before: GeneratedPlan, after: GeneratedPlan): PlanDiff => {
+  const beforeDays = new Map(before.plan.map(d => [d.day, d]));
+  const afterDays = new Map(after.plan.map(d => [d.day, d]));
+  const dayNames = [...before.plan.map(d => d.day), ...after.plan.map(d => d.day).filter(d => !beforeDays.has(d))];
+
+  const days = dayNames.map(day => diffDay(day, beforeDays.get(day), afterDays.get(day)));
+  const count = (status: ExerciseChange['status']) =>
+    days.reduce((sum, d) => sum + d.exercises.filter(e => e.status === status).length, 0);
+
+  return { days, added: count('added'), removed: count('removed'), changed: count('changed') };
+};
@@ -0,0 +1,210 @@
+import { DailyWorkout, Exercise, GeneratedPlan, MuscleGroup } from '../types';
+
+export type EditableExerciseField = 'name' | 'sets' | 'reps' | 'description' | 'targetMuscles' | 'targetWeight';
+export type EditableDayField = 'focus' | 'approximateTime' | 'caloriesBurned';
+export type EditablePlanField = 'summary' | 'totalWeeklyTime' | 'totalWeeklyCaloriesBurned';
+
+export interface GroupLocation {
+  dayIndex: number;
+  groupIndex: number;
+}
+
+export interface ExerciseLocation extends GroupLocation {
+  exerciseIndex: number;
+}
+
+export type PlanEditCommand =
+  | { type: 'updateExerciseField'; at: ExerciseLocation; field: EditableExerciseField; value: Exercise[EditableExerciseField] }
+  | { type: 'updateGroupName'; at: GroupLocation; name: string }
+  | { type: 'updateDayField'; dayIndex: number; field: EditableDayField; value: string | number }
+  | { type: 'updatePlanField'; field: EditablePlanField; value: string | number }
+  | { type: 'addExercise'; to: GroupLocation; exercise: Exercise; index?: number }
+  | { type: 'replaceExercise'; at: ExerciseLocation; exercise: Exercise }
+  | { type: 'removeExercise'; at: ExerciseLocation }
+  // Covers reordering within a group as well as moving to another group or day.
+  | { type: 'moveExercise'; from: ExerciseLocation; to: GroupLocation; index: number }
+  | { type: 'addMuscleGroup'; dayIndex: number; name: string; index?: number }
+  | { type: 'removeMuscleGroup'; at: GroupLocation }
+  | { type: 'swapDays'; dayIndexA: number; dayIndexB: number };
+
+export class PlanEditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlanEditError';
+  }
+}
+
+const NUMERIC_FIELDS = new Set<string>(['targetWeight', 'caloriesBurned', 'totalWeeklyCaloriesBurned']);
+
+// Copy-on-write helpers: only the path to the change is copied, everything else is shared.
+
+const updateDay = (plan: GeneratedPlan, dayIndex: number, fn: (day: DailyWorkout) => DailyWorkout): GeneratedPlan => {
+  if (!plan.plan[dayIndex]) throw new PlanEditError(`There is no day ${dayIndex + 1} in this plan.`);
+  return { ...plan, plan: plan.plan.map((day, i) => (i === dayIndex ? fn(day) : day)) };
+};
+
+const updateGroup = (plan: GeneratedPlan, at: GroupLocation, fn: (group: MuscleGroup) => MuscleGroup): GeneratedPlan =>
+  updateDay(plan, at.dayIndex, day => {
+    if (!day.muscleGroups[at.groupIndex]) throw new PlanEditError(`${day.day} has no muscle group ${at.groupIndex + 1}.`);
+    return { ...day, muscleGroups: day.muscleGroups.map((g, i) => (i === at.groupIndex ? fn(g) : g)) };
+  });
+
+const updateExercises = (plan: GeneratedPlan, at: GroupLocation, fn: (exercises: Exercise[]) => Exercise[]): GeneratedPlan =>
+  updateGroup(plan, at, group => ({ ...group, exercises: fn(group.exercises) }));
+
+const exerciseAt = (plan: GeneratedPlan, at: ExerciseLocation): Exercise => {
+  const exercise = plan.plan[at.dayIndex]?.muscleGroups[at.groupIndex]?.exercises[at.exerciseIndex];
+  if (!exercise) throw new PlanEditError('That exercise is no longer in the plan.');
+  return exercise;
+};
+
+const insertAt = <T>(items: T[], index: number | undefined, item: T): T[] => {
+  const i = index === undefined ? items.length : Math.max(0, Math.min(index, items.length));
+  return [...items.slice(0, i), item, ...items.slice(i)];
+};
+
+const coerce = (field: string, value: unknown) => {
+  if (!NUMERIC_FIELDS.has(field) || typeof value === 'number') return value;
+  // Clearing the target weight removes it rather than setting it to zero.
+  if (field === 'targetWeight' && String(value ?? '').trim() === '') return undefined;
+  const num = parseFloat(String(value));
+  return Number.isFinite(num) ? num : 0;
+};
+
+/**
+ * Returns the plan with the command applied; the input plan is never mutated. Commands that
+ * point at something missing throw PlanEditError.
+ */
+export const applyPlanEdit = (plan: GeneratedPlan, command: PlanEditCommand): GeneratedPlan => {
+  switch (command.type) {
+    case 'updateExerciseField': {
+      const { at, field } = command;
+      exerciseAt(plan, at);
+      return updateExercises(plan, at, exercises => exercises.map((e, i) => {
+        if (i !== at.exerciseIndex) return e;
+        const updated: Exercise = { ...e, [field]: coerce(field, command.value) };
+        // A renamed exercise may no longer be the catalogue entry it was matched to.
+        if (field === 'name') delete updated.exerciseId;
+        return updated;
+      }));
+    }
+    case 'updateGroupName':
+      return updateGroup(plan, command.at, group => ({ ...group, name: command.name }));
+    case 'updateDayField':
+      return updateDay(plan, command.dayIndex, day => ({ ...day, [command.field]: coerce(command.field, command.value) }));
+    case 'updatePlanField':
+      return { ...plan, [command.field]: coerce(command.field, command.value) };
+    case 'addExercise':
+      return updateExercises(plan, command.to, exercises => insertAt(exercises, command.index, command.exercise));
+    case 'replaceExercise':
+      exerciseAt(plan, command.at);
+      return updateExercises(plan, command.at, exercises => exercises.map((e, i) => (i === command.at.exerciseIndex ? command.exercise : e)));
+    case 'removeExercise':
+      exerciseAt(plan, command.at);
+      return updateExercises(plan, command.at, exercises => exercises.filter((_, i) => i !== command.at.exerciseIndex));
+    case 'moveExercise': {
+      const exercise = exerciseAt(plan, command.from);
+      const without = updateExercises(plan, command.from, exercises => exercises.filter((_, i) => i !== command.from.exerciseIndex));
+      return updateExercises(without, command.to, exercises => insertAt(exercises, command.index, exercise));
+    }
+    case 'addMuscleGroup': {
+      const name = command.name.trim();
+      if (!name) throw new PlanEditError('A muscle group needs a name.');
+      return updateDay(plan, command.dayIndex, day => ({
+        ...day,
+        muscleGroups: insertAt(day.muscleGroups, command.index, { name, exercises: [] }),
+      }));
+    }
+    case 'removeMuscleGroup':
+      return updateDay(plan, command.at.dayIndex, day => {
+        if (!day.muscleGroups[command.at.groupIndex]) throw new PlanEditError(`${day.day} has no muscle group ${command.at.groupIndex + 1}.`);
+        return { ...day, muscleGroups: day.muscleGroups.filter((_, i) => i !== command.at.groupIndex) };
+      });
+    case 'swapDays': {
+      const a = plan.plan[command.dayIndexA];
+      const b = plan.plan[command.dayIndexB];
+      if (!a || !b) throw new PlanEditError('Both days must be in the plan.');
+      // The weekdays stay put; the sessions trade places.
+      const swap = (target: DailyWorkout, source: DailyWorkout): DailyWorkout => ({ ...source, day: target.day });
+      return {
+        ...plan,
+        plan: plan.plan.map((day, i) => (i === command.dayIndexA ? swap(a, b) : i === command.dayIndexB ? swap(b, a) : day)),
+      };
+    }
+  }
+};
+
+// The editor sends whatever its inputs hold; numbers and text are kept for coerce() to settle.
+const textOrNumber = (value: unknown): string | number => (typeof value === 'number' ? value : String(value ?? ''));
+
+const exerciseFieldValue = (field: EditableExerciseField, value: unknown): Exercise[EditableExerciseField] => {
+  if (field !== 'targetMuscles') return textOrNumber(value);
+  if (Array.isArray(value)) return value.map(String);
+  return String(value ?? '').split(',').map(m => m.trim()).filter(Boolean);
+};
+
+/**
+ * Translates the editor's generic `(path, value)` updates into typed commands. Returns null
+ * for paths that do not correspond to an editable field.
+ */
+export const commandFromPath = (path: (string | number)[], value: unknown): PlanEditCommand | null => {
+  const [root, dayIndex, key, groupIndex, groupKey, exerciseIndex, field] = path;
+  if (path.length === 1 && ['summary', 'totalWeeklyTime', 'totalWeeklyCaloriesBurned'].includes(String(root))) {
+    return { type: 'updatePlanField', field: root as EditablePlanField, value: textOrNumber(value) };
+  }
+  if (root !== 'plan' || typeof dayIndex !== 'number') return null;
+  if (path.length === 3 && ['focus', 'approximateTime', 'caloriesBurned'].includes(String(key))) {
+    return { type: 'updateDayField', dayIndex, field: key as EditableDayField, value: textOrNumber(value) };
+  }
+  if (key !== 'muscleGroups' || typeof groupIndex !== 'number') return null;
+  if (path.length === 5 && groupKey === 'name') {
+    return { type: 'updateGroupName', at: { dayIndex, groupIndex }, name: String(value ?? '') };
+  }
+  if (path.length === 7 && groupKey === 'exercises' && typeof exerciseIndex === 'number'
+    && ['name', 'sets', 'reps', 'description', 'targetMuscles', 'targetWeight'].includes(String(field))) {
+    const exerciseField = field as EditableExerciseField;
+    return {
+      type: 'updateExerciseField',
+      at: { dayIndex, groupIndex, exerciseIndex },
+      field: exerciseField,
+      value: exerciseFieldValue(exerciseField, value),
+    };
+  }
+  return null;
+};
+
+const sameGroup = (a: GroupLocation, b: GroupLocation) => a.dayIndex === b.dayIndex && a.groupIndex === b.groupIndex;
+
+/** Whether `next` edits the same field as `prev`, so keystrokes can share one undo step. */
+export const editsSameField = (prev: PlanEditCommand, next: PlanEditCommand): boolean => {
+  switch (prev.type) {
+    case 'updateExerciseField':
+      return next.type === prev.type && next.field === prev.field
+        && sameGroup(next.at, prev.at) && next.at.exerciseIndex === prev.at.exerciseIndex;
+    case 'updateGroupName':
+      return next.type === prev.type && sameGroup(next.at, prev.at);
+    case 'updateDayField':
+      return next.type === prev.type && next.dayIndex === prev.dayIndex && next.field === prev.field;
+    case 'updatePlanField':
+      return next.type === prev.type && next.field === prev.field;
+    default:
+      return false;
+  }
+};
+
+/** Short description for undo/redo tooltips. */
+export const describePlanEdit = (command: PlanEditCommand): string => {
+  switch (command.type) {
+    case 'updateExerciseField': return `Edit exercise ${command.field}`;
+    case 'updateGroupName': return 'Rename muscle group';
+    case 'updateDayField': return `Edit day ${command.field}`;
+    case 'updatePlanField': return 'Edit plan summary';
+    case 'addExercise': return `Add ${command.exercise.name}`;
+    case 'replaceExercise': return `Replace with ${command.exercise.name}`;
+    case 'removeExercise': return 'Delete exercise';
+    case 'moveExercise': return 'Move exercise';
+    case 'addMuscleGroup': return `Add ${command.name}`;
+    case 'removeMuscleGroup': return 'Remove muscle group';
+    case 'swapDays': return 'Swap days';
+  }
+};
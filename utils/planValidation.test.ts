@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { UserData } from '../types';
+import { parseDurationMinutes, validateGeneratedPlan } from './planValidation';
+
+const userData: UserData = {
+  name: 'Sam',
+  weight: '78',
+  height: '180',
+  freeDays: ['Tuesday', 'Thursday'],
+  gender: 'male',
+  fitnessLevel: 'beginner',
+  goal: 'General fitness',
+  equipment: 'None',
+  maxSessionTime: '1 hour',
+};
+
+const day = (name: string, overrides: Record<string, unknown> = {}) => ({
+  day: name,
+  focus: 'Full Body',
+  approximateTime: '50 minutes',
+  caloriesBurned: 300,
+  muscleGroups: [{
+    name: 'Legs',
+    exercises: [{ name: 'Bodyweight Squat', sets: '3', reps: '15', description: 'Squat to parallel.', targetMuscles: ['Quadriceps'] }],
+  }],
+  ...overrides,
+});
+
+const planWith = (days: unknown[], overrides: Record<string, unknown> = {}) => ({
+  summary: 'A simple plan.',
+  totalWeeklyTime: '100 minutes',
+  totalWeeklyCaloriesBurned: 600,
+  plan: days,
+  ...overrides,
+});
+
+describe('validateGeneratedPlan', () => {
+  it('accepts a plan that covers every free day within the session limit', () => {
+    const result = validateGeneratedPlan(planWith([day('Tuesday'), day('Thursday')]), userData);
+    expect(result.errors).toEqual([]);
+    expect(result.repairs).toEqual([]);
+    expect(result.value?.plan.map(d => d.day)).toEqual(['Tuesday', 'Thursday']);
+  });
+
+  it('coerces numbers sent as text and text sent as numbers', () => {
+    const raw = planWith([
+      day('Tuesday', { caloriesBurned: '310 kcal', approximateTime: '45' }),
+      day('Thursday', {
+        muscleGroups: [{ name: 'Core', exercises: [{ name: 'Plank', sets: 3, reps: 30, description: 'Hold.', targetMuscles: 'Abs, Obliques' }] }],
+      }),
+    ], { totalWeeklyCaloriesBurned: '1,000' });
+
+    const { value, errors, repairs } = validateGeneratedPlan(raw, userData);
+
+    expect(errors).toEqual([]);
+    expect(value!.plan[0]).toMatchObject({ caloriesBurned: 310, approximateTime: '45 minutes' });
+    expect(value!.plan[1].muscleGroups[0].exercises[0]).toMatchObject({ sets: '3', reps: '30', targetMuscles: ['Abs', 'Obliques'] });
+    expect(value!.totalWeeklyCaloriesBurned).toBe(610);
+    expect(repairs).toContainEqual({ path: 'plan[0].caloriesBurned', message: 'converted "310 kcal" to a number' });
+    expect(repairs).toContainEqual({ path: 'plan[1].muscleGroups[0].exercises[0].sets', message: 'converted number to text' });
+    expect(repairs).toContainEqual({ path: 'totalWeeklyCaloriesBurned', message: 'recomputed as 610 from the daily values' });
+  });
+
+  it('reorders days to follow the selected free days', () => {
+    const { value, repairs } = validateGeneratedPlan(planWith([day('Thursday'), day('Tuesday')]), userData);
+    expect(value?.plan.map(d => d.day)).toEqual(['Tuesday', 'Thursday']);
+    expect(repairs).toContainEqual({ path: 'plan', message: 'reordered days to match the selected free days' });
+  });
+
+  it('rejects plans that miss, repeat or add training days', () => {
+    const missing = validateGeneratedPlan(planWith([day('Tuesday')]), userData);
+    expect(missing.value).toBeNull();
+    expect(missing.errors).toEqual([{ path: 'plan', message: 'no workout for Thursday' }]);
+
+    const repeated = validateGeneratedPlan(planWith([day('Tuesday'), day('Tuesday AM'), day('Thursday')]), userData);
+    expect(repeated.errors).toEqual([{ path: 'plan', message: '2 workouts for Tuesday, expected one' }]);
+
+    const extra = validateGeneratedPlan(planWith([day('Tuesday'), day('Thursday'), day('Saturday')]), userData);
+    expect(extra.errors).toEqual([{ path: 'plan', message: 'Saturday was not one of the selected free days' }]);
+
+    const unnamed = validateGeneratedPlan(planWith([day('Day 1'), day('Thursday')]), userData);
+    expect(unnamed.errors).toContainEqual({ path: 'plan[0].day', message: '"Day 1" is not a weekday' });
+  });
+
+  it('rejects sessions longer than maxSessionTime beyond a small tolerance', () => {
+    const slightlyOver = validateGeneratedPlan(planWith([day('Tuesday', { approximateTime: '65 minutes' }), day('Thursday')]), userData);
+    expect(slightlyOver.errors).toEqual([]);
+
+    const tooLong = validateGeneratedPlan(planWith([day('Tuesday', { approximateTime: '1h 30m' }), day('Thursday')]), userData);
+    expect(tooLong.value).toBeNull();
+    expect(tooLong.errors).toEqual([{ path: 'plan[0].approximateTime', message: '90 minutes exceeds the 60 minute session limit' }]);
+  });
+
+  it('rejects a response that is not a plan', () => {
+    expect(validateGeneratedPlan('Sorry, I cannot help with that.', userData).errors).toEqual([{ path: 'plan', message: 'expected an object' }]);
+    expect(validateGeneratedPlan({ summary: 'No days' }, userData).errors).toContainEqual({ path: 'plan.plan', message: 'expected a list' });
+  });
+});
+
+describe('parseDurationMinutes', () => {
+  it.each([
+    ['60 minutes', 60],
+    ['1 hour', 60],
+    ['1h 15m', 75],
+    ['45-60 min', 60],
+    ['1.5 hours', 90],
+    ['about 40', 40],
+    ['a while', null],
+  ])('reads "%s" as %s', (text, minutes) => {
+    expect(parseDurationMinutes(text)).toBe(minutes);
+  });
+});
@@ -0,0 +1,321 @@
+import { Allergen, BodyArea, DailyWorkout, DietaryRestriction, Exercise, GeneratedPlan, Limitation, MovementPattern, MuscleGroup, ScheduledSession, UserData, WarmUpDrill } from '../types';
+import { Checker, isRecord, PlanValidationError, ValidationResult } from './validation';
+
+const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+// Allow sessions to run slightly over the stated limit before rejecting the plan.
+const SESSION_TIME_TOLERANCE = 1.1;
+
+/**
+ * Parses durations such as "60 minutes", "1 hour", "1h 15m" or "45-60 min" into minutes.
+ * Ranges resolve to their upper bound. Returns null when no duration can be read.
+ */
+export const parseDurationMinutes = (text: string): number | null => {
+  const value = String(text).toLowerCase();
+  const hours = value.match(/(\d+(?:\.\d+)?)\s*(?:h|hr|hrs|hour|hours)\b/);
+  const minutes = value.match(/(\d+)\s*(?:m|min|mins|minute|minutes)\b/);
+  if (hours || minutes) {
+    return Math.round((hours ? parseFloat(hours[1]) * 60 : 0) + (minutes ? parseInt(minutes[1], 10) : 0));
+  }
+  const numbers = value.match(/\d+/g);
+  return numbers ? Math.max(...numbers.map(n => parseInt(n, 10))) : null;
+};
+
+const weekdayOf = (label: string): string | null =>
+  WEEKDAYS.find(d => label.toLowerCase().includes(d)) ?? null;
+
+const validateExercise = (c: Checker, raw: unknown, path: string): Exercise | null => {
+  if (!c.isObject(raw, path)) return null;
+  const exercise: Exercise = {
+    ...(typeof raw.exerciseId === 'string' && raw.exerciseId ? { exerciseId: raw.exerciseId } : {}),
+    name: c.requiredString(raw.name, `${path}.name`),
+    sets: c.requiredString(raw.sets, `${path}.sets`),
+    reps: c.requiredString(raw.reps, `${path}.reps`),
+    description: c.optionalString(raw.description, `${path}.description`),
+    targetMuscles: c.stringList(raw.targetMuscles, `${path}.targetMuscles`),
+  };
+  if (raw.targetWeight !== undefined) {
+    exercise.targetWeight = c.number(raw.targetWeight, `${path}.targetWeight`, 0) || undefined;
+  }
+  const adjustment = raw.adjustment;
+  if (isRecord(adjustment) && (adjustment.type === 'substituted' || adjustment.type === 'flagged')) {
+    exercise.adjustment = {
+      type: adjustment.type,
+      reason: c.optionalString(adjustment.reason, `${path}.adjustment.reason`),
+      ...(typeof adjustment.original === 'string' ? { original: adjustment.original } : {}),
+    };
+  } else if (adjustment !== undefined) {
+    c.repair(`${path}.adjustment`, 'dropped an unrecognised adjustment');
+  }
+  return exercise;
+};
+
+const validateWarmUp = (c: Checker, raw: unknown, path: string): WarmUpDrill[] =>
+  (c.array(raw, path) || [])
+    .map((d, i) => !c.isObject(d, `${path}[${i}]`) ? null : {
+      name: c.requiredString(d.name, `${path}[${i}].name`),
+      duration: c.optionalString(d.duration, `${path}[${i}].duration`),
+      description: c.optionalString(d.description, `${path}[${i}].description`),
+    })
+    .filter((d): d is WarmUpDrill => d !== null);
+
+// allowEmpty: plans the user has edited may legitimately contain empty days or groups.
+const validateMuscleGroup = (c: Checker, raw: unknown, path: string, allowEmpty = false): MuscleGroup | null => {
+  if (!c.isObject(raw, path)) return null;
+  const exercises = c.array(raw.exercises, `${path}.exercises`) || [];
+  if (exercises.length === 0 && !allowEmpty) c.error(`${path}.exercises`, 'has no exercises');
+  return {
+    name: c.requiredString(raw.name, `${path}.name`),
+    exercises: exercises
+      .map((e, i) => validateExercise(c, e, `${path}.exercises[${i}]`))
+      .filter((e): e is Exercise => e !== null),
+  };
+};
+
+const validateDay = (c: Checker, raw: unknown, path: string, maxMinutes: number | null, allowEmpty = false): DailyWorkout | null => {
+  if (!c.isObject(raw, path)) return null;
+  const groups = c.array(raw.muscleGroups, `${path}.muscleGroups`) || [];
+  if (groups.length === 0 && !allowEmpty) c.error(`${path}.muscleGroups`, 'has no muscle groups');
+
+  let approximateTime = c.requiredString(raw.approximateTime, `${path}.approximateTime`);
+  if (/^\d+$/.test(approximateTime)) {
+    approximateTime = `${approximateTime} minutes`;
+  }
+  const minutes = parseDurationMinutes(approximateTime);
+  if (minutes === null) {
+    c.error(`${path}.approximateTime`, `"${approximateTime}" is not a duration`);
+  } else if (maxMinutes !== null && minutes > maxMinutes * SESSION_TIME_TOLERANCE) {
+    c.error(`${path}.approximateTime`, `${minutes} minutes exceeds the ${maxMinutes} minute session limit`);
+  }
+
+  const day: DailyWorkout = {
+    day: c.requiredString(raw.day, `${path}.day`),
+    focus: c.optionalString(raw.focus, `${path}.focus`),
+    approximateTime,
+    caloriesBurned: Math.max(0, Math.round(c.number(raw.caloriesBurned, `${path}.caloriesBurned`, 0))),
+    muscleGroups: groups
+      .map((g, i) => validateMuscleGroup(c, g, `${path}.muscleGroups[${i}]`, allowEmpty))
+      .filter((g): g is MuscleGroup => g !== null),
+  };
+  if (raw.warmUp !== undefined) day.warmUp = validateWarmUp(c, raw.warmUp, `${path}.warmUp`);
+  return day;
+};
+
+/**
+ * Checks a workout plan response against the GeneratedPlan shape and the user's constraints:
+ * one session per selected free day and no session longer than maxSessionTime. Numbers sent
+ * as strings are coerced and the weekly calorie total is recomputed from the days.
+ */
+export const validateGeneratedPlan = (raw: unknown, userData: UserData): ValidationResult<GeneratedPlan> => {
+  const c = new Checker();
+  if (!c.isObject(raw, 'plan')) return { value: null, errors: c.errors, repairs: c.repairs };
+
+  const maxMinutes = userData.maxSessionTime ? parseDurationMinutes(userData.maxSessionTime) : null;
+  const rawDays = c.array(raw.plan, 'plan.plan') || [];
+  let days = rawDays
+    .map((d, i) => validateDay(c, d, `plan[${i}]`, maxMinutes))
+    .filter((d): d is DailyWorkout => d !== null);
+
+  // Every free day must get exactly one session, and no session may fall on another day.
+  const byWeekday = new Map<string, DailyWorkout[]>();
+  days.forEach((day, i) => {
+    const weekday = weekdayOf(day.day);
+    if (!weekday) {
+      c.error(`plan[${i}].day`, `"${day.day}" is not a weekday`);
+      return;
+    }
+    byWeekday.set(weekday, [...(byWeekday.get(weekday) || []), day]);
+  });
+  const requested = userData.freeDays.map(d => d.toLowerCase());
+  for (const freeDay of userData.freeDays) {
+    const matches = byWeekday.get(freeDay.toLowerCase()) || [];
+    if (matches.length === 0) c.error('plan', `no workout for ${freeDay}`);
+    if (matches.length > 1) c.error('plan', `${matches.length} workouts for ${freeDay}, expected one`);
+  }
+  for (const [weekday, matches] of byWeekday) {
+    if (!requested.includes(weekday)) c.error('plan', `${matches[0].day} was not one of the selected free days`);
+  }
+
+  // Keep the plan in the order the user picked their days.
+  const sorted = [...days].sort((a, b) => requested.indexOf(weekdayOf(a.day) ?? '') - requested.indexOf(weekdayOf(b.day) ?? ''));
+  if (sorted.some((d, i) => d !== days[i])) {
+    c.repair('plan', 'reordered days to match the selected free days');
+    days = sorted;
+  }
+
+  const plan = assemblePlan(c, raw, days);
+  return { value: c.errors.length === 0 ? plan : null, errors: c.errors, repairs: c.repairs };
+};
+
+/**
+ * Checks a plan that was saved or imported rather than generated: the same shape rules, but
+ * no constraints from the user's form, so edited plans with renamed or empty days pass.
+ */
+export const validateStoredPlan = (raw: unknown): ValidationResult<GeneratedPlan> => {
+  const c = new Checker();
+  if (!c.isObject(raw, 'plan')) return { value: null, errors: c.errors, repairs: c.repairs };
+
+  const days = (c.array(raw.plan, 'plan.plan') || [])
+    .map((d, i) => validateDay(c, d, `plan[${i}]`, null, true))
+    .filter((d): d is DailyWorkout => d !== null);
+  const names = days.map(d => d.day);
+  names.forEach((name, i) => {
+    if (names.indexOf(name) !== i) c.error(`plan[${i}].day`, `"${name}" appears more than once`);
+  });
+
+  const plan = assemblePlan(c, raw, days);
+  return { value: c.errors.length === 0 ? plan : null, errors: c.errors, repairs: c.repairs };
+};
+
+// Plan-level fields shared by generated and stored plans. Week progress and dates are kept
+// only when they refer to days that exist.
+const assemblePlan = (c: Checker, raw: Record<string, unknown>, days: DailyWorkout[]): GeneratedPlan => {
+  const dayTotal = days.reduce((sum, d) => sum + d.caloriesBurned, 0);
+  let weeklyCalories = c.number(raw.totalWeeklyCaloriesBurned, 'totalWeeklyCaloriesBurned', dayTotal);
+  if (Math.round(weeklyCalories) !== dayTotal) {
+    c.repair('totalWeeklyCaloriesBurned', `recomputed as ${dayTotal} from the daily values`);
+    weeklyCalories = dayTotal;
+  }
+
+  const plan: GeneratedPlan = {
+    plan: days,
+    summary: c.optionalString(raw.summary, 'summary'),
+    totalWeeklyTime: c.optionalString(raw.totalWeeklyTime, 'totalWeeklyTime'),
+    totalWeeklyCaloriesBurned: weeklyCalories,
+  };
+  const dayNames = new Set(days.map(d => d.day));
+  if (Array.isArray(raw.completedDays)) plan.completedDays = raw.completedDays.map(String).filter(d => dayNames.has(d));
+  if (typeof raw.week === 'number') plan.week = raw.week;
+  if (Array.isArray(raw.schedule)) {
+    const schedule = raw.schedule.filter((s: unknown): s is ScheduledSession => isRecord(s)
+      && typeof s.day === 'string' && dayNames.has(s.day) && typeof s.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(s.date));
+    if (schedule.length !== raw.schedule.length) c.repair('schedule', 'dropped dates for unknown days');
+    plan.schedule = schedule.map(s => ({ day: s.day, date: s.date }));
+  }
+  return plan;
+};
+
+const USER_DATA_FIELDS = ['name', 'weight', 'height', 'gender', 'fitnessLevel', 'goal', 'equipment', 'maxSessionTime'] as const;
+
+const MAX_REST_SECONDS = 600;
+
+const DIETARY_RESTRICTIONS: DietaryRestriction[] = ['vegetarian', 'vegan', 'pescatarian', 'halal', 'kosher', 'lactose-free', 'gluten-free'];
+const ALLERGENS: Allergen[] = ['gluten', 'dairy', 'eggs', 'peanuts', 'tree-nuts', 'soy', 'fish', 'shellfish', 'sesame'];
+const BODY_AREAS: BodyArea[] = ['neck', 'shoulder', 'elbow', 'wrist', 'upper-back', 'lower-back', 'hip', 'knee', 'ankle'];
+const MOVEMENT_PATTERNS: MovementPattern[] = [
+  'overhead-pressing', 'deep-squatting', 'lunging', 'hip-hinging', 'spinal-loading',
+  'spinal-flexion', 'twisting', 'hanging', 'dips', 'weight-on-hands', 'explosive',
+];
+
+// Unknown values are dropped rather than rejected, so an older or newer app's data still loads.
+const knownValues = <T extends string>(c: Checker, value: unknown, known: T[], path: string): T[] => {
+  const list = c.stringList(value, path).map(v => v.toLowerCase());
+  const kept = list.filter((v): v is T => (known as string[]).includes(v));
+  if (kept.length < list.length) c.repair(path, `dropped unknown values: ${list.filter(v => !kept.includes(v as T)).join(', ')}`);
+  return kept;
+};
+
+/** Checks saved form data; missing fields are blanked rather than rejected. */
+export const validateUserData = (raw: unknown): ValidationResult<UserData> => {
+  const c = new Checker();
+  if (!c.isObject(raw, 'userData')) return { value: null, errors: c.errors, repairs: c.repairs };
+  const fields = Object.fromEntries(
+    USER_DATA_FIELDS.map(field => [field, c.optionalString(raw[field], `userData.${field}`)])
+  ) as Record<typeof USER_DATA_FIELDS[number], string>;
+  const userData: UserData = { ...fields, freeDays: c.stringList(raw.freeDays, 'userData.freeDays') };
+
+  // Diet preferences are optional; leave them out when the saved data has none.
+  if (raw.dietaryRestrictions !== undefined) {
+    userData.dietaryRestrictions = knownValues(c, raw.dietaryRestrictions, DIETARY_RESTRICTIONS, 'userData.dietaryRestrictions');
+  }
+  if (raw.allergens !== undefined) {
+    userData.allergens = knownValues(c, raw.allergens, ALLERGENS, 'userData.allergens');
+  }
+  if (raw.dislikedFoods !== undefined) {
+    userData.dislikedFoods = c.stringList(raw.dislikedFoods, 'userData.dislikedFoods');
+  }
+  if (raw.mealsPerDay !== undefined) {
+    const meals = Math.round(c.number(raw.mealsPerDay, 'userData.mealsPerDay', 4));
+    userData.mealsPerDay = Math.min(5, Math.max(3, meals));
+    if (userData.mealsPerDay !== meals) c.repair('userData.mealsPerDay', `clamped to ${userData.mealsPerDay}`);
+  }
+  if (raw.targetWeight !== undefined && raw.targetWeight !== null) {
+    const target = c.number(raw.targetWeight, 'userData.targetWeight', 0);
+    if (target > 0) userData.targetWeight = target;
+    else c.repair('userData.targetWeight', 'dropped a target weight that is not positive');
+  }
+  if (raw.workoutPlayer !== undefined && raw.workoutPlayer !== null && c.isObject(raw.workoutPlayer, 'userData.workoutPlayer')) {
+    const player = raw.workoutPlayer;
+    const rest = (value: unknown, path: string, fallback: number) =>
+      Math.min(MAX_REST_SECONDS, Math.max(0, Math.round(c.number(value, `userData.workoutPlayer.${path}`, fallback))));
+    userData.workoutPlayer = {
+      compoundRestSeconds: rest(player.compoundRestSeconds, 'compoundRestSeconds', 120),
+      isolationRestSeconds: rest(player.isolationRestSeconds, 'isolationRestSeconds', 60),
+      sound: player.sound !== false,
+      vibration: player.vibration !== false,
+    };
+  }
+  if (raw.limitations !== undefined) {
+    // One entry per area; an unknown area is dropped, an unknown severity treated as caution.
+    const byArea = new Map<BodyArea, Limitation>();
+    (c.array(raw.limitations, 'userData.limitations') || []).forEach((l, i) => {
+      const path = `userData.limitations[${i}]`;
+      if (!c.isObject(l, path)) return;
+      const area = BODY_AREAS.find(a => a === l.area);
+      if (!area) return c.repair(path, `dropped unknown body area "${l.area}"`);
+      if (l.severity !== 'caution' && l.severity !== 'avoid') c.repair(`${path}.severity`, 'unknown severity, using caution');
+      const note = c.optionalString(l.note, `${path}.note`).trim();
+      byArea.set(area, { area, severity: l.severity === 'avoid' ? 'avoid' : 'caution', ...(note ? { note } : {}) });
+    });
+    userData.limitations = [...byArea.values()];
+  }
+  if (raw.avoidPatterns !== undefined) {
+    userData.avoidPatterns = knownValues(c, raw.avoidPatterns, MOVEMENT_PATTERNS, 'userData.avoidPatterns');
+  }
+  if (raw.includeWarmUp !== undefined) userData.includeWarmUp = raw.includeWarmUp === true;
+  if (raw.units === 'metric' || raw.units === 'imperial') {
+    userData.units = raw.units;
+  } else if (raw.units !== undefined) {
+    c.repair('userData.units', 'unknown unit system, using metric');
+  }
+
+  return { value: userData, errors: c.errors, repairs: c.repairs };
+};
+
+/** A substitute the AI proposed for a stalled exercise; the prescription stays the original's. */
+export type ExerciseSwapSuggestion = Pick<Exercise, 'name' | 'description' | 'targetMuscles'>;
+
+/**
+ * Checks a `{ substitutes: [...] }` swap response for `count` stalled exercises, in order.
+ * Positions the model left out or filled with something unusable become null, meaning
+ * "keep the original"; only a response without a substitutes list is rejected.
+ */
+export const validateExerciseSwaps = (raw: unknown, count: number): ValidationResult<(ExerciseSwapSuggestion | null)[]> => {
+  const c = new Checker();
+  if (!c.isObject(raw, 'swaps')) return { value: null, errors: c.errors, repairs: c.repairs };
+  const substitutes = c.array(raw.substitutes, 'swaps.substitutes');
+  if (!substitutes) return { value: null, errors: c.errors, repairs: c.repairs };
+  if (substitutes.length > count) c.repair('swaps.substitutes', `ignored ${substitutes.length - count} extra substitute(s)`);
+
+  const value = Array.from({ length: count }, (_, i): ExerciseSwapSuggestion | null => {
+    const s = substitutes[i];
+    const path = `swaps.substitutes[${i}]`;
+    if (s === undefined || s === null) return null;
+    if (!isRecord(s) || typeof s.name !== 'string' || !s.name.trim()) {
+      c.repair(path, 'dropped a substitute without a name');
+      return null;
+    }
+    return {
+      name: s.name.trim(),
+      description: c.optionalString(s.description, `${path}.description`),
+      targetMuscles: c.stringList(s.targetMuscles, `${path}.targetMuscles`),
+    };
+  });
+  return { value, errors: c.errors, repairs: c.repairs };
+};
+
+export const assertValidPlan = (raw: unknown, userData: UserData): GeneratedPlan => {
+  const result = validateGeneratedPlan(raw, userData);
+  if (!result.value) throw new PlanValidationError('workout plan', result.errors);
+  return result.value;
+};
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { Exercise, GeneratedPlan, WorkoutLog } from '../types';
+import { applyExerciseSwaps, parseRepRange, progressPlan } from './progression';
+
+const bench: Exercise = { name: 'Barbell Bench Press', sets: '3', reps: '8-12', description: 'Press from the chest.', targetMuscles: ['Chest'], targetWeight: 60 };
+const pushUp: Exercise = { name: 'Push-up', sets: '3', reps: '8-12', description: 'Keep a straight line.', targetMuscles: ['Chest'] };
+
+const planWith = (monday: Exercise[], completedDays = ['Monday', 'Thursday']): GeneratedPlan => ({
+  summary: 'Upper body twice a week.',
+  totalWeeklyTime: '90 minutes',
+  totalWeeklyCaloriesBurned: 600,
+  plan: [
+    { day: 'Monday', focus: 'Push', approximateTime: '45 minutes', caloriesBurned: 300, muscleGroups: [{ name: 'Chest', exercises: monday }] },
+    { day: 'Thursday', focus: 'Pull', approximateTime: '45 minutes', caloriesBurned: 300, muscleGroups: [] },
+  ],
+  completedDays,
+  week: 3,
+  schedule: [{ day: 'Monday', date: '2026-10-19' }, { day: 'Thursday', date: '2026-10-22' }],
+});
+
+const logged = (date: string, exerciseName: string, reps: number[], weight: number | null): WorkoutLog => ({
+  date: `${date}T18:00:00.000Z`,
+  dayName: 'Monday',
+  focus: 'Push',
+  caloriesBurned: 300,
+  exerciseLogs: [{
+    exerciseName,
+    muscleGroup: 'Chest',
+    targetSets: '3',
+    targetReps: '8-12',
+    sets: reps.map((r, i) => ({ setNumber: i + 1, reps: r, weight, rpe: null, skipped: false })),
+  }],
+});
+
+const progressed = (exercise: Exercise, history: WorkoutLog[], options = {}) => {
+  const result = progressPlan(planWith([exercise]), history, options);
+  return { exercise: result.plan.plan[0].muscleGroups[0].exercises[0], change: result.changes[0], result };
+};
+
+describe('parseRepRange', () => {
+  it.each([
+    ['8-12', { min: 8, max: 12 }],
+    ['10', { min: 10, max: 10 }],
+    ['12 each side', { min: 12, max: 12 }],
+    ['AMRAP', null],
+    ['30 seconds', null],
+  ])('reads "%s"', (reps, range) => {
+    expect(parseRepRange(reps)).toEqual(range);
+  });
+});
+
+describe('progressPlan', () => {
+  it('adds load once every set reaches the top of the range', () => {
+    const { exercise, change } = progressed(bench, [logged('2026-10-19', bench.name, [12, 12, 12], 60)]);
+    expect(exercise.targetWeight).toBe(62.5);
+    expect(change).toEqual({ day: 'Monday', exerciseName: bench.name, action: 'increase-load', detail: 'All sets at 12 reps: load up to 62.5 kg' });
+  });
+
+  it('writes loads in the units it is given', () => {
+    const { exercise, change } = progressed(bench, [logged('2026-10-19', bench.name, [12, 12, 12], 60)], { units: 'imperial' });
+    expect(exercise.targetWeight).toBe(62.5);
+    expect(change.detail).toBe('All sets at 12 reps: load up to 137.8 lb');
+  });
+
+  it('holds the load until the reps are there, and reduces it below the minimum', () => {
+    const hold = progressed(bench, [logged('2026-10-19', bench.name, [11, 10, 9], 60)]);
+    expect(hold.exercise.targetWeight).toBe(60);
+    expect(hold.change).toMatchObject({ action: 'hold', detail: 'Stay at 60 kg and add reps' });
+
+    const reduce = progressed(bench, [logged('2026-10-19', bench.name, [9, 7, 6], 60)]);
+    expect(reduce.exercise.targetWeight).toBe(54);
+    expect(reduce.change).toMatchObject({ action: 'reduce-load', detail: 'Below 8 reps: load down to 54 kg' });
+  });
+
+  it('follows the most recent session and the weight actually lifted', () => {
+    const history = [
+      logged('2026-10-12', bench.name, [12, 12, 12], 60),
+      logged('2026-10-19', bench.name, [12, 12, 12], 65),
+    ];
+    expect(progressed(bench, history).exercise.targetWeight).toBe(67.5);
+  });
+
+  it('progresses bodyweight exercises by reps, then by sets', () => {
+    const reps = progressed(pushUp, [logged('2026-10-19', pushUp.name, [12, 12, 12], null)]);
+    expect(reps.exercise).toMatchObject({ reps: '10-14', sets: '3' });
+    expect(reps.change.action).toBe('increase-reps');
+
+    const fixed = { ...pushUp, reps: '10' };
+    const sets = progressed(fixed, [logged('2026-10-19', pushUp.name, [10, 10, 10], null)]);
+    expect(sets.exercise).toMatchObject({ reps: '10', sets: '4' });
+    expect(sets.change.action).toBe('add-set');
+  });
+
+  it('deloads exercises on a missed day and marks a mostly missed week', () => {
+    const oneMissed = progressPlan(planWith([bench], ['Thursday']), []);
+    expect(oneMissed.plan.plan[0].muscleGroups[0].exercises[0].targetWeight).toBe(54);
+    expect(oneMissed.changes[0]).toMatchObject({ action: 'deload', detail: 'Session missed: load reduced to 54 kg' });
+    expect(oneMissed.isDeloadWeek).toBe(true);
+
+    expect(progressPlan(planWith([pushUp], ['Thursday']), []).changes[0]).toMatchObject({ action: 'hold', detail: 'Session missed: repeating last week' });
+  });
+
+  it('starts the next week without progress or dates', () => {
+    const { result } = progressed(bench, []);
+    expect(result.plan).toMatchObject({ week: 4, completedDays: [], schedule: undefined });
+    expect(result.isDeloadWeek).toBe(false);
+    expect(result.changes[0]).toMatchObject({ action: 'hold', detail: 'No sets logged yet' });
+  });
+
+  it('reports exercises that have not improved for three sessions as stale', () => {
+    const flat = ['2026-10-05', '2026-10-12', '2026-10-19'].map(d => logged(d, bench.name, [10, 9, 8], 60));
+    expect(progressed(bench, flat).result.staleExercises).toEqual([
+      { day: 'Monday', groupIndex: 0, exerciseIndex: 0, exercise: expect.objectContaining({ name: bench.name }) },
+    ]);
+
+    const improving = [...flat.slice(0, 2), logged('2026-10-19', bench.name, [11, 10, 9], 60)];
+    expect(progressed(bench, improving).result.staleExercises).toEqual([]);
+  });
+});
+
+describe('applyExerciseSwaps', () => {
+  it('keeps the prescription but not the load of a replaced exercise', () => {
+    const plan = planWith([bench, pushUp]);
+    const stale = [{ day: 'Monday', groupIndex: 0, exerciseIndex: 0, exercise: bench }];
+    const swapped = applyExerciseSwaps(plan, stale, [{ ...pushUp, name: 'Dumbbell Bench Press', sets: '4', reps: '6', targetWeight: 30 }]);
+
+    expect(swapped.plan[0].muscleGroups[0].exercises[0]).toEqual({
+      name: 'Dumbbell Bench Press', sets: '3', reps: '8-12', description: pushUp.description, targetMuscles: ['Chest'],
+    });
+    expect(plan.plan[0].muscleGroups[0].exercises[0]).toBe(bench);
+  });
+});
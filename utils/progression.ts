@@ -0,0 +1,225 @@
+import { Exercise, ExerciseLog, GeneratedPlan, UnitSystem, WorkoutLog } from '../types';
+import { isSetCompleted, parseSetCount } from './exerciseHistory';
+import { exerciseKey } from './exerciseMatcher';
+import { formatWeight } from './units';
+
+export type ProgressionAction = 'increase-load' | 'increase-reps' | 'add-set' | 'hold' | 'reduce-load' | 'deload';
+
+export interface ProgressionChange {
+  day: string;
+  exerciseName: string;
+  action: ProgressionAction;
+  detail: string;
+}
+
+export interface StaleExercise {
+  day: string;
+  groupIndex: number;
+  exerciseIndex: number;
+  exercise: Exercise;
+}
+
+export interface ProgressionResult {
+  plan: GeneratedPlan;
+  changes: ProgressionChange[];
+  staleExercises: StaleExercise[];
+  isDeloadWeek: boolean;
+}
+
+export interface ProgressionOptions {
+  loadIncrement?: number; // kg added when every set hits the top of the rep range
+  deloadFactor?: number; // multiplier applied to load on a deload
+  maxSets?: number;
+  staleSessionCount?: number; // sessions without progress before an exercise counts as stale
+  units?: UnitSystem; // how loads are written in the change details
+}
+
+const DEFAULT_OPTIONS: Required<ProgressionOptions> = {
+  loadIncrement: 2.5,
+  deloadFactor: 0.9,
+  maxSets: 5,
+  staleSessionCount: 3,
+  units: 'metric',
+};
+
+interface RepRange {
+  min: number;
+  max: number;
+}
+
+// "8-12" -> {8, 12}; "10" -> {10, 10}; "AMRAP" / "30 seconds" -> null (not rep based)
+export const parseRepRange = (reps: string): RepRange | null => {
+  if (/sec|min|amrap|hold/i.test(reps)) return null;
+  const numbers = (reps.match(/\d+/g) || []).map(n => parseInt(n, 10));
+  if (numbers.length === 0) return null;
+  return { min: Math.min(...numbers), max: Math.max(...numbers) };
+};
+
+const formatRepRange = ({ min, max }: RepRange) => (min === max ? `${min}` : `${min}-${max}`);
+
+// Weights are rounded to the nearest 0.5 kg so that a deload never prescribes 41.175 kg.
+const roundLoad = (kg: number) => Math.round(kg * 2) / 2;
+
+const topWorkingWeight = (log: ExerciseLog): number | null => {
+  const weights = log.sets.filter(isSetCompleted).map(s => s.weight).filter((w): w is number => w !== null && w > 0);
+  return weights.length > 0 ? Math.max(...weights) : null;
+};
+
+/**
+ * Returns the logged sessions of every exercise, newest first, keyed by exerciseKey.
+ */
+const indexExerciseLogs = (history: WorkoutLog[]): Map<string, ExerciseLog[]> => {
+  const index = new Map<string, ExerciseLog[]>();
+  const sorted = [...history].sort((a, b) => b.date.localeCompare(a.date));
+  for (const log of sorted) {
+    for (const exerciseLog of log.exerciseLogs || []) {
+      const key = exerciseKey(exerciseLog.exerciseName, exerciseLog.exerciseId);
+      if (!index.has(key)) index.set(key, []);
+      index.get(key)!.push(exerciseLog);
+    }
+  }
+  return index;
+};
+
+const isStale = (sessions: ExerciseLog[], count: number): boolean => {
+  if (sessions.length < count) return false;
+  const recent = sessions.slice(0, count);
+  const loads = recent.map(topWorkingWeight);
+  const reps = recent.map(s => s.sets.filter(isSetCompleted).reduce((sum, set) => sum + (set.reps ?? 0), 0));
+  // Newest first: no session improved on the one before it.
+  return recent.every((_, i) => i === recent.length - 1
+    || ((loads[i] ?? 0) <= (loads[i + 1] ?? 0) && reps[i] <= reps[i + 1]));
+};
+
+const progressExercise = (
+  exercise: Exercise,
+  lastSession: ExerciseLog | undefined,
+  missedDay: boolean,
+  opts: Required<ProgressionOptions>,
+): { exercise: Exercise; action: ProgressionAction; detail: string } => {
+  const range = parseRepRange(exercise.reps);
+  const targetSets = parseSetCount(exercise.sets);
+
+  if (missedDay) {
+    if (exercise.targetWeight) {
+      const weight = roundLoad(exercise.targetWeight * opts.deloadFactor);
+      return { exercise: { ...exercise, targetWeight: weight }, action: 'deload', detail: `Session missed: load reduced to ${formatWeight(weight, opts.units)}` };
+    }
+    return { exercise, action: 'hold', detail: 'Session missed: repeating last week' };
+  }
+
+  if (!lastSession) {
+    return { exercise, action: 'hold', detail: 'No sets logged yet' };
+  }
+
+  const completed = lastSession.sets.filter(isSetCompleted);
+  const loggedWeight = topWorkingWeight(lastSession);
+  const workingWeight = loggedWeight ?? exercise.targetWeight;
+
+  if (!range) {
+    return {
+      exercise: workingWeight ? { ...exercise, targetWeight: workingWeight } : exercise,
+      action: 'hold',
+      detail: 'Time-based exercise: aim to beat last week',
+    };
+  }
+
+  const allSetsDone = completed.length >= targetSets;
+  const hitTop = allSetsDone && completed.every(s => (s.reps ?? 0) >= range.max);
+  const missedMinimum = completed.length < Math.ceil(targetSets / 2) || completed.some(s => (s.reps ?? 0) < range.min);
+
+  if (hitTop) {
+    if (workingWeight) {
+      const weight = roundLoad(workingWeight + opts.loadIncrement);
+      return { exercise: { ...exercise, targetWeight: weight }, action: 'increase-load', detail: `All sets at ${range.max} reps: load up to ${formatWeight(weight, opts.units)}` };
+    }
+    if (range.max - range.min >= 2 || targetSets >= opts.maxSets) {
+      const next = { min: range.min + 2, max: range.max + 2 };
+      return { exercise: { ...exercise, reps: formatRepRange(next) }, action: 'increase-reps', detail: `Bodyweight: reps up to ${formatRepRange(next)}` };
+    }
+    return { exercise: { ...exercise, sets: `${targetSets + 1}` }, action: 'add-set', detail: `Bodyweight: sets up to ${targetSets + 1}` };
+  }
+
+  if (missedMinimum && workingWeight) {
+    const weight = roundLoad(workingWeight * opts.deloadFactor);
+    return { exercise: { ...exercise, targetWeight: weight }, action: 'reduce-load', detail: `Below ${range.min} reps: load down to ${formatWeight(weight, opts.units)}` };
+  }
+
+  return {
+    exercise: workingWeight ? { ...exercise, targetWeight: workingWeight } : exercise,
+    action: 'hold',
+    detail: workingWeight ? `Stay at ${formatWeight(workingWeight, opts.units)} and add reps` : 'Add reps towards the top of the range',
+  };
+};
+
+/**
+ * Builds next week's plan from the current one and the logged sessions. The exercise
+ * structure is kept as is; only sets, reps and target loads move. When most sessions
+ * were missed the whole week is treated as a deload.
+ */
+export const progressPlan = (
+  current: GeneratedPlan,
+  history: WorkoutLog[],
+  options: ProgressionOptions = {},
+): ProgressionResult => {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const completed = new Set(current.completedDays || []);
+  const missedCount = current.plan.filter(day => !completed.has(day.day)).length;
+  const isDeloadWeek = current.plan.length > 0 && missedCount / current.plan.length >= 0.5;
+  const logsByExercise = indexExerciseLogs(history);
+
+  const changes: ProgressionChange[] = [];
+  const staleExercises: StaleExercise[] = [];
+
+  const plan = current.plan.map(day => ({
+    ...day,
+    muscleGroups: day.muscleGroups.map((group, groupIndex) => ({
+      ...group,
+      exercises: group.exercises.map((exercise, exerciseIndex) => {
+        const sessions = logsByExercise.get(exerciseKey(exercise.name, exercise.exerciseId)) || [];
+        const missedDay = isDeloadWeek || !completed.has(day.day);
+        const result = progressExercise(exercise, sessions[0], missedDay, opts);
+        changes.push({ day: day.day, exerciseName: exercise.name, action: result.action, detail: result.detail });
+        if (isStale(sessions, opts.staleSessionCount)) {
+          staleExercises.push({ day: day.day, groupIndex, exerciseIndex, exercise: result.exercise });
+        }
+        return result.exercise;
+      }),
+    })),
+  }));
+
+  return {
+    plan: {
+      ...current,
+      plan,
+      completedDays: [],
+      week: (current.week ?? 1) + 1,
+      schedule: undefined, // dated by the caller for the coming week
+    },
+    changes,
+    staleExercises,
+    isDeloadWeek,
+  };
+};
+
+/**
+ * Replaces stale exercises with the given substitutes, keeping the prescribed sets and reps.
+ * The target load is dropped because it does not carry over to a different movement.
+ */
+export const applyExerciseSwaps = (
+  plan: GeneratedPlan,
+  stale: StaleExercise[],
+  substitutes: (Exercise | null)[],
+): GeneratedPlan => {
+  const next: GeneratedPlan = JSON.parse(JSON.stringify(plan));
+  stale.forEach((item, i) => {
+    const substitute = substitutes[i];
+    if (!substitute) return;
+    const day = next.plan.find(d => d.day === item.day);
+    const group = day?.muscleGroups[item.groupIndex];
+    if (!group || !group.exercises[item.exerciseIndex]) return;
+    const { targetWeight, ...rest } = substitute;
+    group.exercises[item.exerciseIndex] = { ...rest, sets: item.exercise.sets, reps: item.exercise.reps };
+  });
+  return next;
+};
@@ -0,0 +1,131 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { DailyWorkout, GeneratedPlan } from '../types';
+import { addDays, daysBetween, getSessions, parseISODate, rescheduleRemaining, syncSchedule, toISODate } from './schedule';
+
+const day = (name: string, group: string): DailyWorkout => ({
+  day: name,
+  focus: group,
+  approximateTime: '45 minutes',
+  caloriesBurned: 300,
+  muscleGroups: [{ name: group, exercises: [] }],
+});
+
+const plan = (overrides: Partial<GeneratedPlan> = {}): GeneratedPlan => ({
+  summary: 'Three days a week.',
+  totalWeeklyTime: '135 minutes',
+  totalWeeklyCaloriesBurned: 900,
+  plan: [day('Monday', 'Legs'), day('Wednesday', 'Push'), day('Friday', 'Legs')],
+  ...overrides,
+});
+
+const thisWeek = [
+  { day: 'Monday', date: '2026-10-19' },
+  { day: 'Wednesday', date: '2026-10-21' },
+  { day: 'Friday', date: '2026-10-23' },
+];
+
+// Local time is what the user sees, so each case runs in zones either side of UTC, and in
+// zones whose clocks change near the dates used (Santiago skips midnight on 6 September).
+const TIME_ZONES = ['UTC', 'Pacific/Auckland', 'America/Los_Angeles', 'Europe/London', 'America/Santiago'];
+
+describe.each(TIME_ZONES)('in %s', timeZone => {
+  const originalTimeZone = process.env.TZ;
+  beforeAll(() => { process.env.TZ = timeZone; });
+  afterAll(() => {
+    // Assigning undefined would store the string "undefined".
+    if (originalTimeZone === undefined) delete process.env.TZ;
+    else process.env.TZ = originalTimeZone;
+  });
+
+  // Local wall-clock time, e.g. a late-evening check of the schedule.
+  const localTime = (iso: string, hours: number, minutes = 0) => {
+    const date = parseISODate(iso);
+    date.setHours(hours, minutes);
+    return date;
+  };
+
+  describe('calendar dates', () => {
+    it('keeps late-evening and early-morning times on their local day', () => {
+      expect(toISODate(localTime('2026-10-19', 23, 59))).toBe('2026-10-19');
+      expect(toISODate(localTime('2026-10-19', 0, 1))).toBe('2026-10-19');
+      expect(toISODate(parseISODate('2026-09-06'))).toBe('2026-09-06');
+    });
+
+    it('counts whole days across daylight saving changes', () => {
+      expect(addDays('2026-10-24', 2)).toBe('2026-10-26');
+      expect(addDays('2026-09-05', 1)).toBe('2026-09-06');
+      expect(addDays('2026-04-05', -7)).toBe('2026-03-29');
+      expect(daysBetween('2026-10-24', '2026-11-02')).toBe(9);
+      expect(daysBetween('2026-09-05', '2026-09-07')).toBe(2);
+    });
+  });
+
+  describe('syncSchedule', () => {
+    it('dates new days on their next weekday and keeps existing dates', () => {
+      const fresh = syncSchedule(plan(), localTime('2026-10-21', 22));
+      expect(fresh).toEqual([
+        { day: 'Monday', date: '2026-10-26' },
+        { day: 'Wednesday', date: '2026-10-21' },
+        { day: 'Friday', date: '2026-10-23' },
+      ]);
+
+      const kept = syncSchedule(plan({ schedule: [{ day: 'Monday', date: '2026-10-19' }] }), localTime('2026-10-21', 8));
+      expect(kept[0]).toEqual({ day: 'Monday', date: '2026-10-19' });
+    });
+
+    it('places days without a weekday after the previous session', () => {
+      const unnamed = plan({ plan: [day('Tuesday', 'Push'), day('Day 2', 'Pull')] });
+      expect(syncSchedule(unnamed, localTime('2026-10-19', 7)).map(s => s.date)).toEqual(['2026-10-20', '2026-10-21']);
+    });
+  });
+
+  describe('getSessions', () => {
+    it('marks sessions by the local date, whatever the hour', () => {
+      const statuses = (hours: number) =>
+        getSessions(plan({ schedule: thisWeek, completedDays: ['Monday'] }), localTime('2026-10-21', hours)).map(s => s.status);
+      expect(statuses(0)).toEqual(['completed', 'today', 'upcoming']);
+      expect(statuses(23)).toEqual(['completed', 'today', 'upcoming']);
+      expect(getSessions(plan({ schedule: thisWeek }), localTime('2026-10-22', 0, 30)).map(s => s.status))
+        .toEqual(['missed', 'missed', 'upcoming']);
+    });
+  });
+
+  describe('rescheduleRemaining', () => {
+    it('moves missed sessions forward onto free days, keeping completed ones', () => {
+      const result = rescheduleRemaining(
+        plan({ schedule: thisWeek, completedDays: ['Wednesday'] }),
+        ['Monday', 'Wednesday', 'Friday'],
+        localTime('2026-10-22', 21),
+      );
+      expect(result.schedule).toEqual([
+        { day: 'Monday', date: '2026-10-23' },
+        { day: 'Wednesday', date: '2026-10-21' },
+        { day: 'Friday', date: '2026-10-26' },
+      ]);
+      expect(result.moves).toEqual([
+        { day: 'Monday', from: '2026-10-19', to: '2026-10-23' },
+        { day: 'Friday', from: '2026-10-23', to: '2026-10-26' },
+      ]);
+      expect(result.unplaced).toEqual([]);
+    });
+
+    it('keeps a rest day between sessions for the same muscle group', () => {
+      const result = rescheduleRemaining(plan({ schedule: thisWeek, completedDays: ['Wednesday'] }), [], localTime('2026-10-22', 6));
+      expect(result.moves).toEqual([
+        { day: 'Monday', from: '2026-10-19', to: '2026-10-22' },
+        { day: 'Friday', from: '2026-10-23', to: '2026-10-24' },
+      ]);
+    });
+
+    it('leaves sessions that do not fit on their old date', () => {
+      // Six leg sessions cannot all get a rest day before the overflow week runs out.
+      const legs = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'].map(name => day(name, 'Legs'));
+      const schedule = legs.map((d, i) => ({ day: d.day, date: addDays('2026-10-19', i) }));
+      const result = rescheduleRemaining(plan({ plan: legs, schedule }), [], localTime('2026-10-24', 12));
+
+      expect(result.moves.map(m => m.to)).toEqual(['2026-10-24', '2026-10-26', '2026-10-28', '2026-10-30']);
+      expect(result.unplaced).toEqual(['Friday', 'Saturday']);
+      expect(result.schedule.slice(4)).toEqual(schedule.slice(4));
+    });
+  });
+});
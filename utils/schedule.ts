@@ -0,0 +1,186 @@
+import { DailyWorkout, GeneratedPlan, ScheduledSession } from '../types';
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Sessions that train the same muscle group need at least one full rest day between them.
+const MIN_DAYS_BETWEEN_SAME_GROUP = 2;
+// How far past the original week a rescheduled session may be pushed.
+const MAX_OVERFLOW_DAYS = 7;
+
+export type SessionStatus = 'completed' | 'missed' | 'today' | 'upcoming';
+
+export interface SessionInfo {
+  dayIndex: number;
+  day: DailyWorkout;
+  date: string;
+  status: SessionStatus;
+}
+
+export interface RescheduleMove {
+  day: string;
+  from: string;
+  to: string;
+}
+
+export interface RescheduleResult {
+  schedule: ScheduledSession[];
+  moves: RescheduleMove[];
+  /** Sessions that could not be moved without breaking the rest-day rule; they keep their date. */
+  unplaced: string[];
+}
+
+// Dates are handled as local calendar days; toISOString would shift them across time zones.
+export const toISODate = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const parseISODate = (iso: string): Date => {
+  const [y, m, d] = iso.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+export const addDays = (iso: string, days: number) => {
+  const date = parseISODate(iso);
+  date.setDate(date.getDate() + days);
+  return toISODate(date);
+};
+
+export const daysBetween = (a: string, b: string) => Math.round((parseISODate(b).getTime() - parseISODate(a).getTime()) / DAY_MS);
+
+export const weekdayIndexOf = (label: string): number | null => {
+  const index = WEEKDAYS.findIndex(d => label.toLowerCase().includes(d));
+  return index === -1 ? null : index;
+};
+
+export const formatSessionDate = (iso: string) =>
+  parseISODate(iso).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' });
+
+/**
+ * Dates every day of the plan, keeping dates already on the plan's schedule. New days land on
+ * the next matching weekday on or after `from`; labels without a weekday follow the previous
+ * session.
+ */
+export const syncSchedule = (plan: GeneratedPlan, from: Date = new Date()): ScheduledSession[] => {
+  const existing = new Map((plan.schedule || []).map(s => [s.day, s.date]));
+  const start = toISODate(from);
+  let previous: string | null = null;
+
+  return plan.plan.map(({ day }) => {
+    let date = existing.get(day);
+    if (!date) {
+      const weekday = weekdayIndexOf(day);
+      if (weekday === null) {
+        date = previous ? addDays(previous, 1) : start;
+      } else {
+        const offset = (weekday - from.getDay() + 7) % 7;
+        date = addDays(start, offset);
+      }
+    }
+    previous = date;
+    return { day, date };
+  });
+};
+
+/** True when every day of the plan has a date and no date belongs to a removed day. */
+export const isScheduleInSync = (plan: GeneratedPlan) => {
+  const dated = new Set((plan.schedule || []).map(s => s.day));
+  return plan.plan.length === dated.size && plan.plan.every(d => dated.has(d.day));
+};
+
+/** Start date for the week after the current schedule: the day after its last session, or today. */
+export const nextWeekStart = (plan: GeneratedPlan, today: Date = new Date()): Date => {
+  const dates = (plan.schedule || []).map(s => s.date).sort();
+  const todayIso = toISODate(today);
+  if (dates.length === 0) return today;
+  const afterLast = addDays(dates[dates.length - 1], 1);
+  return parseISODate(afterLast > todayIso ? afterLast : todayIso);
+};
+
+export const getSessions = (plan: GeneratedPlan, today: Date = new Date()): SessionInfo[] => {
+  const todayIso = toISODate(today);
+  const completed = new Set(plan.completedDays || []);
+  const dates = new Map((plan.schedule || []).map(s => [s.day, s.date]));
+
+  return plan.plan
+    .map((day, dayIndex) => {
+      const date = dates.get(day.day) ?? todayIso;
+      const status: SessionStatus = completed.has(day.day) ? 'completed'
+        : date < todayIso ? 'missed'
+        : date === todayIso ? 'today'
+        : 'upcoming';
+      return { dayIndex, day, date, status };
+    })
+    .sort((a, b) => a.date.localeCompare(b.date) || a.dayIndex - b.dayIndex);
+};
+
+export const getMissedSessions = (plan: GeneratedPlan, today: Date = new Date()) =>
+  getSessions(plan, today).filter(s => s.status === 'missed');
+
+/** The first session not yet completed, in date order; today's session when there is one. */
+export const getNextSession = (plan: GeneratedPlan, today: Date = new Date()): SessionInfo | null =>
+  getSessions(plan, today).find(s => s.status === 'today' || s.status === 'upcoming')
+  ?? getSessions(plan, today).find(s => s.status === 'missed')
+  ?? null;
+
+const groupsOf = (day: DailyWorkout) => new Set(day.muscleGroups.map(g => g.name.trim().toLowerCase()));
+
+const sharesGroup = (a: Set<string>, b: Set<string>) => [...a].some(g => b.has(g));
+
+/**
+ * Moves every session that is not done yet (missed ones included) onto dates from today on,
+ * in their original order. A session only goes on a date that keeps a rest day between it and
+ * any other session training the same muscle group, and the user's free weekdays are preferred.
+ * Dates inside the current week are tried before spilling up to MAX_OVERFLOW_DAYS past it.
+ */
+export const rescheduleRemaining = (
+  plan: GeneratedPlan,
+  freeDays: string[],
+  today: Date = new Date(),
+): RescheduleResult => {
+  const todayIso = toISODate(today);
+  const sessions = getSessions(plan, today);
+  const preferred = new Set(freeDays.map(weekdayIndexOf).filter((d): d is number => d !== null));
+  const weekEnd = sessions.reduce((end, s) => (s.date > end ? s.date : end), todayIso);
+  const lastAllowed = addDays(weekEnd, MAX_OVERFLOW_DAYS);
+
+  // Completed sessions keep their dates and still count for the rest-day rule.
+  const placed = sessions
+    .filter(s => s.status === 'completed')
+    .map(s => ({ date: s.date, groups: groupsOf(s.day) }));
+  const result = new Map(sessions.filter(s => s.status === 'completed').map(s => [s.day.day, s.date]));
+  const moves: RescheduleMove[] = [];
+  const unplaced: string[] = [];
+
+  const fits = (date: string, groups: Set<string>) => placed.every(p =>
+    p.date !== date && (Math.abs(daysBetween(p.date, date)) >= MIN_DAYS_BETWEEN_SAME_GROUP || !sharesGroup(p.groups, groups)));
+
+  let earliest = todayIso;
+  for (const session of sessions.filter(s => s.status !== 'completed')) {
+    const groups = groupsOf(session.day);
+    const candidates: string[] = [];
+    for (let date = earliest; date <= lastAllowed; date = addDays(date, 1)) candidates.push(date);
+
+    const isPreferred = (d: string) => preferred.size === 0 || preferred.has(parseISODate(d).getDay());
+    const inWeek = candidates.filter(d => d <= weekEnd);
+    const overflow = candidates.filter(d => d > weekEnd);
+    const date = inWeek.find(d => isPreferred(d) && fits(d, groups))
+      ?? inWeek.find(d => fits(d, groups))
+      ?? overflow.find(d => isPreferred(d) && fits(d, groups))
+      ?? overflow.find(d => fits(d, groups));
+    if (!date) {
+      // Leave it where it was; the caller tells the user it could not be fitted in.
+      unplaced.push(session.day.day);
+      result.set(session.day.day, session.date);
+      continue;
+    }
+    placed.push({ date, groups });
+    result.set(session.day.day, date);
+    if (date !== session.date) moves.push({ day: session.day.day, from: session.date, to: date });
+    earliest = addDays(date, 1);
+  }
+
+  return {
+    schedule: plan.plan.map(d => ({ day: d.day, date: result.get(d.day)! })),
+    moves,
+    unplaced,
+  };
+};
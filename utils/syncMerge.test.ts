@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { GeneratedPlan, UserData, WorkoutLog } from '../types';
+import { mergeProfiles, mergeWorkoutLogs, resolveConflictValue } from './syncMerge';
+
+interface Profile {
+  username: string;
+  version: number;
+  userData: UserData;
+  workoutPlan: GeneratedPlan | null;
+}
+
+const userData: UserData = {
+  name: 'Sam',
+  weight: '78',
+  height: '180',
+  freeDays: ['Monday', 'Thursday'],
+  gender: 'male',
+  fitnessLevel: 'beginner',
+  goal: 'General fitness',
+  equipment: 'None',
+  maxSessionTime: '1 hour',
+};
+
+const day = (name: string, focus = 'Full Body') =>
+  ({ day: name, focus, approximateTime: '45 minutes', caloriesBurned: 300, muscleGroups: [] });
+
+const plan: GeneratedPlan = {
+  summary: 'Twice a week.',
+  totalWeeklyTime: '90 minutes',
+  totalWeeklyCaloriesBurned: 600,
+  plan: [day('Monday'), day('Thursday')],
+  completedDays: [],
+};
+
+const base: Profile = { username: 'sam', version: 3, userData, workoutPlan: plan };
+
+const edit = (changes: { userData?: Partial<UserData>; workoutPlan?: Partial<GeneratedPlan> | null; version?: number }): Profile => ({
+  ...base,
+  version: changes.version ?? base.version,
+  userData: { ...userData, ...changes.userData },
+  workoutPlan: changes.workoutPlan === null ? null : { ...plan, ...changes.workoutPlan },
+});
+
+describe('mergeProfiles', () => {
+  it('takes whichever side changed a field since the last sync', () => {
+    const local = edit({ userData: { weight: '76' } });
+    const remote = edit({ userData: { goal: 'Build strength' }, version: 4 });
+
+    const { merged, conflicts } = mergeProfiles(base, local, remote);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.userData).toMatchObject({ weight: '76', goal: 'Build strength' });
+    expect(merged.version).toBe(4);
+  });
+
+  it('does not report the same change made on both sides', () => {
+    const both = edit({ userData: { freeDays: ['Tuesday', 'Friday'] } });
+    expect(mergeProfiles(base, both, { ...both, version: 4 }).conflicts).toEqual([]);
+  });
+
+  it('keeps the remote value and reports a conflict when both sides changed a field differently', () => {
+    const { merged, conflicts } = mergeProfiles(base, edit({ userData: { weight: '76' } }), edit({ userData: { weight: '80' } }));
+
+    expect(merged.userData.weight).toBe('80');
+    expect(conflicts).toEqual([{ id: expect.stringMatching(/^userData\.weight:/), path: 'userData.weight', label: 'Weight', local: '76', remote: '80' }]);
+  });
+
+  it('treats every differing field as a conflict on a first sync without a base', () => {
+    const { conflicts } = mergeProfiles(null, edit({ userData: { name: 'Sam' } }), edit({ userData: { name: 'Samantha' } }));
+    expect(conflicts.map(c => c.path)).toEqual(['userData.name']);
+    expect(mergeProfiles(null, base, base).conflicts).toEqual([]);
+  });
+
+  it('unions completed days without a conflict, dropping days no longer in the plan', () => {
+    const local = edit({ workoutPlan: { completedDays: ['Monday'] } });
+    const remote = edit({ workoutPlan: { completedDays: ['Thursday', 'Saturday'] } });
+
+    const { merged, conflicts } = mergeProfiles(base, local, remote);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.workoutPlan?.completedDays).toEqual(['Monday', 'Thursday']);
+  });
+
+  it('merges the plan structure as a whole and keeps both full plans on a conflict', () => {
+    const local = edit({ workoutPlan: { plan: [day('Monday', 'Push'), day('Thursday')], completedDays: ['Monday'] } });
+    const remote = edit({ workoutPlan: { plan: [day('Monday'), day('Thursday', 'Pull')] } });
+
+    const { merged, conflicts } = mergeProfiles(base, local, remote);
+
+    expect(merged.workoutPlan?.plan.map(d => d.focus)).toEqual(['Full Body', 'Pull']);
+    expect(merged.workoutPlan?.completedDays).toEqual(['Monday']);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ path: 'workoutPlan', label: 'Workout plan', local: local.workoutPlan, remote: remote.workoutPlan });
+  });
+
+  it('takes a plan edited on one side only', () => {
+    const local = edit({ workoutPlan: { summary: 'Renamed locally.' } });
+    expect(mergeProfiles(base, local, base).merged.workoutPlan?.summary).toBe('Renamed locally.');
+    expect(mergeProfiles(base, base, edit({ workoutPlan: null })).merged.workoutPlan).toBeNull();
+  });
+});
+
+describe('resolveConflictValue', () => {
+  it('applies the chosen side at the conflict path', () => {
+    const { merged, conflicts } = mergeProfiles(base, edit({ userData: { weight: '76' } }), edit({ userData: { weight: '80' } }));
+    const resolved = resolveConflictValue(merged, conflicts[0], 'local');
+    expect(resolved.userData).toEqual({ ...userData, weight: '76' });
+    expect(merged.userData.weight).toBe('80');
+
+    const planConflict = { id: 'workoutPlan:1', path: 'workoutPlan', label: 'Workout plan', local: null, remote: plan };
+    expect(resolveConflictValue(merged, planConflict, 'local').workoutPlan).toBeNull();
+  });
+});
+
+describe('mergeWorkoutLogs', () => {
+  const log = (date: string, id?: string): WorkoutLog => ({ id, date, dayName: 'Monday', focus: 'Full Body', caloriesBurned: 300 });
+
+  it('keeps one copy of each log, newest first', () => {
+    const merged = mergeWorkoutLogs(
+      [log('2026-10-12T18:00:00.000Z', 'a'), log('2026-10-19T18:00:00.000Z')],
+      [log('2026-10-12T18:00:00.000Z', 'a'), log('2026-10-15T18:00:00.000Z', 'b'), log('2026-10-19T18:00:00.000Z')],
+    );
+    expect(merged.map(l => [l.date.slice(0, 10), l.id])).toEqual([['2026-10-19', undefined], ['2026-10-15', 'b'], ['2026-10-12', 'a']]);
+  });
+
+  it('returns an empty list for no logs', () => {
+    expect(mergeWorkoutLogs([], [])).toEqual([]);
+  });
+});
@@ -0,0 +1,144 @@
+import { GeneratedPlan, WorkoutLog } from '../types';
+
+export interface SyncConflict {
+  id: string;
+  path: string; // "workoutPlan", "userData.weight", ...
+  label: string;
+  local: unknown;
+  remote: unknown;
+}
+
+export interface MergeResult<T> {
+  merged: T;
+  conflicts: SyncConflict[];
+}
+
+// Fields managed by the sync layer or the server rather than the user.
+const META_KEYS = new Set(['username', 'version']);
+
+const FIELD_LABELS: Record<string, string> = {
+  workoutPlan: 'Workout plan',
+  'userData.name': 'Name',
+  'userData.weight': 'Weight',
+  'userData.height': 'Height',
+  'userData.freeDays': 'Free days',
+  'userData.gender': 'Gender',
+  'userData.fitnessLevel': 'Fitness level',
+  'userData.goal': 'Goal',
+  'userData.equipment': 'Equipment',
+  'userData.maxSessionTime': 'Session length',
+};
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const conflict = (path: string, local: unknown, remote: unknown): SyncConflict => ({
+  id: `${path}:${Date.now().toString(36)}`,
+  path,
+  label: FIELD_LABELS[path] || path,
+  local,
+  remote,
+});
+
+/**
+ * Three-way merge of one value. A side that did not change since the base yields to the
+ * side that did; when both changed to different values the remote value is kept for now
+ * and the pair is reported as a conflict.
+ */
+const mergeValue = (path: string, base: unknown, local: unknown, remote: unknown, conflicts: SyncConflict[]): unknown => {
+  if (same(local, remote)) return remote;
+  if (same(local, base)) return remote;
+  if (same(remote, base)) return local;
+  conflicts.push(conflict(path, local, remote));
+  return remote;
+};
+
+const mergeObject = (
+  path: string,
+  base: Record<string, any> | null | undefined,
+  local: Record<string, any> | null | undefined,
+  remote: Record<string, any> | null | undefined,
+  conflicts: SyncConflict[],
+): Record<string, any> | null => {
+  if (!local || !remote) return mergeValue(path, base, local, remote, conflicts) as Record<string, any> | null;
+  const merged: Record<string, any> = {};
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote)]);
+  for (const key of keys) {
+    merged[key] = mergeValue(`${path}.${key}`, base?.[key], local[key], remote[key], conflicts);
+  }
+  return merged;
+};
+
+const withoutCompleted = (plan: GeneratedPlan | null | undefined) => {
+  if (!plan) return plan ?? null;
+  const { completedDays, ...rest } = plan;
+  return rest;
+};
+
+const mergePlans = (
+  base: GeneratedPlan | null | undefined,
+  local: GeneratedPlan | null | undefined,
+  remote: GeneratedPlan | null | undefined,
+  conflicts: SyncConflict[],
+): GeneratedPlan | null => {
+  const before = conflicts.length;
+  // Completion is merged as a set, so it never causes a conflict by itself.
+  const structure = mergeValue('workoutPlan', withoutCompleted(base), withoutCompleted(local), withoutCompleted(remote), conflicts);
+  if (!structure) return null;
+
+  const plan = structure as GeneratedPlan;
+  const days = new Set(plan.plan.map(d => d.day));
+  const completed = new Set([...(local?.completedDays || []), ...(remote?.completedDays || [])]);
+  // Keep the full plans on the conflict so either side can be restored intact.
+  if (conflicts.length > before) {
+    conflicts[conflicts.length - 1].local = local;
+    conflicts[conflicts.length - 1].remote = remote;
+  }
+  return { ...plan, completedDays: Array.from(completed).filter(d => days.has(d)) };
+};
+
+/**
+ * Merges a locally edited profile with the server's copy, using the last synced copy as the
+ * common ancestor. userData is merged field by field, completed days as a union, and the
+ * plan structure as one unit because partial plan merges produce plans nobody wrote.
+ */
+export const mergeProfiles = <T extends Record<string, any>>(base: T | null, local: T, remote: T): MergeResult<T> => {
+  const conflicts: SyncConflict[] = [];
+  const merged: Record<string, any> = { ...remote };
+
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote)]);
+  for (const key of keys) {
+    if (META_KEYS.has(key)) continue;
+    if (key === 'workoutPlan') {
+      merged.workoutPlan = mergePlans(base?.workoutPlan, local.workoutPlan, remote.workoutPlan, conflicts);
+    } else if (key === 'userData') {
+      merged.userData = mergeObject('userData', base?.userData, local.userData, remote.userData, conflicts);
+    } else {
+      merged[key] = mergeValue(key, base?.[key], local[key], remote[key], conflicts);
+    }
+  }
+  return { merged: merged as T, conflicts };
+};
+
+/**
+ * Applies the user's choice for a conflict to a profile.
+ */
+export const resolveConflictValue = <T extends Record<string, any>>(profile: T, c: SyncConflict, choice: 'local' | 'remote'): T => {
+  const value = choice === 'local' ? c.local : c.remote;
+  const [head, ...rest] = c.path.split('.');
+  if (rest.length === 0) return { ...profile, [head]: value };
+  return { ...profile, [head]: { ...(profile[head] || {}), [rest.join('.')]: value } };
+};
+
+const logKey = (log: WorkoutLog) => log.id || `${log.date}|${log.dayName}`;
+
+/**
+ * Union of two log lists, newest first. Logs are append-only, so the same id on both sides
+ * is the same entry.
+ */
+export const mergeWorkoutLogs = (a: WorkoutLog[], b: WorkoutLog[]): WorkoutLog[] => {
+  const byKey = new Map<string, WorkoutLog>();
+  [...a, ...b].forEach(log => {
+    if (!byKey.has(logKey(log))) byKey.set(logKey(log), log);
+  });
+  return Array.from(byKey.values()).sort((x, y) => y.date.localeCompare(x.date));
+};
@@ -0,0 +1,180 @@
+import { DailyDiet, GeneratedDietPlan, GeneratedPlan, Meal, MealSlot, UserData } from '../types';
+import { FOOD_DATABASE, FoodItem, getFood } from '../data/foodDatabase';
+import { computeDietTargets, dailyTotalsOf, DEFAULT_MEALS_PER_DAY, DietTargets, mealSlotsFor, withComputedNutrients } from './nutrition';
+import { DietPreferences, isFoodAllowed, preferencesOf } from './dietaryRules';
+
+type MealKind = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+interface MealTemplate {
+  name: string;
+  description: string;
+  ingredients: [foodId: string, grams: number][]; // base portions, scaled to the day's target
+}
+
+const DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+// Share of the day's calories for each meal, by meals per day.
+const MEAL_SHARES: Record<number, Partial<Record<MealSlot, number>>> = {
+  3: { breakfast: 0.3, lunch: 0.35, dinner: 0.35 },
+  4: { breakfast: 0.25, lunch: 0.3, dinner: 0.3, snack: 0.15 },
+  5: { breakfast: 0.22, lunch: 0.28, dinner: 0.28, snack: 0.11, secondSnack: 0.11 },
+};
+
+const FALLBACK_TARGETS: DietTargets = { dailyCalories: 2000, protein: '125g', carbs: '225g', fat: '55g' };
+
+export class DietGenerationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DietGenerationError';
+  }
+}
+
+const TEMPLATES: Record<MealKind, MealTemplate[]> = {
+  breakfast: [
+    { name: 'Protein Oats with Blueberries', description: 'Oats cooked in milk, stirred with protein powder and topped with berries.', ingredients: [['rolled-oats', 80], ['milk', 250], ['whey-protein', 30], ['blueberries', 100]] },
+    { name: 'Eggs on Toast', description: 'Scrambled eggs on wholegrain toast with wilted spinach and tomato.', ingredients: [['egg', 150], ['wholegrain-bread', 70], ['spinach', 60], ['tomato', 100]] },
+    { name: 'Greek Yogurt Bowl', description: 'Greek yogurt with strawberries, oats, almonds and a drizzle of honey.', ingredients: [['greek-yogurt', 250], ['strawberries', 150], ['rolled-oats', 40], ['almonds', 20], ['honey', 10]] },
+    { name: 'Tofu Scramble Wrap', description: 'Tofu scrambled with peppers and spinach, wrapped in a tortilla.', ingredients: [['tofu', 150], ['tortilla', 45], ['bell-pepper', 80], ['spinach', 50], ['olive-oil', 5]] },
+    { name: 'Peanut Butter Banana Toast', description: 'Wholegrain toast spread with peanut butter and topped with sliced banana.', ingredients: [['wholegrain-bread', 70], ['peanut-butter', 32], ['banana', 118]] },
+    { name: 'Chia Pudding', description: 'Chia seeds and oats soaked overnight in soy milk, topped with strawberries.', ingredients: [['soy-milk', 250], ['chia-seeds', 30], ['rolled-oats', 40], ['strawberries', 150]] },
+    { name: 'Sweet Potato Hash', description: 'Pan-fried sweet potato with peppers, onion and black beans.', ingredients: [['sweet-potato', 250], ['black-beans', 120], ['bell-pepper', 80], ['onion', 50], ['olive-oil', 10]] },
+  ],
+  lunch: [
+    { name: 'Chicken & Brown Rice Bowl', description: 'Grilled chicken over brown rice with steamed broccoli.', ingredients: [['chicken-breast', 150], ['brown-rice', 200], ['broccoli', 150], ['olive-oil', 10]] },
+    { name: 'Tuna Salad Wraps', description: 'Tuna, greens, tomato and avocado in two wraps.', ingredients: [['tuna-canned', 120], ['tortilla', 90], ['mixed-greens', 60], ['tomato', 100], ['avocado', 50]] },
+    { name: 'Lentil & Quinoa Salad', description: 'Lentils and quinoa with cucumber, tomato and an olive oil dressing.', ingredients: [['lentils', 200], ['quinoa', 150], ['cucumber', 100], ['tomato', 100], ['olive-oil', 10]] },
+    { name: 'Black Bean Burrito Bowl', description: 'Black beans and brown rice with peppers, tomato and avocado.', ingredients: [['black-beans', 200], ['brown-rice', 150], ['bell-pepper', 80], ['tomato', 80], ['avocado', 60]] },
+    { name: 'Tempeh Quinoa Bowl', description: 'Pan-fried tempeh over quinoa with spinach and grated carrot.', ingredients: [['tempeh', 120], ['quinoa', 150], ['spinach', 60], ['carrot', 80], ['olive-oil', 5]] },
+    { name: 'Turkey & Hummus Sandwich', description: 'Turkey, hummus and salad on wholegrain bread, with an apple.', ingredients: [['turkey-breast', 100], ['wholegrain-bread', 105], ['hummus', 40], ['mixed-greens', 40], ['tomato', 80], ['apple', 180]] },
+  ],
+  dinner: [
+    { name: 'Salmon with Sweet Potato', description: 'Baked salmon with roasted sweet potato and green beans.', ingredients: [['salmon', 150], ['sweet-potato', 250], ['green-beans', 150]] },
+    { name: 'Beef Bolognese', description: 'Lean beef, mushroom and tomato sauce over pasta.', ingredients: [['lean-beef-mince', 120], ['pasta', 200], ['tomato', 150], ['onion', 50], ['mushrooms', 80], ['olive-oil', 5]] },
+    { name: 'Chickpea & Spinach Curry', description: 'Chickpeas simmered with onion and spinach, served with rice.', ingredients: [['chickpeas', 200], ['white-rice', 180], ['spinach', 100], ['onion', 60], ['olive-oil', 10]] },
+    { name: 'Shrimp Stir-Fry', description: 'Shrimp and mixed vegetables stir-fried and served over rice.', ingredients: [['shrimp', 150], ['white-rice', 200], ['frozen-mixed-veg', 200], ['olive-oil', 10]] },
+    { name: 'Tofu Stir-Fry', description: 'Crispy tofu and mixed vegetables stir-fried and served over brown rice.', ingredients: [['tofu', 200], ['brown-rice', 180], ['frozen-mixed-veg', 200], ['olive-oil', 10]] },
+    { name: 'Stuffed Sweet Potato', description: 'Baked sweet potato filled with black beans, spinach and avocado.', ingredients: [['sweet-potato', 300], ['black-beans', 150], ['spinach', 60], ['avocado', 50]] },
+    { name: 'Cod with Potatoes', description: 'Baked cod with potatoes and buttered broccoli.', ingredients: [['cod', 180], ['potato', 300], ['broccoli', 150], ['butter', 10]] },
+  ],
+  snack: [
+    { name: 'Apple & Peanut Butter', description: 'Apple slices with peanut butter.', ingredients: [['apple', 180], ['peanut-butter', 32]] },
+    { name: 'Cottage Cheese & Berries', description: 'Low-fat cottage cheese topped with blueberries.', ingredients: [['cottage-cheese', 200], ['blueberries', 100]] },
+    { name: 'Banana Protein Shake', description: 'Protein powder blended with milk and a banana.', ingredients: [['whey-protein', 30], ['milk', 200], ['banana', 118]] },
+    { name: 'Hummus & Veggies', description: 'Hummus with carrot sticks and rice cakes.', ingredients: [['hummus', 80], ['carrot', 150], ['rice-cakes', 18]] },
+    { name: 'Rice Cakes with Avocado', description: 'Rice cakes topped with mashed avocado and tomato.', ingredients: [['rice-cakes', 27], ['avocado', 70], ['tomato', 60]] },
+    { name: 'Edamame & Orange', description: 'Steamed edamame and an orange.', ingredients: [['edamame', 150], ['orange', 130]] },
+  ],
+};
+
+const kindOf = (slot: MealSlot): MealKind => (slot === 'secondSnack' ? 'snack' : slot);
+
+const roundTo5 = (grams: number) => Math.max(5, Math.round(grams / 5) * 5);
+
+const proteinDensity = (food: FoodItem) => food.per100g.protein / Math.max(1, food.per100g.calories);
+
+// The allowed food from the same category closest in protein per calorie, so a swap keeps the
+// meal's character: chicken becomes tofu or tempeh rather than rice.
+const substituteFor = (food: FoodItem, prefs: DietPreferences): FoodItem | null =>
+  FOOD_DATABASE
+    .filter(f => f.category === food.category && f.id !== food.id && isFoodAllowed(f, prefs))
+    .sort((a, b) => Math.abs(proteinDensity(a) - proteinDensity(food)) - Math.abs(proteinDensity(b) - proteinDensity(food)))[0] ?? null;
+
+// Fewer templates than this that fit as they are, and adapted ones are mixed in for variety.
+const MIN_VARIETY = 3;
+
+/** Adds up the grams of an ingredient that appears twice, e.g. after two foods got the same substitute. */
+const mergeIngredients = (ingredients: [string, number][]): [string, number][] => {
+  const grams = new Map<string, number>();
+  ingredients.forEach(([id, g]) => grams.set(id, (grams.get(id) ?? 0) + g));
+  return [...grams];
+};
+
+/**
+ * Templates for a kind of meal that suit the preferences. Those that fit as they are come
+ * first; when there are too few for variety, templates that fit once disallowed ingredients
+ * are substituted (noted in the description) are added. Templates that only fit by leaving
+ * an ingredient out are a last resort, used when nothing else does.
+ */
+export const mealTemplatesFor = (kind: MealKind, prefs: DietPreferences): MealTemplate[] => {
+  const fits: MealTemplate[] = [];
+  const substituted: MealTemplate[] = [];
+  const reduced: MealTemplate[] = [];
+  TEMPLATES[kind].forEach(template => {
+    const notes: string[] = [];
+    let dropped = false;
+    const ingredients = template.ingredients.flatMap(([id, grams]): [string, number][] => {
+      const food = getFood(id)!;
+      if (isFoodAllowed(food, prefs)) return [[id, grams]];
+      const substitute = substituteFor(food, prefs);
+      if (!substitute) {
+        dropped = true;
+        notes.push(`without ${food.name}`);
+        return [];
+      }
+      notes.push(`${substitute.name} instead of ${food.name}`);
+      return [[substitute.id, grams]];
+    });
+    if (ingredients.length === 0) return;
+    if (notes.length === 0) {
+      fits.push(template);
+      return;
+    }
+    const adapted = { ...template, description: `${template.description} Made with ${notes.join(', ')}.`, ingredients: mergeIngredients(ingredients) };
+    (dropped ? reduced : substituted).push(adapted);
+  });
+  if (fits.length >= MIN_VARIETY) return fits;
+  const usable = [...fits, ...substituted];
+  return usable.length > 0 ? usable : reduced;
+};
+
+/** A template cooked to a calorie target: every ingredient is scaled by the same factor. */
+export const buildMeal = (template: MealTemplate, calories: number): Meal => {
+  const base = withComputedNutrients({
+    name: template.name,
+    description: template.description,
+    calories: 0,
+    ingredients: template.ingredients.map(([foodId, grams]) => ({ foodId, name: getFood(foodId)!.name, grams })),
+  });
+  const scale = base.calories > 0 ? calories / base.calories : 1;
+  return withComputedNutrients({
+    ...base,
+    ingredients: base.ingredients!.map(i => ({ ...i, grams: roundTo5(i.grams * scale) })),
+  });
+};
+
+/**
+ * Builds a week of meals from the bundled food database, without a network connection. Each
+ * day rotates through the meal templates that suit the user's dietary restrictions, allergens
+ * and dislikes, and scales their portions to the calorie target computed from the profile and
+ * the workout plan. Throws DietGenerationError when no meal fits the preferences.
+ */
+export const generateTemplateDietPlan = (userData: UserData, workoutPlan: GeneratedPlan | null): GeneratedDietPlan => {
+  const targets = computeDietTargets(userData, workoutPlan) ?? FALLBACK_TARGETS;
+  const prefs = preferencesOf(userData);
+  const slots = mealSlotsFor(userData.mealsPerDay ?? DEFAULT_MEALS_PER_DAY);
+  const shares = MEAL_SHARES[slots.length];
+
+  const options = Object.fromEntries(slots.map(slot => [slot, mealTemplatesFor(kindOf(slot), prefs)])) as Record<MealSlot, MealTemplate[]>;
+  const empty = slots.find(slot => options[slot].length === 0);
+  if (empty) {
+    throw new DietGenerationError(`None of the ${kindOf(empty)} options in the food database fit your dietary preferences.`);
+  }
+
+  const plan: DailyDiet[] = DAYS.map((day, dayIndex) => {
+    const meals = Object.fromEntries(slots.map(slot => {
+      // Offset the second snack so a five-meal day does not repeat the first one.
+      const choices = options[slot];
+      const index = (dayIndex + (slot === 'secondSnack' ? 2 : 0)) % choices.length;
+      return [slot, buildMeal(choices[index], targets.dailyCalories * shares[slot]!)];
+    })) as DailyDiet['meals'];
+    return { day, meals, dailyTotals: dailyTotalsOf(Object.values(meals) as Meal[]) };
+  });
+
+  return {
+    summary: `A 7-day meal plan with ${slots.length} meals a day at about ${targets.dailyCalories} kcal for ${userData.goal || 'general fitness'}, `
+      + `with every portion weighed out so the calories and macros are calculated, not estimated.`,
+    overallTargets: targets,
+    plan,
+    disclaimer: 'This plan is for general guidance only. Consult a healthcare professional before making dietary changes.',
+  };
+};
@@ -0,0 +1,176 @@
+import { DailyWorkout, Exercise, GeneratedPlan, MuscleGroup, UserData } from '../types';
+import { EXERCISE_LIBRARY, EquipmentTag, LibraryExercise, TrainingGroup, musclesOf } from '../data/exerciseLibrary';
+import { parseDurationMinutes } from './planValidation';
+import { parseWeight } from './units';
+import { checkLibraryExercise } from './limitations';
+
+interface SessionTemplate {
+  focus: string;
+  groups: TrainingGroup[];
+}
+
+interface RepScheme {
+  sets: number;
+  reps: string;
+  accessoryReps: string;
+}
+
+const FULL_BODY: SessionTemplate = { focus: 'Full Body', groups: ['Legs', 'Chest', 'Back', 'Shoulders', 'Core'] };
+const UPPER: SessionTemplate = { focus: 'Upper Body', groups: ['Chest', 'Back', 'Shoulders', 'Arms'] };
+const LOWER: SessionTemplate = { focus: 'Lower Body & Core', groups: ['Legs', 'Glutes', 'Core'] };
+const PUSH: SessionTemplate = { focus: 'Push (Chest, Shoulders, Triceps)', groups: ['Chest', 'Shoulders', 'Arms'] };
+const PULL: SessionTemplate = { focus: 'Pull (Back, Biceps)', groups: ['Back', 'Arms', 'Core'] };
+const LEGS: SessionTemplate = { focus: 'Legs & Glutes', groups: ['Legs', 'Glutes', 'Core'] };
+
+const MINUTES_PER_SET = 2.5; // work plus rest
+const WARM_UP_MINUTES = 8;
+const DEFAULT_SESSION_MINUTES = 60;
+
+// Training split by number of sessions per week. Beginners stay on full body up to three days.
+const chooseSplit = (days: number, level: number): SessionTemplate[] => {
+  if (days <= 1 || (level === 1 && days <= 3)) return Array(days).fill(FULL_BODY);
+  switch (days) {
+    case 2: return [UPPER, LOWER];
+    case 3: return [PUSH, PULL, LEGS];
+    case 4: return [UPPER, LOWER, UPPER, LOWER];
+    case 5: return [PUSH, PULL, LEGS, UPPER, LOWER];
+    default: return [PUSH, PULL, LEGS, PUSH, PULL, LEGS, FULL_BODY].slice(0, days);
+  }
+};
+
+const levelOf = (fitnessLevel: string): 1 | 2 | 3 => {
+  const level = fitnessLevel.toLowerCase();
+  if (level.includes('advanced')) return 3;
+  if (level.includes('intermediate')) return 2;
+  return 1;
+};
+
+const repSchemeFor = (goal: string, level: number): RepScheme => {
+  const g = goal.toLowerCase();
+  const extraSet = level === 3 ? 1 : 0;
+  if (g.includes('strength')) return { sets: 4 + extraSet, reps: '4-6', accessoryReps: '8-10' };
+  if (/muscle|build|hypertrophy|bulk|gain/.test(g)) return { sets: 3 + extraSet, reps: '8-12', accessoryReps: '10-15' };
+  if (/lose|loss|fat|lean|tone|weight/.test(g)) return { sets: 3, reps: '12-15', accessoryReps: '15-20' };
+  if (/endurance|stamina|cardio/.test(g)) return { sets: 3, reps: '15-20', accessoryReps: '20-25' };
+  return { sets: 3, reps: '10-12', accessoryReps: '12-15' };
+};
+
+export const equipmentFromText = (equipment: string): Set<EquipmentTag> => {
+  const e = equipment.toLowerCase();
+  const tags = new Set<EquipmentTag>(['bodyweight']);
+  if (/full gym|gym|commercial/.test(e)) {
+    (['dumbbell', 'barbell', 'bench', 'machine', 'cable', 'kettlebell', 'band', 'pullup-bar'] as EquipmentTag[]).forEach(t => tags.add(t));
+  }
+  if (e.includes('dumbbell')) tags.add('dumbbell');
+  if (e.includes('barbell')) tags.add('barbell');
+  if (e.includes('bench')) tags.add('bench');
+  if (e.includes('kettlebell')) tags.add('kettlebell');
+  if (e.includes('band')) tags.add('band');
+  if (e.includes('cable')) tags.add('cable');
+  if (e.includes('machine')) tags.add('machine');
+  if (/pull.?up|chin.?up/.test(e)) tags.add('pullup-bar');
+  // A home setup with dumbbells usually has something to press from.
+  if (/home/.test(e) && tags.has('dumbbell')) tags.add('bench');
+  return tags;
+};
+
+const isLoaded = (e: LibraryExercise) => (e.equipment.includes('bodyweight') ? 0 : 1);
+
+const pickExercises = (
+  group: TrainingGroup,
+  available: Set<EquipmentTag>,
+  level: number,
+  count: number,
+  rotation: number,
+  userData: UserData,
+): LibraryExercise[] => {
+  const candidates = EXERCISE_LIBRARY
+    .filter(e => e.group === group && e.difficulty <= level && e.equipment.every(t => available.has(t)))
+    // Never pick what the user's limitations rule out; flagged exercises are still allowed.
+    .filter(e => checkLibraryExercise(e, userData)?.severity !== 'avoid')
+    // Loaded and compound movements first, so limited sessions keep the most productive work.
+    .sort((a, b) => Number(b.compound) - Number(a.compound) || isLoaded(b) - isLoaded(a));
+  if (candidates.length === 0) return [];
+  const start = rotation % candidates.length;
+  const rotated = [...candidates.slice(start), ...candidates.slice(0, start)];
+  return rotated.slice(0, Math.min(count, candidates.length));
+};
+
+const toExercise = (entry: LibraryExercise, scheme: RepScheme, isFirst: boolean, level: number): Exercise => ({
+  exerciseId: entry.id,
+  name: entry.name,
+  sets: String(isFirst ? scheme.sets : Math.max(2, scheme.sets - 1)),
+  reps: entry.timed ? `${20 + level * 10} seconds` : (entry.compound ? scheme.reps : scheme.accessoryReps),
+  description: entry.instructions.join(' '),
+  targetMuscles: musclesOf(entry),
+});
+
+// Used for calorie estimates when the profile's weight cannot be read.
+const DEFAULT_WEIGHT_KG = 70;
+
+// MET of about 5 for general resistance training: kcal = MET * kg * hours.
+const estimateCalories = (minutes: number, weightKg: number) => Math.round(5 * weightKg * (minutes / 60));
+
+const countSets = (groups: MuscleGroup[]) =>
+  groups.reduce((sum, g) => sum + g.exercises.reduce((s, e) => s + (parseInt(e.sets, 10) || 0), 0), 0);
+
+const buildSession = (
+  dayName: string,
+  template: SessionTemplate,
+  userData: UserData,
+  occurrence: number, // how many earlier sessions this week used the same template
+): DailyWorkout => {
+  const level = levelOf(userData.fitnessLevel);
+  const scheme = repSchemeFor(userData.goal, level);
+  const available = equipmentFromText(userData.equipment);
+  const maxMinutes = parseDurationMinutes(userData.maxSessionTime) ?? DEFAULT_SESSION_MINUTES;
+  const perGroup = level === 1 ? 1 : 2;
+
+  let muscleGroups: MuscleGroup[] = template.groups
+    .map(group => ({
+      name: group,
+      exercises: pickExercises(group, available, level, group === 'Core' ? 1 : perGroup, occurrence, userData)
+        .map((entry, i) => toExercise(entry, scheme, i === 0, level)),
+    }))
+    .filter(group => group.exercises.length > 0);
+
+  // Trim the last accessory work until the session fits the time the user has.
+  const minutesFor = (groups: MuscleGroup[]) => WARM_UP_MINUTES + countSets(groups) * MINUTES_PER_SET;
+  while (minutesFor(muscleGroups) > maxMinutes && countSets(muscleGroups) > 0) {
+    const trimmable = [...muscleGroups].reverse().find(g => g.exercises.length > 1) ?? muscleGroups[muscleGroups.length - 1];
+    if (muscleGroups.length === 1 && trimmable.exercises.length === 1) break;
+    trimmable.exercises = trimmable.exercises.slice(0, -1);
+    muscleGroups = muscleGroups.filter(g => g.exercises.length > 0);
+  }
+
+  const minutes = Math.min(maxMinutes, Math.round(minutesFor(muscleGroups) / 5) * 5);
+  return {
+    day: dayName,
+    focus: template.focus,
+    approximateTime: `${minutes} minutes`,
+    caloriesBurned: estimateCalories(minutes, parseWeight(userData.weight, userData.units) ?? DEFAULT_WEIGHT_KG),
+    muscleGroups,
+  };
+};
+
+/**
+ * Builds a complete plan from the bundled exercise library without any network call.
+ * The same inputs always produce the same plan.
+ */
+export const generateTemplatePlan = (userData: UserData): GeneratedPlan => {
+  const level = levelOf(userData.fitnessLevel);
+  const split = chooseSplit(userData.freeDays.length, level);
+  const plan = userData.freeDays.map((day, i) =>
+    buildSession(day, split[i], userData, split.slice(0, i).filter(t => t === split[i]).length));
+  const totalMinutes = plan.reduce((sum, d) => sum + (parseDurationMinutes(d.approximateTime) ?? 0), 0);
+  const hours = Math.floor(totalMinutes / 60);
+  const rest = totalMinutes % 60;
+
+  return {
+    plan,
+    summary: `A ${plan.length}-day ${split[0] === FULL_BODY ? 'full body' : 'split'} routine for ${userData.goal || 'general fitness'}, `
+      + `built from exercises that match your equipment (${userData.equipment || 'bodyweight'}) and ${userData.fitnessLevel || 'beginner'} experience.`,
+    totalWeeklyTime: hours > 0 ? `${hours} hours${rest ? ` ${rest} minutes` : ''}` : `${rest} minutes`,
+    totalWeeklyCaloriesBurned: plan.reduce((sum, d) => sum + d.caloriesBurned, 0),
+  };
+};
@@ -0,0 +1,102 @@
+import { UnitSystem, UserData } from '../types';
+
+export const KG_PER_LB = 0.45359237;
+export const CM_PER_IN = 2.54;
+const LB_PER_STONE = 14;
+const IN_PER_FT = 12;
+
+// Plausible adult ranges; anything outside is far more likely a typo or the wrong unit.
+const WEIGHT_RANGE_KG = [25, 400];
+const HEIGHT_RANGE_CM = [100, 250];
+
+const NUM = String.raw`(\d+(?:[.,]\d+)?)`;
+const toNumber = (text: string) => parseFloat(text.replace(',', '.'));
+const inRange = (value: number, [min, max]: number[]) => (value >= min && value <= max ? value : null);
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const KG = new RegExp(`^${NUM} ?(kg|kgs|kilos?|kilograms?)?$`);
+const LB = new RegExp(`^${NUM} ?(lb|lbs|pounds?)$`);
+const STONE = new RegExp(`^${NUM} ?(?:st|stone)(?: ?${NUM} ?(?:lb|lbs|pounds?)?)?$`);
+
+/**
+ * Reads a body weight as typed: "80", "80.5 kg", "176 lbs" or "12 st 4 lb". A bare number is
+ * taken to be in `system`'s unit. Returns kilograms, or null when the text is not a plausible
+ * weight.
+ */
+export const parseWeight = (text: string, system: UnitSystem = 'metric'): number | null => {
+  const t = normalize(text);
+  let match = t.match(LB);
+  if (match) return inRange(toNumber(match[1]) * KG_PER_LB, WEIGHT_RANGE_KG);
+  match = t.match(STONE);
+  if (match) return inRange((toNumber(match[1]) * LB_PER_STONE + (match[2] ? toNumber(match[2]) : 0)) * KG_PER_LB, WEIGHT_RANGE_KG);
+  match = t.match(KG);
+  if (!match) return null;
+  const value = toNumber(match[1]);
+  return inRange(!match[2] && system === 'imperial' ? value * KG_PER_LB : value, WEIGHT_RANGE_KG);
+};
+
+const CM = new RegExp(`^${NUM} ?(cm|centimet(?:er|re)s?)?$`);
+const METRES = new RegExp(`^${NUM} ?(m|met(?:er|re)s?)$`);
+const INCHES = new RegExp(`^${NUM} ?(in|inch|inches|"|'')$`);
+const FEET_INCHES = new RegExp(`^${NUM} ?(?:'|ft|feet|foot)(?: ?${NUM} ?(?:"|''|in|inch|inches)?)?$`);
+
+/**
+ * Reads a length such as a waist measurement: "82", "82 cm", "0.82 m", "32 in", `32"` or
+ * `2' 8"`. A bare number is taken to be in `system`'s unit (cm or inches). Returns
+ * centimetres, or null when the text cannot be read.
+ */
+export const parseLength = (text: string, system: UnitSystem = 'metric'): number | null => {
+  const t = normalize(text);
+  let match = t.match(FEET_INCHES);
+  if (match) return (toNumber(match[1]) * IN_PER_FT + (match[2] ? toNumber(match[2]) : 0)) * CM_PER_IN;
+  match = t.match(INCHES);
+  if (match) return toNumber(match[1]) * CM_PER_IN;
+  match = t.match(METRES);
+  if (match) return toNumber(match[1]) * 100;
+  match = t.match(CM);
+  if (!match) return null;
+  const value = toNumber(match[1]);
+  return !match[2] && system === 'imperial' ? value * CM_PER_IN : value;
+};
+
+/** Like parseLength, but a bare number under 3 is read as metres ("1.80") and the result must be a plausible height. */
+export const parseHeight = (text: string, system: UnitSystem = 'metric'): number | null => {
+  const t = normalize(text);
+  const bare = /^\d+(?:[.,]\d+)?$/.test(t) ? toNumber(t) : null;
+  const cm = bare !== null && bare < 3 ? bare * 100 : parseLength(t, system);
+  return cm === null ? null : inRange(cm, HEIGHT_RANGE_CM);
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export const weightUnit = (system: UnitSystem = 'metric') => (system === 'imperial' ? 'lb' : 'kg');
+export const lengthUnit = (system: UnitSystem = 'metric') => (system === 'imperial' ? 'in' : 'cm');
+
+/** Kilograms in `system`'s unit, to one decimal place. */
+export const weightIn = (kg: number, system: UnitSystem = 'metric') => round1(system === 'imperial' ? kg / KG_PER_LB : kg);
+/** A weight given in `system`'s unit, in kilograms. */
+export const weightToKg = (value: number, system: UnitSystem = 'metric') => (system === 'imperial' ? value * KG_PER_LB : value);
+/** Centimetres in `system`'s unit, to one decimal place. */
+export const lengthIn = (cm: number, system: UnitSystem = 'metric') => round1(system === 'imperial' ? cm / CM_PER_IN : cm);
+
+export const formatWeight = (kg: number, system?: UnitSystem) => `${weightIn(kg, system)} ${weightUnit(system)}`;
+export const formatLength = (cm: number, system?: UnitSystem) => `${lengthIn(cm, system)} ${lengthUnit(system)}`;
+
+export const formatHeight = (cm: number, system: UnitSystem = 'metric') => {
+  if (system === 'metric') return `${Math.round(cm)} cm`;
+  const inches = Math.round(cm / CM_PER_IN);
+  return `${Math.floor(inches / IN_PER_FT)}' ${inches % IN_PER_FT}"`;
+};
+
+/**
+ * The profile's weight and height as plain kg and cm numbers, for code that expects metric
+ * text (BMI, the plan providers). Text that cannot be read is passed through unchanged.
+ */
+export const metricBodyStats = (userData: UserData): { weight: string; height: string } => {
+  const kg = parseWeight(userData.weight, userData.units);
+  const cm = parseHeight(userData.height, userData.units);
+  return {
+    weight: kg === null ? userData.weight : String(round1(kg)),
+    height: cm === null ? userData.height : String(Math.round(cm)),
+  };
+};
@@ -0,0 +1,98 @@
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult<T> {
+  value: T | null;
+  errors: ValidationIssue[];
+  repairs: ValidationIssue[]; // problems that were fixed in place, kept for logging
+}
+
+export class PlanValidationError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(kind: string, issues: ValidationIssue[]) {
+    const shown = issues.slice(0, 3).map(i => `${i.path}: ${i.message}`).join('; ');
+    const more = issues.length > 3 ? ` (and ${issues.length - 3} more)` : '';
+    super(`The generated ${kind} was invalid: ${shown}${more}.`);
+    this.name = 'PlanValidationError';
+    this.issues = issues;
+  }
+}
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Collects errors and in-place repairs while a validator walks untrusted JSON. Every check
+ * records what it found under the given path and returns a usable value either way.
+ */
+export class Checker {
+  errors: ValidationIssue[] = [];
+  repairs: ValidationIssue[] = [];
+
+  error(path: string, message: string) {
+    this.errors.push({ path, message });
+  }
+
+  repair(path: string, message: string) {
+    this.repairs.push({ path, message });
+  }
+
+  isObject(value: unknown, path: string): value is Record<string, unknown> {
+    if (isRecord(value)) return true;
+    this.error(path, 'expected an object');
+    return false;
+  }
+
+  array(value: unknown, path: string): unknown[] | null {
+    if (Array.isArray(value)) return value;
+    this.error(path, 'expected a list');
+    return null;
+  }
+
+  requiredString(value: unknown, path: string): string {
+    if (typeof value === 'string' && value.trim()) return value.trim();
+    if (typeof value === 'number') {
+      this.repair(path, 'converted number to text');
+      return String(value);
+    }
+    this.error(path, 'is missing');
+    return '';
+  }
+
+  optionalString(value: unknown, path: string, fallback = ''): string {
+    if (typeof value === 'string') return value.trim();
+    if (typeof value === 'number') return String(value);
+    if (value !== undefined && value !== null) this.repair(path, 'replaced non-text value');
+    return fallback;
+  }
+
+  number(value: unknown, path: string, fallback: number | null = null): number {
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    if (typeof value === 'string') {
+      const match = value.replace(/,/g, '').match(/-?\d+(\.\d+)?/);
+      if (match) {
+        this.repair(path, `converted "${value}" to a number`);
+        return parseFloat(match[0]);
+      }
+    }
+    if (fallback !== null) {
+      this.repair(path, `missing number, defaulted to ${fallback}`);
+      return fallback;
+    }
+    this.error(path, 'expected a number');
+    return 0;
+  }
+
+  stringList(value: unknown, path: string): string[] {
+    if (Array.isArray(value)) return value.map(v => String(v).trim()).filter(Boolean);
+    if (typeof value === 'string') {
+      this.repair(path, 'split comma-separated text into a list');
+      return value.split(',').map(v => v.trim()).filter(Boolean);
+    }
+    this.repair(path, 'missing, defaulted to an empty list');
+    return [];
+  }
+}
@@ -0,0 +1,184 @@
+import { DailyWorkout, ExerciseLog, SetLog, WorkoutPlayerSettings } from '../types';
+import { EquipmentTag, EXERCISE_LIBRARY, getLibraryExercise, LibraryExercise } from '../data/exerciseLibrary';
+import { createExerciseLogs, isSetCompleted } from './exerciseHistory';
+import { exerciseKey, matchExercise } from './exerciseMatcher';
+import { groupOfMuscle } from './analytics';
+
+export const DEFAULT_PLAYER_SETTINGS: WorkoutPlayerSettings = {
+  compoundRestSeconds: 120,
+  isolationRestSeconds: 60,
+  sound: true,
+  vibration: true,
+};
+
+// Rough time to perform one working set, for estimating how long is left.
+const SECONDS_PER_SET = 40;
+const MAX_SUBSTITUTES = 5;
+
+export interface WorkoutSessionState {
+  logs: ExerciseLog[];
+  exerciseIndex: number;
+  setIndex: number;
+  startedAt: number; // epoch ms
+  /** When the running rest period ends (epoch ms); null while a set is in progress. */
+  restEndsAt: number | null;
+  finished: boolean;
+}
+
+export const startSession = (day: DailyWorkout, now: number = Date.now()): WorkoutSessionState => {
+  const logs = createExerciseLogs(day);
+  return { logs, exerciseIndex: 0, setIndex: 0, startedAt: now, restEndsAt: null, finished: logs.length === 0 };
+};
+
+const libraryEntryOf = (log: ExerciseLog): LibraryExercise | null =>
+  (log.exerciseId && getLibraryExercise(log.exerciseId)) || matchExercise(log.exerciseName);
+
+/** Rest after a set: the longer compound rest for multi-joint lifts, the isolation rest otherwise. */
+export const restSecondsFor = (log: ExerciseLog, settings: WorkoutPlayerSettings): number =>
+  libraryEntryOf(log)?.compound ? settings.compoundRestSeconds : settings.isolationRestSeconds;
+
+export const currentLog = (state: WorkoutSessionState): ExerciseLog | null => state.logs[state.exerciseIndex] ?? null;
+
+/** The next set to do after the current one, or null when it was the last of the session. */
+const nextPosition = (state: WorkoutSessionState) => {
+  const log = state.logs[state.exerciseIndex];
+  if (log && state.setIndex + 1 < log.sets.length) return { exerciseIndex: state.exerciseIndex, setIndex: state.setIndex + 1 };
+  return state.exerciseIndex + 1 < state.logs.length ? { exerciseIndex: state.exerciseIndex + 1, setIndex: 0 } : null;
+};
+
+const updateSet = (logs: ExerciseLog[], exerciseIndex: number, setIndex: number, changes: Partial<SetLog>) =>
+  logs.map((log, i) => i !== exerciseIndex ? log : {
+    ...log,
+    sets: log.sets.map((set, j) => (j === setIndex ? { ...set, ...changes } : set)),
+  });
+
+const advance = (state: WorkoutSessionState, logs: ExerciseLog[], restSeconds: number, now: number): WorkoutSessionState => {
+  const next = nextPosition(state);
+  if (!next) return { ...state, logs, restEndsAt: null, finished: true };
+  return { ...state, logs, ...next, restEndsAt: restSeconds > 0 ? now + restSeconds * 1000 : null };
+};
+
+/** Records the current set as done with what was actually lifted, then rests before the next one. */
+export const completeSet = (
+  state: WorkoutSessionState,
+  result: Pick<SetLog, 'reps' | 'weight' | 'rpe'>,
+  settings: WorkoutPlayerSettings,
+  now: number = Date.now(),
+): WorkoutSessionState => {
+  const log = currentLog(state);
+  if (!log || state.finished) return state;
+  const logs = updateSet(state.logs, state.exerciseIndex, state.setIndex, { ...result, skipped: false });
+  return advance(state, logs, restSecondsFor(log, settings), now);
+};
+
+/** Marks the current set skipped and moves straight on, without a rest. */
+export const skipSet = (state: WorkoutSessionState, now: number = Date.now()): WorkoutSessionState => {
+  if (!currentLog(state) || state.finished) return state;
+  const logs = updateSet(state.logs, state.exerciseIndex, state.setIndex, { skipped: true });
+  return advance(state, logs, 0, now);
+};
+
+const skipRemaining = (log: ExerciseLog, fromSet: number): ExerciseLog => ({
+  ...log,
+  sets: log.sets.map((set, j) => (j >= fromSet ? { ...set, skipped: true } : set)),
+});
+
+/** Skips the rest of the current exercise and starts the next one. */
+export const skipExercise = (state: WorkoutSessionState): WorkoutSessionState => {
+  if (!currentLog(state) || state.finished) return state;
+  const logs = state.logs.map((log, i) => (i === state.exerciseIndex ? skipRemaining(log, state.setIndex) : log));
+  const isLast = state.exerciseIndex + 1 >= logs.length;
+  return { ...state, logs, exerciseIndex: isLast ? state.exerciseIndex : state.exerciseIndex + 1, setIndex: 0, restEndsAt: null, finished: isLast };
+};
+
+/**
+ * Swaps the current exercise for another from the library for its remaining sets. Sets
+ * already done stay logged under the original exercise, so history is not credited to the
+ * wrong lift.
+ */
+export const substituteExercise = (state: WorkoutSessionState, entry: LibraryExercise): WorkoutSessionState => {
+  const log = currentLog(state);
+  if (!log || state.finished) return state;
+  const remaining = log.sets.slice(state.setIndex).map((set, j) => ({
+    ...set,
+    setNumber: j + 1,
+    // The original weight says nothing about a different exercise.
+    weight: null,
+  }));
+  const replacement: ExerciseLog = {
+    exerciseId: entry.id,
+    exerciseName: entry.name,
+    muscleGroup: log.muscleGroup,
+    targetSets: String(remaining.length),
+    targetReps: entry.timed && !/sec|min/i.test(log.targetReps) ? '30 seconds' : log.targetReps,
+    sets: remaining,
+    notes: `Substituted for ${log.exerciseName}.`,
+  };
+
+  if (state.setIndex === 0) {
+    return { ...state, logs: state.logs.map((l, i) => (i === state.exerciseIndex ? replacement : l)), restEndsAt: null };
+  }
+  const logs = [
+    ...state.logs.slice(0, state.exerciseIndex),
+    { ...log, sets: log.sets.slice(0, state.setIndex) },
+    replacement,
+    ...state.logs.slice(state.exerciseIndex + 1),
+  ];
+  return { ...state, logs, exerciseIndex: state.exerciseIndex + 1, setIndex: 0, restEndsAt: null };
+};
+
+export const endRest = (state: WorkoutSessionState): WorkoutSessionState => ({ ...state, restEndsAt: null });
+
+export const extendRest = (state: WorkoutSessionState, seconds: number, now: number = Date.now()): WorkoutSessionState =>
+  state.restEndsAt === null ? state : { ...state, restEndsAt: Math.max(state.restEndsAt, now) + seconds * 1000 };
+
+/** The session's logs for saving: sets not reached before finishing are recorded as skipped. */
+export const finishSession = (state: WorkoutSessionState): ExerciseLog[] =>
+  state.finished
+    ? state.logs
+    : state.logs.map((log, i) => (i < state.exerciseIndex ? log : skipRemaining(log, i === state.exerciseIndex ? state.setIndex : 0)));
+
+/** Seconds the remaining sets and rests should take at the configured rest times. */
+export const estimateRemainingSeconds = (state: WorkoutSessionState, settings: WorkoutPlayerSettings): number => {
+  if (state.finished) return 0;
+  return state.logs.slice(state.exerciseIndex).reduce((total, log, i) => {
+    const sets = log.sets.length - (i === 0 ? state.setIndex : 0);
+    return total + sets * (SECONDS_PER_SET + restSecondsFor(log, settings));
+  }, 0);
+};
+
+export interface SessionSummary {
+  completedSets: number;
+  skippedSets: number;
+  volume: number; // kg x reps
+}
+
+export const summarizeSession = (logs: ExerciseLog[]): SessionSummary => {
+  const sets = logs.flatMap(l => l.sets);
+  const completed = sets.filter(isSetCompleted);
+  return {
+    completedSets: completed.length,
+    skippedSets: sets.filter(s => s.skipped).length,
+    volume: completed.reduce((sum, s) => sum + (s.reps ?? 0) * (s.weight ?? 0), 0),
+  };
+};
+
+/**
+ * Library exercises to do instead of the current one: same training group and at least one
+ * shared primary muscle when the exercise is in the library, doable with the user's
+ * equipment, and not already part of the session. Closest difficulty first.
+ */
+export const substitutesFor = (
+  log: ExerciseLog,
+  available: Set<EquipmentTag>,
+  session: ExerciseLog[],
+): LibraryExercise[] => {
+  const entry = libraryEntryOf(log);
+  const group = entry?.group ?? groupOfMuscle(log.muscleGroup);
+  const inSession = new Set(session.map(l => exerciseKey(l.exerciseName, l.exerciseId)));
+  return EXERCISE_LIBRARY
+    .filter(e => !inSession.has(e.id) && e.equipment.every(tag => available.has(tag)))
+    .filter(e => entry ? e.primaryMuscles.some(m => entry.primaryMuscles.includes(m)) : e.group === group)
+    .sort((a, b) => Math.abs(a.difficulty - (entry?.difficulty ?? 1)) - Math.abs(b.difficulty - (entry?.difficulty ?? 1)))
+    .slice(0, MAX_SUBSTITUTES);
+};
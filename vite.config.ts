@@ -4,15 +4,24 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // With an API server the key stays server-side; the client only needs a non-null placeholder.
+    const useApiServer = Boolean(env.API_SERVER);
+    const clientApiKey = useApiServer ? '' : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: useApiServer ? { '/api': env.API_SERVER } : undefined,
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(clientApiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(clientApiKey),
+        'process.env.USE_API_SERVER': JSON.stringify(String(useApiServer)),
+        'process.env.PLAN_PROVIDER': JSON.stringify(env.PLAN_PROVIDER),
+        'process.env.LOCAL_LLM_URL': JSON.stringify(env.LOCAL_LLM_URL),
+        'process.env.LOCAL_LLM_MODEL': JSON.stringify(env.LOCAL_LLM_MODEL),
+        'process.env.ENABLE_SERVICE_WORKER': JSON.stringify(String(mode === 'production'))
       },
       resolve: {
         alias: {